@@ -1,22 +1,67 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { Header } from './components/Header';
 import { EventSetupForm } from './components/FestivalSetupForm';
 import { Dashboard } from './components/Dashboard';
 import { TaskDetailModal } from './components/TaskDetailModal';
 import { LoadSessionModal } from './components/LoadSessionModal';
-import { AgentName, Task, Approval, ActivityLog, AgentStatus, TaskStatus, AppState, SavedSession, UserProfile } from './types';
-import { AGENT_NAMES, MAX_TASK_RETRIES } from './constants';
-import { decomposeGoal, executeTask } from './services/geminiService';
-import { createSession, updateSession, getSavedSessions, loadSessionFromFirestore, deleteSession, updateSessionName } from './services/firestoreService';
+import { ShareSessionModal } from './components/ShareSessionModal';
+import { PlanExportModal } from './components/PlanExportModal';
+import { TemplatesModal } from './components/TemplatesModal';
+import { PlannerChat } from './components/PlannerChat';
+import { SendEmailModal } from './components/SendEmailModal';
+import { SchedulePostsModal } from './components/SchedulePostsModal';
+import { AgentDefinition, AgentName, ContentDraft, Task, TaskStatus, AgentStatus, AppState, EventDates, LoadedSessionState, PlanDiff, PlanIssue, PlanTemplate, ProjectCalendar, RegistrationStatus, SavedSession, SessionAccess, SessionRole, SocialChannel, Sponsor, SponsorStage, TeamMember } from './types';
+import { decomposeGoal, executeTask, revisePlan } from './services/geminiService';
+import {
+    createSession,
+    applySessionChanges,
+    subscribeToSession,
+    getSavedSessions,
+    loadSessionFromFirestore,
+    deleteSession,
+    updateSessionName,
+    acceptSessionInvite,
+    claimTask,
+    releaseTaskClaim,
+    migrateLegacySessions,
+    saveTemplate,
+    getTemplates,
+    deleteTemplate,
+    subscribeToRegistration,
+} from './services/firestoreService';
 import { useAuth } from './context/AuthContext';
 import { LoginScreen } from './components/LoginScreen';
 import { FullScreenLoader } from './components/FullScreenLoader';
 import { ConfirmationModal } from './components/ConfirmationModal';
 import { CompleteProfileModal } from './components/CompleteProfileModal';
 import { InstitutionProfile } from './components/InstitutionProfile';
-
-const ResultModal: React.FC<{ task: Task; onClose: () => void; onSave: (newContent: string) => void; }> = React.memo(({ task, onClose, onSave }) => {
+import { RevisionHistory } from './components/RevisionHistory';
+import { orchestrate, OrchestratorEvent, SideEffect, createInitialAppState, createIdleAgentStatus, createIdleAgentWork } from './services/orchestrator';
+import { createEmptyChanges, diffAppState, hasChanges, mergeChanges, mergeRemoteState, StateChanges } from './services/sessionSync';
+import { normalizeCalendar } from './services/calendar';
+import { findAgent, normalizeAgents } from './services/agentRegistry';
+import { getMentionCandidates, getTaskComments } from './services/comments';
+import { ScheduleChange } from './services/ical';
+import { parsePlanFile } from './services/planExport';
+import { normalizePlanDiff } from './services/planDiff';
+import { canSendContent, MailRecipient } from './services/mailMerge';
+import { sendApprovedContent } from './services/mailService';
+import { getDuePosts, splitChannelPosts } from './services/socialPosts';
+import { publishPost } from './services/publishingService';
+import { generateVisualAssets, getPosterDetails, getTaskVisuals } from './services/visualAssets';
+import { createTemplateFromPlan, instantiateTemplate, suggestNextEventStart, TemplateStart } from './services/planTemplates';
+import { DEFAULT_AGENTS, DEFAULT_PROJECT_CALENDAR, SESSION_ROLE_DETAILS } from './constants';
+
+// How often batched changes are written to the shared session.
+const SYNC_INTERVAL_MS = 1000;
+// How long to wait before writing changes again after a failed write.
+const SYNC_RETRY_MS = 5000;
+// How often scheduled posts are checked for any that are due.
+const PUBLISH_CHECK_INTERVAL_MS = 30 * 1000;
+
+const ResultModal: React.FC<{ task: Task; onClose: () => void; onSave: (newContent: string) => void; onRestore: (revisionId: string) => void; onSendEmail: () => void; onSchedulePosts: () => void; canEdit: boolean; }> = React.memo(({ task, onClose, onSave, onRestore, onSendEmail, onSchedulePosts, canEdit }) => {
     const [isEditing, setIsEditing] = useState(false);
+    const [isShowingHistory, setIsShowingHistory] = useState(false);
     const [editableContent, setEditableContent] = useState(task.approvedContent || '');
     const [isResizing, setIsResizing] = useState(false);
 
@@ -56,16 +101,17 @@ const ResultModal: React.FC<{ task: Task; onClose: () => void; onSave: (newConte
             onClick={handleBackdropClick}
         >
             <div 
-                className="bg-secondary rounded-xl shadow-2xl w-full max-w-xl max-h-[80vh] flex flex-col border border-accent transform transition-transform duration-300 scale-95 animate-fadeIn"
+                className={`bg-secondary rounded-xl shadow-2xl w-full ${isShowingHistory ? 'max-w-3xl' : 'max-w-xl'} max-h-[80vh] flex flex-col border border-accent transform transition-transform duration-300 scale-95 animate-fadeIn`}
                 onClick={e => e.stopPropagation()}
                 style={{animationDuration: '0.3s'}}
             >
                 <div className="p-4 border-b border-accent flex justify-between items-center">
-                    <h3 className="text-lg font-bold text-highlight">{isEditing ? 'Edit Result' : 'View Result'}: {task.title}</h3>
+                    <h3 className="text-lg font-bold text-highlight">{isEditing ? 'Edit Result' : isShowingHistory ? 'History' : 'View Result'}: {task.title}</h3>
                     <button onClick={onClose} className="text-text-secondary hover:text-white text-2xl">&times;</button>
                 </div>
                 <div className="p-6 overflow-y-auto">
                      {isEditing ? (
+                        <>
                         <textarea
                             onMouseDown={() => setIsResizing(true)}
                             value={editableContent}
@@ -73,6 +119,15 @@ const ResultModal: React.FC<{ task: Task; onClose: () => void; onSave: (newConte
                             className="w-full h-64 p-3 bg-primary border-2 border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight transition-all text-light whitespace-pre-wrap font-sans text-sm resize-y"
                             aria-label="Editable task result"
                         />
+                        <p className="mt-2 text-xs text-text-secondary">The edited result goes back for approval. Until it is approved, the approved result is the one sent and published.</p>
+                        </>
+                     ) : isShowingHistory ? (
+                        <RevisionHistory
+                            revisions={task.revisions ?? []}
+                            currentContent={task.approvedContent}
+                            onRestore={onRestore}
+                            canRestore={canEdit}
+                        />
                      ) : (
                         <div 
                             onMouseDown={() => setIsResizing(true)}
@@ -102,17 +157,44 @@ const ResultModal: React.FC<{ task: Task; onClose: () => void; onSave: (newConte
                     ) : (
                         <>
                             <button 
-                                onClick={onClose}
-                                className="px-4 py-2 rounded-lg bg-accent text-light hover:bg-accent/80 transition-opacity font-semibold"
+                                onClick={() => setIsShowingHistory(prev => !prev)}
+                                className="mr-auto text-sm font-semibold text-text-secondary hover:text-white"
                             >
-                                Close
+                                {isShowingHistory ? 'Back to Result' : `History (${task.revisions?.length ?? 0})`}
                             </button>
                             <button 
-                                onClick={() => setIsEditing(true)}
-                                className="px-4 py-2 rounded-lg bg-highlight text-white hover:opacity-90 transition-opacity font-semibold"
+                                onClick={onClose}
+                                className="px-4 py-2 rounded-lg bg-accent text-light hover:bg-accent/80 transition-opacity font-semibold"
                             >
-                                Edit Result
+                                Close
                             </button>
+                            {canEdit && !isShowingHistory && canSendContent(task) && splitChannelPosts(task.approvedContent!).length > 0 && (
+                                <button 
+                                    onClick={onSchedulePosts}
+                                    className="px-4 py-2 rounded-lg bg-accent text-light hover:bg-accent/80 transition-opacity font-semibold"
+                                >
+                                    Schedule Posts
+                                </button>
+                            )}
+                            {canEdit && !isShowingHistory && canSendContent(task) && (
+                                <button 
+                                    onClick={onSendEmail}
+                                    className="px-4 py-2 rounded-lg bg-accent text-light hover:bg-accent/80 transition-opacity font-semibold"
+                                >
+                                    Send by Email
+                                </button>
+                            )}
+                            {canEdit && !isShowingHistory && (
+                                <button 
+                                    onClick={() => {
+                                        setEditableContent(task.approvedContent || '');
+                                        setIsEditing(true);
+                                    }}
+                                    className="px-4 py-2 rounded-lg bg-highlight text-white hover:opacity-90 transition-opacity font-semibold"
+                                >
+                                    Edit Result
+                                </button>
+                            )}
                         </>
                     )}
                 </div>
@@ -147,54 +229,249 @@ const getInitialState = <T,>(key: string, defaultValue: T): T => {
     return defaultValue;
 };
 
-// A helper function to find all descendants of a task.
-const getDescendantIds = (parentId: string, allTasks: Task[]): Set<string> => {
-    const descendants = new Set<string>();
-    const queue = allTasks.filter(t => t.parentId === parentId).map(t => t.id);
-    while (queue.length > 0) {
-        const currentId = queue.shift()!;
-        descendants.add(currentId);
-        const children = allTasks.filter(t => t.parentId === currentId);
-        children.forEach(c => queue.push(c.id));
-    }
-    return descendants;
-};
-
-
 const App: React.FC = () => {
-    const { currentUser, loading, isProfileComplete, userProfile } = useAuth();
-    const initialAgentStatus = AGENT_NAMES.reduce((acc, name) => ({...acc, [name]: AgentStatus.IDLE}), {} as Record<AgentName, AgentStatus>);
-    const initialAgentWork = AGENT_NAMES.reduce((acc, name) => ({...acc, [name]: null}), {} as Record<AgentName, string | null>);
-    
-    const [tasks, setTasks] = useState<Task[]>(() => getInitialState('festflow_tasks', []));
-    const [approvals, setApprovals] = useState<Approval[]>(() => getInitialState('festflow_approvals', []));
-    const [logs, setLogs] = useState<ActivityLog[]>(() => getInitialState('festflow_logs', []));
-    const [agentStatus, setAgentStatus] = useState<Record<AgentName, AgentStatus>>(() => getInitialState('festflow_agentStatus', initialAgentStatus));
-    const [agentWork, setAgentWork] = useState<Record<AgentName, string | null>>(() => getInitialState('festflow_agentWork', initialAgentWork));
-    const [isStarted, setIsStarted] = useState<boolean>(() => getInitialState('festflow_isStarted', false));
+    const { currentUser, loading, isProfileComplete, userProfile, uploadTaskAttachment } = useAuth();
+
+    const [appState, setAppState] = useState<AppState>(() => {
+        const agents = normalizeAgents(getInitialState<AgentDefinition[]>('festflow_agents', DEFAULT_AGENTS));
+        return {
+            tasks: getInitialState('festflow_tasks', []),
+            approvals: getInitialState('festflow_approvals', []),
+            logs: getInitialState('festflow_logs', []),
+            agentStatus: getInitialState('festflow_agentStatus', createIdleAgentStatus(agents)),
+            agentWork: getInitialState('festflow_agentWork', createIdleAgentWork(agents)),
+            isStarted: getInitialState('festflow_isStarted', false),
+            calendar: normalizeCalendar(getInitialState<Partial<ProjectCalendar>>('festflow_calendar', DEFAULT_PROJECT_CALENDAR)),
+            eventDates: getInitialState<EventDates | null>('festflow_eventDates', null),
+            team: getInitialState<TeamMember[]>('festflow_team', []),
+            sponsors: getInitialState<Sponsor[]>('festflow_sponsors', []),
+            agents,
+        };
+    });
+    const { tasks, approvals, logs, agentStatus, agentWork, isStarted, calendar, eventDates, team, sponsors, agents } = appState;
     const [currentSessionId, setCurrentSessionId] = useState<string | null>(() => getInitialState('festflow_currentSessionId', null));
     const [projectName, setProjectName] = useState<string | null>(() => getInitialState('festflow_projectName', null));
     const [goalPrompt, setGoalPrompt] = useState<string | null>(() => getInitialState('festflow_goalPrompt', null));
+    // When this browser last read each task's comments, keyed by task ID, for the unread badges.
+    const [commentReads, setCommentReads] = useState<Record<string, string>>(() => getInitialState('festflow_commentReads', {}));
 
 
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [error, setError] = useState<string | null>(null);
     const [selectedTask, setSelectedTask] = useState<Task | null>(null);
     const [viewingResultTask, setViewingResultTask] = useState<Task | null>(null);
+    const [emailingTaskId, setEmailingTaskId] = useState<string | null>(null);
+    const [schedulingTaskId, setSchedulingTaskId] = useState<string | null>(null);
     const progressIntervals = useRef<Record<string, ReturnType<typeof setInterval>>>({});
     const processingTasks = useRef<Set<string>>(new Set());
+    // Scheduled posts this browser is publishing, by post ID.
+    const publishingPosts = useRef<Set<string>>(new Set());
+    // Streaming generations running in this browser, keyed by task ID.
+    const generationControllers = useRef<Record<string, AbortController>>({});
 
     const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
     const [isLoadModalOpen, setIsLoadModalOpen] = useState<boolean>(false);
     const [savedSessions, setSavedSessions] = useState<SavedSession[]>([]);
     const [isLoadingSessions, setIsLoadingSessions] = useState<boolean>(false);
     const [loadSessionsError, setLoadSessionsError] = useState<string | null>(null);
-    const debounceTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
     const [isResetModalOpen, setIsResetModalOpen] = useState(false);
     const [isDeleteCurrentModalOpen, setIsDeleteCurrentModalOpen] = useState(false);
     const [isProfilePageOpen, setIsProfilePageOpen] = useState(false);
+    const [isShareModalOpen, setIsShareModalOpen] = useState(false);
+    const [isExportModalOpen, setIsExportModalOpen] = useState(false);
+    const [isTemplatesModalOpen, setIsTemplatesModalOpen] = useState(false);
+    const [templates, setTemplates] = useState<PlanTemplate[]>([]);
+    // A generated plan whose remaining issues the organizer has to see before it starts.
+    const [pendingPlan, setPendingPlan] = useState<{ goal: string; state: AppState; issues: PlanIssue[] } | null>(null);
+    const [sessionAccess, setSessionAccess] = useState<SessionAccess | null>(null);
+    const [registration, setRegistration] = useState<RegistrationStatus | null>(null);
+    const [hasMigratedSessions, setHasMigratedSessions] = useState(false);
     const generationRequestRef = useRef<number>(0);
 
+    // A plan that has not been saved yet belongs to whoever is creating it. Once it
+    // is shared, the role comes from the session's member list; until that has
+    // loaded the plan is treated as read-only.
+    const sessionRole: SessionRole | null = !currentSessionId
+        ? 'owner'
+        : (currentUser && sessionAccess?.members[currentUser.uid]?.role) || null;
+    const permissions = SESSION_ROLE_DETAILS[sessionRole ?? 'viewer'].permissions;
+    const canWrite = permissions.canEditPlan || permissions.canDecideApprovals;
+
+    // The orchestrator owns all scheduling decisions. This component only stores its
+    // state, feeds it events and executes the side effects it asks for.
+    const stateRef = useRef<AppState>(appState);
+    const effectContextRef = useRef({ userProfile, projectName, registration, uploadTaskAttachment });
+    effectContextRef.current = { userProfile, projectName, registration, uploadTaskAttachment };
+    // The name recorded as the author of edits and approvals in a task's revision history.
+    const actorName = currentUser?.displayName || currentUser?.email || 'An organizer';
+    const actorEmail = currentUser?.email?.toLowerCase() ?? null;
+    // The team member whose sign-offs the user gives under approval policies. In a saved plan
+    // it is the one the owner linked their membership to, as editors can change the roster's
+    // emails; a plan that is not saved yet only has its creator, found by email.
+    const linkedMemberId = currentSessionId
+        ? (currentUser && sessionAccess?.members[currentUser.uid]?.teamMemberId) || null
+        : team.find(m => m.email === actorEmail)?.id ?? null;
+    const approverId = linkedMemberId && team.some(m => m.id === linkedMemberId) ? linkedMemberId : null;
+    const sessionContextRef = useRef({ sessionId: currentSessionId, uid: currentUser?.uid ?? null, actorName, actorEmail, approverId, permissions, canWrite });
+    sessionContextRef.current = { sessionId: currentSessionId, uid: currentUser?.uid ?? null, actorName, actorEmail, approverId, permissions, canWrite };
+
+    // Changes made locally that have not been written to the shared session yet.
+    const pendingChangesRef = useRef<StateChanges>(createEmptyChanges());
+    // Changes being written right now. They count as pending until the write succeeds.
+    const writingChangesRef = useRef<StateChanges>(createEmptyChanges());
+    const syncTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    const replaceState = useCallback((state: AppState) => {
+        stateRef.current = state;
+        setAppState(state);
+    }, []);
+
+    const flushChanges = useCallback(async () => {
+        syncTimer.current = null;
+        const { sessionId, canWrite } = sessionContextRef.current;
+        // Viewers only ever see the shared state; their local changes are dropped.
+        if (!sessionId || !canWrite) {
+            pendingChangesRef.current = createEmptyChanges();
+            return;
+        }
+        // Writes go one at a time; the changes made meanwhile wait for the next one.
+        if (hasChanges(writingChangesRef.current) || !hasChanges(pendingChangesRef.current)) return;
+
+        const changes = pendingChangesRef.current;
+        writingChangesRef.current = changes;
+        pendingChangesRef.current = createEmptyChanges();
+        let delay = SYNC_INTERVAL_MS;
+        try {
+            await applySessionChanges(sessionId, stateRef.current, changes);
+            writingChangesRef.current = createEmptyChanges();
+            setSaveStatus(hasChanges(pendingChangesRef.current) ? 'saving' : 'saved');
+        } catch (error) {
+            console.error("Auto-save failed:", error);
+            writingChangesRef.current = createEmptyChanges();
+            // The plan was closed meanwhile, so its changes have nowhere to go.
+            if (sessionContextRef.current.sessionId !== sessionId) return;
+            // Nothing is lost: the changes are written again with the next attempt.
+            pendingChangesRef.current = mergeChanges(changes, pendingChangesRef.current);
+            setSaveStatus('error');
+            delay = SYNC_RETRY_MS;
+        }
+        if (hasChanges(pendingChangesRef.current) && !syncTimer.current) {
+            syncTimer.current = setTimeout(flushChanges, delay);
+        }
+    }, []);
+
+    const dispatch = useCallback((event: OrchestratorEvent) => {
+        const previousState = stateRef.current;
+        const { state, effects } = orchestrate(previousState, event);
+        if (state !== previousState) {
+            replaceState(state);
+            if (sessionContextRef.current.sessionId && sessionContextRef.current.canWrite) {
+                pendingChangesRef.current = mergeChanges(pendingChangesRef.current, diffAppState(previousState, state));
+                setSaveStatus('saving');
+                if (!syncTimer.current) {
+                    syncTimer.current = setTimeout(flushChanges, SYNC_INTERVAL_MS);
+                }
+            }
+        }
+        effects.forEach(effect => runEffect(effect));
+    }, [replaceState, flushChanges]);
+
+    const runEffect = useCallback(async (effect: SideEffect) => {
+        const { task } = effect;
+        const { sessionId, uid, permissions } = sessionContextRef.current;
+        if (processingTasks.current.has(task.id) || !permissions.canRunAgents) {
+            return;
+        }
+        processingTasks.current.add(task.id);
+
+        // Every organizer with the plan open receives the same effects, so the task
+        // is claimed first to make sure only one browser does the work.
+        if (sessionId && uid) {
+            const isClaimed = await claimTask(sessionId, task.id, uid).catch(e => {
+                console.error("Failed to claim task, running it locally:", e);
+                return true;
+            });
+            if (!isClaimed) {
+                processingTasks.current.delete(task.id);
+                return;
+            }
+        }
+        const releaseTask = () => {
+            processingTasks.current.delete(task.id);
+            if (sessionId) {
+                releaseTaskClaim(sessionId, task.id).catch(e => console.error("Failed to release task claim:", e));
+            }
+        };
+
+        if (effect.type === 'GENERATE_CONTENT') {
+            const { userProfile, projectName, registration, uploadTaskAttachment } = effectContextRef.current;
+            const controller = new AbortController();
+            generationControllers.current[task.id] = controller;
+            const finishGeneration = () => {
+                delete generationControllers.current[task.id];
+                releaseTask();
+            };
+            const agent = findAgent(stateRef.current.agents, task.assignedTo);
+            const onDrafts = (drafts: ContentDraft[]) => {
+                // A cancel in another browser, or a manual completion, only reaches this
+                // browser through the shared state, so check before every update.
+                const current = stateRef.current.tasks.find(t => t.id === task.id);
+                if (current?.status !== TaskStatus.IN_PROGRESS) {
+                    controller.abort();
+                    return;
+                }
+                dispatch({ type: 'CONTENT_STREAMED', taskId: task.id, drafts });
+            };
+            const sponsors = stateRef.current.sponsors.filter(s => task.sponsorIds?.includes(s.id));
+            const visuals = getTaskVisuals(task, agent);
+            executeTask(task, agent, userProfile, projectName, {
+                variantCount: task.variantCount ?? agent?.variantCount,
+                stream: { onDrafts, signal: controller.signal },
+                sponsors,
+                registration,
+            })
+                .then(async drafts => {
+                    // Visuals are designed once the text is written, since they quote it.
+                    const assets = visuals.length > 0
+                        ? await generateVisualAssets(visuals, getPosterDetails(task, drafts[0]?.content ?? '', projectName, stateRef.current.eventDates, userProfile), file => uploadTaskAttachment(file, task.id), controller.signal)
+                        : undefined;
+                    if (controller.signal.aborted) throw new Error("Generation was cancelled.");
+                    finishGeneration();
+                    dispatch({ type: 'CONTENT_GENERATED', taskId: task.id, drafts, assets });
+                })
+                .catch(e => {
+                    finishGeneration();
+                    if (controller.signal.aborted) {
+                        const orphanedDraft = stateRef.current.approvals.find(a => a.taskId === task.id && a.status === 'generating');
+                        if (orphanedDraft) dispatch({ type: 'GENERATION_CANCELLED', approvalId: orphanedDraft.id });
+                        return;
+                    }
+                    const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
+                    dispatch({ type: 'TASK_ERRORED', taskId: task.id, error: errorMessage });
+                });
+            return;
+        }
+
+        const processingTime = 2000 + Math.random() * 3000;
+        const updateInterval = 100;
+        const progressIncrement = 100 / (processingTime / updateInterval);
+
+        if (progressIntervals.current[task.id]) {
+            clearInterval(progressIntervals.current[task.id]);
+        }
+
+        progressIntervals.current[task.id] = setInterval(() => {
+            dispatch({ type: 'WORK_PROGRESSED', taskId: task.id, increment: progressIncrement });
+        }, updateInterval);
+
+        setTimeout(() => {
+            clearInterval(progressIntervals.current[task.id]);
+            delete progressIntervals.current[task.id];
+            releaseTask();
+            dispatch({ type: 'WORK_FINISHED', taskId: task.id });
+        }, processingTime);
+    }, []);
+
     useEffect(() => {
         const themeColorMeta = document.querySelector('meta[name="theme-color"]');
         if (themeColorMeta) {
@@ -217,6 +494,11 @@ const App: React.FC = () => {
             localStorage.setItem('festflow_agentStatus', JSON.stringify(agentStatus));
             localStorage.setItem('festflow_agentWork', JSON.stringify(agentWork));
             localStorage.setItem('festflow_isStarted', JSON.stringify(isStarted));
+            localStorage.setItem('festflow_calendar', JSON.stringify(calendar));
+            localStorage.setItem('festflow_eventDates', JSON.stringify(eventDates));
+            localStorage.setItem('festflow_team', JSON.stringify(team));
+            localStorage.setItem('festflow_sponsors', JSON.stringify(sponsors));
+            localStorage.setItem('festflow_agents', JSON.stringify(agents));
             if (currentSessionId) {
                 localStorage.setItem('festflow_currentSessionId', JSON.stringify(currentSessionId));
             } else {
@@ -235,36 +517,35 @@ const App: React.FC = () => {
         } catch (e) {
             console.error("Failed to save state to local storage", e);
         }
-    }, [tasks, approvals, logs, agentStatus, agentWork, isStarted, currentSessionId, projectName, goalPrompt]);
+    }, [tasks, approvals, logs, agentStatus, agentWork, isStarted, calendar, eventDates, team, sponsors, agents, currentSessionId, projectName, goalPrompt]);
 
-    // Auto-save effect
     useEffect(() => {
-        if (!isStarted || !currentUser || !currentUser.uid || !currentSessionId) {
-            return;
-        }
-
-        setSaveStatus('saving');
-        if (debounceTimer.current) {
-            clearTimeout(debounceTimer.current);
+        try {
+            localStorage.setItem('festflow_commentReads', JSON.stringify(commentReads));
+        } catch (e) {
+            console.error("Failed to save comment read state to local storage", e);
         }
+    }, [commentReads]);
 
-        debounceTimer.current = setTimeout(async () => {
-            try {
-                const currentState: AppState = { tasks, approvals, logs, agentStatus, agentWork, isStarted };
-                await updateSession(currentUser.uid!, currentSessionId, currentState, projectName);
-                setSaveStatus('saved');
-            } catch (error) {
-                console.error("Auto-save failed:", error);
-                setSaveStatus('error');
-            }
-        }, 2000); // 2-second debounce interval
+    // Sessions saved before plans could be shared live under the user's own
+    // document; move them over once per sign-in before following any session.
+    useEffect(() => {
+        if (!currentUser) return;
+        setHasMigratedSessions(false);
+        migrateLegacySessions(currentUser)
+            .catch(e => console.error("Failed to migrate saved sessions:", e))
+            .finally(() => setHasMigratedSessions(true));
+    }, [currentUser]);
 
-        return () => {
-            if (debounceTimer.current) {
-                clearTimeout(debounceTimer.current);
-            }
-        };
-    }, [tasks, approvals, logs, agentStatus, agentWork, isStarted, currentUser, currentSessionId, projectName]);
+    useEffect(() => {
+        if (!currentUser?.uid) {
+            setTemplates([]);
+            return;
+        }
+        getTemplates(currentUser.uid)
+            .then(setTemplates)
+            .catch(e => console.error("Failed to load templates:", e));
+    }, [currentUser]);
 
     useEffect(() => {
         if (selectedTask) {
@@ -277,238 +558,95 @@ const App: React.FC = () => {
         }
     }, [tasks, selectedTask]);
     
-    const addLog = useCallback((agent: AgentName, message: string) => {
-        setLogs(prev => [...prev, { agent, message, timestamp: new Date() }]);
+    const handleCommentsRead = useCallback((taskId: string) => {
+        setCommentReads(prev => ({ ...prev, [taskId]: new Date().toISOString() }));
     }, []);
 
-    const processTask = useCallback(async (task: Task) => {
-        if (processingTasks.current.has(task.id)) {
-            return;
-        }
-    
-        processingTasks.current.add(task.id);
-        addLog(task.assignedTo, `Starting task: "${task.title}"`);
-    
-        const isContentGenerationTask = task.assignedTo === AgentName.SPONSORSHIP_OUTREACH || task.assignedTo === AgentName.MARKETING;
-    
-        try {
-            if (isContentGenerationTask) {
-                addLog(task.assignedTo, `Generating content for "${task.title}"...`);
-                const content = await executeTask(task, userProfile, projectName);
-                
-                setTasks(currentTasks => {
-                    const taskToUpdate = currentTasks.find(t => t.id === task.id);
-    
-                    if (taskToUpdate && taskToUpdate.status === TaskStatus.IN_PROGRESS) {
-                        setApprovals(prevApprovals => {
-                            if (prevApprovals.some(a => a.taskId === task.id && a.status === 'pending')) {
-                                return prevApprovals;
-                            }
-                            return [
-                                ...prevApprovals,
-                                {
-                                    id: `approval-${task.id}-${Date.now()}`,
-                                    taskId: task.id,
-                                    agent: task.assignedTo,
-                                    title: `Approval for: ${task.title}`,
-                                    content: content,
-                                    status: 'pending',
-                                },
-                            ];
-                        });
-    
-                        addLog(task.assignedTo, `Task "${task.title}" requires approval.`);
-                        
-                        return currentTasks.map(t =>
-                            t.id === task.id ? { ...t, status: TaskStatus.AWAITING_APPROVAL, progress: 100, customPrompt: undefined } : t
-                        );
-                    } else {
-                        addLog(AgentName.MASTER_PLANNER, `Discarding generated content for "${task.title}" as it was manually completed or changed.`);
-                        return currentTasks;
-                    }
-                });
-            } else {
-                const processingTime = 2000 + Math.random() * 3000;
-                const updateInterval = 100;
-                const progressSteps = processingTime / updateInterval;
-                let progressIncrement = 100 / progressSteps;
-    
-                if (progressIntervals.current[task.id]) {
-                    clearInterval(progressIntervals.current[task.id]);
-                }
-    
-                progressIntervals.current[task.id] = setInterval(() => {
-                    setTasks(prevTasks =>
-                        prevTasks.map(t =>
-                            t.id === task.id && t.status === TaskStatus.IN_PROGRESS
-                                ? { ...t, progress: Math.min(100, (t.progress || 0) + progressIncrement) }
-                                : t
-                        )
-                    );
-                }, updateInterval);
-    
-                setTimeout(() => {
-                    clearInterval(progressIntervals.current[task.id]);
-                    delete progressIntervals.current[task.id];
-                    setTasks(prev => prev.map(t => (t.id === task.id ? { ...t, progress: 100 } : t)));
-                    addLog(task.assignedTo, `Task "${task.title}" work is finished. Awaiting manual completion.`);
-                }, processingTime);
-            }
-        } catch (e) {
-            const currentRetries = task.retries || 0;
-            const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
-    
-            if (currentRetries < MAX_TASK_RETRIES) {
-                addLog(task.assignedTo, `Error on task "${task.title}": ${errorMessage}. Retrying (${currentRetries + 1}/${MAX_TASK_RETRIES}).`);
-                setTasks(prev => prev.map(t => (t.id === task.id ? { ...t, retries: currentRetries + 1, progress: 0 } : t)));
-                 processingTasks.current.delete(task.id);
-            } else {
-                addLog(task.assignedTo, `Error on task "${task.title}": ${errorMessage}. Task failed after ${MAX_TASK_RETRIES} retries.`);
-                setTasks(prev => prev.map(t => (t.id === task.id ? { ...t, status: TaskStatus.FAILED, progress: 0 } : t)));
-                setAgentStatus(prev => ({ ...prev, [task.assignedTo]: AgentStatus.ERROR }));
-                setAgentWork(prev => ({ ...prev, [task.assignedTo]: null }));
-                processingTasks.current.delete(task.id);
-            }
-        }
-    }, [addLog, setTasks, setApprovals, userProfile, projectName]);
-
+    // Comments that arrive while a task is open count as read.
+    const selectedTaskCommentCount = selectedTask ? getTaskComments(selectedTask, approvals).length : 0;
     useEffect(() => {
-        const taskMap = new Map(tasks.map(t => [t.id, t]));
-        const parentUpdates = new Map<string, { completed: number; total: number }>();
-        const completedTaskIds = new Set(tasks.filter(t => t.status === TaskStatus.COMPLETED).map(t => t.id));
-        const subTasksByParent = new Map<string, Task[]>();
-
-        tasks.forEach(task => {
-            if (task.parentId && taskMap.has(task.parentId)) {
-                if (!parentUpdates.has(task.parentId)) {
-                    parentUpdates.set(task.parentId, { completed: 0, total: 0 });
-                }
-                const stats = parentUpdates.get(task.parentId)!;
-                stats.total += 1;
-                if (task.status === TaskStatus.COMPLETED) {
-                    stats.completed += 1;
-                }
+        if (selectedTask) handleCommentsRead(selectedTask.id);
+    }, [selectedTask?.id, selectedTaskCommentCount, handleCommentsRead]);
 
-                if (!subTasksByParent.has(task.parentId)) {
-                    subTasksByParent.set(task.parentId, []);
-                }
-                subTasksByParent.get(task.parentId)!.push(task);
-            }
-        });
+    const mentionCandidates = useMemo(() => getMentionCandidates(sessionAccess, team), [sessionAccess, team]);
+    // Follows the live task, so that sending adds to the delivery history straight away.
+    const emailingTask = emailingTaskId ? tasks.find(t => t.id === emailingTaskId) : undefined;
+    const schedulingTask = schedulingTaskId ? tasks.find(t => t.id === schedulingTaskId) : undefined;
 
-        if (parentUpdates.size > 0) {
-            setTasks(currentTasks => {
-                let hasChanged = false;
-                const newTasks = currentTasks.map(task => {
-                    if (parentUpdates.has(task.id)) {
-                        const stats = parentUpdates.get(task.id)!;
-                        const newProgress = stats.total > 0 ? Math.round((stats.completed / stats.total) * 100) : 0;
-                        const allSubtasksCompleted = stats.total > 0 && stats.completed === stats.total;
-                        let newStatus = task.status;
-                        
-                        if (allSubtasksCompleted && task.status !== TaskStatus.COMPLETED) newStatus = TaskStatus.COMPLETED;
-                        else if (!allSubtasksCompleted && task.status === TaskStatus.COMPLETED) newStatus = TaskStatus.IN_PROGRESS;
-                        else if (task.status === TaskStatus.PENDING) {
-                            const subTasks = subTasksByParent.get(task.id) || [];
-                            const isAnySubtaskReady = subTasks.some(sub => (sub.dependsOn || []).every(depId => completedTaskIds.has(depId)));
-                            if (isAnySubtaskReady) newStatus = TaskStatus.IN_PROGRESS;
-                        }
-
-                        if (task.progress !== newProgress || task.status !== newStatus) {
-                            hasChanged = true;
-                            return { ...task, progress: newProgress, status: newStatus };
-                        }
-                    }
-                    return task;
-                });
+    const addLog = useCallback((agent: string, message: string) => {
+        dispatch({ type: 'LOG', agent, message });
+    }, [dispatch]);
 
-                if (hasChanged) {
-                    const originalTasksMap = new Map(currentTasks.map(t => [t.id, t]));
-                    newTasks.forEach(newTask => {
-                        const originalTask = originalTasksMap.get(newTask.id);
-                        if(originalTask && (originalTask as Task).status !== newTask.status && parentUpdates.has(newTask.id)) {
-                            if(newTask.status === TaskStatus.COMPLETED) addLog(newTask.assignedTo, `All sub-tasks for "${newTask.title}" are complete. Marking parent task as complete.`);
-                            else if ((originalTask as Task).status === TaskStatus.COMPLETED) addLog(newTask.assignedTo, `A sub-task for "${newTask.title}" is no longer complete. Reverting parent task to In Progress.`);
-                            else if (newTask.status === TaskStatus.IN_PROGRESS) addLog(AgentName.MASTER_PLANNER, `A sub-task for "${newTask.title}" is ready. Marking parent task as In Progress.`);
-                        }
-                    });
-                }
-                return hasChanged ? newTasks : currentTasks;
-            });
-        }
-    }, [tasks, addLog]);
-    
+    // Pick up any work that was in flight when the session was last open, once we
+    // know whether this member is allowed to run it.
+    const resumedSessionIdRef = useRef<string | null>(null);
     useEffect(() => {
-        const activeTasksByAgent: Record<AgentName, Task[]> = AGENT_NAMES.reduce(
-            (acc, name) => ({ ...acc, [name]: [] }),
-            {} as Record<AgentName, Task[]>
-        );
-
-        const parentTaskIds = new Set(tasks.map(t => t.parentId).filter((id): id is string => !!id));
-        
-        tasks.forEach(task => {
-            if (!parentTaskIds.has(task.id) && task.status === TaskStatus.IN_PROGRESS && (task.progress ?? 0) < 100) {
-                 activeTasksByAgent[task.assignedTo].push(task);
-            }
-        });
-
-        const newAgentStatus = { ...agentStatus };
-        const newAgentWork = { ...agentWork };
-        let statusHasChanged = false;
-        let workHasChanged = false;
-
-        AGENT_NAMES.forEach(agentName => {
-            if (agentName === AgentName.MASTER_PLANNER) return;
-
-            const activeTasks = activeTasksByAgent[agentName];
-            const isWorking = activeTasks.length > 0;
-            const currentStatus = agentStatus[agentName];
-
-            if (isWorking) {
-                if (currentStatus !== AgentStatus.WORKING && currentStatus !== AgentStatus.ERROR) {
-                    newAgentStatus[agentName] = AgentStatus.WORKING;
-                    statusHasChanged = true;
-                }
-                const newWork = activeTasks[0].id;
-                if (agentWork[agentName] !== newWork) {
-                    newAgentWork[agentName] = newWork;
-                    workHasChanged = true;
-                }
-            } else {
-                if (currentStatus === AgentStatus.WORKING) {
-                    newAgentStatus[agentName] = AgentStatus.IDLE;
-                    statusHasChanged = true;
-                }
-                if (agentWork[agentName] !== null) {
-                    newAgentWork[agentName] = null;
-                    workHasChanged = true;
+        if (!currentSessionId || !sessionRole || resumedSessionIdRef.current === currentSessionId) return;
+        resumedSessionIdRef.current = currentSessionId;
+        dispatch({ type: 'RESUMED' });
+    }, [currentSessionId, sessionRole, dispatch]);
+
+    // Publishes scheduled posts once they are due. Like agent work, each post is claimed
+    // first so that only one open browser publishes it. The claim is left to expire
+    // rather than released, so a browser that has not yet seen the result cannot
+    // publish the post a second time.
+    const publishDuePosts = useCallback(async () => {
+        const { sessionId, uid, permissions, canWrite } = sessionContextRef.current;
+        if (!permissions.canEditPlan || (sessionId && !canWrite)) return;
+        for (const { task, post } of getDuePosts(stateRef.current.tasks, new Date())) {
+            if (publishingPosts.current.has(post.id)) continue;
+            publishingPosts.current.add(post.id);
+            if (sessionId && uid) {
+                // If the claim cannot be made, another browser may be publishing the post, so it
+                // is left for the next check.
+                const isClaimed = await claimTask(sessionId, post.id, uid).catch(e => {
+                    console.error("Failed to claim post, trying again later:", e);
+                    return false;
+                });
+                if (!isClaimed) {
+                    publishingPosts.current.delete(post.id);
+                    continue;
                 }
             }
-        });
-        
-        if (statusHasChanged) setAgentStatus(newAgentStatus);
-        if (workHasChanged) setAgentWork(newAgentWork);
-    }, [tasks, agentStatus, agentWork]);
+            const result = await publishPost(task, post, effectContextRef.current.projectName || '');
+            dispatch({ type: 'POST_PUBLISHED', taskId: task.id, postId: post.id, ...result });
+            publishingPosts.current.delete(post.id);
+        }
+    }, [dispatch]);
+
+    useEffect(() => {
+        if (!isStarted || !sessionRole) return;
+        publishDuePosts();
+        const timer = setInterval(publishDuePosts, PUBLISH_CHECK_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [isStarted, sessionRole, publishDuePosts]);
 
     const handleReset = useCallback(() => {
         generationRequestRef.current++; // Invalidate any ongoing generation request.
-        setTasks([]);
-        setApprovals([]);
-        setLogs([]);
-        setAgentStatus(initialAgentStatus);
-        setAgentWork(initialAgentWork);
-        setIsStarted(false);
+        // The agent registry is the organizer's setup rather than part of the plan, so it carries over.
+        replaceState(createInitialAppState(stateRef.current.agents));
         setError(null);
         setIsLoading(false);
         setSelectedTask(null);
         setViewingResultTask(null);
+        setPendingPlan(null);
         setCurrentSessionId(null);
         setProjectName(null);
         setGoalPrompt(null);
         setSaveStatus('idle');
+        setSessionAccess(null);
+        resumedSessionIdRef.current = null;
+        pendingChangesRef.current = createEmptyChanges();
+        writingChangesRef.current = createEmptyChanges();
+        if (syncTimer.current) {
+            clearTimeout(syncTimer.current);
+            syncTimer.current = null;
+        }
         processingTasks.current.clear();
         Object.values(progressIntervals.current).forEach(clearInterval);
         progressIntervals.current = {};
+        Object.values(generationControllers.current).forEach((controller: AbortController) => controller.abort());
+        generationControllers.current = {};
         
         localStorage.removeItem('festflow_tasks');
         localStorage.removeItem('festflow_approvals');
@@ -516,11 +654,15 @@ const App: React.FC = () => {
         localStorage.removeItem('festflow_agentStatus');
         localStorage.removeItem('festflow_agentWork');
         localStorage.removeItem('festflow_isStarted');
+        localStorage.removeItem('festflow_calendar');
+        localStorage.removeItem('festflow_eventDates');
+        localStorage.removeItem('festflow_team');
+        localStorage.removeItem('festflow_sponsors');
         localStorage.removeItem('festflow_currentSessionId');
         localStorage.removeItem('festflow_projectName');
         localStorage.removeItem('festflow_goalPrompt');
 
-    }, [initialAgentStatus, initialAgentWork]);
+    }, [replaceState]);
 
     useEffect(() => {
         if (!currentUser && isStarted) {
@@ -528,7 +670,75 @@ const App: React.FC = () => {
         }
     }, [currentUser, isStarted, handleReset]);
 
-    const handleGoalSubmit = useCallback(async (goal: string) => {
+    // Follow the shared session so that changes made by other organizers appear live.
+    useEffect(() => {
+        if (!currentSessionId || !currentUser || !hasMigratedSessions) return;
+        const unsubscribe = subscribeToSession(currentSessionId, (session, access) => {
+            const { projectName, goalPrompt, ...remoteState } = session;
+            setSessionAccess(access);
+            setProjectName(projectName);
+            setGoalPrompt(goalPrompt);
+            // Changes still being written are laid over the snapshot too, in case it is older than the write.
+            replaceState(mergeRemoteState(remoteState, stateRef.current, mergeChanges(writingChangesRef.current, pendingChangesRef.current)));
+        }, e => {
+            handleReset();
+            setError(e.message);
+        });
+        return unsubscribe;
+    }, [currentSessionId, currentUser, hasMigratedSessions, replaceState, handleReset]);
+
+    // Follow the plan's registrations, so the dashboard and the agents work with the actual numbers.
+    useEffect(() => {
+        setRegistration(null);
+        if (!currentSessionId || !currentUser) return;
+        return subscribeToRegistration(currentSessionId, setRegistration, e => console.error(e.message));
+    }, [currentSessionId, currentUser]);
+
+    // Saves a newly generated plan as a session and starts running it.
+    const launchPlan = useCallback(async (goal: string, initialState: AppState) => {
+        if (!currentUser || !currentUser.uid) return;
+        const currentGenerationId = generationRequestRef.current;
+        const newSessionId = await createSession(currentUser, initialState, goal);
+
+        if (currentGenerationId !== generationRequestRef.current) {
+            console.warn("Stale generation request ignored after session creation.");
+            return;
+        }
+
+        replaceState(initialState);
+        setSessionAccess({
+            ownerId: currentUser.uid,
+            members: { [currentUser.uid]: { ...currentUser, role: 'owner' } },
+            invites: {},
+        });
+        setCurrentSessionId(newSessionId);
+        setProjectName(goal);
+        setGoalPrompt(goal);
+    }, [replaceState, currentUser]);
+
+    const handleStartPendingPlan = useCallback(async () => {
+        if (!pendingPlan) return;
+        setPendingPlan(null);
+        setIsLoading(true);
+        try {
+            await launchPlan(pendingPlan.goal, pendingPlan.state);
+        } catch (e) {
+            const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
+            console.error("Failed to start the plan:", e);
+            setError(errorMessage);
+            replaceState({ ...stateRef.current, isStarted: false });
+        } finally {
+            setIsLoading(false);
+        }
+    }, [pendingPlan, launchPlan, replaceState]);
+
+    const handleDiscardPendingPlan = useCallback(() => {
+        setPendingPlan(null);
+        replaceState({ ...stateRef.current, isStarted: false });
+        setError("The generated plan was discarded. Try rephrasing the goal.");
+    }, [replaceState]);
+
+    const handleGoalSubmit = useCallback(async (goal: string, templateStart?: TemplateStart) => {
         if (!currentUser || !currentUser.uid) {
             setError("Authentication error: You must be logged in to create a plan.");
             return;
@@ -539,228 +749,233 @@ const App: React.FC = () => {
 
         setIsLoading(true);
         setError(null);
-        setIsStarted(true);
+        replaceState({ ...stateRef.current, isStarted: true });
 
-        addLog(AgentName.MASTER_PLANNER, 'Received new event goal. Starting decomposition...');
-        setAgentStatus(prev => ({ ...prev, [AgentName.MASTER_PLANNER]: AgentStatus.WORKING }));
-        setAgentWork(prev => ({ ...prev, [AgentName.MASTER_PLANNER]: "Decomposing event goal..." }));
+        const template = templateStart?.template;
+        const isCopyingTemplate = !!templateStart && !templateStart.adapt;
+        addLog(AgentName.MASTER_PLANNER, template
+            ? `Received new event goal. Starting from template "${template.name}"...`
+            : 'Received new event goal. Starting decomposition...');
+        dispatch({ type: 'AGENT_STATUS_SET', agent: AgentName.MASTER_PLANNER, status: AgentStatus.WORKING, work: isCopyingTemplate ? "Copying template..." : "Decomposing event goal..." });
 
         try {
-            const decomposedTasks = await decomposeGoal(goal, userProfile);
+            // A template brings its own agents and working week, and is either used as it is or adapted by the planner.
+            const fromTemplate = templateStart ? instantiateTemplate(templateStart.template, templateStart.eventStartDate) : null;
+            const planAgents = fromTemplate?.agents ?? stateRef.current.agents;
+            let decomposedTasks: Task[];
+            let decomposedEventDates: EventDates | null;
+            let planIssues: PlanIssue[] = [];
+            if (fromTemplate && isCopyingTemplate) {
+                decomposedTasks = fromTemplate.tasks;
+                decomposedEventDates = fromTemplate.eventDates;
+            } else {
+                const decomposition = await decomposeGoal(goal, userProfile, planAgents, template);
+                decomposedTasks = decomposition.tasks;
+                planIssues = decomposition.issues;
+                // Dates picked for the template win over dates the planner read from the goal.
+                decomposedEventDates = templateStart?.eventStartDate && fromTemplate ? fromTemplate.eventDates : decomposition.eventDates;
+            }
 
             if (currentGenerationId !== generationRequestRef.current) {
                 console.warn("Stale generation request ignored.");
                 return;
             }
 
-            addLog(AgentName.MASTER_PLANNER, `Successfully decomposed goal into ${decomposedTasks.length} tasks.`);
+            addLog(AgentName.MASTER_PLANNER, isCopyingTemplate
+                ? `Copied ${decomposedTasks.length} tasks from the template.`
+                : `Successfully decomposed goal into ${decomposedTasks.length} tasks.`);
             
+            const createdAt = new Date();
             const initialState: AppState = {
+                ...createInitialAppState(planAgents),
                 tasks: decomposedTasks,
-                approvals: [],
-                logs: [{ agent: AgentName.MASTER_PLANNER, message: `Plan created for goal: "${goal}"`, timestamp: new Date() }],
-                agentStatus: initialAgentStatus,
-                agentWork: initialAgentWork,
+                logs: [
+                    { agent: AgentName.MASTER_PLANNER, message: template ? `Plan created from template "${template.name}" for goal: "${goal}"` : `Plan created for goal: "${goal}"`, timestamp: createdAt },
+                    ...planIssues.filter(issue => issue.repaired).map(issue => ({ agent: AgentName.MASTER_PLANNER, message: `Repaired the plan: ${issue.message}`, timestamp: createdAt })),
+                ],
                 isStarted: true,
+                eventDates: decomposedEventDates,
+                ...(fromTemplate ? { calendar: fromTemplate.calendar } : {}),
             };
 
-            const newSessionId = await createSession(currentUser.uid, initialState, goal);
-            
-            if (currentGenerationId !== generationRequestRef.current) {
-                console.warn("Stale generation request ignored after session creation.");
+            // A plan with problems left over waits for the organizer before any work starts.
+            const unresolvedIssues = planIssues.filter(issue => !issue.repaired);
+            if (unresolvedIssues.length > 0) {
+                setPendingPlan({ goal, state: initialState, issues: unresolvedIssues });
                 return;
             }
-            
-            setTasks(initialState.tasks);
-            setApprovals(initialState.approvals);
-            setLogs(initialState.logs);
-            setAgentStatus(initialState.agentStatus);
-            setAgentWork(initialState.agentWork);
-            setIsStarted(initialState.isStarted);
-            setCurrentSessionId(newSessionId);
-            setProjectName(goal);
-            setGoalPrompt(goal);
+            await launchPlan(goal, initialState);
 
         } catch (e) {
             const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
              if (currentGenerationId === generationRequestRef.current) {
                 setError(errorMessage);
                 addLog(AgentName.MASTER_PLANNER, `Error: ${errorMessage}`);
-                setAgentStatus(prev => ({ ...prev, [AgentName.MASTER_PLANNER]: AgentStatus.ERROR }));
-                setIsStarted(false);
+                replaceState({ ...stateRef.current, isStarted: false });
              } else {
                  console.warn("Error from stale generation request ignored:", e);
              }
         } finally {
             if (currentGenerationId === generationRequestRef.current) {
                 setIsLoading(false);
-                setAgentStatus(prev => ({ ...prev, [AgentName.MASTER_PLANNER]: AgentStatus.IDLE }));
-                setAgentWork(prev => ({ ...prev, [AgentName.MASTER_PLANNER]: null }));
+                dispatch({ type: 'AGENT_STATUS_SET', agent: AgentName.MASTER_PLANNER, status: AgentStatus.IDLE, work: null });
             }
         }
-    }, [addLog, handleReset, currentUser, initialAgentStatus, initialAgentWork, userProfile]);
-    
-    useEffect(() => {
-        const completedTaskIds = new Set(tasks.filter(t => t.status === TaskStatus.COMPLETED).map(t => t.id));
-        const parentTaskIds = new Set(tasks.map(t => t.parentId).filter((id): id is string => !!id));
-        
-        const tasksToStart = tasks.filter(task => 
-            !parentTaskIds.has(task.id) &&
-            task.status === TaskStatus.PENDING && 
-            (task.startDate || (task.dependsOn || []).every(depId => completedTaskIds.has(depId)))
-        );
-
-        if (tasksToStart.length > 0) {
-            addLog(AgentName.MASTER_PLANNER, `Dependencies met for ${tasksToStart.length} task(s). Starting now.`);
-            setTasks(prevTasks => prevTasks.map(t => 
-                tasksToStart.some(startTask => startTask.id === t.id) ? { ...t, status: TaskStatus.IN_PROGRESS } : t
-            ));
-        }
-    }, [tasks, addLog]);
-
-    useEffect(() => {
-        const parentTaskIds = new Set(tasks.map(t => t.parentId).filter((id): id is string => !!id));
-
-        const tasksToProcess = tasks.filter(task => 
-            !parentTaskIds.has(task.id) &&
-            task.status === TaskStatus.IN_PROGRESS &&
-            !processingTasks.current.has(task.id) &&
-            (task.progress ?? 0) < 100
-        );
-        tasksToProcess.forEach(task => processTask(task));
-    }, [tasks, processTask]);
+    }, [addLog, dispatch, handleReset, launchPlan, replaceState, currentUser, userProfile]);
 
     useEffect(() => {
         return () => {
             Object.values(progressIntervals.current).forEach(clearInterval);
+            Object.values(generationControllers.current).forEach((controller: AbortController) => controller.abort());
         };
     }, []);
 
-    const handleApproval = useCallback((approvalId: string, decision: 'approved' | 'rejected', newContent?: string, customPrompt?: string) => {
-        const approval = approvals.find(a => a.id === approvalId);
-        if (!approval) return;
-
-        setApprovals(prev => prev.filter(a => a.id !== approvalId));
-        
-        const relatedTask = tasks.find(t => t.id === approval.taskId);
-
-        if (relatedTask) {
-            addLog(AgentName.MASTER_PLANNER, `Decision received for "${relatedTask.title}": ${decision.toUpperCase()}`);
-            processingTasks.current.delete(approval.taskId);
-
-            if (decision === 'approved') {
-                setTasks(prev => prev.map(t => t.id === approval.taskId ? {
-                    ...t, 
-                    status: TaskStatus.COMPLETED, 
-                    progress: 100,
-                    approvedContent: newContent ?? approval.content,
-                    customPrompt: undefined,
-                } : t));
-                addLog(relatedTask.assignedTo, `Task approved: "${relatedTask.title}". Finalizing.`);
-            } else {
-                 const logMessage = customPrompt 
-                     ? `Task rejected: "${relatedTask.title}". Will attempt to regenerate with a new prompt.`
-                     : `Task rejected: "${relatedTask.title}". Will attempt to regenerate.`;
-                 
-                 setTasks(prev => prev.map(t => t.id === approval.taskId ? {
-                    ...t, 
-                    status: TaskStatus.IN_PROGRESS, 
-                    progress: 0, 
-                    retries: 0, 
-                    customPrompt: customPrompt,
-                    approvedContent: undefined
-                } : t));
-                 addLog(relatedTask.assignedTo, logMessage);
-            }
-        }
-    }, [approvals, tasks, addLog]);
+    const handleApproval = useCallback((approvalId: string, decision: 'approved' | 'rejected', newContent?: string, customPrompt?: string, variantCount?: number, comment?: string, includeComments?: boolean) => {
+        const { permissions, actorName, approverId } = sessionContextRef.current;
+        if (!permissions.canDecideApprovals) return;
+        // Approvals with a policy record the decision against the approver's place on the team.
+        dispatch({ type: 'APPROVAL_DECIDED', approvalId, decision, content: newContent, customPrompt, variantCount, actor: actorName, approverId: approverId ?? undefined, comment, includeComments });
+    }, [dispatch]);
+
+    const handleCancelGeneration = useCallback((approvalId: string) => {
+        if (!sessionContextRef.current.permissions.canDecideApprovals) return;
+        const approval = stateRef.current.approvals.find(a => a.id === approvalId);
+        dispatch({ type: 'GENERATION_CANCELLED', approvalId });
+        // Generations running in another organizer's browser stop once they see the cancelled draft.
+        if (approval) generationControllers.current[approval.taskId]?.abort();
+    }, [dispatch]);
 
     const handleCompleteTask = useCallback((taskId: string) => {
-        const task = tasks.find(t => t.id === taskId);
-        if (task) {
-             addLog(AgentName.MASTER_PLANNER, `User marked task "${task.title}" as complete.`);
-             processingTasks.current.delete(taskId);
-             setTasks(prev => prev.map(t => t.id === taskId ? {...t, status: TaskStatus.COMPLETED, progress: 100} : t));
-        }
-    }, [tasks, addLog]);
+        if (!sessionContextRef.current.permissions.canEditPlan) return;
+        dispatch({ type: 'TASK_COMPLETED', taskId });
+    }, [dispatch]);
     
-    const handleReassignTask = useCallback((taskId: string, newAgent: AgentName) => {
-        const taskToReassign = tasks.find(t => t.id === taskId);
-        if (!taskToReassign) return;
-        
-        processingTasks.current.delete(taskId);
-        
-        addLog(newAgent, `Task "${taskToReassign.title}" has been reassigned to me. Resetting and starting work.`);
-        
-        const descendantIds = getDescendantIds(taskId, tasks);
-        const tasksToUpdateIds = new Set([taskId, ...descendantIds]);
-        
-        if (descendantIds.size > 0) {
-            addLog(newAgent, `All sub-tasks of "${taskToReassign.title}" have also been reassigned.`);
-        }
-        
-        setTasks(prev => prev.map(t => {
-            if (tasksToUpdateIds.has(t.id)) {
-                processingTasks.current.delete(t.id);
-                // Reset main task to In Progress and sub-tasks to Pending to allow dependency re-evaluation
-                const newStatus = t.id === taskId ? TaskStatus.IN_PROGRESS : TaskStatus.PENDING;
-                return { 
-                    ...t, 
-                    assignedTo: newAgent, 
-                    status: newStatus, 
-                    progress: 0, 
-                    retries: 0 
-                };
-            }
-            return t;
-        }));
-    }, [tasks, addLog]);
+    const handleReassignTask = useCallback((taskId: string, newAgent: string) => {
+        if (!sessionContextRef.current.permissions.canEditPlan) return;
+        dispatch({ type: 'TASK_REASSIGNED', taskId, agent: newAgent });
+    }, [dispatch]);
     
     const handleUpdateTask = useCallback((taskId: string, updates: Partial<Task>) => {
-        setTasks(prevTasks => {
-            const taskToUpdate = prevTasks.find(t => t.id === taskId);
-            if (!taskToUpdate) return prevTasks;
-    
-            // Check if the agent is being changed
-            if (updates.assignedTo && updates.assignedTo !== taskToUpdate.assignedTo) {
-                const newAgent = updates.assignedTo;
-                addLog(newAgent, `Task "${taskToUpdate.title}" has been manually reassigned to me.`);
-    
-                const descendantIds = getDescendantIds(taskId, prevTasks);
-                if (descendantIds.size > 0) {
-                     addLog(newAgent, `Propagating agent change to ${descendantIds.size} sub-task(s).`);
-                }
-                
-                return prevTasks.map(t => {
-                    if (t.id === taskId) {
-                        return { ...t, ...updates }; // Apply all updates to the main task
-                    }
-                    if (descendantIds.has(t.id)) {
-                        return { ...t, assignedTo: newAgent }; // Only update agent for descendants
-                    }
-                    return t;
-                });
-            }
-    
-            // If no agent change, just apply the updates to the single task
-            return prevTasks.map(t => (t.id === taskId ? { ...t, ...updates } : t));
+        if (!sessionContextRef.current.permissions.canEditPlan) return;
+        dispatch({ type: 'TASK_UPDATED', taskId, updates });
+    }, [dispatch]);
+
+    const handleEditResult = useCallback((taskId: string, content: string) => {
+        if (!sessionContextRef.current.permissions.canEditPlan) return;
+        dispatch({ type: 'RESULT_EDITED', taskId, content, actor: sessionContextRef.current.actorName });
+    }, [dispatch]);
+
+    const handleRestoreRevision = useCallback((taskId: string, revisionId: string) => {
+        if (!sessionContextRef.current.permissions.canEditPlan) return;
+        dispatch({ type: 'REVISION_RESTORED', taskId, revisionId, actor: sessionContextRef.current.actorName });
+    }, [dispatch]);
+
+    const handleSendEmails = useCallback(async (taskId: string, recipients: MailRecipient[], subject: string) => {
+        const { permissions, actorName } = sessionContextRef.current;
+        if (!permissions.canEditPlan) {
+            throw new Error('You do not have permission to send emails for this plan.');
+        }
+        const task = stateRef.current.tasks.find(t => t.id === taskId);
+        if (!task) throw new Error('The task no longer exists.');
+        const deliveries = await sendApprovedContent(task, recipients, {
+            subject,
+            sponsors: stateRef.current.sponsors,
+            eventName: projectName || '',
+            sentBy: actorName,
+        });
+        dispatch({ type: 'EMAILS_SENT', taskId, deliveries });
+        return deliveries;
+    }, [dispatch, projectName]);
+
+    const handleSchedulePosts = useCallback((taskId: string, posts: { channel: SocialChannel; text: string; publishAt: string }[]) => {
+        const { permissions, actorName } = sessionContextRef.current;
+        if (!permissions.canEditPlan) return;
+        const now = Date.now();
+        dispatch({
+            type: 'POSTS_SCHEDULED',
+            taskId,
+            posts: posts.map((post, index) => ({ ...post, id: `post-${now}-${index}`, status: 'scheduled', scheduledBy: actorName })),
+            actor: actorName,
         });
-    }, [addLog]);
+    }, [dispatch]);
+
+    const handleReschedulePost = useCallback((taskId: string, postId: string, publishAt: string) => {
+        if (!sessionContextRef.current.permissions.canEditPlan) return;
+        dispatch({ type: 'POST_RESCHEDULED', taskId, postId, publishAt, actor: sessionContextRef.current.actorName });
+        // "Publish Now" should not wait for the next check.
+        publishDuePosts();
+    }, [dispatch, publishDuePosts]);
+
+    const handleCancelPost = useCallback((taskId: string, postId: string) => {
+        if (!sessionContextRef.current.permissions.canEditPlan) return;
+        dispatch({ type: 'POST_CANCELLED', taskId, postId, actor: sessionContextRef.current.actorName });
+    }, [dispatch]);
+
+    const handleAddComment = useCallback((taskId: string, body: string, mentions: string[], replyTo?: string, approvalId?: string) => {
+        const { permissions, actorName, actorEmail } = sessionContextRef.current;
+        if (!permissions.canComment) return;
+        dispatch({ type: 'COMMENT_ADDED', taskId, approvalId, body, replyTo, mentions, author: actorName, authorEmail: actorEmail });
+    }, [dispatch]);
 
     const handleGanttSaveChanges = useCallback((orderedTasks: Task[]) => {
-        addLog(AgentName.MASTER_PLANNER, "Timeline saved. Resetting all tasks and clearing previous results to start the new plan from a clean slate.");
-
-        const newPlanTasks = orderedTasks.map(task => ({
-            ...task,
-            status: TaskStatus.PENDING,
-            progress: 0,
-            retries: 0,
-            approvedContent: undefined,
-        }));
+        if (!sessionContextRef.current.permissions.canEditPlan) return;
+        dispatch({ type: 'TIMELINE_SAVED', tasks: orderedTasks });
+    }, [dispatch]);
+
+    const handleScheduleImport = useCallback((changes: ScheduleChange[]) => {
+        if (!sessionContextRef.current.permissions.canEditPlan) return;
+        dispatch({ type: 'SCHEDULE_IMPORTED', changes });
+    }, [dispatch]);
+
+    const handleCalendarChange = useCallback((newCalendar: ProjectCalendar) => {
+        if (!sessionContextRef.current.permissions.canEditPlan) return;
+        dispatch({ type: 'CALENDAR_UPDATED', calendar: newCalendar });
+    }, [dispatch]);
+
+    const handleEventDatesChange = useCallback((newEventDates: EventDates | null) => {
+        if (!sessionContextRef.current.permissions.canEditPlan) return;
+        dispatch({ type: 'EVENT_DATES_SET', eventDates: newEventDates });
+    }, [dispatch]);
+
+    const handleTeamChange = useCallback((newTeam: TeamMember[]) => {
+        if (!sessionContextRef.current.permissions.canEditPlan) return;
+        dispatch({ type: 'TEAM_UPDATED', team: newTeam });
+    }, [dispatch]);
+
+    const handleSponsorsChange = useCallback((newSponsors: Sponsor[]) => {
+        if (!sessionContextRef.current.permissions.canEditPlan) return;
+        dispatch({ type: 'SPONSORS_UPDATED', sponsors: newSponsors });
+    }, [dispatch]);
+
+    const handleAgentsChange = useCallback((newAgents: AgentDefinition[]) => {
+        if (!sessionContextRef.current.permissions.canEditPlan) return;
+        dispatch({ type: 'AGENTS_UPDATED', agents: newAgents });
+    }, [dispatch]);
+
+    const handleRevisePlan = useCallback(async (request: string): Promise<PlanDiff> => {
+        if (!sessionContextRef.current.permissions.canEditPlan) {
+            throw new Error('You do not have permission to change this plan.');
+        }
+        const { tasks: currentTasks, agents: currentAgents } = stateRef.current;
+        addLog(AgentName.MASTER_PLANNER, `Received a change request: "${request}"`);
+        dispatch({ type: 'AGENT_STATUS_SET', agent: AgentName.MASTER_PLANNER, status: AgentStatus.WORKING, work: "Revising the plan..." });
+        try {
+            return await revisePlan(request, currentTasks, goalPrompt || projectName || '', currentAgents);
+        } catch (e) {
+            const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
+            addLog(AgentName.MASTER_PLANNER, `Error: ${errorMessage}`);
+            throw e;
+        } finally {
+            dispatch({ type: 'AGENT_STATUS_SET', agent: AgentName.MASTER_PLANNER, status: AgentStatus.IDLE, work: null });
+        }
+    }, [addLog, dispatch, goalPrompt, projectName]);
 
-        setTasks(newPlanTasks);
-        setApprovals([]);
-    }, [addLog]);
+    const handleApplyPlanRevision = useCallback((request: string, diff: PlanDiff) => {
+        if (!sessionContextRef.current.permissions.canEditPlan) return;
+        // The plan may have moved on while the changes were being reviewed.
+        const { tasks: currentTasks, agents: currentAgents } = stateRef.current;
+        dispatch({ type: 'PLAN_REVISED', request, diff: normalizePlanDiff(diff, currentTasks, currentAgents) });
+    }, [dispatch]);
 
     const handleOpenLoadModal = useCallback(async () => {
         if (!currentUser || !currentUser.uid) {
@@ -771,7 +986,7 @@ const App: React.FC = () => {
         setIsLoadingSessions(true);
         setLoadSessionsError(null);
         try {
-            const sessions = await getSavedSessions(currentUser.uid);
+            const sessions = await getSavedSessions(currentUser);
             setSavedSessions(sessions);
         } catch (e) {
             const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
@@ -790,20 +1005,19 @@ const App: React.FC = () => {
         setIsLoading(true);
         setError(null);
         try {
-            const loadedData = await loadSessionFromFirestore(currentUser.uid, sessionId);
+            if (savedSessions.find(s => s.id === sessionId)?.isInvite) {
+                await acceptSessionInvite(sessionId, currentUser);
+            }
+            const loadedData = await loadSessionFromFirestore(sessionId);
             
             handleReset();
             
             setTimeout(() => {
-                setTasks(loadedData.tasks);
-                setApprovals(loadedData.approvals);
-                setLogs(loadedData.logs);
-                setAgentStatus(loadedData.agentStatus);
-                setAgentWork(loadedData.agentWork);
-                setIsStarted(loadedData.isStarted);
+                const { projectName, goalPrompt, ...loadedState } = loadedData;
+                replaceState(loadedState);
                 setCurrentSessionId(sessionId);
-                setProjectName(loadedData.projectName);
-                setGoalPrompt(loadedData.goalPrompt);
+                setProjectName(projectName);
+                setGoalPrompt(goalPrompt);
                 addLog(AgentName.MASTER_PLANNER, `Successfully loaded session ${sessionId.slice(0,6)}...`);
                 setIsLoading(false);
             }, 100);
@@ -813,13 +1027,110 @@ const App: React.FC = () => {
             setError(`Failed to load session: ${errorMessage}`);
             setIsLoading(false);
         }
-    }, [handleReset, addLog, currentUser]);
+    }, [handleReset, addLog, replaceState, currentUser, savedSessions]);
     
+    const exportedSession = useMemo((): LoadedSessionState => ({
+        ...appState,
+        projectName: projectName || 'Untitled Plan',
+        goalPrompt: goalPrompt || '',
+    }), [appState, projectName, goalPrompt]);
+
+    // Opens a plan that was just saved as a new session owned by the current user.
+    const openNewOwnedPlan = useCallback((sessionId: string, state: AppState, name: string, goal: string) => {
+        if (!currentUser) return;
+        handleReset();
+        replaceState(state);
+        setSessionAccess({
+            ownerId: currentUser.uid,
+            members: { [currentUser.uid]: { ...currentUser, role: 'owner' } },
+            invites: {},
+        });
+        setCurrentSessionId(sessionId);
+        setProjectName(name);
+        setGoalPrompt(goal);
+    }, [handleReset, replaceState, currentUser]);
+
+    // Saves a plan exported from FestFlow as a new plan owned by the current user.
+    const handleImportPlan = useCallback(async (file: File) => {
+        if (!currentUser || !currentUser.uid) {
+            setError('Authentication error: No user is logged in.');
+            return;
+        }
+        setIsLoadModalOpen(false);
+        setIsLoading(true);
+        setError(null);
+        try {
+            const { projectName, goalPrompt, ...importedState } = parsePlanFile(await file.text());
+            const state: AppState = {
+                ...importedState,
+                logs: [...importedState.logs, { agent: AgentName.MASTER_PLANNER, message: `Imported plan from "${file.name}".`, timestamp: new Date() }],
+            };
+            const newSessionId = await createSession(currentUser, state, goalPrompt, projectName);
+            openNewOwnedPlan(newSessionId, state, projectName, goalPrompt);
+        } catch (e) {
+            console.error("Failed to import plan:", e);
+            const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
+            setError(`Failed to import plan: ${errorMessage}`);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [openNewOwnedPlan, currentUser]);
+
+    // Starts next year's edition of a saved plan: the same tasks and team with progress and
+    // content cleared, and the event moved on by whole years.
+    const handleCloneSession = useCallback(async (sessionId: string) => {
+        if (!currentUser || !currentUser.uid) {
+            setError('Authentication error: No user is logged in.');
+            return;
+        }
+        setIsLoadModalOpen(false);
+        setIsLoading(true);
+        setError(null);
+        try {
+            const source = await loadSessionFromFirestore(sessionId);
+            const template: PlanTemplate = { ...createTemplateFromPlan(source, source.projectName), id: sessionId };
+            const { tasks: clonedTasks, eventDates: clonedEventDates, calendar: clonedCalendar, agents: clonedAgents } = instantiateTemplate(template, suggestNextEventStart(template));
+            const name = `${source.projectName} (copy)`;
+            const state: AppState = {
+                ...createInitialAppState(clonedAgents),
+                tasks: clonedTasks,
+                logs: [{ agent: AgentName.MASTER_PLANNER, message: `Plan cloned from "${source.projectName}".`, timestamp: new Date() }],
+                isStarted: true,
+                calendar: clonedCalendar,
+                eventDates: clonedEventDates,
+                team: source.team,
+                // Last edition's sponsors are the first prospects for this one.
+                sponsors: source.sponsors.map(sponsor => ({ ...sponsor, stage: SponsorStage.IDENTIFIED })),
+            };
+            const newSessionId = await createSession(currentUser, state, source.goalPrompt, name);
+            openNewOwnedPlan(newSessionId, state, name, source.goalPrompt);
+        } catch (e) {
+            console.error("Failed to clone plan:", e);
+            const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
+            setError(`Failed to clone plan: ${errorMessage}`);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [openNewOwnedPlan, currentUser]);
+
+    const handleSaveTemplate = useCallback(async (name: string) => {
+        if (!currentUser?.uid) return;
+        const saved = await saveTemplate(currentUser.uid, createTemplateFromPlan(exportedSession, name));
+        setTemplates(prev => [saved, ...prev]);
+        setIsTemplatesModalOpen(false);
+    }, [currentUser, exportedSession]);
+
+    const handleDeleteTemplate = useCallback(async (templateId: string) => {
+        if (!currentUser?.uid) return;
+        await deleteTemplate(currentUser.uid, templateId);
+        setTemplates(prev => prev.filter(t => t.id !== templateId));
+    }, [currentUser]);
+
     const handleUpdateSessionName = async (sessionId: string, newName: string) => {
         if (!currentUser || !currentUser.uid) return;
         setLoadSessionsError(null);
         try {
-            await updateSessionName(currentUser.uid, sessionId, newName);
+            await updateSessionName(sessionId, newName);
             setSavedSessions(currentSessions =>
                 currentSessions.map(s => s.id === sessionId ? { ...s, name: newName } : s)
             );
@@ -833,13 +1144,13 @@ const App: React.FC = () => {
     };
 
      const handleUpdateProjectName = async (newName: string) => {
-        if (!currentUser?.uid || !currentSessionId || !newName.trim() || newName === projectName) {
+        if (!currentUser?.uid || !currentSessionId || !permissions.canEditPlan || !newName.trim() || newName === projectName) {
             return;
         }
         const oldName = projectName;
         setProjectName(newName.trim()); // Optimistic update
         try {
-            await updateSessionName(currentUser.uid, currentSessionId, newName.trim());
+            await updateSessionName(currentSessionId, newName.trim());
         } catch (error) {
             console.error("Failed to update project name:", error);
             setError("Failed to update project name.");
@@ -853,9 +1164,9 @@ const App: React.FC = () => {
     };
     
     const handleDeleteCurrentSession = useCallback(async () => {
-        if (currentUser && currentUser.uid && currentSessionId) {
+        if (currentUser && currentUser.uid && currentSessionId && sessionRole === 'owner') {
             try {
-                await deleteSession(currentUser.uid, currentSessionId);
+                await deleteSession(currentSessionId);
                 addLog(AgentName.MASTER_PLANNER, `Deleted current session ${currentSessionId.slice(0,6)}...`);
                 handleReset();
             } catch (error) {
@@ -864,7 +1175,7 @@ const App: React.FC = () => {
             }
         }
         setIsDeleteCurrentModalOpen(false);
-    }, [currentUser, currentSessionId, addLog, handleReset]);
+    }, [currentUser, currentSessionId, sessionRole, addLog, handleReset]);
 
     const handleDeleteSession = useCallback(async (sessionId: string) => {
         if (!currentUser || !currentUser.uid) {
@@ -882,17 +1193,17 @@ const App: React.FC = () => {
         setLoadSessionsError(null);
     
         try {
-            await deleteSession(currentUser.uid, sessionId);
+            await deleteSession(sessionId);
             addLog(AgentName.MASTER_PLANNER, `Deleted session ${sessionId.slice(0,6)}...`);
             
-            const freshSessions = await getSavedSessions(currentUser.uid);
+            const freshSessions = await getSavedSessions(currentUser);
             setSavedSessions(freshSessions);
     
         } catch (e) {
             const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
             setLoadSessionsError(`Failed to delete session: ${errorMessage}`);
             try {
-                const sessions = await getSavedSessions(currentUser.uid);
+                const sessions = await getSavedSessions(currentUser);
                 setSavedSessions(sessions);
             } catch (fetchError) {
                  console.error("Failed to re-fetch sessions after deletion error:", fetchError);
@@ -927,6 +1238,10 @@ const App: React.FC = () => {
                 userProfile={userProfile}
                 isStarted={isStarted}
                 onProfileClick={() => setIsProfilePageOpen(true)}
+                onShareClick={() => setIsShareModalOpen(true)}
+                onExportClick={() => setIsExportModalOpen(true)}
+                onTemplatesClick={() => setIsTemplatesModalOpen(true)}
+                sessionRole={sessionRole}
             />
             <main className="flex-grow p-4 md:p-8 space-y-8 flex flex-col">
                 <EventSetupForm
@@ -934,8 +1249,22 @@ const App: React.FC = () => {
                     isLoading={isLoading}
                     isStarted={isStarted}
                     goalPrompt={goalPrompt}
+                    templates={templates}
                 />
                 {error && <div className="bg-danger/20 border border-danger text-red-300 p-4 rounded-lg animate-fadeIn">{error}</div>}
+                {isStarted && currentSessionId && sessionRole && !permissions.canEditPlan && (
+                    <div className="bg-info/20 border border-info text-light p-4 rounded-lg animate-fadeIn">
+                        You have {SESSION_ROLE_DETAILS[sessionRole].label} access to this plan. {SESSION_ROLE_DETAILS[sessionRole].description}
+                    </div>
+                )}
+                {isStarted && permissions.canEditPlan && (
+                    <PlannerChat
+                        key={currentSessionId ?? 'local'}
+                        tasks={tasks}
+                        onRequest={handleRevisePlan}
+                        onApply={handleApplyPlanRevision}
+                    />
+                )}
                 {isStarted && (
                     <Dashboard
                         tasks={tasks}
@@ -944,26 +1273,89 @@ const App: React.FC = () => {
                         agentStatus={agentStatus}
                         agentWork={agentWork}
                         onApproval={handleApproval}
+                        onCancelGeneration={handleCancelGeneration}
                         onCompleteTask={handleCompleteTask}
                         onReassignTask={handleReassignTask}
                         onTaskClick={setSelectedTask}
                         onViewResult={setViewingResultTask}
                         onTaskUpdate={handleUpdateTask}
+                        onReschedulePost={handleReschedulePost}
+                        onCancelPost={handleCancelPost}
                         onGanttSaveChanges={handleGanttSaveChanges}
+                        onScheduleImport={handleScheduleImport}
+                        projectName={projectName}
+                        calendar={calendar}
+                        onCalendarChange={handleCalendarChange}
+                        eventDates={eventDates}
+                        onEventDatesChange={handleEventDatesChange}
+                        team={team}
+                        onTeamChange={handleTeamChange}
+                        sponsors={sponsors}
+                        onSponsorsChange={handleSponsorsChange}
+                        agents={agents}
+                        onAgentsChange={handleAgentsChange}
+                        currentUserEmail={currentUser.email}
+                        approverId={approverId}
+                        commentReads={commentReads}
+                        onCommentsRead={handleCommentsRead}
+                        onAddComment={handleAddComment}
+                        mentionCandidates={mentionCandidates}
+                        permissions={permissions}
+                        sessionId={currentSessionId}
+                        registration={registration}
+                        userProfile={userProfile}
                     />
                 )}
             </main>
-            {selectedTask && <TaskDetailModal task={selectedTask} allTasks={tasks} onClose={() => setSelectedTask(null)} onTaskUpdate={handleUpdateTask} />}
+            {selectedTask && (
+                <TaskDetailModal
+                    task={selectedTask}
+                    allTasks={tasks}
+                    approvals={approvals}
+                    team={team}
+                    sponsors={sponsors}
+                    agents={agents}
+                    onClose={() => setSelectedTask(null)}
+                    onTaskUpdate={handleUpdateTask}
+                    onAddComment={handleAddComment}
+                    mentionCandidates={mentionCandidates}
+                    canComment={permissions.canComment}
+                    readOnly={!permissions.canEditPlan}
+                />
+            )}
             {viewingResultTask && (
                 <ResultModal 
-                    task={viewingResultTask} 
+                    // Follow the live task so that edits and restores, including other organizers', show up straight away.
+                    task={tasks.find(t => t.id === viewingResultTask.id) ?? viewingResultTask} 
                     onClose={() => setViewingResultTask(null)} 
-                    onSave={(newContent) => {
-                        if (viewingResultTask) {
-                            handleUpdateTask(viewingResultTask.id, { approvedContent: newContent });
-                             addLog(AgentName.MASTER_PLANNER, `Manually updated result for task "${viewingResultTask.title}".`);
-                        }
+                    canEdit={permissions.canEditPlan}
+                    onSave={(newContent) => handleEditResult(viewingResultTask.id, newContent)}
+                    onRestore={(revisionId) => handleRestoreRevision(viewingResultTask.id, revisionId)}
+                    onSendEmail={() => {
+                        setEmailingTaskId(viewingResultTask.id);
+                        setViewingResultTask(null);
                     }}
+                    onSchedulePosts={() => {
+                        setSchedulingTaskId(viewingResultTask.id);
+                        setViewingResultTask(null);
+                    }}
+                />
+            )}
+            {schedulingTask && (
+                <SchedulePostsModal
+                    task={schedulingTask}
+                    onClose={() => setSchedulingTaskId(null)}
+                    onSchedule={(posts) => handleSchedulePosts(schedulingTask.id, posts)}
+                />
+            )}
+            {emailingTask && (
+                <SendEmailModal
+                    task={emailingTask}
+                    sponsors={sponsors}
+                    eventName={projectName || ''}
+                    senderName={actorName}
+                    onClose={() => setEmailingTaskId(null)}
+                    onSend={(recipients, subject) => handleSendEmails(emailingTask.id, recipients, subject)}
                 />
             )}
             <LoadSessionModal 
@@ -973,9 +1365,29 @@ const App: React.FC = () => {
                 onLoadSession={handleLoadState}
                 onDeleteSession={handleDeleteSession}
                 onUpdateSessionName={handleUpdateSessionName}
+                onImportFile={handleImportPlan}
+                onCloneSession={handleCloneSession}
                 isLoading={isLoadingSessions}
                 error={loadSessionsError}
             />
+            <ConfirmationModal
+                isOpen={!!pendingPlan}
+                onClose={handleDiscardPendingPlan}
+                onConfirm={handleStartPendingPlan}
+                title="The Plan Has Problems"
+                message={
+                    <>
+                        <p>The Master Planner could not fix everything in the plan it generated:</p>
+                        <ul className="text-left text-sm list-disc pl-5 space-y-1">
+                            {pendingPlan?.issues.map((issue, index) => <li key={index}>{issue.message}</li>)}
+                        </ul>
+                        <p>You can start the plan anyway and fix these tasks yourself, or discard it.</p>
+                    </>
+                }
+                confirmText="Start Anyway"
+                cancelText="Discard"
+                confirmButtonClass="bg-highlight text-white hover:opacity-90"
+            />
             <ConfirmationModal
                 isOpen={isResetModalOpen}
                 onClose={() => setIsResetModalOpen(false)}
@@ -994,6 +1406,31 @@ const App: React.FC = () => {
                 confirmText="Delete Forever"
                 confirmButtonClass="bg-danger hover:bg-danger/90"
             />
+            {currentSessionId && sessionAccess && (
+                <ShareSessionModal
+                    isOpen={isShareModalOpen}
+                    onClose={() => setIsShareModalOpen(false)}
+                    sessionId={currentSessionId}
+                    access={sessionAccess}
+                    currentUserUid={currentUser.uid}
+                    team={team}
+                />
+            )}
+            {isStarted && (
+                <PlanExportModal
+                    isOpen={isExportModalOpen}
+                    onClose={() => setIsExportModalOpen(false)}
+                    session={exportedSession}
+                />
+            )}
+            <TemplatesModal
+                isOpen={isTemplatesModalOpen}
+                onClose={() => setIsTemplatesModalOpen(false)}
+                templates={templates}
+                currentPlanName={isStarted ? projectName : null}
+                onSave={handleSaveTemplate}
+                onDelete={handleDeleteTemplate}
+            />
             <InstitutionProfile
                 isOpen={isProfilePageOpen}
                 onClose={() => setIsProfilePageOpen(false)}
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import {
+    getLLMProviderKind,
+    isLLMRecordingEnabled,
+    LLM_PROVIDER_OPTIONS,
+    LLMProviderKind,
+    setLLMProviderSettings,
+} from '../services/llmProvider';
+import { clearLLMRecordings, countLLMRecordings, exportLLMRecordings } from '../services/providers/replayProvider';
+
+// Lets the user choose which LLM backend powers the agents. The choice is stored
+// per browser and takes effect on the next AI request.
+export const AIProviderSettings: React.FC = () => {
+    const [providerKind, setProviderKind] = useState<LLMProviderKind>(getLLMProviderKind);
+    const [isRecording, setIsRecording] = useState(isLLMRecordingEnabled);
+    const [recordingCount, setRecordingCount] = useState(countLLMRecordings);
+
+    const handleProviderChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const kind = e.target.value as LLMProviderKind;
+        setProviderKind(kind);
+        setLLMProviderSettings(kind, isRecording);
+    };
+
+    const handleRecordingToggle = (e: React.ChangeEvent<HTMLInputElement>) => {
+        setIsRecording(e.target.checked);
+        setLLMProviderSettings(providerKind, e.target.checked);
+    };
+
+    const handleDownload = () => {
+        const blob = new Blob([exportLLMRecordings()], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'festflow-llm-recordings.json';
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleClear = () => {
+        clearLLMRecordings();
+        setRecordingCount(0);
+    };
+
+    const selectedOption = LLM_PROVIDER_OPTIONS.find(option => option.kind === providerKind);
+    const canRecord = providerKind !== 'replay';
+
+    return (
+        <div className="space-y-4">
+            <h4 className="text-md font-bold text-light border-b border-accent pb-2">AI Provider</h4>
+            <div>
+                <label htmlFor="llmProvider" className="text-sm font-semibold text-text-secondary mb-2 block">Model Backend</label>
+                <select
+                    id="llmProvider"
+                    value={providerKind}
+                    onChange={handleProviderChange}
+                    className="w-full p-3 bg-primary border-2 border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight transition-all text-light"
+                >
+                    {LLM_PROVIDER_OPTIONS.map(option => (
+                        <option key={option.kind} value={option.kind}>{option.label}</option>
+                    ))}
+                </select>
+                {selectedOption && <p className="text-xs text-text-secondary mt-2">{selectedOption.description}</p>}
+            </div>
+            <label className={`flex items-center space-x-2 text-sm text-light ${canRecord ? 'cursor-pointer' : 'opacity-50'}`}>
+                <input
+                    type="checkbox"
+                    checked={isRecording && canRecord}
+                    disabled={!canRecord}
+                    onChange={handleRecordingToggle}
+                    className="accent-highlight"
+                />
+                <span>Record responses for offline replay</span>
+            </label>
+            <div className="flex items-center justify-between text-sm text-text-secondary">
+                <span>{recordingCount} recorded response{recordingCount === 1 ? '' : 's'}</span>
+                <div className="flex items-center space-x-3">
+                    <button
+                        type="button"
+                        onClick={handleDownload}
+                        disabled={recordingCount === 0}
+                        className="font-semibold text-highlight hover:underline disabled:opacity-50 disabled:no-underline"
+                    >
+                        Download
+                    </button>
+                    <button
+                        type="button"
+                        onClick={handleClear}
+                        disabled={recordingCount === 0}
+                        className="font-semibold text-red-400 hover:text-red-300 disabled:opacity-50"
+                    >
+                        Clear
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
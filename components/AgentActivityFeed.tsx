@@ -1,12 +1,13 @@
 import React, { useRef, useEffect } from 'react';
-import { ActivityLog } from '../types';
-import { AGENT_DETAILS } from '../constants';
+import { ActivityLog, AgentDefinition } from '../types';
+import { getAgentDisplay } from '../services/agentRegistry';
 
 interface AgentActivityFeedProps {
     logs: ActivityLog[];
+    agents: AgentDefinition[];
 }
 
-export const AgentActivityFeed: React.FC<AgentActivityFeedProps> = React.memo(({ logs }) => {
+export const AgentActivityFeed: React.FC<AgentActivityFeedProps> = React.memo(({ logs, agents }) => {
     const feedRef = useRef<HTMLDivElement>(null);
 
     useEffect(() => {
@@ -19,7 +20,7 @@ export const AgentActivityFeed: React.FC<AgentActivityFeedProps> = React.memo(({
         <div ref={feedRef} className="bg-secondary p-4 rounded-xl h-96 overflow-y-auto shadow-inner border border-accent">
             <div className="flex flex-col space-y-4">
                 {logs.map((log, index) => {
-                    const agentDetail = AGENT_DETAILS[log.agent];
+                    const agentDetail = getAgentDisplay(agents, log.agent);
                     const Icon = agentDetail.icon;
                     return (
                         <div key={index} className="flex items-start space-x-3 animate-fadeIn" style={{animationDelay: `${index*50}ms`, animationFillMode: 'backwards'}}>
@@ -0,0 +1,308 @@
+import React, { useState } from 'react';
+import { AgentDefinition, AgentName, AgentOutputFormat, AgentTool, Task, TeamMember } from '../types';
+import { AGENT_COLORS, AGENT_ICONS, AGENT_OUTPUT_FORMATS, AGENT_TOOLS, CONTENT_VARIANT_STYLES } from '../constants';
+import { PencilIcon } from './icons/PencilIcon';
+import { TrashIcon } from './icons/TrashIcon';
+import { ApprovalPolicyEditor } from './ApprovalPolicyEditor';
+import { describeApprovalPolicy } from '../services/approvalPolicy';
+
+interface AgentRegistryModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    agents: AgentDefinition[];
+    tasks: Task[];
+    // Who can be required to sign off on an agent's content.
+    team: TeamMember[];
+    onSave: (agents: AgentDefinition[]) => void;
+    readOnly?: boolean;
+}
+
+const inputClass = "p-2 bg-primary border-2 border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight text-sm text-light disabled:opacity-50";
+
+const createBlankAgent = (): AgentDefinition => ({
+    name: '',
+    description: '',
+    icon: 'robot',
+    color: AGENT_COLORS[4],
+    generatesContent: true,
+    systemPrompt: '',
+    outputFormat: 'text',
+    tools: [],
+    variantCount: 1,
+});
+
+// Edits the agents the Master Planner can delegate to, e.g. to add a "Hospitality"
+// or "Finance" agent. Changes are kept in a draft until saved. An agent's name is
+// how tasks refer to it, so it is fixed once the agent exists, and agents with
+// tasks cannot be removed.
+export const AgentRegistryModal: React.FC<AgentRegistryModalProps> = ({ isOpen, onClose, agents, tasks, team, onSave, readOnly = false }) => {
+    const [draft, setDraft] = useState<AgentDefinition[]>(agents);
+    const [form, setForm] = useState<AgentDefinition>(createBlankAgent);
+    const [editingName, setEditingName] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    if (!isOpen) return null;
+
+    const handleFieldChange = <K extends keyof AgentDefinition>(field: K, value: AgentDefinition[K]) => {
+        setForm(prev => ({ ...prev, [field]: value }));
+    };
+
+    const toggleTool = (tool: AgentTool) => {
+        setForm(prev => ({
+            ...prev,
+            tools: prev.tools.includes(tool) ? prev.tools.filter(t => t !== tool) : [...prev.tools, tool],
+        }));
+    };
+
+    const resetForm = () => {
+        setForm(createBlankAgent());
+        setEditingName(null);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = editingName ?? form.name.trim();
+        if (!name) return;
+        if (!editingName && (name === AgentName.MASTER_PLANNER || draft.some(a => a.name.toLowerCase() === name.toLowerCase()))) {
+            setError(`An agent named "${name}" already exists.`);
+            return;
+        }
+        setError(null);
+        const agent: AgentDefinition = {
+            ...form,
+            name,
+            description: form.description.trim(),
+            systemPrompt: form.systemPrompt.trim(),
+        };
+        setDraft(prev => editingName
+            ? prev.map(a => a.name === editingName ? agent : a)
+            : [...prev, agent]);
+        resetForm();
+    };
+
+    const startEditing = (agent: AgentDefinition) => {
+        setForm(agent);
+        setEditingName(agent.name);
+        setError(null);
+    };
+
+    const handleRemove = (name: string) => {
+        setDraft(prev => prev.filter(a => a.name !== name));
+        if (editingName === name) resetForm();
+    };
+
+    const handleSave = () => {
+        if (draft.length === 0) {
+            setError('Keep at least one agent so the Master Planner can delegate tasks.');
+            return;
+        }
+        onSave(draft);
+        onClose();
+    };
+
+    const countAssigned = (name: string) => tasks.filter(t => t.assignedTo === name).length;
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4 animate-fadeIn"
+            onClick={onClose}
+        >
+            <div
+                className="bg-secondary rounded-xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col border border-accent transform transition-transform duration-300 scale-95 animate-fadeIn"
+                onClick={e => e.stopPropagation()}
+                style={{animationDuration: '0.3s'}}
+            >
+                <div className="p-4 border-b border-accent flex justify-between items-center">
+                    <h3 className="text-lg font-bold text-highlight">Agents</h3>
+                    <button onClick={onClose} className="text-text-secondary hover:text-white text-2xl">&times;</button>
+                </div>
+
+                <div className="p-6 overflow-y-auto space-y-6">
+                    <p className="text-sm text-text-secondary">The Master Planner delegates tasks to these agents. Content agents draft text for approval using their prompt; manual agents track work that people mark as complete. New agents are used for new plans and reassignments.</p>
+
+                    {error && <div className="bg-danger/20 border border-danger text-red-300 p-3 rounded-lg text-sm">{error}</div>}
+
+                    <ul className="space-y-2">
+                        {draft.map(agent => {
+                            const Icon = AGENT_ICONS[agent.icon];
+                            const assignedCount = countAssigned(agent.name);
+                            return (
+                                <li key={agent.name} className={`flex items-center justify-between bg-primary p-2 pl-3 rounded-lg border text-sm ${editingName === agent.name ? 'border-highlight' : 'border-accent'}`}>
+                                    <div className="flex items-center space-x-3 min-w-0">
+                                        <Icon className={`w-5 h-5 flex-shrink-0 ${agent.color}`} />
+                                        <div className="min-w-0">
+                                            <p className="text-light truncate">{agent.name}</p>
+                                            <p className="text-xs text-text-secondary truncate">
+                                                {agent.generatesContent ? `Content · ${AGENT_OUTPUT_FORMATS[agent.outputFormat].label}${agent.variantCount > 1 ? ` · ${agent.variantCount} variants` : ''}` : 'Manual'}
+                                                {agent.tools.length > 0 && ` · ${agent.tools.map(tool => AGENT_TOOLS[tool].label).join(', ')}`}
+                                                {agent.generatesContent && agent.approvalPolicy && ` · ${describeApprovalPolicy(agent.approvalPolicy, team)}`}
+                                                {` · ${assignedCount} task${assignedCount === 1 ? '' : 's'}`}
+                                            </p>
+                                        </div>
+                                    </div>
+                                    {!readOnly && (
+                                        <div className="flex items-center flex-shrink-0">
+                                            <button
+                                                onClick={() => startEditing(agent)}
+                                                className="p-1.5 rounded-lg text-text-secondary hover:bg-accent hover:text-white transition-colors"
+                                                title="Edit agent"
+                                            >
+                                                <PencilIcon className="w-4 h-4" />
+                                            </button>
+                                            <button
+                                                onClick={() => handleRemove(agent.name)}
+                                                disabled={assignedCount > 0}
+                                                className="p-1.5 rounded-lg text-text-secondary enabled:hover:bg-danger enabled:hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                                                title={assignedCount > 0 ? 'Reassign this agent\'s tasks before removing it' : 'Remove agent'}
+                                            >
+                                                <TrashIcon className="w-4 h-4" />
+                                            </button>
+                                        </div>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ul>
+
+                    {!readOnly && (
+                        <form onSubmit={handleSubmit} className="space-y-3 border-t border-accent pt-6">
+                            <h4 className="text-sm font-semibold text-text-secondary">{editingName ? `Edit ${editingName}` : 'Add an Agent'}</h4>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                                <input
+                                    type="text"
+                                    required
+                                    value={form.name}
+                                    onChange={e => handleFieldChange('name', e.target.value)}
+                                    disabled={!!editingName}
+                                    placeholder="Name, e.g. Hospitality"
+                                    className={inputClass}
+                                />
+                                <select
+                                    value={form.generatesContent ? 'content' : 'manual'}
+                                    onChange={e => handleFieldChange('generatesContent', e.target.value === 'content')}
+                                    className={inputClass}
+                                >
+                                    <option value="content">Generates content for approval</option>
+                                    <option value="manual">Tracks manual work</option>
+                                </select>
+                            </div>
+                            <input
+                                type="text"
+                                value={form.description}
+                                onChange={e => handleFieldChange('description', e.target.value)}
+                                placeholder="What it handles, e.g. Guest accommodation, travel and welcome kits."
+                                className={`${inputClass} w-full`}
+                            />
+                            <div className="flex flex-wrap items-center gap-2">
+                                {Object.entries(AGENT_ICONS).map(([key, Icon]) => (
+                                    <button
+                                        key={key}
+                                        type="button"
+                                        onClick={() => handleFieldChange('icon', key)}
+                                        className={`p-2 rounded-lg border-2 transition-colors ${form.icon === key ? 'border-highlight bg-highlight/20' : 'border-accent hover:bg-accent'}`}
+                                        aria-pressed={form.icon === key}
+                                        title={key}
+                                    >
+                                        <Icon className={`w-5 h-5 ${form.color}`} />
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="flex flex-wrap items-center gap-2">
+                                {AGENT_COLORS.map(color => (
+                                    <button
+                                        key={color}
+                                        type="button"
+                                        onClick={() => handleFieldChange('color', color)}
+                                        className={`w-7 h-7 rounded-full border-2 ${color.replace('text-', 'bg-')} ${form.color === color ? 'border-white' : 'border-transparent'}`}
+                                        aria-pressed={form.color === color}
+                                        aria-label={color.replace('text-', '').replace('-400', '')}
+                                    />
+                                ))}
+                            </div>
+                            {form.generatesContent && (
+                                <>
+                                    <textarea
+                                        value={form.systemPrompt}
+                                        onChange={e => handleFieldChange('systemPrompt', e.target.value)}
+                                        placeholder="Instructions for the agent, e.g. Your task is to write warm, practical messages for visiting guests."
+                                        className={`${inputClass} w-full h-24`}
+                                    />
+                                    <div className="flex flex-wrap items-center gap-4">
+                                        <label className="text-xs text-text-secondary flex items-center gap-2">
+                                            Output
+                                            <select
+                                                value={form.outputFormat}
+                                                onChange={e => handleFieldChange('outputFormat', e.target.value as AgentOutputFormat)}
+                                                className={inputClass}
+                                            >
+                                                {Object.entries(AGENT_OUTPUT_FORMATS).map(([format, { label }]) => (
+                                                    <option key={format} value={format}>{label}</option>
+                                                ))}
+                                            </select>
+                                        </label>
+                                        <label className="text-xs text-text-secondary flex items-center gap-2" title="Extra variants are written in a different tone or length and shown side by side">
+                                            Variants
+                                            <select
+                                                value={form.variantCount}
+                                                onChange={e => handleFieldChange('variantCount', Number(e.target.value))}
+                                                className={inputClass}
+                                            >
+                                                {CONTENT_VARIANT_STYLES.map((style, index) => (
+                                                    <option key={style.label} value={index + 1}>{index + 1}</option>
+                                                ))}
+                                            </select>
+                                        </label>
+                                        {Object.entries(AGENT_TOOLS).map(([tool, { label, description }]) => (
+                                            <label key={tool} className="text-sm text-light flex items-center gap-2" title={description}>
+                                                <input
+                                                    type="checkbox"
+                                                    checked={form.tools.includes(tool as AgentTool)}
+                                                    onChange={() => toggleTool(tool as AgentTool)}
+                                                    className="accent-highlight"
+                                                />
+                                                {label}
+                                            </label>
+                                        ))}
+                                    </div>
+                                    <div className="space-y-2">
+                                        <h5 className="text-xs font-semibold text-text-secondary">Required approvers</h5>
+                                        <ApprovalPolicyEditor
+                                            policy={form.approvalPolicy}
+                                            team={team}
+                                            onChange={policy => handleFieldChange('approvalPolicy', policy)}
+                                        />
+                                    </div>
+                                </>
+                            )}
+                            <div className="flex justify-end space-x-2">
+                                {editingName && (
+                                    <button type="button" onClick={resetForm} className="px-4 py-2 text-sm font-semibold text-text-secondary hover:text-white">Cancel</button>
+                                )}
+                                <button type="submit" className="px-4 py-2 rounded-lg bg-accent text-light hover:bg-accent/80 transition-opacity text-sm font-semibold">
+                                    {editingName ? 'Update Agent' : 'Add Agent'}
+                                </button>
+                            </div>
+                        </form>
+                    )}
+                </div>
+
+                <div className="p-4 border-t border-accent flex justify-end space-x-3">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 rounded-lg bg-accent text-light hover:bg-accent/80 transition-opacity font-semibold"
+                    >
+                        {readOnly ? 'Close' : 'Cancel'}
+                    </button>
+                    {!readOnly && (
+                        <button
+                            onClick={handleSave}
+                            className="px-4 py-2 rounded-lg bg-highlight text-white hover:opacity-90 transition-opacity font-semibold"
+                        >
+                            Save Agents
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
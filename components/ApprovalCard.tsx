@@ -1,34 +1,238 @@
-import React, { useState } from 'react';
-import { Approval } from '../types';
-import { AGENT_DETAILS } from '../constants';
+import React, { useEffect, useState } from 'react';
+import { AgentDefinition, Approval, DiscussionComment, TeamMember } from '../types';
+import { CONTENT_VARIANT_STYLES, SOCIAL_CHANNEL_STYLES } from '../constants';
+import { getAgentDisplay } from '../services/agentRegistry';
+import { describeApprovalPolicy, getActivePolicy, getOutstandingApprovers } from '../services/approvalPolicy';
+import { MentionCandidate } from '../services/comments';
+import { checkChannelPosts, getChannelSpec } from '../services/socialPosts';
+import { CommentThread } from './CommentThread';
+import { UndoIcon } from './icons/UndoIcon';
+import { CheckCircleIcon } from './icons/CheckCircleIcon';
+import { XCircleIcon } from './icons/XCircleIcon';
+import { ClockIcon } from './icons/ClockIcon';
 
 interface ApprovalCardProps {
     approval: Approval;
-    onDecision: (approvalId: string, decision: 'approved' | 'rejected', content?: string, customPrompt?: string) => void;
+    agents: AgentDefinition[];
+    team: TeamMember[];
+    // The signed-in user's place on the team, which approvals with a policy need.
+    currentMemberId: string | null;
+    onDecision: (approvalId: string, decision: 'approved' | 'rejected', content?: string, customPrompt?: string, variantCount?: number, comment?: string, includeComments?: boolean) => void;
+    // Stops a draft that is still being generated, keeping what has arrived so far.
+    onCancelGeneration: (approvalId: string) => void;
+    // False for members who can see pending content but not approve it.
+    canDecide: boolean;
+    // The whole discussion of the task, including comments on this draft.
+    comments: DiscussionComment[];
+    unreadCommentCount: number;
+    onCommentsRead: (taskId: string) => void;
+    onAddComment: (taskId: string, body: string, mentions: string[], replyTo?: string, approvalId?: string) => void;
+    mentionCandidates: MentionCandidate[];
+    canComment: boolean;
 }
 
-export const ApprovalCard: React.FC<ApprovalCardProps> = React.memo(({ approval, onDecision }) => {
-    const agentDetail = AGENT_DETAILS[approval.agent];
+export const ApprovalCard: React.FC<ApprovalCardProps> = React.memo(({ approval, agents, team, currentMemberId, onDecision, onCancelGeneration, canDecide: canReview, comments, unreadCommentCount, onCommentsRead, onAddComment, mentionCandidates, canComment }) => {
+    const agentDetail = getAgentDisplay(agents, approval.agent);
     const Icon = agentDetail.icon;
+    const isGenerating = approval.status === 'generating';
     const [editableContent, setEditableContent] = useState(approval.content);
     const [customPrompt, setCustomPrompt] = useState('');
+    const [variantCount, setVariantCount] = useState(approval.variants?.length ?? 1);
+    const [showHistory, setShowHistory] = useState(false);
+    const [comment, setComment] = useState('');
+    const [showDiscussion, setShowDiscussion] = useState(false);
+    const [includeComments, setIncludeComments] = useState(false);
+    const variants = approval.variants ?? [];
+    const history = approval.history ?? [];
+    const assets = approval.assets ?? [];
+
+    // With a policy, only its approvers decide, each once; otherwise any approver can.
+    const policy = getActivePolicy(approval, team);
+    const decisions = approval.decisions ?? [];
+    const hasSignedOff = decisions.some(d => d.approverId === currentMemberId);
+    const canDecide = canReview && (!policy || (!!currentMemberId && policy.approverIds.includes(currentMemberId) && !hasSignedOff));
+    const outstanding = getOutstandingApprovers(approval, team);
+    // Channel posts are checked against their limits as the approver edits them.
+    const postChecks = isGenerating ? [] : checkChannelPosts(editableContent);
+
+    // Comments that arrive while the discussion is open count as read.
+    useEffect(() => {
+        if (showDiscussion) onCommentsRead(approval.taskId);
+    }, [showDiscussion, comments.length]);
+
+    // Editing starts from the first variant of the finished (or cancelled) round.
+    useEffect(() => {
+        if (isGenerating) {
+            setCustomPrompt('');
+            setComment('');
+            setIncludeComments(false);
+        } else {
+            setEditableContent(approval.content);
+            setVariantCount(approval.variants?.length ?? 1);
+        }
+    }, [isGenerating]);
 
     return (
-        <div className="bg-secondary p-5 rounded-xl shadow-2xl border-2 border-highlight/50 animate-fadeIn flex flex-col transition-all hover:border-highlight">
+        <div className={`bg-secondary p-5 rounded-xl shadow-2xl border-2 border-highlight/50 animate-fadeIn flex flex-col transition-all hover:border-highlight ${variants.length > 1 ? 'lg:col-span-2' : ''}`}>
             <div className="flex-grow">
                 <div className="flex items-center space-x-3 mb-4">
                     <Icon className={`w-6 h-6 ${agentDetail.color}`} />
                     <h3 className="text-lg font-bold text-light">{approval.title}</h3>
+                    {isGenerating && (
+                        <span className="flex items-center text-xs font-semibold text-highlight flex-shrink-0">
+                            <svg className="animate-spin h-4 w-4 mr-1" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
+                            Writing...
+                        </span>
+                    )}
                 </div>
+                {variants.length > 1 && (
+                    <div className={`grid grid-cols-1 gap-3 mb-4 ${variants.length === 2 ? 'md:grid-cols-2' : 'md:grid-cols-3'}`}>
+                        {variants.map((variant, index) => (
+                            <div key={index} className="bg-primary rounded-lg border border-accent flex flex-col">
+                                <div className="flex items-center justify-between px-3 py-2 border-b border-accent">
+                                    <span className="text-xs font-semibold text-highlight uppercase tracking-wide">{variant.label}</span>
+                                    {canDecide && !isGenerating && (
+                                        <div className="flex items-center space-x-2 text-xs font-semibold">
+                                            <button onClick={() => setEditableContent(variant.content)} className="text-text-secondary hover:text-white" title="Use this variant as the final version">Use</button>
+                                            <button onClick={() => setEditableContent(prev => prev.trim() ? `${prev.trimEnd()}\n\n${variant.content}` : variant.content)} className="text-text-secondary hover:text-white" title="Add this variant to the final version to merge them">Append</button>
+                                        </div>
+                                    )}
+                                </div>
+                                <p className="p-3 h-48 overflow-y-auto text-sm text-text-secondary whitespace-pre-wrap">{variant.content}</p>
+                            </div>
+                        ))}
+                    </div>
+                )}
+                {variants.length > 1 && !isGenerating && (
+                    <h4 className="text-sm font-semibold text-text-secondary mb-2">Final version</h4>
+                )}
+                {(variants.length <= 1 || !isGenerating) && (
                 <div className="mb-4 bg-primary rounded-lg border border-accent">
                     <textarea
-                        value={editableContent}
+                        value={isGenerating ? approval.content : editableContent}
                         onChange={(e) => setEditableContent(e.target.value)}
+                        readOnly={!canDecide || isGenerating}
                         className="w-full h-48 p-3 bg-transparent text-text-secondary whitespace-pre-wrap font-sans text-sm focus:outline-none focus:ring-1 focus:ring-highlight rounded-lg resize-y"
                         aria-label="Editable task result"
                     />
                 </div>
+                )}
+                {postChecks.length > 0 && (
+                    <ul className="mb-4 bg-primary rounded-lg border border-accent p-3 text-sm space-y-1.5">
+                        {postChecks.map((check, index) => {
+                            const spec = getChannelSpec(check.channel);
+                            return (
+                                <li key={index} className="flex items-start gap-2">
+                                    {check.problems.length === 0
+                                        ? <CheckCircleIcon className="w-4 h-4 mt-0.5 flex-shrink-0 text-success" />
+                                        : <XCircleIcon className="w-4 h-4 mt-0.5 flex-shrink-0 text-danger" />}
+                                    <div className="min-w-0">
+                                        <p>
+                                            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${SOCIAL_CHANNEL_STYLES[check.channel]}`}>{spec.label}</span>
+                                            <span className="text-xs text-text-secondary"> {check.length} / {spec.maxLength} characters</span>
+                                        </p>
+                                        {check.problems.map(problem => <p key={problem} className="text-xs text-red-300">{problem}</p>)}
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+                {assets.length > 0 && !isGenerating && (
+                    <div className="mb-4">
+                        <p className="text-xs font-semibold text-text-secondary mb-2">Visuals &middot; added to the task's attachments when approved</p>
+                        <div className="grid grid-cols-2 gap-3">
+                            {assets.map(asset => (
+                                <a
+                                    key={asset.id}
+                                    href={asset.url}
+                                    download={asset.name}
+                                    className="block bg-primary rounded-lg border border-accent p-2 hover:border-highlight transition-colors"
+                                    title="Click to download"
+                                >
+                                    <img src={asset.url} alt={asset.name} className="w-full h-40 object-contain rounded" />
+                                    <p className="text-xs text-text-secondary truncate mt-1">{asset.name}</p>
+                                </a>
+                            ))}
+                        </div>
+                    </div>
+                )}
+                {policy && !isGenerating && (
+                    <div className="mb-4 bg-primary rounded-lg border border-accent p-3 text-sm">
+                        <p className="text-xs font-semibold text-text-secondary mb-2">Sign-off: {describeApprovalPolicy(policy, team)}</p>
+                        <ul className="space-y-1.5">
+                            {policy.approverIds.map(id => {
+                                const member = team.find(m => m.id === id);
+                                const decision = decisions.find(d => d.approverId === id);
+                                return (
+                                    <li key={id} className="flex items-start gap-2">
+                                        {decision?.decision === 'approved' ? <CheckCircleIcon className="w-4 h-4 mt-0.5 flex-shrink-0 text-success" />
+                                            : decision?.decision === 'rejected' ? <XCircleIcon className="w-4 h-4 mt-0.5 flex-shrink-0 text-danger" />
+                                            : <ClockIcon className="w-4 h-4 mt-0.5 flex-shrink-0 text-text-secondary" />}
+                                        <div className="min-w-0">
+                                            <p className="text-light">
+                                                {member?.name}{member?.role && <span className="text-text-secondary"> &middot; {member.role}</span>}
+                                                <span className="text-xs text-text-secondary"> &middot; {decision ? `${decision.decision === 'approved' ? 'Approved' : 'Rejected'} ${new Date(decision.decidedAt).toLocaleString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}` : 'Waiting'}</span>
+                                            </p>
+                                            {decision?.comment && <p className="text-text-secondary whitespace-pre-wrap">&ldquo;{decision.comment}&rdquo;</p>}
+                                        </div>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    </div>
+                )}
+                {history.length > 0 && (
+                    <div className="mb-4">
+                        <button onClick={() => setShowHistory(prev => !prev)} className="text-sm font-semibold text-text-secondary hover:text-white" aria-expanded={showHistory}>
+                            {showHistory ? 'Hide' : 'Show'} earlier drafts ({history.length})
+                        </button>
+                        {showHistory && (
+                            <ul className="mt-2 space-y-2 max-h-60 overflow-y-auto pr-1">
+                                {history.map((entry, index) => (
+                                    <li key={index} className="bg-primary rounded-lg border border-accent p-2 text-sm flex items-start justify-between gap-3">
+                                        <div className="min-w-0">
+                                            <p className="text-xs font-semibold text-text-secondary">Round {index + 1} &middot; {entry.label}</p>
+                                            <p className="text-text-secondary line-clamp-2 whitespace-pre-wrap">{entry.content}</p>
+                                        </div>
+                                        {canDecide && !isGenerating && (
+                                            <button
+                                                onClick={() => setEditableContent(entry.content)}
+                                                className="flex items-center space-x-1 flex-shrink-0 text-xs font-semibold text-text-secondary hover:text-white"
+                                                title="Use this earlier draft as the final version"
+                                            >
+                                                <UndoIcon className="w-4 h-4" />
+                                                <span>Restore</span>
+                                            </button>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                )}
                 <div className="mb-4">
+                    <button onClick={() => setShowDiscussion(prev => !prev)} className="text-sm font-semibold text-text-secondary hover:text-white" aria-expanded={showDiscussion}>
+                        {showDiscussion ? 'Hide' : 'Show'} discussion ({comments.length})
+                        {!showDiscussion && unreadCommentCount > 0 && <span className="ml-2 text-xs text-highlight">{unreadCommentCount} new</span>}
+                    </button>
+                    {showDiscussion && (
+                        <div className="mt-2">
+                            <CommentThread
+                                comments={comments}
+                                mentionCandidates={mentionCandidates}
+                                onAddComment={(body, mentions, replyTo) => onAddComment(approval.taskId, body, mentions, replyTo, approval.id)}
+                                canComment={canComment}
+                            />
+                        </div>
+                    )}
+                </div>
+                {canDecide && !isGenerating && (
+                <div className="mb-4">
+                    {approval.isResultEdit ? (
+                        <p className="text-sm text-text-secondary">An organizer edited the approved result, which stays in use until the edit is approved. Rejecting the edit keeps it.</p>
+                    ) : (
+                    <>
                      <label htmlFor={`custom-prompt-${approval.id}`} className="text-sm font-semibold text-text-secondary mb-2 block">
                         Provide a new prompt for regeneration (optional)
                     </label>
@@ -40,20 +244,82 @@ export const ApprovalCard: React.FC<ApprovalCardProps> = React.memo(({ approval,
                         className="w-full h-24 p-3 bg-primary border-2 border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight transition-all text-light"
                         aria-label="Custom prompt for regeneration"
                     />
+                    <label className="mt-2 text-sm text-text-secondary flex items-center gap-2">
+                        Variants to generate
+                        <select
+                            value={variantCount}
+                            onChange={(e) => setVariantCount(Number(e.target.value))}
+                            className="p-1.5 bg-primary border-2 border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight text-sm text-light"
+                        >
+                            {CONTENT_VARIANT_STYLES.map((style, index) => (
+                                <option key={style.label} value={index + 1}>{index + 1} ({CONTENT_VARIANT_STYLES.slice(0, index + 1).map(earlier => earlier.label).join(', ')})</option>
+                            ))}
+                        </select>
+                    </label>
+                    {comments.length > 0 && (
+                        <label className="mt-2 text-sm text-text-secondary flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                checked={includeComments}
+                                onChange={(e) => setIncludeComments(e.target.checked)}
+                                className="accent-highlight"
+                            />
+                            Share the discussion with the agent when regenerating
+                        </label>
+                    )}
+                    </>
+                    )}
+                    {policy && (
+                        <>
+                            <label htmlFor={`comment-${approval.id}`} className="mt-4 text-sm font-semibold text-text-secondary mb-2 block">
+                                Comment for the other approvers (optional)
+                            </label>
+                            <textarea
+                                id={`comment-${approval.id}`}
+                                value={comment}
+                                onChange={(e) => setComment(e.target.value)}
+                                placeholder="e.g., Fine from the budget side, but check the sponsor's name."
+                                className="w-full h-20 p-3 bg-primary border-2 border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight transition-all text-light"
+                                aria-label="Comment on your decision"
+                            />
+                        </>
+                    )}
                 </div>
+                )}
             </div>
+            {isGenerating ? (
+                canReview ? (
+                    <div className="flex justify-end mt-auto pt-4">
+                        <button
+                            onClick={() => onCancelGeneration(approval.id)}
+                            className="w-full sm:w-auto px-5 py-2 rounded-lg bg-danger text-white hover:opacity-90 transition-opacity font-semibold">
+                            Stop Generating
+                        </button>
+                    </div>
+                ) : (
+                    <p className="text-sm text-text-secondary text-right mt-auto pt-4">The agent is still writing this draft.</p>
+                )
+            ) : canDecide ? (
             <div className="flex flex-col sm:flex-row sm:justify-end sm:space-x-3 space-y-2 sm:space-y-0 mt-auto pt-4">
                 <button 
-                    onClick={() => onDecision(approval.id, 'rejected', undefined, customPrompt.trim() || undefined)}
+                    onClick={() => onDecision(approval.id, 'rejected', undefined, customPrompt.trim() || undefined, variantCount, comment.trim() || undefined, includeComments)}
                     className="w-full sm:w-auto px-5 py-2 rounded-lg bg-warning text-white hover:opacity-90 transition-opacity font-semibold">
-                    Regenerate
+                    {approval.isResultEdit ? 'Reject Edit' : 'Regenerate'}
                 </button>
                 <button 
-                    onClick={() => onDecision(approval.id, 'approved', editableContent)}
-                    className="w-full sm:w-auto px-5 py-2 rounded-lg bg-success text-white hover:opacity-90 transition-opacity font-semibold">
+                    onClick={() => onDecision(approval.id, 'approved', editableContent, undefined, undefined, comment.trim() || undefined)}
+                    disabled={!editableContent.trim()}
+                    className="w-full sm:w-auto px-5 py-2 rounded-lg bg-success text-white hover:opacity-90 transition-opacity font-semibold disabled:opacity-50 disabled:cursor-not-allowed">
                     Approve
                 </button>
             </div>
+            ) : (
+                <p className="text-sm text-text-secondary text-right mt-auto pt-4">
+                    {policy
+                        ? `${hasSignedOff ? 'You have signed off. ' : ''}Waiting on ${outstanding.map(m => m.name).join(', ')}.${canReview && !currentMemberId ? " To sign off, ask the plan's owner to link you to your place on the team." : ''}`
+                        : 'Waiting for an approver to review.'}
+                </p>
+            )}
         </div>
     );
 });
\ No newline at end of file
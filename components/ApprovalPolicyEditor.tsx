@@ -0,0 +1,56 @@
+import React from 'react';
+import { ApprovalPolicy, ApprovalRule, TeamMember } from '../types';
+
+interface ApprovalPolicyEditorProps {
+    policy: ApprovalPolicy | undefined;
+    team: TeamMember[];
+    // Called with undefined once no approvers are selected.
+    onChange: (policy: ApprovalPolicy | undefined) => void;
+}
+
+// Picks the team members who must sign off on content and whether all or any of them must.
+export const ApprovalPolicyEditor: React.FC<ApprovalPolicyEditorProps> = ({ policy, team, onChange }) => {
+    if (team.length === 0) {
+        return <p className="text-xs text-text-secondary">Add people to the team to require their sign-off.</p>;
+    }
+
+    const approverIds = policy?.approverIds ?? [];
+    const rule = policy?.rule ?? 'all';
+
+    const toggleApprover = (id: string) => {
+        const next = approverIds.includes(id) ? approverIds.filter(a => a !== id) : [...approverIds, id];
+        onChange(next.length > 0 ? { approverIds: next, rule } : undefined);
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex flex-wrap gap-x-4 gap-y-1">
+                {team.map(member => (
+                    <label key={member.id} className="text-sm text-light flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            checked={approverIds.includes(member.id)}
+                            onChange={() => toggleApprover(member.id)}
+                            className="accent-highlight"
+                        />
+                        {member.name}{member.role && <span className="text-text-secondary">({member.role})</span>}
+                    </label>
+                ))}
+            </div>
+            {approverIds.length > 1 && (
+                <label className="text-xs text-text-secondary flex items-center gap-2">
+                    Approved when
+                    <select
+                        value={rule}
+                        onChange={e => onChange({ approverIds, rule: e.target.value as ApprovalRule })}
+                        className="p-1.5 bg-primary border-2 border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight text-sm text-light"
+                    >
+                        <option value="all">all of them approve</option>
+                        <option value="any">any one of them approves</option>
+                    </select>
+                </label>
+            )}
+            {approverIds.length === 0 && <p className="text-xs text-text-secondary">No sign-off required: the first approver to review decides.</p>}
+        </div>
+    );
+};
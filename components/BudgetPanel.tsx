@@ -0,0 +1,189 @@
+import React, { useMemo, useState } from 'react';
+import { ProjectCalendar, Task, TaskStatus } from '../types';
+import { BUDGET_CURRENCY } from '../constants';
+import { calculateBurnDown, BurnDownPoint, formatCurrency, summarizeBudget } from '../services/budget';
+import { calculateTaskDates, getProjectStartDate } from '../services/schedule';
+import { DollarSignIcon } from './icons/DollarSignIcon';
+import { ChevronDownIcon } from './icons/ChevronDownIcon';
+
+interface BudgetPanelProps {
+    tasks: Task[];
+    calendar: ProjectCalendar;
+    onTaskClick: (task: Task) => void;
+}
+
+const SummaryStat: React.FC<{ label: string; value: number; tone?: 'default' | 'positive' | 'negative' }> = ({ label, value, tone = 'default' }) => {
+    const toneClass = tone === 'positive' ? 'text-success' : tone === 'negative' ? 'text-danger' : 'text-light';
+    return (
+        <div className="bg-primary p-3 rounded-lg border border-accent">
+            <p className="text-xs font-semibold text-text-secondary uppercase tracking-wide">{label}</p>
+            <p className={`text-lg font-bold tabular-nums ${toneClass}`}>{formatCurrency(value)}</p>
+        </div>
+    );
+};
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 180;
+const CHART_PADDING = 8;
+
+const BurnDownChart: React.FC<{ points: BurnDownPoint[] }> = React.memo(({ points }) => {
+    if (points.length < 2) {
+        return <p className="text-text-secondary text-sm text-center py-8">Add cost estimates to see the burn-down.</p>;
+    }
+
+    const maxValue = Math.max(1, ...points.map(p => Math.max(p.planned, p.actual ?? 0)));
+    const minValue = Math.min(0, ...points.map(p => Math.min(p.planned, p.actual ?? 0)));
+    const x = (index: number) => CHART_PADDING + (index / (points.length - 1)) * (CHART_WIDTH - CHART_PADDING * 2);
+    const y = (value: number) => CHART_PADDING + ((maxValue - value) / (maxValue - minValue)) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+    const plannedPath = points.map((p, i) => `${x(i)},${y(p.planned)}`).join(' ');
+    const actualPath = points
+        .map((p, i) => (p.actual === null ? null : `${x(i)},${y(p.actual)}`))
+        .filter((point): point is string => point !== null)
+        .join(' ');
+
+    const formatDate = (date: Date) => date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+    return (
+        <div>
+            <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-44" preserveAspectRatio="none" role="img" aria-label="Budget burn-down chart">
+                {minValue < 0 && (
+                    <line x1={CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y1={y(0)} y2={y(0)} className="stroke-danger/50" strokeDasharray="4 4" />
+                )}
+                <polyline points={plannedPath} fill="none" className="stroke-text-secondary" strokeWidth={2} strokeDasharray="6 4" vectorEffect="non-scaling-stroke" />
+                {actualPath && (
+                    <polyline points={actualPath} fill="none" className="stroke-highlight" strokeWidth={3} vectorEffect="non-scaling-stroke" />
+                )}
+            </svg>
+            <div className="flex justify-between text-xs text-text-secondary mt-1">
+                <span>{formatDate(points[0].date)}</span>
+                <div className="flex items-center space-x-4">
+                    <span className="flex items-center"><span className="inline-block w-4 border-t-2 border-dashed border-text-secondary mr-1.5"></span>Planned</span>
+                    <span className="flex items-center"><span className="inline-block w-4 border-t-2 border-highlight mr-1.5"></span>Actual</span>
+                </div>
+                <span>{formatDate(points[points.length - 1].date)}</span>
+            </div>
+        </div>
+    );
+});
+
+export const BudgetPanel: React.FC<BudgetPanelProps> = React.memo(({ tasks, calendar, onTaskClick }) => {
+    const [isExpanded, setIsExpanded] = useState(true);
+
+    const summary = useMemo(() => summarizeBudget(tasks), [tasks]);
+
+    const burnDown = useMemo(() => {
+        if (tasks.length === 0) return [];
+        // Plan spend against the same schedule the timeline shows.
+        const plannedEndDates = new Map(calculateTaskDates(tasks, getProjectStartDate(tasks), calendar).map(t => [t.id, t.ganttEndDate]));
+        return calculateBurnDown(tasks, plannedEndDates);
+    }, [tasks, calendar]);
+
+    const taskMap = useMemo(() => new Map(tasks.map(t => [t.id, t])), [tasks]);
+
+    if (summary.lines.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="bg-secondary p-4 md:p-6 rounded-2xl border border-accent/50">
+            <button onClick={() => setIsExpanded(prev => !prev)} className="w-full flex justify-between items-center text-left">
+                <div className="flex items-center space-x-3">
+                    <DollarSignIcon className="w-6 h-6 text-green-400" />
+                    <div>
+                        <h4 className="font-bold text-lg text-light tracking-wide">Budget</h4>
+                        <p className="text-sm text-text-secondary">All amounts in {BUDGET_CURRENCY}</p>
+                    </div>
+                </div>
+                <ChevronDownIcon className={`w-5 h-5 text-text-secondary transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+            </button>
+
+            {isExpanded && (
+                <div className="mt-4 space-y-6 animate-fadeIn">
+                    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+                        <SummaryStat label="Sponsor Income" value={summary.income} />
+                        <SummaryStat label="Estimated Cost" value={summary.estimatedExpense} />
+                        <SummaryStat label="Spent So Far" value={summary.actualExpense} />
+                        <SummaryStat label="Projected Cost" value={summary.projectedExpense} />
+                        <SummaryStat label="Variance" value={summary.variance} tone={summary.variance < 0 ? 'negative' : 'positive'} />
+                        <SummaryStat label="Net Balance" value={summary.balance} tone={summary.balance < 0 ? 'negative' : 'positive'} />
+                    </div>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                        <div>
+                            <h5 className="text-sm font-semibold text-text-secondary mb-2">Burn-down</h5>
+                            <div className="bg-primary p-3 rounded-lg border border-accent">
+                                <BurnDownChart points={burnDown} />
+                            </div>
+                        </div>
+                        <div>
+                            <h5 className="text-sm font-semibold text-text-secondary mb-2">By Category</h5>
+                            <table className="w-full text-sm bg-primary rounded-lg border border-accent overflow-hidden">
+                                <thead>
+                                    <tr className="text-text-secondary text-xs uppercase">
+                                        <th className="text-left p-2">Category</th>
+                                        <th className="text-right p-2">Estimated</th>
+                                        <th className="text-right p-2">Actual</th>
+                                        <th className="text-right p-2">Variance</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {summary.byCategory.map(row => {
+                                        const variance = row.estimated - row.projected;
+                                        return (
+                                            <tr key={row.category} className="border-t border-accent text-light tabular-nums">
+                                                <td className="p-2">{row.category}</td>
+                                                <td className="p-2 text-right">{formatCurrency(row.estimated)}</td>
+                                                <td className="p-2 text-right">{formatCurrency(row.actual)}</td>
+                                                <td className={`p-2 text-right ${variance < 0 ? 'text-danger' : 'text-success'}`}>{formatCurrency(variance)}</td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+
+                    <div>
+                        <h5 className="text-sm font-semibold text-text-secondary mb-2">Ledger</h5>
+                        <div className="max-h-64 overflow-y-auto rounded-lg border border-accent">
+                            <table className="w-full text-sm bg-primary">
+                                <thead className="sticky top-0 bg-primary">
+                                    <tr className="text-text-secondary text-xs uppercase">
+                                        <th className="text-left p-2">Task</th>
+                                        <th className="text-left p-2">Category</th>
+                                        <th className="text-right p-2">Income</th>
+                                        <th className="text-right p-2">Estimated</th>
+                                        <th className="text-right p-2">Actual</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {summary.lines.map(line => {
+                                        const task = taskMap.get(line.taskId);
+                                        const isOverBudget = line.actual !== undefined && line.actual > line.estimated;
+                                        return (
+                                            <tr
+                                                key={line.taskId}
+                                                onClick={() => task && onTaskClick(task)}
+                                                className="border-t border-accent text-light tabular-nums cursor-pointer hover:bg-accent/50 transition-colors"
+                                            >
+                                                <td className={`p-2 truncate max-w-xs ${line.status === TaskStatus.COMPLETED ? 'text-text-secondary' : ''}`} title={line.title}>{line.title}</td>
+                                                <td className="p-2 text-text-secondary">{line.committed > 0 && line.estimated === 0 ? '—' : line.category}</td>
+                                                <td className="p-2 text-right text-success">{line.committed > 0 ? formatCurrency(line.committed) : ''}</td>
+                                                <td className="p-2 text-right">{formatCurrency(line.estimated)}</td>
+                                                <td className={`p-2 text-right ${isOverBudget ? 'text-danger font-semibold' : ''}`}>
+                                                    {line.actual !== undefined ? formatCurrency(line.actual) : <span className="text-text-secondary">—</span>}
+                                                </td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                        <p className="text-xs text-text-secondary mt-2">Click a row to edit its costs.</p>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+});
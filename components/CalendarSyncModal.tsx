@@ -0,0 +1,167 @@
+import React, { useMemo, useState } from 'react';
+import { EventDates, ProjectCalendar, Task, TeamMember } from '../types';
+import { exportPlanToICal, parseICal, planICalImport, ScheduleChange, ScheduledDates } from '../services/ical';
+import { calculateTaskDates, getProjectStartDate } from '../services/schedule';
+
+interface CalendarSyncModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    tasks: Task[];
+    calendar: ProjectCalendar;
+    eventDates: EventDates | null;
+    team: TeamMember[];
+    projectName: string | null;
+    sessionId: string | null;
+    onImport: (changes: ScheduleChange[]) => void;
+    readOnly?: boolean;
+}
+
+const formatDateKey = (key: string) =>
+    new Date(`${key}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' });
+
+// Downloads the timeline as an .ics file for Google Calendar or Outlook, and reads back
+// a file edited there. Changes from the file are previewed before they are applied.
+export const CalendarSyncModal: React.FC<CalendarSyncModalProps> = ({ isOpen, onClose, tasks, calendar, eventDates, team, projectName, sessionId, onImport, readOnly = false }) => {
+    const [changes, setChanges] = useState<ScheduleChange[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isEarlyStartConfirmed, setIsEarlyStartConfirmed] = useState(false);
+
+    const schedule = useMemo(() => new Map<string, ScheduledDates>(
+        calculateTaskDates(tasks, getProjectStartDate(tasks), calendar, eventDates)
+            .map(task => [task.id, { start: task.ganttStartDate, end: task.ganttEndDate }])
+    ), [tasks, calendar, eventDates]);
+
+    if (!isOpen) return null;
+
+    const handleDownload = () => {
+        const ics = exportPlanToICal(tasks, schedule, { planId: sessionId, projectName, eventDates, team });
+        const blob = new Blob([ics], { type: 'text/calendar;charset=utf-8' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${(projectName || 'festflow-plan').replace(/[^\w-]+/g, '-').toLowerCase()}.ics`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const events = parseICal(await file.text());
+            setChanges(planICalImport(tasks, schedule, events, calendar, sessionId));
+            setIsEarlyStartConfirmed(false);
+            setError(null);
+        } catch (err) {
+            console.error("Failed to read calendar file:", err);
+            setChanges(null);
+            setError(err instanceof Error ? err.message : 'The calendar file could not be read.');
+        }
+    };
+
+    const startsEarly = changes?.some(change => change.unfinishedPrerequisites) ?? false;
+
+    const handleApply = () => {
+        if (changes && changes.length > 0) onImport(changes);
+        onClose();
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4 animate-fadeIn"
+            onClick={onClose}
+        >
+            <div
+                className="bg-secondary rounded-xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col border border-accent transform transition-transform duration-300 scale-95 animate-fadeIn"
+                onClick={e => e.stopPropagation()}
+                style={{animationDuration: '0.3s'}}
+            >
+                <div className="p-4 border-b border-accent flex justify-between items-center">
+                    <h3 className="text-lg font-bold text-highlight">Calendar Export &amp; Import</h3>
+                    <button onClick={onClose} className="text-text-secondary hover:text-white text-2xl">&times;</button>
+                </div>
+
+                <div className="p-6 overflow-y-auto space-y-6">
+                    <div className="space-y-2">
+                        <h4 className="text-sm font-semibold text-text-secondary">Export</h4>
+                        <p className="text-sm text-text-secondary">Every task is an all-day event on its scheduled days, with its prerequisites in the description and sub-tasks grouped under their parent task as a category. Import the file into Google Calendar, Outlook or Apple Calendar.</p>
+                        <button
+                            onClick={handleDownload}
+                            disabled={tasks.length === 0}
+                            className="px-4 py-2 rounded-lg bg-accent text-light hover:bg-accent/80 transition-opacity text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Download .ics
+                        </button>
+                    </div>
+
+                    {!readOnly && (
+                        <div className="space-y-3 border-t border-accent pt-6">
+                            <h4 className="text-sm font-semibold text-text-secondary">Import</h4>
+                            <p className="text-sm text-text-secondary">Read back a file exported from this plan after moving or resizing events. Moved tasks are pinned to their new first day; longer or shorter events change the task's duration in working days.</p>
+                            <label className="inline-flex items-center px-4 py-2 rounded-lg bg-accent text-light hover:bg-accent/80 transition-opacity text-sm font-semibold cursor-pointer">
+                                Choose .ics File
+                                <input type="file" accept=".ics,text/calendar" className="hidden" onChange={handleFileChange} />
+                            </label>
+
+                            {error && <div className="bg-danger/20 border border-danger text-red-300 p-3 rounded-lg text-sm">{error}</div>}
+
+                            {changes && (changes.length === 0 ? (
+                                <p className="text-sm text-text-secondary">The file matches the current timeline. There is nothing to import.</p>
+                            ) : (
+                                <ul className="space-y-2">
+                                    {changes.map(change => {
+                                        const task = tasks.find(t => t.id === change.taskId);
+                                        const dates = schedule.get(change.taskId);
+                                        return (
+                                            <li key={change.taskId} className="bg-primary p-2 pl-3 rounded-lg border border-accent text-sm">
+                                                <p className="text-light">{change.title}</p>
+                                                <p className="text-xs text-text-secondary">
+                                                    {change.startDate && dates && <>Starts {formatDateKey(change.startDate)} instead of {dates.start.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' })}</>}
+                                                    {change.startDate && change.estimatedDuration && ' · '}
+                                                    {change.estimatedDuration && <>{change.estimatedDuration} working day{change.estimatedDuration === 1 ? '' : 's'} instead of {task?.estimatedDuration || 1}</>}
+                                                </p>
+                                                {change.unfinishedPrerequisites && (
+                                                    <p className="text-xs text-warning">Starts before {change.unfinishedPrerequisites.join(', ')} {change.unfinishedPrerequisites.length === 1 ? 'is' : 'are'} done</p>
+                                                )}
+                                            </li>
+                                        );
+                                    })}
+                                </ul>
+                            ))}
+                            {startsEarly && (
+                                <label className="flex items-start space-x-2 text-sm text-light cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={isEarlyStartConfirmed}
+                                        onChange={e => setIsEarlyStartConfirmed(e.target.checked)}
+                                        className="accent-highlight mt-1"
+                                    />
+                                    <span>Pinned tasks start on their new date, so their agents will begin work without waiting for the prerequisites above.</span>
+                                </label>
+                            )}
+                        </div>
+                    )}
+                </div>
+
+                <div className="p-4 border-t border-accent flex justify-end space-x-3">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 rounded-lg bg-accent text-light hover:bg-accent/80 transition-opacity font-semibold"
+                    >
+                        {changes && changes.length > 0 ? 'Cancel' : 'Close'}
+                    </button>
+                    {!readOnly && changes && changes.length > 0 && (
+                        <button
+                            onClick={handleApply}
+                            disabled={startsEarly && !isEarlyStartConfirmed}
+                            className="px-4 py-2 rounded-lg bg-highlight text-white hover:opacity-90 transition-opacity font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Apply {changes.length} Change{changes.length === 1 ? '' : 's'}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,149 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { DiscussionComment } from '../types';
+import { MentionCandidate, findMentions } from '../services/comments';
+
+interface CommentThreadProps {
+    // Oldest first; replies are grouped under the comment they answer.
+    comments: DiscussionComment[];
+    mentionCandidates: MentionCandidate[];
+    onAddComment: (body: string, mentions: string[], replyTo?: string) => void;
+    // False for members who can read the discussion but not join it.
+    canComment: boolean;
+}
+
+const formatTimestamp = (iso: string) => new Date(iso).toLocaleString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The partly typed name after an "@" at the end of the text, if any.
+const MENTION_QUERY_PATTERN = /(?:^|\s)@([^\s@]*)$/;
+
+// Shows a task's discussion as threads and lets members reply or @mention people.
+export const CommentThread: React.FC<CommentThreadProps> = React.memo(({ comments, mentionCandidates, onAddComment, canComment }) => {
+    const [body, setBody] = useState('');
+    const [replyTo, setReplyTo] = useState<DiscussionComment | null>(null);
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+    const threads = useMemo(() => {
+        const ids = new Set(comments.map(c => c.id));
+        return comments
+            .filter(c => !c.replyTo || !ids.has(c.replyTo))
+            .map(root => ({ root, replies: comments.filter(c => c.replyTo === root.id) }));
+    }, [comments]);
+
+    // Highlights "@Name" for every person that can be mentioned.
+    const mentionPattern = useMemo(() => mentionCandidates.length > 0
+        ? new RegExp(`(@(?:${mentionCandidates.map(c => escapeRegExp(c.name)).sort((a, b) => b.length - a.length).join('|')}))`, 'gi')
+        : null, [mentionCandidates]);
+
+    const mentionQuery = body.match(MENTION_QUERY_PATTERN)?.[1]?.toLowerCase();
+    const suggestions = mentionQuery !== undefined
+        ? mentionCandidates.filter(c => c.name.toLowerCase().startsWith(mentionQuery) || c.email.startsWith(mentionQuery)).slice(0, 5)
+        : [];
+
+    const insertMention = (candidate: MentionCandidate) => {
+        setBody(prev => prev.replace(MENTION_QUERY_PATTERN, match => `${match.startsWith('@') ? '' : match[0]}@${candidate.name} `));
+        textareaRef.current?.focus();
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!body.trim()) return;
+        onAddComment(body.trim(), findMentions(body, mentionCandidates), replyTo?.id);
+        setBody('');
+        setReplyTo(null);
+    };
+
+    const renderBody = (text: string) => mentionPattern
+        ? text.split(mentionPattern).map((part, index) => index % 2 === 1
+            ? <span key={index} className="text-highlight font-semibold">{part}</span>
+            : <React.Fragment key={index}>{part}</React.Fragment>)
+        : text;
+
+    const renderComment = (comment: DiscussionComment, isReply: boolean) => (
+        <div key={comment.id} className={`text-sm ${isReply ? 'ml-6 pl-3 border-l-2 border-accent' : ''}`}>
+            <p className="text-xs text-text-secondary">
+                <span className="font-semibold text-light">{comment.authorName}</span> &middot; {formatTimestamp(comment.createdAt)}
+                {comment.approvalId && <span> &middot; on a draft</span>}
+            </p>
+            <p className="text-light whitespace-pre-wrap break-words">{renderBody(comment.body)}</p>
+        </div>
+    );
+
+    return (
+        <div className="space-y-3">
+            {threads.length === 0 ? (
+                <p className="text-sm text-text-secondary">No comments yet.</p>
+            ) : (
+                <ul className="space-y-3 max-h-72 overflow-y-auto pr-1">
+                    {threads.map(({ root, replies }) => (
+                        <li key={root.id} className="bg-primary p-3 rounded-lg border border-accent space-y-2">
+                            {renderComment(root, false)}
+                            {replies.map(reply => renderComment(reply, true))}
+                            {canComment && (
+                                <button
+                                    type="button"
+                                    onClick={() => {
+                                        setReplyTo(root);
+                                        textareaRef.current?.focus();
+                                    }}
+                                    className="text-xs font-semibold text-text-secondary hover:text-white"
+                                >
+                                    Reply
+                                </button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {canComment && (
+                <form onSubmit={handleSubmit} className="space-y-2">
+                    {replyTo && (
+                        <p className="text-xs text-text-secondary">
+                            Replying to {replyTo.authorName}
+                            <button type="button" onClick={() => setReplyTo(null)} className="ml-2 font-semibold hover:text-white">Cancel</button>
+                        </p>
+                    )}
+                    <div className="relative">
+                        <textarea
+                            ref={textareaRef}
+                            value={body}
+                            onChange={e => setBody(e.target.value)}
+                            onKeyDown={e => {
+                                if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleSubmit(e);
+                            }}
+                            placeholder="Add a comment. Type @ to mention someone."
+                            className="w-full h-20 p-3 bg-primary border-2 border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight transition-all text-light text-sm"
+                            aria-label="New comment"
+                        />
+                        {suggestions.length > 0 && (
+                            <ul className="absolute left-2 bottom-full mb-1 z-10 bg-secondary border border-accent rounded-lg shadow-xl py-1 min-w-[12rem]">
+                                {suggestions.map(candidate => (
+                                    <li key={candidate.email}>
+                                        <button
+                                            type="button"
+                                            onClick={() => insertMention(candidate)}
+                                            className="w-full text-left px-3 py-1.5 text-sm text-light hover:bg-accent"
+                                        >
+                                            {candidate.name} <span className="text-xs text-text-secondary">{candidate.email}</span>
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                    <div className="flex justify-end">
+                        <button
+                            type="submit"
+                            disabled={!body.trim()}
+                            className="px-4 py-2 rounded-lg bg-accent text-light hover:bg-accent/80 transition-opacity text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {replyTo ? 'Reply' : 'Comment'}
+                        </button>
+                    </div>
+                </form>
+            )}
+        </div>
+    );
+});
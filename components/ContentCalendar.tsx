@@ -0,0 +1,187 @@
+import React, { useMemo, useState } from 'react';
+import { ScheduledPost, Task } from '../types';
+import { SOCIAL_CHANNEL_STYLES } from '../constants';
+import { formatPublishTime, fromDateTimeInputValue, getChannelSpec, toDateTimeInputValue } from '../services/socialPosts';
+
+interface ContentCalendarProps {
+    tasks: Task[];
+    onTaskClick: (task: Task) => void;
+    onReschedule: (taskId: string, postId: string, publishAt: string) => void;
+    onCancelPost: (taskId: string, postId: string) => void;
+    canEdit: boolean;
+}
+
+interface CalendarPost {
+    task: Task;
+    post: ScheduledPost;
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const STATUS_STYLES: Record<ScheduledPost['status'], string> = {
+    scheduled: 'border-accent',
+    published: 'border-success opacity-70',
+    failed: 'border-danger',
+};
+
+const dayKey = (date: Date) => `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+
+// The six weeks, starting on Monday, that cover a month.
+const getMonthGrid = (month: Date): Date[] => {
+    const first = new Date(month.getFullYear(), month.getMonth(), 1);
+    const start = new Date(first);
+    start.setDate(first.getDate() - ((first.getDay() + 6) % 7));
+    return Array.from({ length: 42 }, (_, i) => new Date(start.getFullYear(), start.getMonth(), start.getDate() + i));
+};
+
+// A month view of every scheduled and published social post in the plan. Selecting a
+// post shows its text and lets organizers move, publish or cancel it.
+export const ContentCalendar: React.FC<ContentCalendarProps> = React.memo(({ tasks, onTaskClick, onReschedule, onCancelPost, canEdit }) => {
+    const [month, setMonth] = useState(() => new Date(new Date().getFullYear(), new Date().getMonth(), 1));
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [newTime, setNewTime] = useState('');
+
+    const posts = useMemo<CalendarPost[]>(() => tasks
+        .flatMap(task => (task.posts ?? []).map(post => ({ task, post })))
+        .sort((a, b) => a.post.publishAt.localeCompare(b.post.publishAt)), [tasks]);
+    const postsByDay = useMemo(() => {
+        const map = new Map<string, CalendarPost[]>();
+        posts.forEach(item => {
+            const key = dayKey(new Date(item.post.publishAt));
+            map.set(key, [...(map.get(key) || []), item]);
+        });
+        return map;
+    }, [posts]);
+
+    const selected = posts.find(item => item.post.id === selectedId);
+    const grid = getMonthGrid(month);
+    const todayKey = dayKey(new Date());
+    const counts = {
+        scheduled: posts.filter(p => p.post.status === 'scheduled').length,
+        published: posts.filter(p => p.post.status === 'published').length,
+        failed: posts.filter(p => p.post.status === 'failed').length,
+    };
+
+    const moveMonth = (offset: number) => setMonth(prev => new Date(prev.getFullYear(), prev.getMonth() + offset, 1));
+
+    const handleSelect = (item: CalendarPost) => {
+        setSelectedId(item.post.id);
+        setNewTime(toDateTimeInputValue(item.post.publishAt));
+    };
+
+    const handleMove = () => {
+        const publishAt = fromDateTimeInputValue(newTime);
+        if (selected && publishAt) onReschedule(selected.task.id, selected.post.id, publishAt);
+    };
+
+    return (
+        <div className="bg-secondary p-4 rounded-xl border border-accent space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex items-center space-x-2">
+                    <button onClick={() => moveMonth(-1)} className="px-2 py-1 rounded-md text-text-secondary hover:bg-accent" aria-label="Previous month">&lsaquo;</button>
+                    <h3 className="text-lg font-bold text-light w-44 text-center">{month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}</h3>
+                    <button onClick={() => moveMonth(1)} className="px-2 py-1 rounded-md text-text-secondary hover:bg-accent" aria-label="Next month">&rsaquo;</button>
+                    <button
+                        onClick={() => setMonth(new Date(new Date().getFullYear(), new Date().getMonth(), 1))}
+                        className="px-3 py-1 text-sm rounded-md text-text-secondary hover:bg-accent"
+                    >
+                        Today
+                    </button>
+                </div>
+                <p className="text-sm text-text-secondary">
+                    {counts.scheduled} scheduled &middot; {counts.published} published{counts.failed > 0 && <span className="text-red-300"> &middot; {counts.failed} failed</span>}
+                </p>
+            </div>
+
+            {posts.length === 0 && (
+                <p className="text-sm text-text-secondary">No posts are scheduled yet. Once a Marketing task's channel posts are approved, use "Schedule Posts" in its result view.</p>
+            )}
+
+            <div className="grid grid-cols-7 gap-1 text-xs">
+                {WEEKDAYS.map(day => (
+                    <div key={day} className="text-center font-semibold text-text-secondary pb-1">{day}</div>
+                ))}
+                {grid.map(date => {
+                    const key = dayKey(date);
+                    const isOtherMonth = date.getMonth() !== month.getMonth();
+                    return (
+                        <div
+                            key={key}
+                            className={`min-h-[6rem] p-1 rounded-md border ${key === todayKey ? 'border-highlight' : 'border-accent/50'} ${isOtherMonth ? 'opacity-40' : 'bg-primary'}`}
+                        >
+                            <p className="text-text-secondary text-right">{date.getDate()}</p>
+                            <div className="space-y-1">
+                                {(postsByDay.get(key) || []).map(item => (
+                                    <button
+                                        key={item.post.id}
+                                        onClick={() => handleSelect(item)}
+                                        className={`w-full text-left p-1 rounded border-l-4 bg-secondary hover:bg-accent transition-colors ${STATUS_STYLES[item.post.status]} ${selectedId === item.post.id ? 'ring-1 ring-highlight' : ''}`}
+                                        title={item.post.text}
+                                    >
+                                        <span className={`px-1 rounded font-semibold ${SOCIAL_CHANNEL_STYLES[item.post.channel]}`}>{getChannelSpec(item.post.channel).label}</span>
+                                        <span className="text-text-secondary"> {new Date(item.post.publishAt).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}</span>
+                                        <p className="text-light truncate">{item.task.title}</p>
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            {selected && (
+                <div className="bg-primary p-4 rounded-lg border border-accent space-y-3 text-sm">
+                    <div className="flex flex-wrap items-center gap-2">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${SOCIAL_CHANNEL_STYLES[selected.post.channel]}`}>{getChannelSpec(selected.post.channel).label}</span>
+                        <button onClick={() => onTaskClick(selected.task)} className="font-semibold text-light hover:text-highlight">{selected.task.title}</button>
+                        <span className="text-text-secondary">
+                            &middot; {selected.post.status === 'published'
+                                ? `Published ${formatPublishTime(selected.post.publishedAt ?? selected.post.publishAt)} via ${selected.post.adapter}`
+                                : `${selected.post.status === 'failed' ? 'Failed' : 'Scheduled'} for ${formatPublishTime(selected.post.publishAt)}`}
+                            &middot; by {selected.post.scheduledBy}
+                        </span>
+                        <button onClick={() => setSelectedId(null)} className="ml-auto text-text-secondary hover:text-white text-xl leading-none" aria-label="Close post">&times;</button>
+                    </div>
+                    <p className="text-light whitespace-pre-wrap">{selected.post.text}</p>
+                    {selected.post.error && <p className="text-xs text-red-300">{selected.post.error}</p>}
+                    {selected.post.url && (
+                        <a href={selected.post.url} target="_blank" rel="noopener noreferrer" className="text-xs font-semibold text-highlight hover:underline">View the post</a>
+                    )}
+                    {canEdit && selected.post.status !== 'published' && (
+                        <div className="flex flex-wrap items-center gap-2 pt-1">
+                            <input
+                                type="datetime-local"
+                                value={newTime}
+                                onChange={e => setNewTime(e.target.value)}
+                                className="p-1.5 bg-secondary border-2 border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight text-sm text-light"
+                                aria-label="New publish time"
+                            />
+                            <button
+                                onClick={handleMove}
+                                disabled={!fromDateTimeInputValue(newTime)}
+                                className="px-3 py-1.5 rounded-lg bg-accent text-light hover:bg-accent/80 transition-opacity text-xs font-semibold disabled:opacity-50"
+                            >
+                                {selected.post.status === 'failed' ? 'Retry at This Time' : 'Move'}
+                            </button>
+                            <button
+                                onClick={() => onReschedule(selected.task.id, selected.post.id, new Date().toISOString())}
+                                className="px-3 py-1.5 rounded-lg bg-highlight text-white hover:opacity-90 transition-opacity text-xs font-semibold"
+                            >
+                                Publish Now
+                            </button>
+                            <button
+                                onClick={() => {
+                                    onCancelPost(selected.task.id, selected.post.id);
+                                    setSelectedId(null);
+                                }}
+                                className="ml-auto px-3 py-1.5 rounded-lg text-red-400 hover:bg-danger hover:text-white transition-colors text-xs font-semibold"
+                            >
+                                Cancel Post
+                            </button>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+});
@@ -1,30 +1,52 @@
 
 import React, { useState, useMemo } from 'react';
-import { Task, Approval, ActivityLog, AgentName, AgentStatus, TaskStatus } from '../types';
-import { AGENT_NAMES, AGENT_DETAILS, AGENT_STATUS_STYLES } from '../constants';
-import { TaskLane } from './TaskLane';
+import { Task, Approval, ActivityLog, AgentStatus, TaskStatus, ProjectCalendar, EventDates, TeamMember, Sponsor, AgentDefinition, RegistrationStatus, UserProfile } from '../types';
+import { AGENT_STATUS_STYLES, MASTER_PLANNER_AGENT, SessionPermissions } from '../constants';
+import { getAgentDisplay } from '../services/agentRegistry';
+import { createRegistrationPage, summarizeRegistrations } from '../services/registration';
+import { MentionCandidate, countUnreadComments, getMentionNotices, getTaskComments } from '../services/comments';
+import { TaskLane, LaneOwner } from './TaskLane';
 import { ApprovalCard } from './ApprovalCard';
+import { MentionsInbox } from './MentionsInbox';
 import { AgentActivityFeed } from './AgentActivityFeed';
 import { GanttChart } from './GanttChart';
+import { ContentCalendar } from './ContentCalendar';
+import { BudgetPanel } from './BudgetPanel';
+import { ProjectCalendarModal } from './ProjectCalendarModal';
+import { EventDeadlinePanel } from './EventDeadlinePanel';
+import { TeamRosterModal } from './TeamRosterModal';
+import { SponsorsModal } from './SponsorsModal';
+import { RegistrationModal } from './RegistrationModal';
+import { RegistrationPanel } from './RegistrationPanel';
+import { AgentRegistryModal } from './AgentRegistryModal';
+import { CalendarSyncModal } from './CalendarSyncModal';
+import { ScheduleChange } from '../services/ical';
 import { PencilIcon } from './icons/PencilIcon';
+import { CalendarIcon } from './icons/CalendarIcon';
 import { SearchIcon } from './icons/SearchIcon';
 import { FilterIcon } from './icons/FilterIcon';
 import { XCircleIcon } from './icons/XCircleIcon';
+import { UserIcon } from './icons/UserIcon';
+import { UsersIcon } from './icons/UsersIcon';
+import { CogIcon } from './icons/CogIcon';
+import { DollarSignIcon } from './icons/DollarSignIcon';
+import { TicketIcon } from './icons/TicketIcon';
 
 interface AgentStatusGridProps {
-    agentStatus: Record<AgentName, AgentStatus>;
-    agentWork: Record<AgentName, string | null>;
+    agents: AgentDefinition[];
+    agentStatus: Record<string, AgentStatus>;
+    agentWork: Record<string, string | null>;
     tasks: Task[];
 }
 
-const AgentStatusGrid: React.FC<AgentStatusGridProps> = React.memo(({ agentStatus, agentWork, tasks }) => {
+const AgentStatusGrid: React.FC<AgentStatusGridProps> = React.memo(({ agents, agentStatus, agentWork, tasks }) => {
     return (
         <div className="bg-secondary p-4 rounded-xl h-96 shadow-inner border border-accent flex flex-col">
              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 flex-grow overflow-y-auto pr-2 -mr-3">
-                {AGENT_NAMES.map(agentName => {
-                    const status = agentStatus[agentName];
-                    const work = agentWork[agentName];
-                    const agentDetail = AGENT_DETAILS[agentName];
+                {[MASTER_PLANNER_AGENT, ...agents].map(({ name: agentName }) => {
+                    const status = agentStatus[agentName] ?? AgentStatus.IDLE;
+                    const work = agentWork[agentName] ?? null;
+                    const agentDetail = getAgentDisplay(agents, agentName);
                     const statusStyle = AGENT_STATUS_STYLES[status];
                     const AgentIcon = agentDetail.icon;
                     const StatusIcon = statusStyle.icon;
@@ -130,15 +152,46 @@ interface DashboardProps {
     tasks: Task[];
     approvals: Approval[];
     logs: ActivityLog[];
-    agentStatus: Record<AgentName, AgentStatus>;
-    agentWork: Record<AgentName, string | null>;
-    onApproval: (approvalId: string, decision: 'approved' | 'rejected', newContent?: string, customPrompt?: string) => void;
+    agentStatus: Record<string, AgentStatus>;
+    agentWork: Record<string, string | null>;
+    onApproval: (approvalId: string, decision: 'approved' | 'rejected', newContent?: string, customPrompt?: string, variantCount?: number, comment?: string) => void;
+    onCancelGeneration: (approvalId: string) => void;
     onCompleteTask: (taskId: string) => void;
-    onReassignTask: (taskId: string, newAgent: AgentName) => void;
+    onReassignTask: (taskId: string, newAgent: string) => void;
     onTaskClick: (task: Task) => void;
     onViewResult: (task: Task) => void;
     onTaskUpdate: (taskId: string, updates: Partial<Task>) => void;
+    onReschedulePost: (taskId: string, postId: string, publishAt: string) => void;
+    onCancelPost: (taskId: string, postId: string) => void;
     onGanttSaveChanges: (orderedTasks: Task[]) => void;
+    onScheduleImport: (changes: ScheduleChange[]) => void;
+    // Used to name the exported calendar.
+    projectName: string | null;
+    calendar: ProjectCalendar;
+    onCalendarChange: (calendar: ProjectCalendar) => void;
+    eventDates: EventDates | null;
+    onEventDatesChange: (eventDates: EventDates | null) => void;
+    team: TeamMember[];
+    onTeamChange: (team: TeamMember[]) => void;
+    sponsors: Sponsor[];
+    onSponsorsChange: (sponsors: Sponsor[]) => void;
+    agents: AgentDefinition[];
+    onAgentsChange: (agents: AgentDefinition[]) => void;
+    // Matched against team member emails for the "My Tasks" filter.
+    currentUserEmail: string | null;
+    // The team member the signed-in user signs off approvals as.
+    approverId: string | null;
+    // When this browser last read each task's comments, keyed by task ID.
+    commentReads: Record<string, string>;
+    onCommentsRead: (taskId: string) => void;
+    onAddComment: (taskId: string, body: string, mentions: string[], replyTo?: string, approvalId?: string) => void;
+    mentionCandidates: MentionCandidate[];
+    permissions: SessionPermissions;
+    // Registration needs a saved plan, since people register against it in Firestore.
+    sessionId: string | null;
+    registration: RegistrationStatus | null;
+    // Fills in the venue of a new registration form.
+    userProfile: UserProfile | null;
 }
 
 export const Dashboard: React.FC<DashboardProps> = ({
@@ -148,20 +201,85 @@ export const Dashboard: React.FC<DashboardProps> = ({
     agentStatus,
     agentWork,
     onApproval,
+    onCancelGeneration,
     onCompleteTask,
     onReassignTask,
     onTaskClick,
     onViewResult,
     onTaskUpdate,
-    onGanttSaveChanges
+    onReschedulePost,
+    onCancelPost,
+    onGanttSaveChanges,
+    onScheduleImport,
+    projectName,
+    calendar,
+    onCalendarChange,
+    eventDates,
+    onEventDatesChange,
+    team,
+    onTeamChange,
+    sponsors,
+    onSponsorsChange,
+    agents,
+    onAgentsChange,
+    currentUserEmail,
+    approverId,
+    commentReads,
+    onCommentsRead,
+    onAddComment,
+    mentionCandidates,
+    permissions,
+    sessionId,
+    registration,
+    userProfile
 }) => {
-    const [view, setView] = useState<'kanban' | 'gantt'>('kanban');
+    const [view, setView] = useState<'kanban' | 'people' | 'gantt' | 'posts'>('kanban');
     const [isGanttEditing, setIsGanttEditing] = useState(false);
+    const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+    const [isCalendarSyncOpen, setIsCalendarSyncOpen] = useState(false);
+    const [isTeamOpen, setIsTeamOpen] = useState(false);
+    const [isSponsorsOpen, setIsSponsorsOpen] = useState(false);
+    const [isRegistrationOpen, setIsRegistrationOpen] = useState(false);
+    const [isAgentsOpen, setIsAgentsOpen] = useState(false);
+    const [showSlack, setShowSlack] = useState(false);
     const [searchTerm, setSearchTerm] = useState('');
-    const [filterAgent, setFilterAgent] = useState<AgentName | 'all'>('all');
+    const [filterAgent, setFilterAgent] = useState<string | 'all'>('all');
     const [filterStatus, setFilterStatus] = useState<TaskStatus | 'all'>('all');
+    const [showMyTasks, setShowMyTasks] = useState(false);
 
-    const pendingApprovals = approvals.filter(a => a.status === 'pending');
+    // Drafts that are still streaming in are shown alongside those awaiting a decision.
+    const pendingApprovals = approvals.filter(a => a.status === 'pending' || a.status === 'generating');
+
+    const currentMember = useMemo(() => {
+        const email = currentUserEmail?.toLowerCase();
+        return email ? team.find(m => m.email === email) ?? null : null;
+    }, [team, currentUserEmail]);
+    const isMyTasksActive = showMyTasks && !!currentMember;
+
+    const userEmail = currentUserEmail?.toLowerCase() ?? null;
+    const unreadComments = useMemo(() => {
+        const counts: Record<string, number> = {};
+        tasks.forEach(task => {
+            const count = countUnreadComments(getTaskComments(task, approvals), commentReads[task.id], userEmail);
+            if (count > 0) counts[task.id] = count;
+        });
+        return counts;
+    }, [tasks, approvals, commentReads, userEmail]);
+    // An approval card shows the whole discussion of its task.
+    const getApprovalDiscussion = (approval: Approval) => {
+        const task = tasks.find(t => t.id === approval.taskId);
+        return task ? getTaskComments(task, [approval]) : approval.comments ?? [];
+    };
+    const mentionNotices = useMemo(() => getMentionNotices(tasks, approvals, userEmail), [tasks, approvals, userEmail]);
+
+    const agentLanes = useMemo<LaneOwner[]>(
+        () => agents.map(agent => ({ kind: 'agent', agentName: agent.name })),
+        [agents]
+    );
+    const peopleLanes = useMemo<LaneOwner[]>(
+        () => [...team.map(member => ({ kind: 'member' as const, member })), { kind: 'unassigned' }],
+        [team]
+    );
 
     const filteredTasks = useMemo(() => {
         const lowercasedSearch = searchTerm.toLowerCase();
@@ -188,7 +306,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
             return chain;
         };
         
-        if (!searchTerm && filterAgent === 'all' && filterStatus === 'all') {
+        if (!searchTerm && filterAgent === 'all' && filterStatus === 'all' && !isMyTasksActive) {
             return tasks;
         }
 
@@ -197,11 +315,12 @@ export const Dashboard: React.FC<DashboardProps> = ({
         tasks.forEach(task => {
             const matchesAgent = filterAgent === 'all' || task.assignedTo === filterAgent;
             const matchesStatus = filterStatus === 'all' || task.status === filterStatus;
+            const matchesAssignee = !isMyTasksActive || task.assigneeId === currentMember?.id;
             const matchesSearch = lowercasedSearch === '' || 
                                   task.title.toLowerCase().includes(lowercasedSearch) || 
                                   task.description.toLowerCase().includes(lowercasedSearch);
 
-            if (matchesAgent && matchesStatus && matchesSearch) {
+            if (matchesAgent && matchesStatus && matchesAssignee && matchesSearch) {
                 matchingTaskIds.add(task.id);
                 // Add parents and children to maintain context
                 getParentChain(task.id).forEach(id => matchingTaskIds.add(id));
@@ -210,26 +329,37 @@ export const Dashboard: React.FC<DashboardProps> = ({
         });
         
         return tasks.filter(task => matchingTaskIds.has(task.id));
-    }, [tasks, searchTerm, filterAgent, filterStatus]);
+    }, [tasks, searchTerm, filterAgent, filterStatus, isMyTasksActive, currentMember]);
     
-    const showClearFilters = searchTerm || filterAgent !== 'all' || filterStatus !== 'all';
+    const showClearFilters = searchTerm || filterAgent !== 'all' || filterStatus !== 'all' || isMyTasksActive;
 
     const clearFilters = () => {
         setSearchTerm('');
         setFilterAgent('all');
         setFilterStatus('all');
+        setShowMyTasks(false);
     };
 
     return (
         <div className="space-y-8 animate-fadeIn">
             <div>
-                <h2 className="text-xl font-bold mb-4 text-highlight">2. Monitor Agent Status & Activity</h2>
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-bold text-highlight">2. Monitor Agent Status & Activity</h2>
+                    <button
+                        onClick={() => setIsAgentsOpen(true)}
+                        className="flex items-center space-x-2 rounded-lg border-2 border-accent px-3 py-1 text-sm font-semibold text-text-secondary transition-colors hover:bg-highlight hover:text-white hover:border-highlight"
+                        title="Agents the Master Planner can delegate to"
+                    >
+                        <CogIcon className="w-4 h-4" />
+                        <span>Agents ({agents.length})</span>
+                    </button>
+                </div>
                 <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
                     <div className="lg:col-span-3">
-                         <AgentStatusGrid agentStatus={agentStatus} agentWork={agentWork} tasks={tasks} />
+                         <AgentStatusGrid agents={agents} agentStatus={agentStatus} agentWork={agentWork} tasks={tasks} />
                     </div>
                     <div className="lg:col-span-2">
-                        <AgentActivityFeed logs={logs} />
+                        <AgentActivityFeed logs={logs} agents={agents} />
                     </div>
                 </div>
             </div>
@@ -241,7 +371,22 @@ export const Dashboard: React.FC<DashboardProps> = ({
                     </h2>
                     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                         {pendingApprovals.map(approval => (
-                            <ApprovalCard key={approval.id} approval={approval} onDecision={onApproval} />
+                            <ApprovalCard
+                                key={approval.id}
+                                approval={approval}
+                                agents={agents}
+                                team={team}
+                                currentMemberId={approverId}
+                                onDecision={onApproval}
+                                onCancelGeneration={onCancelGeneration}
+                                canDecide={permissions.canDecideApprovals}
+                                comments={getApprovalDiscussion(approval)}
+                                unreadCommentCount={unreadComments[approval.taskId] ?? 0}
+                                onCommentsRead={onCommentsRead}
+                                onAddComment={onAddComment}
+                                mentionCandidates={mentionCandidates}
+                                canComment={permissions.canComment}
+                            />
                         ))}
                     </div>
                 </div>
@@ -250,22 +395,80 @@ export const Dashboard: React.FC<DashboardProps> = ({
             <div>
                  <h2 className="text-xl font-bold text-highlight mb-4">{pendingApprovals.length > 0 ? '4.' : '3.'} Overall Progress</h2>
                  <OverallProgress tasks={tasks} />
+                 <div className="mt-6">
+                     <EventDeadlinePanel
+                         tasks={tasks}
+                         calendar={calendar}
+                         eventDates={eventDates}
+                         onEventDatesChange={onEventDatesChange}
+                         onTaskClick={onTaskClick}
+                         canEdit={permissions.canEditPlan}
+                     />
+                 </div>
+                 <div className="mt-6">
+                     <BudgetPanel tasks={tasks} calendar={calendar} onTaskClick={onTaskClick} />
+                 </div>
+                 {registration && (
+                     <div className="mt-6">
+                         <RegistrationPanel registration={registration} onManage={() => setIsRegistrationOpen(true)} />
+                     </div>
+                 )}
 
                  <div className="flex justify-between items-center mt-6">
                     <h3 className="text-lg font-bold text-light">Task Board</h3>
-                    <div className="flex items-center space-x-2 bg-secondary p-1 rounded-lg border border-accent">
-                        <button 
-                            onClick={() => { setView('kanban'); setIsGanttEditing(false); }}
-                            className={`px-3 py-1 text-sm rounded-md transition-colors ${view === 'kanban' ? 'bg-highlight text-white' : 'text-text-secondary hover:bg-accent'}`}
+                    <div className="flex items-center space-x-3">
+                        <button
+                            onClick={() => setIsTeamOpen(true)}
+                            className="flex items-center space-x-2 rounded-lg border-2 border-accent px-3 py-1 text-sm font-semibold text-text-secondary transition-colors hover:bg-highlight hover:text-white hover:border-highlight"
+                            title="People on the organizing team"
                         >
-                            Agent Lanes
+                            <UsersIcon className="w-4 h-4" />
+                            <span>Team ({team.length})</span>
                         </button>
-                         <button 
-                            onClick={() => setView('gantt')}
-                            className={`px-3 py-1 text-sm rounded-md transition-colors ${view === 'gantt' ? 'bg-highlight text-white' : 'text-text-secondary hover:bg-accent'}`}
+                        <button
+                            onClick={() => setIsSponsorsOpen(true)}
+                            className="flex items-center space-x-2 rounded-lg border-2 border-accent px-3 py-1 text-sm font-semibold text-text-secondary transition-colors hover:bg-highlight hover:text-white hover:border-highlight"
+                            title="Companies being asked for sponsorship"
                         >
-                            Timeline
+                            <DollarSignIcon className="w-4 h-4" />
+                            <span>Sponsors ({sponsors.length})</span>
                         </button>
+                        {sessionId && (
+                            <button
+                                onClick={() => setIsRegistrationOpen(true)}
+                                className="flex items-center space-x-2 rounded-lg border-2 border-accent px-3 py-1 text-sm font-semibold text-text-secondary transition-colors hover:bg-highlight hover:text-white hover:border-highlight"
+                                title="The public registration form and its attendees"
+                            >
+                                <TicketIcon className="w-4 h-4" />
+                                <span>Registration{registration ? ` (${summarizeRegistrations(registration).registered})` : ''}</span>
+                            </button>
+                        )}
+                        <div className="flex items-center space-x-2 bg-secondary p-1 rounded-lg border border-accent">
+                            <button 
+                                onClick={() => { setView('kanban'); setIsGanttEditing(false); }}
+                                className={`px-3 py-1 text-sm rounded-md transition-colors ${view === 'kanban' ? 'bg-highlight text-white' : 'text-text-secondary hover:bg-accent'}`}
+                            >
+                                Agent Lanes
+                            </button>
+                            <button
+                                onClick={() => { setView('people'); setIsGanttEditing(false); }}
+                                className={`px-3 py-1 text-sm rounded-md transition-colors ${view === 'people' ? 'bg-highlight text-white' : 'text-text-secondary hover:bg-accent'}`}
+                            >
+                                People
+                            </button>
+                             <button 
+                                onClick={() => setView('gantt')}
+                                className={`px-3 py-1 text-sm rounded-md transition-colors ${view === 'gantt' ? 'bg-highlight text-white' : 'text-text-secondary hover:bg-accent'}`}
+                            >
+                                Timeline
+                            </button>
+                            <button
+                                onClick={() => { setView('posts'); setIsGanttEditing(false); }}
+                                className={`px-3 py-1 text-sm rounded-md transition-colors ${view === 'posts' ? 'bg-highlight text-white' : 'text-text-secondary hover:bg-accent'}`}
+                            >
+                                Posts
+                            </button>
+                        </div>
                     </div>
                 </div>
 
@@ -281,16 +484,27 @@ export const Dashboard: React.FC<DashboardProps> = ({
                         />
                     </div>
                     <div className="flex items-center gap-4 w-full md:w-auto">
+                        <button
+                            onClick={() => setShowMyTasks(prev => !prev)}
+                            disabled={!currentMember}
+                            className={`flex items-center space-x-2 flex-shrink-0 rounded-lg border-2 px-3 py-2 text-sm font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${isMyTasksActive ? 'bg-highlight text-white border-highlight' : 'border-accent text-text-secondary enabled:hover:bg-highlight enabled:hover:text-white enabled:hover:border-highlight'}`}
+                            title={currentMember ? 'Only show tasks assigned to you' : 'Add yourself to the team with your sign-in email to filter your tasks'}
+                            aria-pressed={isMyTasksActive}
+                        >
+                            <UserIcon className="w-4 h-4" />
+                            <span>My Tasks</span>
+                        </button>
+                        <MentionsInbox notices={mentionNotices} commentReads={commentReads} onOpenTask={onTaskClick} />
                         <div className="relative w-full md:w-52">
                              <FilterIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-text-secondary pointer-events-none" />
                              <select
                                 value={filterAgent}
-                                onChange={(e) => setFilterAgent(e.target.value as AgentName | 'all')}
+                                onChange={(e) => setFilterAgent(e.target.value)}
                                 className="w-full appearance-none bg-primary border-2 border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight transition-all text-light pl-9 pr-8 py-2 text-sm"
                             >
                                 <option value="all">All Agents</option>
-                                {AGENT_NAMES.filter(a => a !== AgentName.MASTER_PLANNER).map(agent => (
-                                    <option key={agent} value={agent}>{agent}</option>
+                                {agents.map(agent => (
+                                    <option key={agent.name} value={agent.name}>{agent.name}</option>
                                 ))}
                             </select>
                         </div>
@@ -316,26 +530,67 @@ export const Dashboard: React.FC<DashboardProps> = ({
                 </div>
 
                 <div className="mt-6">
-                    {view === 'kanban' ? (
+                    {view === 'posts' ? (
+                        <ContentCalendar
+                            tasks={filteredTasks}
+                            onTaskClick={onTaskClick}
+                            onReschedule={onReschedulePost}
+                            onCancelPost={onCancelPost}
+                            canEdit={permissions.canEditPlan}
+                        />
+                    ) : view !== 'gantt' ? (
                         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 items-start">
-                            {AGENT_NAMES.filter(name => name !== AgentName.MASTER_PLANNER).map(agentName => (
+                            {(view === 'kanban' ? agentLanes : peopleLanes).map(owner => (
                                 <TaskLane
-                                    key={agentName}
-                                    agentName={agentName}
+                                    key={owner.kind === 'agent' ? owner.agentName : owner.kind === 'member' ? owner.member.id : 'unassigned'}
+                                    owner={owner}
                                     tasks={filteredTasks}
                                     allTasks={tasks}
+                                    team={team}
+                                    agents={agents}
                                     onCompleteTask={onCompleteTask}
                                     agentStatus={agentStatus}
                                     onReassign={onReassignTask}
                                     onTaskClick={onTaskClick}
                                     onViewResult={onViewResult}
+                                    unreadComments={unreadComments}
+                                    canEdit={permissions.canEditPlan}
                                 />
                             ))}
                         </div>
                     ) : (
                         <div>
-                            <div className="flex justify-end mb-4">
+                            <div className="flex justify-end mb-4 space-x-3">
+                                {view === 'gantt' && !isGanttEditing && tasks.length > 0 && (
+                                    <button
+                                        onClick={() => setShowSlack(prev => !prev)}
+                                        className={`flex items-center space-x-2 rounded-lg border-2 px-3 py-1 text-sm font-semibold transition-colors ${showSlack ? 'bg-highlight text-white border-highlight' : 'border-accent text-text-secondary hover:bg-highlight hover:text-white hover:border-highlight'}`}
+                                        title="Show how long each task can slip without delaying the finish date"
+                                        aria-pressed={showSlack}
+                                    >
+                                        <span>{showSlack ? 'Hide Slack' : 'Show Slack'}</span>
+                                    </button>
+                                )}
+                                {view === 'gantt' && !isGanttEditing && (
+                                    <button
+                                        onClick={() => setIsCalendarOpen(true)}
+                                        className="flex items-center space-x-2 rounded-lg border-2 border-accent px-3 py-1 text-sm font-semibold text-text-secondary transition-colors hover:bg-highlight hover:text-white hover:border-highlight"
+                                        title="Working days, holidays and exam blackouts"
+                                    >
+                                        <CalendarIcon className="w-4 h-4" />
+                                        <span>Calendar</span>
+                                    </button>
+                                )}
                                 {view === 'gantt' && !isGanttEditing && tasks.length > 0 && (
+                                    <button
+                                        onClick={() => setIsCalendarSyncOpen(true)}
+                                        className="flex items-center space-x-2 rounded-lg border-2 border-accent px-3 py-1 text-sm font-semibold text-text-secondary transition-colors hover:bg-highlight hover:text-white hover:border-highlight"
+                                        title="Export the timeline to Google Calendar or Outlook, or import edited dates"
+                                    >
+                                        <span>.ics</span>
+                                    </button>
+                                )}
+                                {view === 'gantt' && !isGanttEditing && tasks.length > 0 && permissions.canEditPlan && (
                                     <button 
                                         onClick={() => setIsGanttEditing(true)}
                                         className="flex items-center space-x-2 rounded-lg border-2 border-accent px-3 py-1 text-sm font-semibold text-text-secondary transition-colors hover:bg-highlight hover:text-white hover:border-highlight"
@@ -353,11 +608,80 @@ export const Dashboard: React.FC<DashboardProps> = ({
                                 isEditing={isGanttEditing}
                                 setIsEditing={setIsGanttEditing}
                                 onSaveChanges={onGanttSaveChanges}
+                                calendar={calendar}
+                                eventDates={eventDates}
+                                showSlack={showSlack}
+                                agents={agents}
                             />
                         </div>
                     )}
                 </div>
             </div>
+            {isCalendarOpen && (
+                <ProjectCalendarModal
+                    isOpen={isCalendarOpen}
+                    onClose={() => setIsCalendarOpen(false)}
+                    calendar={calendar}
+                    onSave={onCalendarChange}
+                    readOnly={!permissions.canEditPlan}
+                />
+            )}
+            {isTeamOpen && (
+                <TeamRosterModal
+                    isOpen={isTeamOpen}
+                    onClose={() => setIsTeamOpen(false)}
+                    team={team}
+                    tasks={tasks}
+                    onSave={onTeamChange}
+                    readOnly={!permissions.canEditPlan}
+                />
+            )}
+            {isSponsorsOpen && (
+                <SponsorsModal
+                    isOpen={isSponsorsOpen}
+                    onClose={() => setIsSponsorsOpen(false)}
+                    sponsors={sponsors}
+                    tasks={tasks}
+                    onSave={onSponsorsChange}
+                    readOnly={!permissions.canEditPlan}
+                />
+            )}
+            {isRegistrationOpen && sessionId && (
+                <RegistrationModal
+                    isOpen={isRegistrationOpen}
+                    onClose={() => setIsRegistrationOpen(false)}
+                    sessionId={sessionId}
+                    registration={registration}
+                    defaultPage={createRegistrationPage(projectName, eventDates, userProfile)}
+                    eventDates={eventDates}
+                    readOnly={!permissions.canEditPlan}
+                />
+            )}
+            {isCalendarSyncOpen && (
+                <CalendarSyncModal
+                    isOpen={isCalendarSyncOpen}
+                    onClose={() => setIsCalendarSyncOpen(false)}
+                    tasks={tasks}
+                    calendar={calendar}
+                    eventDates={eventDates}
+                    team={team}
+                    projectName={projectName}
+                    sessionId={sessionId}
+                    onImport={onScheduleImport}
+                    readOnly={!permissions.canEditPlan}
+                />
+            )}
+            {isAgentsOpen && (
+                <AgentRegistryModal
+                    isOpen={isAgentsOpen}
+                    onClose={() => setIsAgentsOpen(false)}
+                    agents={agents}
+                    tasks={tasks}
+                    team={team}
+                    onSave={onAgentsChange}
+                    readOnly={!permissions.canEditPlan}
+                />
+            )}
         </div>
     );
 };
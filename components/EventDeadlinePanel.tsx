@@ -0,0 +1,146 @@
+import React, { useMemo, useState } from 'react';
+import { EventDates, ProjectCalendar, Task, TaskStatus } from '../types';
+import { calculateTaskDates, getProjectStartDate } from '../services/schedule';
+import { getPreparationDeadline, getWorkingDayOffset, parseDateKey } from '../services/calendar';
+import { CalendarIcon } from './icons/CalendarIcon';
+import { PencilIcon } from './icons/PencilIcon';
+
+interface EventDeadlinePanelProps {
+    tasks: Task[];
+    calendar: ProjectCalendar;
+    eventDates: EventDates | null;
+    onEventDatesChange: (eventDates: EventDates | null) => void;
+    onTaskClick: (task: Task) => void;
+    canEdit: boolean;
+}
+
+// How many overshooting tasks are listed before the rest are summarized.
+const MAX_LISTED_TASKS = 5;
+
+const formatDate = (date: Date) => date.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+
+const inputClass = "p-2 bg-primary border-2 border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight text-sm text-light";
+
+// Shows the event dates and whether preparation, as currently scheduled, finishes
+// before the event starts. Tasks whose dependency chain runs past the deadline are
+// listed so organizers know where to cut or parallelize work.
+export const EventDeadlinePanel: React.FC<EventDeadlinePanelProps> = React.memo(({ tasks, calendar, eventDates, onEventDatesChange, onTaskClick, canEdit }) => {
+    const [isEditing, setIsEditing] = useState(false);
+    const [startDate, setStartDate] = useState('');
+    const [endDate, setEndDate] = useState('');
+
+    const forecast = useMemo(() => {
+        if (!eventDates || tasks.length === 0) return null;
+        const parentIds = new Set(tasks.map(t => t.parentId).filter((id): id is string => !!id));
+        const openTasks = calculateTaskDates(tasks, getProjectStartDate(tasks), calendar, eventDates)
+            .filter(t => !parentIds.has(t.id) && t.status !== TaskStatus.COMPLETED);
+        if (openTasks.length === 0) return null;
+
+        const deadline = getPreparationDeadline(eventDates);
+        const projectedFinish = new Date(Math.max(...openTasks.map(t => t.ganttEndDate.getTime())));
+        return {
+            deadline,
+            projectedFinish,
+            // Positive: working days to spare. Negative: working days late.
+            margin: Math.min(...openTasks.map(t => t.totalFloat)),
+            overshooting: openTasks.filter(t => t.ganttEndDate > deadline).sort((a, b) => b.ganttEndDate.getTime() - a.ganttEndDate.getTime()),
+            atRiskCount: openTasks.filter(t => t.totalFloat < 0).length,
+        };
+    }, [tasks, calendar, eventDates]);
+
+    const startEditing = () => {
+        setStartDate(eventDates?.startDate ?? '');
+        setEndDate(eventDates?.endDate ?? '');
+        setIsEditing(true);
+    };
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!startDate) return;
+        onEventDatesChange({ startDate, endDate: endDate && endDate >= startDate ? endDate : startDate });
+        setIsEditing(false);
+    };
+
+    const handleClear = () => {
+        onEventDatesChange(null);
+        setIsEditing(false);
+    };
+
+    const isLate = !!forecast && forecast.margin < 0;
+
+    return (
+        <div className={`bg-secondary p-4 md:p-6 rounded-2xl border ${isLate ? 'border-danger' : 'border-accent/50'}`}>
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                <div className="flex items-center space-x-3 min-w-0">
+                    <CalendarIcon className={`w-6 h-6 flex-shrink-0 ${isLate ? 'text-red-400' : 'text-highlight'}`} />
+                    <div className="min-w-0">
+                        <h4 className="font-bold text-lg text-light tracking-wide">Event Date</h4>
+                        {eventDates ? (
+                            <p className="text-sm text-text-secondary">
+                                {formatDate(parseDateKey(eventDates.startDate))}
+                                {eventDates.endDate !== eventDates.startDate && <> &ndash; {formatDate(parseDateKey(eventDates.endDate))}</>}
+                            </p>
+                        ) : (
+                            <p className="text-sm text-text-secondary">No event date set. Add one to see how much each task can slip before the event.</p>
+                        )}
+                    </div>
+                </div>
+                {canEdit && !isEditing && (
+                    <button
+                        onClick={startEditing}
+                        className="flex items-center space-x-2 self-start md:self-auto rounded-lg border-2 border-accent px-3 py-1 text-sm font-semibold text-text-secondary transition-colors hover:bg-highlight hover:text-white hover:border-highlight flex-shrink-0"
+                    >
+                        <PencilIcon className="w-4 h-4" />
+                        <span>{eventDates ? 'Change Dates' : 'Set Event Dates'}</span>
+                    </button>
+                )}
+            </div>
+
+            {isEditing && (
+                <form onSubmit={handleSave} className="mt-4 flex flex-wrap items-end gap-3">
+                    <label className="text-xs text-text-secondary flex flex-col gap-1">
+                        First day
+                        <input type="date" required value={startDate} onChange={e => setStartDate(e.target.value)} className={inputClass} />
+                    </label>
+                    <label className="text-xs text-text-secondary flex flex-col gap-1">
+                        Last day
+                        <input type="date" value={endDate} min={startDate || undefined} onChange={e => setEndDate(e.target.value)} className={inputClass} />
+                    </label>
+                    <button type="submit" className="px-4 py-2 rounded-lg bg-highlight text-white hover:opacity-90 transition-opacity text-sm font-semibold">Save</button>
+                    {eventDates && (
+                        <button type="button" onClick={handleClear} className="px-4 py-2 rounded-lg bg-accent text-light hover:bg-accent/80 transition-opacity text-sm font-semibold">Remove Dates</button>
+                    )}
+                    <button type="button" onClick={() => setIsEditing(false)} className="px-4 py-2 text-sm font-semibold text-text-secondary hover:text-white">Cancel</button>
+                </form>
+            )}
+
+            {forecast && (isLate ? (
+                <div className="mt-4 bg-danger/20 border border-danger text-red-300 p-3 rounded-lg text-sm space-y-2">
+                    <p>
+                        <span className="font-semibold">At risk:</span> preparation is projected to finish on {formatDate(forecast.projectedFinish)},{' '}
+                        {-forecast.margin} working day{forecast.margin === -1 ? '' : 's'} after the deadline of {formatDate(forecast.deadline)}.{' '}
+                        {forecast.atRiskCount} task{forecast.atRiskCount === 1 ? ' needs' : 's need'} to move faster.
+                    </p>
+                    {forecast.overshooting.length > 0 && (
+                        <ul className="space-y-1">
+                            {forecast.overshooting.slice(0, MAX_LISTED_TASKS).map(task => (
+                                <li key={task.id}>
+                                    <button onClick={() => onTaskClick(task)} className="text-left hover:underline">
+                                        {task.title} <span className="text-red-400">&middot; ends {formatDate(task.ganttEndDate)} ({getWorkingDayOffset(forecast.deadline, task.ganttEndDate, calendar)} working days late)</span>
+                                    </button>
+                                </li>
+                            ))}
+                            {forecast.overshooting.length > MAX_LISTED_TASKS && (
+                                <li className="text-red-400">and {forecast.overshooting.length - MAX_LISTED_TASKS} more</li>
+                            )}
+                        </ul>
+                    )}
+                </div>
+            ) : (
+                <p className="mt-4 text-sm text-green-400">
+                    On track: preparation is projected to finish on {formatDate(forecast.projectedFinish)}, with {forecast.margin} working day{forecast.margin === 1 ? '' : 's'} to spare before the event.
+                </p>
+            ))}
+        </div>
+    );
+});
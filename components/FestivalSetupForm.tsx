@@ -1,28 +1,44 @@
 import React, { useState, useEffect } from 'react';
 import { CheckCircleIcon } from './icons/CheckCircleIcon';
+import { PlanTemplate } from '../types';
+import { suggestNextEventStart, TemplateStart } from '../services/planTemplates';
 
 interface EventSetupFormProps {
-    onSubmit: (goal: string) => void;
+    onSubmit: (goal: string, templateStart?: TemplateStart) => void;
     isLoading: boolean;
     isStarted: boolean;
     goalPrompt: string | null;
+    // The user's saved templates, newest first.
+    templates: PlanTemplate[];
 }
 
-export const EventSetupForm: React.FC<EventSetupFormProps> = React.memo(({ onSubmit, isLoading, isStarted, goalPrompt }) => {
+export const EventSetupForm: React.FC<EventSetupFormProps> = React.memo(({ onSubmit, isLoading, isStarted, goalPrompt, templates }) => {
     const defaultGoal = 'Organize a 3-day robotics competition from Oct 1-3 with 50 participants and seek 3 sponsors.';
     const [goal, setGoal] = useState<string>(defaultGoal);
+    const [templateId, setTemplateId] = useState('');
+    const [eventStartDate, setEventStartDate] = useState('');
+    const [adaptTemplate, setAdaptTemplate] = useState(true);
+    const template = templates.find(t => t.id === templateId);
 
     // This effect handles resetting the input field when a plan is reset.
     useEffect(() => {
         if (!isStarted) {
             setGoal(defaultGoal);
+            setTemplateId('');
         }
     }, [isStarted]);
 
+    const handleTemplateChange = (id: string) => {
+        setTemplateId(id);
+        const selected = templates.find(t => t.id === id);
+        setEventStartDate(selected ? suggestNextEventStart(selected) ?? '' : '');
+        setGoal(selected?.goalPrompt || defaultGoal);
+    };
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         if (goal.trim() && !isLoading && !isStarted) {
-            onSubmit(goal.trim());
+            onSubmit(goal.trim(), template ? { template, eventStartDate: eventStartDate || null, adapt: adaptTemplate } : undefined);
         }
     };
 
@@ -43,6 +59,48 @@ export const EventSetupForm: React.FC<EventSetupFormProps> = React.memo(({ onSub
                     className="w-full h-24 p-3 bg-primary border-2 border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight transition-all text-light"
                     disabled={isDisabled}
                 />
+                {!isStarted && templates.length > 0 && (
+                    <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                        <div>
+                            <label htmlFor="plan-template" className="block text-sm font-semibold text-text-secondary mb-1">Start from</label>
+                            <select
+                                id="plan-template"
+                                value={templateId}
+                                onChange={e => handleTemplateChange(e.target.value)}
+                                disabled={isLoading}
+                                className="w-full p-2 bg-primary border-2 border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight text-light text-sm"
+                            >
+                                <option value="">A blank plan</option>
+                                {templates.map(t => <option key={t.id} value={t.id}>{t.name} ({t.tasks.length} tasks)</option>)}
+                            </select>
+                        </div>
+                        {template?.eventDates && (
+                            <div>
+                                <label htmlFor="template-event-start" className="block text-sm font-semibold text-text-secondary mb-1">Event starts on</label>
+                                <input
+                                    id="template-event-start"
+                                    type="date"
+                                    value={eventStartDate}
+                                    onChange={e => setEventStartDate(e.target.value)}
+                                    disabled={isLoading}
+                                    className="w-full p-2 bg-primary border-2 border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight text-light text-sm"
+                                />
+                            </div>
+                        )}
+                        {template && (
+                            <label className="flex items-center space-x-2 text-sm text-light pb-2" title="Without this, the template is copied as it is and the goal only names the plan.">
+                                <input
+                                    type="checkbox"
+                                    checked={adaptTemplate}
+                                    onChange={e => setAdaptTemplate(e.target.checked)}
+                                    disabled={isLoading}
+                                    className="rounded border-accent bg-primary text-highlight focus:ring-highlight"
+                                />
+                                <span>Let the Master Planner adapt it to the goal</span>
+                            </label>
+                        )}
+                    </div>
+                )}
                 <button
                     type="submit"
                     className="mt-4 w-full bg-gradient-to-r from-highlight to-violet-500 text-white font-bold py-3 px-4 rounded-lg hover:opacity-90 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center shadow-lg hover:shadow-highlight/30"
@@ -61,6 +119,8 @@ export const EventSetupForm: React.FC<EventSetupFormProps> = React.memo(({ onSub
                             <CheckCircleIcon className="mr-3 h-5 w-5 text-white" />
                             Plan Generated
                         </>
+                    ) : template && !adaptTemplate ? (
+                        'Create Plan from Template'
                     ) : (
                         'Generate Plan'
                     )}
@@ -1,7 +1,10 @@
 import React, { useMemo, useState, useEffect, useRef, useLayoutEffect } from 'react';
 import { createPortal } from 'react-dom';
-import { Task, TaskStatus } from '../types';
-import { AGENT_DETAILS } from '../constants';
+import { AgentDefinition, EventDates, ProjectCalendar, Task, TaskStatus } from '../types';
+import { getAgentDisplay } from '../services/agentRegistry';
+import { findDependencyCycles } from '../services/planValidation';
+import { countWorkingDays, getNonWorkingReason, parseDateKey, toDateKey } from '../services/calendar';
+import { calculateTaskDates, getProjectStartDate } from '../services/schedule';
 import { UndoIcon } from './icons/UndoIcon';
 import { CheckCircleIcon } from './icons/CheckCircleIcon';
 import { ClockIcon } from './icons/ClockIcon';
@@ -30,174 +33,12 @@ interface GanttChartProps {
     isEditing: boolean;
     setIsEditing: (isEditing: boolean) => void;
     onSaveChanges: (orderedTasks: Task[]) => void;
+    calendar: ProjectCalendar;
+    eventDates: EventDates | null;
+    showSlack: boolean;
+    agents: AgentDefinition[];
 }
 
-interface GanttTask extends Task {
-    ganttStartDate: Date;
-    ganttEndDate: Date;
-    level: number;
-}
-
-const calculateTaskDates = (tasks: Task[], projectStartDate: Date): GanttTask[] => {
-    const taskMap = new Map<string, Task>(tasks.map(t => [t.id, t]));
-    const ganttTaskMap = new Map<string, GanttTask>();
-
-    const childrenMap = new Map<string, string[]>();
-    tasks.forEach(task => {
-        childrenMap.set(task.id, []);
-    });
-    tasks.forEach(task => {
-        (task.dependsOn || []).forEach(depId => {
-            if (childrenMap.has(depId)) {
-                childrenMap.get(depId)!.push(task.id);
-            }
-        });
-    });
-
-    const inDegree = new Map<string, number>();
-    tasks.forEach(task => {
-        const validDependencies = (task.dependsOn || []).filter(depId => taskMap.has(depId));
-        inDegree.set(task.id, validDependencies.length);
-    });
-
-    const queue: string[] = [];
-    tasks.forEach(task => {
-        if (task.startDate || inDegree.get(task.id) === 0) {
-            queue.push(task.id);
-        }
-    });
-
-    let processedCount = 0;
-    while (queue.length > 0) {
-        const taskId = queue.shift()!;
-
-        if (ganttTaskMap.has(taskId)) continue;
-
-        const task = taskMap.get(taskId)!;
-
-        let ganttStartDate: Date;
-        if (task.startDate) {
-            ganttStartDate = new Date(task.startDate);
-        } else if (task.dependsOn && task.dependsOn.length > 0) {
-            const parentEndDates = task.dependsOn
-                .map(depId => ganttTaskMap.get(depId)?.ganttEndDate)
-                .filter((d): d is Date => !!d);
-
-            if (parentEndDates.length > 0) {
-                const maxParentEndDate = new Date(Math.max(...parentEndDates.map(d => d.getTime())));
-                ganttStartDate = dateUtils.addDays(maxParentEndDate, 1);
-            } else {
-                ganttStartDate = projectStartDate;
-            }
-        } else {
-            ganttStartDate = projectStartDate;
-        }
-
-        const duration = Math.max(1, task.estimatedDuration || 1);
-        const ganttEndDate = dateUtils.addDays(ganttStartDate, duration - 1);
-
-        ganttTaskMap.set(taskId, { ...task, ganttStartDate, ganttEndDate, level: 0 });
-        processedCount++;
-
-        const children = childrenMap.get(taskId) || [];
-        for (const childId of children) {
-            const currentInDegree = inDegree.get(childId)!;
-            inDegree.set(childId, currentInDegree - 1);
-
-            if (inDegree.get(childId) === 0 && !taskMap.get(childId)?.startDate) {
-                queue.push(childId);
-            }
-        }
-    }
-
-    if (processedCount < tasks.length) {
-        console.warn("Circular dependency detected. Breaking cycles to render.");
-        // Identify remaining tasks (those involved in cycles)
-        const remainingTasks = tasks.filter(t => !ganttTaskMap.has(t.id));
-
-        remainingTasks.forEach(task => {
-            // For each remaining task, try to calculate a date ignoring dependencies that are not yet processed
-            // This effectively breaks the cycle by treating the cyclic dependency as non-existent for date calculation
-            let ganttStartDate = projectStartDate;
-
-            // Try to find ANY valid parent dependency to anchor to
-            if (task.dependsOn) {
-                const validDepEndDates = task.dependsOn
-                    .map(id => ganttTaskMap.get(id)?.ganttEndDate)
-                    .filter((d): d is Date => !!d);
-
-                if (validDepEndDates.length > 0) {
-                    const maxEndDate = new Date(Math.max(...validDepEndDates.map(d => d.getTime())));
-                    ganttStartDate = dateUtils.addDays(maxEndDate, 1);
-                }
-            }
-
-            const duration = Math.max(1, task.estimatedDuration || 1);
-            const ganttEndDate = dateUtils.addDays(ganttStartDate, duration - 1);
-
-            ganttTaskMap.set(task.id, { ...task, ganttStartDate, ganttEndDate, level: 0 });
-        });
-    }
-
-    // Second pass to adjust parent task dates to be containers for their children
-    const parentChildMap = new Map<string, string[]>();
-    tasks.forEach(task => {
-        if (task.parentId) {
-            if (!parentChildMap.has(task.parentId)) {
-                parentChildMap.set(task.parentId, []);
-            }
-            parentChildMap.get(task.parentId)!.push(task.id);
-        }
-    });
-
-    parentChildMap.forEach((childrenIds, parentId) => {
-        const parentGanttTask = ganttTaskMap.get(parentId);
-        if (parentGanttTask) {
-            const childrenGanttTasks = childrenIds.map(id => ganttTaskMap.get(id)).filter((t): t is GanttTask => !!t);
-
-            if (childrenGanttTasks.length > 0) {
-                const childStartTimes = childrenGanttTasks.map(c => c.ganttStartDate.getTime());
-                const childEndTimes = childrenGanttTasks.map(c => c.ganttEndDate.getTime());
-
-                parentGanttTask.ganttStartDate = new Date(Math.min(...childStartTimes));
-                parentGanttTask.ganttEndDate = new Date(Math.max(...childEndTimes));
-
-                // Calculate weighted progress for parent task
-                const totalProgress = childrenGanttTasks.reduce((sum, child) => {
-                    const childProgress = child.status === TaskStatus.COMPLETED ? 100 : (child.progress || 0);
-                    return sum + childProgress;
-                }, 0);
-
-                // Assign calculated progress to parent
-                parentGanttTask.progress = Math.round(totalProgress / childrenGanttTasks.length);
-            }
-        }
-    });
-
-
-    const finalGanttTasks = tasks.map(task => ganttTaskMap.get(task.id)!).filter(Boolean);
-
-    // Calculate indentation level
-    const levelMap = new Map<string, number>();
-    const calculateLevel = (taskId: string): number => {
-        if (levelMap.has(taskId)) return levelMap.get(taskId)!;
-        const task = taskMap.get(taskId);
-        if (!task || !task.parentId || !taskMap.has(task.parentId)) {
-            levelMap.set(taskId, 0);
-            return 0;
-        }
-        const level = calculateLevel(task.parentId) + 1;
-        levelMap.set(taskId, level);
-        return level;
-    };
-
-    finalGanttTasks.forEach(gt => {
-        gt.level = calculateLevel(gt.id);
-    });
-
-    return finalGanttTasks;
-};
-
 interface TooltipData {
     content: {
         prerequisites: string[];
@@ -206,12 +47,15 @@ interface TooltipData {
         startDay: number;
         endDay: number;
         duration: number;
+        workingDays: number;
+        totalFloat: number;
+        isCritical: boolean;
     };
     targetRect: DOMRect;
 }
 
 
-export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onTaskClick, onTaskUpdate, isEditing, setIsEditing, onSaveChanges }) => {
+export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onTaskClick, onTaskUpdate, isEditing, setIsEditing, onSaveChanges, calendar, eventDates, showSlack, agents }) => {
     const [orderedTasks, setOrderedTasks] = useState<Task[]>([]);
     const [history, setHistory] = useState<Task[][]>([]);
     const [draggingTaskId, setDraggingTaskId] = useState<string | null>(null);
@@ -242,16 +86,15 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onTaskClick, onTa
             };
         }
 
-        const allStartDates = tasks.map(t => new Date(t.startDate || new Date()));
-        const earliestDate = allStartDates.length > 0 ? new Date(Math.min(...allStartDates.map(d => d.getTime()))) : new Date();
-        earliestDate.setHours(0, 0, 0, 0);
-
-        const calculatedGanttTasks = calculateTaskDates(orderedTasks, earliestDate);
+        const earliestDate = getProjectStartDate(tasks);
+        const calculatedGanttTasks = calculateTaskDates(orderedTasks, earliestDate, calendar, eventDates);
 
         const startDates = calculatedGanttTasks.map(t => t.ganttStartDate);
         const endDates = calculatedGanttTasks.map(t => t.ganttEndDate);
 
         const projectStartDate = startDates.length > 0 ? new Date(Math.min(...startDates.map(d => d.getTime()))) : earliestDate;
+        // Keep the event itself in view, even when preparation finishes well before it.
+        if (eventDates) endDates.push(parseDateKey(eventDates.endDate));
         const maxDate = endDates.length > 0 ? new Date(Math.max(...endDates.map(d => d.getTime()))) : earliestDate;
 
         const chartStartDate = projectStartDate;
@@ -262,13 +105,26 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onTaskClick, onTa
         const parentIds = new Set(orderedTasks.map(t => t.parentId).filter((id): id is string => !!id));
 
         return { ganttTasks: calculatedGanttTasks, chartStartDate, totalDays, projectStartDate, parentIds };
-    }, [orderedTasks, tasks]);
+    }, [orderedTasks, tasks, calendar, eventDates]);
 
     const timelineDates: Date[] = useMemo(() => {
         return Array.from({ length: totalDays }, (_, i) => dateUtils.addDays(chartStartDate, i));
     }, [chartStartDate, totalDays]);
 
+    // Why each day of the timeline is off, or null on working days.
+    const nonWorkingReasons = useMemo(() => timelineDates.map(date => getNonWorkingReason(date, calendar)), [timelineDates, calendar]);
+
+    const eventDayFlags = useMemo(() => timelineDates.map(date => {
+        if (!eventDates) return false;
+        const key = toDateKey(date);
+        return eventDates.startDate <= key && key <= eventDates.endDate;
+    }), [timelineDates, eventDates]);
+
     const ganttTasksMap = useMemo(() => new Map(ganttTasks.map(gt => [gt.id, gt])), [ganttTasks]);
+    // Tasks in a cycle are drawn as if the cycle were broken; say so rather than leave the dates unexplained.
+    const cycleTitles = useMemo(() => findDependencyCycles(orderedTasks).map(cycle =>
+        cycle.map(id => orderedTasks.find(t => t.id === id)?.title ?? id).join(', ')), [orderedTasks]);
+    const criticalTaskCount = useMemo(() => ganttTasks.filter(gt => gt.isCritical && !parentIds.has(gt.id)).length, [ganttTasks, parentIds]);
 
     useLayoutEffect(() => {
         if (!tooltipData || !tooltipRef.current) {
@@ -608,6 +464,14 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onTaskClick, onTa
                                 <p className="font-bold text-light">{tooltipData.content.duration}d</p>
                             </div>
                         </div>
+                        {tooltipData.content.workingDays !== tooltipData.content.duration && (
+                            <p className="text-xs text-text-secondary text-center mt-2">{tooltipData.content.workingDays} working days</p>
+                        )}
+                        <p className={`text-xs font-semibold text-center mt-2 ${tooltipData.content.isCritical ? 'text-red-400' : 'text-text-secondary'}`}>
+                            {tooltipData.content.isCritical
+                                ? (tooltipData.content.totalFloat < 0 ? `Critical: ${-tooltipData.content.totalFloat} working days behind` : 'Critical: any delay moves the finish date')
+                                : `Float: ${tooltipData.content.totalFloat} working day${tooltipData.content.totalFloat === 1 ? '' : 's'}`}
+                        </p>
                     </div>
                     {tooltipData.content.isParent && tooltipData.content.subTasks.length > 0 && (
                         <div className="border-t border-accent pt-2">
@@ -675,6 +539,19 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onTaskClick, onTa
                     </div>
                 </div>
             )}
+            {cycleTitles.length > 0 && (
+                <div className="px-4 py-2 border-b border-accent bg-warning/10 text-xs text-light space-y-0.5">
+                    <p className="font-semibold text-warning">Some tasks wait on each other, so none of them can start. Their dates below are only estimates:</p>
+                    {cycleTitles.map(titles => <p key={titles}>{titles}</p>)}
+                </div>
+            )}
+            {showSlack && !isEditing && (
+                <div className="px-4 py-2 border-b border-accent flex flex-wrap items-center gap-x-6 gap-y-1 text-xs text-text-secondary">
+                    <span className="flex items-center"><span className="inline-block w-4 h-3 rounded-sm outline-2 outline-red-500 mr-1.5"></span>Critical</span>
+                    <span className="flex items-center"><span className="inline-block w-6 h-2 rounded-full border border-dashed border-text-secondary/60 bg-text-secondary/20 mr-1.5"></span>Slack</span>
+                    <span>{criticalTaskCount} task{criticalTaskCount === 1 ? '' : 's'} on the critical path: delaying any of them moves the finish date.</span>
+                </div>
+            )}
             <div className="flex text-sm">
                 <div
                     ref={sidebarRef}
@@ -692,6 +569,7 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onTaskClick, onTa
                                 title={task.title}
                                 style={{ paddingLeft: `${1 + task.level * 1.5}rem` }}
                             >
+                                {task.isCritical && <span className="w-2 h-2 rounded-full bg-red-500 mr-2 flex-shrink-0" title="On the critical path" />}
                                 <span className="truncate text-light">{task.title}</span>
                             </div>
                         ))}
@@ -707,10 +585,16 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onTaskClick, onTa
                             <div className="grid" style={{ gridTemplateColumns: `repeat(${totalDays}, 4rem)` }}>
                                 {timelineDates.map((date, index) => {
                                     const relativeDay = dateUtils.getDaysBetween(projectStartDate, date);
+                                    const nonWorkingReason = nonWorkingReasons[index];
+                                    const isEventDay = eventDayFlags[index];
                                     return (
-                                        <div key={index} className="h-16 border-b border-r border-accent flex flex-col items-center justify-center">
-                                            <span className="text-xs text-text-secondary">Day</span>
-                                            <span className="font-bold text-lg text-light">{relativeDay}</span>
+                                        <div
+                                            key={index}
+                                            className={`h-16 border-b border-r border-accent flex flex-col items-center justify-center ${isEventDay ? 'bg-highlight/25' : nonWorkingReason ? 'bg-primary/60' : ''}`}
+                                            title={`${date.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' })}${isEventDay ? ' · Event' : nonWorkingReason ? ` · ${nonWorkingReason}` : ''}`}
+                                        >
+                                            <span className={`text-xs ${isEventDay ? 'text-highlight font-semibold' : 'text-text-secondary'}`}>{isEventDay ? 'Event' : 'Day'}</span>
+                                            <span className={`font-bold text-lg ${nonWorkingReason ? 'text-text-secondary' : 'text-light'}`}>{relativeDay}</span>
                                         </div>
                                     )
                                 })}
@@ -724,9 +608,11 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onTaskClick, onTa
                                 const durationDays = dateUtils.getDaysBetween(ganttTask.ganttStartDate, ganttTask.ganttEndDate);
                                 const startDay = dateUtils.getDaysBetween(projectStartDate, ganttTask.ganttStartDate);
                                 const endDay = dateUtils.getDaysBetween(projectStartDate, ganttTask.ganttEndDate);
+                                const workingDays = countWorkingDays(ganttTask.ganttStartDate, ganttTask.ganttEndDate, calendar);
+                                // Slack runs from the day after the early finish to the late finish.
+                                const slackDays = dateUtils.getDaysBetween(ganttTask.ganttEndDate, ganttTask.lateEndDate) - 1;
 
-                                const agentDetail = AGENT_DETAILS[ganttTask.assignedTo];
-                                if (!agentDetail) return null;
+                                const agentDetail = getAgentDisplay(agents, ganttTask.assignedTo);
 
                                 const agentColor = agentDetail.color;
                                 const agentBgColor = agentColor.replace('text-', 'bg-').replace('-400', '-500/70');
@@ -743,14 +629,24 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onTaskClick, onTa
                                     <div key={ganttTask.id} className="h-12 relative flex items-center">
                                         <div className="absolute inset-0 grid" style={{ gridTemplateColumns: `repeat(${totalDays}, 4rem)` }}>
                                             {timelineDates.map((_, index) => {
-                                                return <div key={index} className="h-full border-r border-accent"></div>
+                                                return <div key={index} className={`h-full border-r border-accent ${eventDayFlags[index] ? 'bg-highlight/10' : nonWorkingReasons[index] ? 'bg-primary/60' : ''}`}></div>
                                             })}
                                         </div>
+                                        {showSlack && slackDays > 0 && (
+                                            <div
+                                                className="absolute h-2 rounded-full border border-dashed border-text-secondary/60 bg-text-secondary/20"
+                                                style={{
+                                                    left: `${Math.max(0, offsetDays + durationDays) * 4}rem`,
+                                                    width: `${slackDays * 4}rem`,
+                                                }}
+                                                title={`${ganttTask.totalFloat} working days of float`}
+                                            />
+                                        )}
                                         {isParent ? (
                                             <div
                                                 onMouseEnter={(e) => {
                                                     setHoveredTaskId(ganttTask.id);
-                                                    if (isEditing) {
+                                                    if (isEditing || showSlack) {
                                                         const subTasksForTooltip = orderedTasks
                                                             .filter(t => t.parentId === ganttTask.id)
                                                             .map(t => ({ title: t.title, status: t.status }));
@@ -763,6 +659,9 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onTaskClick, onTa
                                                                 startDay,
                                                                 endDay,
                                                                 duration: durationDays,
+                                                                workingDays,
+                                                                totalFloat: ganttTask.totalFloat,
+                                                                isCritical: ganttTask.isCritical,
                                                             },
                                                             targetRect: (e.currentTarget as HTMLElement).getBoundingClientRect(),
                                                         });
@@ -794,7 +693,7 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onTaskClick, onTa
                                                 onDragOver={(e) => { e.preventDefault(); e.stopPropagation(); }}
                                                 onMouseEnter={(e) => {
                                                     setHoveredTaskId(ganttTask.id);
-                                                    if (isEditing) {
+                                                    if (isEditing || showSlack) {
                                                         setTooltipData({
                                                             content: {
                                                                 prerequisites: getAllPrerequisites(ganttTask.id, orderedTasks),
@@ -803,6 +702,9 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onTaskClick, onTa
                                                                 startDay,
                                                                 endDay,
                                                                 duration: durationDays,
+                                                                workingDays,
+                                                                totalFloat: ganttTask.totalFloat,
+                                                                isCritical: ganttTask.isCritical,
                                                             },
                                                             targetRect: (e.currentTarget as HTMLElement).getBoundingClientRect(),
                                                         });
@@ -813,7 +715,7 @@ export const GanttChart: React.FC<GanttChartProps> = ({ tasks, onTaskClick, onTa
                                                     setTooltipData(null);
                                                 }}
                                                 onClick={() => !isEditing && onTaskClick(ganttTask)}
-                                                className={`absolute h-8 rounded-md shadow-md flex items-center px-3 text-white overflow-hidden transition-all duration-300 ${agentBgColor} border-l-4 ${agentBorderColor} ${isEditing ? 'cursor-grab hover:scale-105' : 'cursor-pointer hover:opacity-80'} ${draggingTaskId === ganttTask.id ? 'opacity-50 scale-105' : ''} ${isDimmed ? 'opacity-30' : 'opacity-100'} ${isHovered ? 'ring-2 ring-offset-2 ring-offset-secondary ring-highlight' : ''}`}
+                                                className={`absolute h-8 rounded-md shadow-md flex items-center px-3 text-white overflow-hidden transition-all duration-300 ${agentBgColor} border-l-4 ${agentBorderColor} ${isEditing ? 'cursor-grab hover:scale-105' : 'cursor-pointer hover:opacity-80'} ${draggingTaskId === ganttTask.id ? 'opacity-50 scale-105' : ''} ${isDimmed ? 'opacity-30' : 'opacity-100'} ${isHovered ? 'ring-2 ring-offset-2 ring-offset-secondary ring-highlight' : ''} ${ganttTask.isCritical ? 'outline-2 outline-red-500' : ''}`}
                                                 style={{
                                                     left: `${Math.max(0, offsetDays) * 4}rem`,
                                                     width: `${durationDays * 4}rem`,
@@ -9,9 +9,13 @@ import { XCircleIcon } from './icons/XCircleIcon';
 import { TrashIcon } from './icons/TrashIcon';
 import { FilePlusIcon } from './icons/FilePlusIcon';
 import { LogOutIcon } from './icons/LogOutIcon';
-import { UserProfile } from '../types';
+import { SessionRole, UserProfile } from '../types';
 import { PencilIcon } from './icons/PencilIcon';
 import { MenuIcon } from './icons/MenuIcon';
+import { UsersIcon } from './icons/UsersIcon';
+import { FileIcon } from './icons/FileIcon';
+import { SaveIcon } from './icons/SaveIcon';
+import { SESSION_ROLE_DETAILS } from '../constants';
 
 interface HeaderProps {
     onResetClick: () => void;
@@ -24,6 +28,11 @@ interface HeaderProps {
     userProfile: UserProfile | null;
     isStarted: boolean;
     onProfileClick: () => void;
+    onShareClick: () => void;
+    onExportClick: () => void;
+    onTemplatesClick: () => void;
+    // The current user's role in the open plan, or null while it is loading.
+    sessionRole: SessionRole | null;
 }
 
 const AutoSaveIndicator: React.FC<{ status: HeaderProps['saveStatus'] }> = ({ status }) => {
@@ -46,7 +55,8 @@ const AutoSaveIndicator: React.FC<{ status: HeaderProps['saveStatus'] }> = ({ st
 const ProjectNameEditor: React.FC<{
     projectName: string;
     onUpdateProjectName: (newName: string) => void;
-}> = ({ projectName, onUpdateProjectName }) => {
+    canEdit: boolean;
+}> = ({ projectName, onUpdateProjectName, canEdit }) => {
     const [isEditing, setIsEditing] = useState(false);
     const [editedName, setEditedName] = useState(projectName);
     const inputRef = useRef<HTMLInputElement>(null);
@@ -72,7 +82,7 @@ const ProjectNameEditor: React.FC<{
     };
 
     const handleDoubleClick = () => {
-        setIsEditing(true);
+        if (canEdit) setIsEditing(true);
     };
 
     const handleMouseEnter = () => {
@@ -127,23 +137,25 @@ const ProjectNameEditor: React.FC<{
                 onDoubleClick={handleDoubleClick}
                 onMouseEnter={handleMouseEnter}
                 onMouseLeave={handleMouseLeave}
-                className="w-full flex items-center justify-center space-x-3 p-2 rounded-lg group cursor-pointer transition-colors"
+                className={`w-full flex items-center justify-center space-x-3 p-2 rounded-lg group transition-colors ${canEdit ? 'cursor-pointer' : ''}`}
             >
                 <h2 ref={titleRef} className="text-xl font-bold text-light truncate min-w-0">{projectName}</h2>
-                <button 
-                    onClick={() => setIsEditing(true)}
-                    className="p-1 rounded-full hover:bg-accent text-text-secondary hover:text-white transition-opacity flex-shrink-0 opacity-0 group-hover:opacity-100"
-                    title="Edit project name"
-                >
-                    <PencilIcon className="w-4 h-4" />
-                </button>
+                {canEdit && (
+                    <button 
+                        onClick={() => setIsEditing(true)}
+                        className="p-1 rounded-full hover:bg-accent text-text-secondary hover:text-white transition-opacity flex-shrink-0 opacity-0 group-hover:opacity-100"
+                        title="Edit project name"
+                    >
+                        <PencilIcon className="w-4 h-4" />
+                    </button>
+                )}
             </div>
             {tooltipPortal}
         </>
     );
 };
 
-export const Header: React.FC<HeaderProps> = React.memo(({ onResetClick, onDeleteCurrentClick, isPlanSaved, saveStatus, onLoadClick, projectName, onUpdateProjectName, userProfile, isStarted, onProfileClick }) => {
+export const Header: React.FC<HeaderProps> = React.memo(({ onResetClick, onDeleteCurrentClick, isPlanSaved, saveStatus, onLoadClick, projectName, onUpdateProjectName, userProfile, isStarted, onProfileClick, onShareClick, onExportClick, onTemplatesClick, sessionRole }) => {
     const { currentUser, loading, logout } = useAuth();
     const isAuthenticated = !!currentUser;
     const [isMenuOpen, setIsMenuOpen] = useState(false);
@@ -179,7 +191,11 @@ export const Header: React.FC<HeaderProps> = React.memo(({ onResetClick, onDelet
             {/* Center title container */}
             <div className="flex-1 flex justify-center min-w-0 px-4">
                 {isStarted && projectName && (
-                   <ProjectNameEditor projectName={projectName} onUpdateProjectName={onUpdateProjectName} />
+                   <ProjectNameEditor
+                        projectName={projectName}
+                        onUpdateProjectName={onUpdateProjectName}
+                        canEdit={!!sessionRole && SESSION_ROLE_DETAILS[sessionRole].permissions.canEditPlan}
+                   />
                 )}
             </div>
             
@@ -189,6 +205,15 @@ export const Header: React.FC<HeaderProps> = React.memo(({ onResetClick, onDelet
                     <div className="hidden sm:block">
                         <AutoSaveIndicator status={saveStatus} />
                     </div>
+
+                    {isPlanSaved && sessionRole && sessionRole !== 'owner' && (
+                        <span
+                            className="hidden sm:inline-block px-2 py-0.5 rounded-full bg-accent text-xs font-semibold text-light"
+                            title={SESSION_ROLE_DETAILS[sessionRole].description}
+                        >
+                            {SESSION_ROLE_DETAILS[sessionRole].label}
+                        </span>
+                    )}
                     
                     {loading ? (
                         <div className="w-9 h-9 rounded-full bg-accent animate-pulse"></div>
@@ -247,12 +272,42 @@ export const Header: React.FC<HeaderProps> = React.memo(({ onResetClick, onDelet
                                         <FilePlusIcon className="w-4 h-4 text-text-secondary" />
                                         <span>New / Reset Plan</span>
                                     </button>
+                                    <button
+                                        onClick={() => { onShareClick(); setIsMenuOpen(false); }}
+                                        disabled={!isPlanSaved || !sessionRole}
+                                        className="w-full flex items-center space-x-3 rounded-md px-3 py-2 text-sm text-left text-light transition-colors hover:bg-accent disabled:opacity-50 disabled:cursor-not-allowed"
+                                        title={isPlanSaved ? "Share this plan with other organizers" : "Save a plan before sharing it"}
+                                        role="menuitem"
+                                    >
+                                        <UsersIcon className="w-4 h-4 text-text-secondary" />
+                                        <span>Share Plan</span>
+                                    </button>
+                                    <button
+                                        onClick={() => { onExportClick(); setIsMenuOpen(false); }}
+                                        disabled={!isStarted}
+                                        className="w-full flex items-center space-x-3 rounded-md px-3 py-2 text-sm text-left text-light transition-colors hover:bg-accent disabled:opacity-50 disabled:cursor-not-allowed"
+                                        title={isStarted ? "Download this plan as JSON, CSV or Markdown" : "Create or load a plan to export it"}
+                                        role="menuitem"
+                                    >
+                                        <FileIcon className="w-4 h-4 text-text-secondary" />
+                                        <span>Export Plan</span>
+                                    </button>
+                                    <button
+                                        onClick={() => { onTemplatesClick(); setIsMenuOpen(false); }}
+                                        disabled={!isAuthenticated}
+                                        className="w-full flex items-center space-x-3 rounded-md px-3 py-2 text-sm text-left text-light transition-colors hover:bg-accent disabled:opacity-50 disabled:cursor-not-allowed"
+                                        title="Save this plan as a template or manage your templates"
+                                        role="menuitem"
+                                    >
+                                        <SaveIcon className="w-4 h-4 text-text-secondary" />
+                                        <span>Templates</span>
+                                    </button>
                                     <div className="border-t border-accent/50 my-1"></div>
                                     <button
                                         onClick={() => { onDeleteCurrentClick(); setIsMenuOpen(false); }}
-                                        disabled={!isPlanSaved || !isAuthenticated}
+                                        disabled={!isPlanSaved || !isAuthenticated || sessionRole !== 'owner'}
                                         className="w-full flex items-center space-x-3 rounded-md px-3 py-2 text-sm text-left text-red-400 transition-colors hover:bg-danger hover:text-white disabled:opacity-50 disabled:cursor-not-allowed"
-                                        title={isPlanSaved ? "Delete Current Plan from Cloud" : "No plan is currently saved to the cloud"}
+                                        title={!isPlanSaved ? "No plan is currently saved to the cloud" : sessionRole === 'owner' ? "Delete Current Plan from Cloud" : "Only the plan's owner can delete it"}
                                         role="menuitem"
                                     >
                                         <TrashIcon className="w-4 h-4" />
@@ -0,0 +1,36 @@
+import React, { useState } from 'react';
+import { getImageProviderKind, IMAGE_PROVIDER_OPTIONS, ImageProviderKind, setImageProviderKind } from '../services/imageProvider';
+
+// Lets the user choose whether visual assets get artwork from an image model. Like the
+// AI provider, the choice is stored per browser.
+export const ImageProviderSettings: React.FC = () => {
+    const [providerKind, setProviderKind] = useState<ImageProviderKind>(getImageProviderKind);
+
+    const handleProviderChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const kind = e.target.value as ImageProviderKind;
+        setProviderKind(kind);
+        setImageProviderKind(kind);
+    };
+
+    const selectedOption = IMAGE_PROVIDER_OPTIONS.find(option => option.kind === providerKind);
+
+    return (
+        <div className="space-y-4">
+            <h4 className="text-md font-bold text-light border-b border-accent pb-2">Visuals</h4>
+            <div>
+                <label htmlFor="imageProvider" className="text-sm font-semibold text-text-secondary mb-2 block">Poster Artwork</label>
+                <select
+                    id="imageProvider"
+                    value={providerKind}
+                    onChange={handleProviderChange}
+                    className="w-full p-3 bg-primary border-2 border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight transition-all text-light"
+                >
+                    {IMAGE_PROVIDER_OPTIONS.map(option => (
+                        <option key={option.kind} value={option.kind}>{option.label}</option>
+                    ))}
+                </select>
+                {selectedOption && <p className="text-xs text-text-secondary mt-2">{selectedOption.description}</p>}
+            </div>
+        </div>
+    );
+};
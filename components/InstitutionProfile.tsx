@@ -2,6 +2,10 @@ import React, { useState, useEffect } from 'react';
 import { useAuth } from '../context/AuthContext';
 import { PencilIcon } from './icons/PencilIcon';
 import { LogOutIcon } from './icons/LogOutIcon';
+import { AIProviderSettings } from './AIProviderSettings';
+import { ImageProviderSettings } from './ImageProviderSettings';
+import { MailSettings } from './MailSettings';
+import { PublishingSettings } from './PublishingSettings';
 
 interface InstitutionProfileProps {
     isOpen: boolean;
@@ -256,6 +260,14 @@ export const InstitutionProfile: React.FC<InstitutionProfileProps> = ({ isOpen,
                             </div>
                         </div>
                     </div>
+
+                    <AIProviderSettings />
+
+                    <ImageProviderSettings />
+
+                    <MailSettings />
+
+                    <PublishingSettings />
                 </div>
                 
                  <div className="p-4 border-t border-accent flex justify-between items-center flex-shrink-0">
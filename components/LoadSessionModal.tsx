@@ -3,6 +3,7 @@ import { SavedSession } from '../types';
 import { TrashIcon } from './icons/TrashIcon';
 import { ConfirmationModal } from './ConfirmationModal';
 import { PencilIcon } from './icons/PencilIcon';
+import { SESSION_ROLE_DETAILS } from '../constants';
 
 interface LoadSessionModalProps {
     isOpen: boolean;
@@ -11,11 +12,15 @@ interface LoadSessionModalProps {
     onLoadSession: (sessionId: string) => void;
     onDeleteSession: (sessionId: string) => Promise<void>;
     onUpdateSessionName: (sessionId: string, newName: string) => Promise<void>;
+    // Saves a plan exported as JSON as a new plan and opens it.
+    onImportFile: (file: File) => void;
+    // Starts a new plan with the session's tasks, reset and moved to the next edition's dates.
+    onCloneSession: (sessionId: string) => void;
     isLoading: boolean;
     error: string | null;
 }
 
-export const LoadSessionModal: React.FC<LoadSessionModalProps> = ({ isOpen, onClose, sessions, onLoadSession, onDeleteSession, onUpdateSessionName, isLoading, error }) => {
+export const LoadSessionModal: React.FC<LoadSessionModalProps> = ({ isOpen, onClose, sessions, onLoadSession, onDeleteSession, onUpdateSessionName, onImportFile, onCloneSession, isLoading, error }) => {
     if (!isOpen) return null;
 
     const [sessionToDelete, setSessionToDelete] = useState<SavedSession | null>(null);
@@ -88,7 +93,9 @@ export const LoadSessionModal: React.FC<LoadSessionModalProps> = ({ isOpen, onCl
                             <p className="text-text-secondary text-center py-10">No saved plans found in the cloud.</p>
                         ) : (
                             <ul className="space-y-3">
-                                {sessions.map(session => (
+                                {sessions.map(session => {
+                                    const canRename = !session.isInvite && SESSION_ROLE_DETAILS[session.role].permissions.canEditPlan;
+                                    return (
                                     <li key={session.id} className="bg-primary p-3 rounded-lg border border-accent flex justify-between items-center transition-colors hover:bg-accent/30 group">
                                         <div className="flex-grow min-w-0">
                                             {editingSessionId === session.id ? (
@@ -107,13 +114,22 @@ export const LoadSessionModal: React.FC<LoadSessionModalProps> = ({ isOpen, onCl
                                             ) : (
                                                 <div className="flex items-center space-x-2">
                                                     <p className="font-semibold text-base text-light truncate" title={session.name}>{session.name}</p>
-                                                    <button onClick={() => handleEditClick(session)} className="opacity-0 group-hover:opacity-100 text-text-secondary hover:text-white transition-opacity p-1">
-                                                        <PencilIcon className="w-4 h-4" />
-                                                    </button>
+                                                    {session.isInvite ? (
+                                                        <span className="flex-shrink-0 px-2 py-0.5 rounded-full bg-highlight/20 text-highlight text-xs font-semibold">Invited</span>
+                                                    ) : session.role !== 'owner' && (
+                                                        <span className="flex-shrink-0 px-2 py-0.5 rounded-full bg-accent text-xs font-semibold text-light">{SESSION_ROLE_DETAILS[session.role].label}</span>
+                                                    )}
+                                                    {canRename && (
+                                                        <button onClick={() => handleEditClick(session)} className="opacity-0 group-hover:opacity-100 text-text-secondary hover:text-white transition-opacity p-1">
+                                                            <PencilIcon className="w-4 h-4" />
+                                                        </button>
+                                                    )}
                                                 </div>
                                             )}
                                             <p className="text-xs text-text-secondary mt-1">
                                                 Saved on: {session.timestamp.toLocaleString()} ({session.taskCount} tasks)
+                                                {session.role !== 'owner' && session.ownerName && <> &middot; Shared by {session.ownerName}</>}
+                                                {session.isInvite && <> &middot; You'll join as {SESSION_ROLE_DETAILS[session.role].label}</>}
                                             </p>
                                         </div>
                                         <div className="flex items-center space-x-2 flex-shrink-0 ml-4">
@@ -121,23 +137,51 @@ export const LoadSessionModal: React.FC<LoadSessionModalProps> = ({ isOpen, onCl
                                                 onClick={() => onLoadSession(session.id)}
                                                 className="px-4 py-2 rounded-lg bg-highlight text-white hover:opacity-90 transition-opacity text-sm font-semibold"
                                             >
-                                                Load
-                                            </button>
-                                            <button
-                                                onClick={() => setSessionToDelete(session)}
-                                                className="p-2 rounded-lg text-text-secondary hover:bg-danger hover:text-white transition-colors"
-                                                title="Delete this plan"
-                                            >
-                                                <TrashIcon className="w-5 h-5"/>
+                                                {session.isInvite ? 'Join' : 'Load'}
                                             </button>
+                                            {!session.isInvite && (
+                                                <button
+                                                    onClick={() => onCloneSession(session.id)}
+                                                    className="px-4 py-2 rounded-lg bg-accent text-light hover:bg-accent/80 transition-opacity text-sm font-semibold"
+                                                    title="Start a new plan from this one, with progress and content cleared and dates moved to the next edition"
+                                                >
+                                                    Clone
+                                                </button>
+                                            )}
+                                            {session.role === 'owner' && (
+                                                <button
+                                                    onClick={() => setSessionToDelete(session)}
+                                                    className="p-2 rounded-lg text-text-secondary hover:bg-danger hover:text-white transition-colors"
+                                                    title="Delete this plan"
+                                                >
+                                                    <TrashIcon className="w-5 h-5"/>
+                                                </button>
+                                            )}
                                         </div>
                                     </li>
-                                ))}
+                                    );
+                                })}
                             </ul>
                         )}
                     </div>
 
-                    <div className="p-4 border-t border-accent text-right">
+                    <div className="p-4 border-t border-accent flex justify-between items-center">
+                        <label
+                            className="px-4 py-2 rounded-lg border-2 border-accent text-text-secondary hover:bg-accent hover:text-white transition-colors font-semibold text-sm cursor-pointer"
+                            title="Import a plan exported as a JSON file"
+                        >
+                            Import from File
+                            <input
+                                type="file"
+                                accept=".json,application/json"
+                                className="hidden"
+                                onChange={e => {
+                                    const file = e.target.files?.[0];
+                                    e.target.value = '';
+                                    if (file) onImportFile(file);
+                                }}
+                            />
+                        </label>
                         <button 
                             onClick={onClose}
                             className="px-4 py-2 rounded-lg bg-accent text-light hover:bg-accent/80 transition-opacity font-semibold"
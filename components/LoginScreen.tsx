@@ -2,8 +2,7 @@ import React, { useState, useEffect, useRef } from 'react';
 import { useAuth } from '../context/AuthContext';
 import { GoogleIcon } from './icons/GoogleIcon';
 import { FestFlowLogoIcon } from './icons/FestFlowLogoIcon';
-import { AGENT_DETAILS, AGENT_NAMES } from '../constants';
-import { AgentName } from '../types';
+import { AGENT_ICONS, DEFAULT_AGENTS } from '../constants';
 import { RobotIcon } from './icons/RobotIcon';
 import { GitHubIcon } from './icons/GitHubIcon';
 
@@ -65,7 +64,7 @@ const featureSteps = [
     { icon: TrophyIcon, title: "Event Success", description: "From the first task to the final round of applause, FestFlow ensures every detail is perfectly aligned, delivering a successful, stress-free event." }
 ];
 
-const featuredAgents = AGENT_NAMES.filter(name => name !== AgentName.MASTER_PLANNER);
+const featuredAgents = DEFAULT_AGENTS;
 
 // --- Sub-components for better organization ---
 
@@ -197,16 +196,15 @@ const TeamShowcase: React.FC = () => (
         <h3 className="text-3xl font-bold text-light mb-4">Meet Your AI Team</h3>
         <p className="text-lg text-text-secondary mb-12">More than just software. A dedicated crew of AI specialists, each an expert in their field.</p>
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-8">
-            {featuredAgents.map((agentName, index) => {
-                const agentDetail = AGENT_DETAILS[agentName];
-                const AgentIcon = agentDetail.icon;
+            {featuredAgents.map((agent, index) => {
+                const AgentIcon = AGENT_ICONS[agent.icon];
                 return (
-                    <div key={agentName} className="bg-secondary/70 backdrop-blur-sm p-6 rounded-xl border border-accent text-left opacity-0 animate-fadeIn transform transition-all duration-300 hover:border-highlight/80 hover:shadow-2xl hover:shadow-highlight/20 hover:scale-105" style={{ animationDelay: `${200 + 100 * index}ms` }}>
+                    <div key={agent.name} className="bg-secondary/70 backdrop-blur-sm p-6 rounded-xl border border-accent text-left opacity-0 animate-fadeIn transform transition-all duration-300 hover:border-highlight/80 hover:shadow-2xl hover:shadow-highlight/20 hover:scale-105" style={{ animationDelay: `${200 + 100 * index}ms` }}>
                         <div className="flex items-center space-x-3 mb-3">
-                            <AgentIcon className={`w-8 h-8 ${agentDetail.color}`} />
-                            <h4 className="text-xl font-bold text-light">{agentName}</h4>
+                            <AgentIcon className={`w-8 h-8 ${agent.color}`} />
+                            <h4 className="text-xl font-bold text-light">{agent.name}</h4>
                         </div>
-                        <p className="text-text-secondary">{agentDetail.description}</p>
+                        <p className="text-text-secondary">{agent.description}</p>
                     </div>
                 )
             })}
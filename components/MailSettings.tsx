@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import {
+    clearOutboxMessages,
+    countOutboxMessages,
+    exportOutboxMessages,
+    getMailSettings,
+    MAIL_TRANSPORT_OPTIONS,
+    MailSettings as MailSettingsValue,
+    setMailSettings,
+} from '../services/mailService';
+
+const inputClass = "w-full p-3 bg-primary border-2 border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight transition-all text-light";
+
+// Lets the user choose how approved content is sent by email. Like the AI provider,
+// the choice is stored per browser.
+export const MailSettings: React.FC = () => {
+    const [settings, setSettings] = useState<MailSettingsValue>(getMailSettings);
+    const [outboxCount, setOutboxCount] = useState(countOutboxMessages);
+
+    const update = (updates: Partial<MailSettingsValue>) => {
+        const next = { ...settings, ...updates };
+        setSettings(next);
+        setMailSettings(next);
+    };
+
+    const handleDownload = () => {
+        const blob = new Blob([exportOutboxMessages()], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'festflow-outbox.json';
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleClear = () => {
+        clearOutboxMessages();
+        setOutboxCount(0);
+    };
+
+    const selectedOption = MAIL_TRANSPORT_OPTIONS.find(option => option.kind === settings.kind);
+
+    return (
+        <div className="space-y-4">
+            <h4 className="text-md font-bold text-light border-b border-accent pb-2">Email</h4>
+            <div>
+                <label htmlFor="mailTransport" className="text-sm font-semibold text-text-secondary mb-2 block">Send Through</label>
+                <select
+                    id="mailTransport"
+                    value={settings.kind}
+                    onChange={e => update({ kind: e.target.value as MailSettingsValue['kind'] })}
+                    className={inputClass}
+                >
+                    {MAIL_TRANSPORT_OPTIONS.map(option => (
+                        <option key={option.kind} value={option.kind}>{option.label}</option>
+                    ))}
+                </select>
+                {selectedOption && <p className="text-xs text-text-secondary mt-2">{selectedOption.description}</p>}
+            </div>
+            {settings.kind !== 'outbox' && (
+                <div>
+                    <label htmlFor="mailUrl" className="text-sm font-semibold text-text-secondary mb-2 block">{settings.kind === 'mailpit' ? 'Mailpit URL' : 'Relay URL'}</label>
+                    <input
+                        id="mailUrl"
+                        type="url"
+                        value={settings.url}
+                        onChange={e => update({ url: e.target.value })}
+                        placeholder={settings.kind === 'mailpit' ? 'http://localhost:8025' : 'https://mail-relay.example.com/send'}
+                        className={inputClass}
+                    />
+                </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                    <label htmlFor="mailFromName" className="text-sm font-semibold text-text-secondary mb-2 block">Sender Name</label>
+                    <input
+                        id="mailFromName"
+                        type="text"
+                        value={settings.fromName}
+                        onChange={e => update({ fromName: e.target.value })}
+                        placeholder="Your name"
+                        className={inputClass}
+                    />
+                </div>
+                <div>
+                    <label htmlFor="mailFromEmail" className="text-sm font-semibold text-text-secondary mb-2 block">Sender Address</label>
+                    <input
+                        id="mailFromEmail"
+                        type="email"
+                        value={settings.fromEmail}
+                        onChange={e => update({ fromEmail: e.target.value })}
+                        placeholder="sponsorships@example.edu"
+                        className={inputClass}
+                    />
+                </div>
+            </div>
+            {settings.kind === 'outbox' && (
+                <div className="flex items-center justify-between text-sm text-text-secondary">
+                    <span>{outboxCount} email{outboxCount === 1 ? '' : 's'} in the outbox</span>
+                    <div className="flex items-center space-x-3">
+                        <button
+                            type="button"
+                            onClick={handleDownload}
+                            disabled={outboxCount === 0}
+                            className="font-semibold text-highlight hover:underline disabled:opacity-50 disabled:no-underline"
+                        >
+                            Download
+                        </button>
+                        <button
+                            type="button"
+                            onClick={handleClear}
+                            disabled={outboxCount === 0}
+                            className="font-semibold text-red-400 hover:text-red-300 disabled:opacity-50"
+                        >
+                            Clear
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
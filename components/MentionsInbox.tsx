@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { Task } from '../types';
+import { MentionNotice } from '../services/comments';
+import { BellIcon } from './icons/BellIcon';
+
+interface MentionsInboxProps {
+    // Newest first.
+    notices: MentionNotice[];
+    // When each task's comments were last read, keyed by task ID.
+    commentReads: Record<string, string>;
+    onOpenTask: (task: Task) => void;
+}
+
+const formatTimestamp = (iso: string) => new Date(iso).toLocaleString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+// Lists the comments that @mention the signed-in user. Opening one marks its task's comments as read.
+export const MentionsInbox: React.FC<MentionsInboxProps> = React.memo(({ notices, commentReads, onOpenTask }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const isUnread = (notice: MentionNotice) => {
+        const lastRead = commentReads[notice.task.id];
+        return !lastRead || notice.comment.createdAt > lastRead;
+    };
+    const unreadCount = notices.filter(isUnread).length;
+
+    return (
+        <div className="relative flex-shrink-0">
+            <button
+                onClick={() => setIsOpen(prev => !prev)}
+                className={`relative flex items-center space-x-2 rounded-lg border-2 px-3 py-2 text-sm font-semibold transition-colors ${isOpen ? 'bg-highlight text-white border-highlight' : 'border-accent text-text-secondary hover:bg-highlight hover:text-white hover:border-highlight'}`}
+                aria-expanded={isOpen}
+                title="Comments that mention you"
+            >
+                <BellIcon className="w-4 h-4" />
+                <span>Mentions</span>
+                {unreadCount > 0 && (
+                    <span className="absolute -top-2 -right-2 min-w-[1.25rem] h-5 px-1 rounded-full bg-danger text-white text-xs font-bold flex items-center justify-center">{unreadCount}</span>
+                )}
+            </button>
+            {isOpen && (
+                <div className="absolute right-0 mt-2 w-80 max-h-96 overflow-y-auto z-30 bg-secondary border border-accent rounded-xl shadow-2xl">
+                    {notices.length === 0 ? (
+                        <p className="p-4 text-sm text-text-secondary">No one has mentioned you yet.</p>
+                    ) : (
+                        <ul className="divide-y divide-accent">
+                            {notices.map(notice => (
+                                <li key={notice.comment.id}>
+                                    <button
+                                        onClick={() => {
+                                            onOpenTask(notice.task);
+                                            setIsOpen(false);
+                                        }}
+                                        className="w-full text-left p-3 hover:bg-accent transition-colors"
+                                    >
+                                        <p className="text-xs text-text-secondary">
+                                            {isUnread(notice) && <span className="inline-block w-2 h-2 rounded-full bg-highlight mr-1.5" aria-label="Unread" />}
+                                            <span className="font-semibold text-light">{notice.comment.authorName}</span> on {notice.task.title} &middot; {formatTimestamp(notice.comment.createdAt)}
+                                        </p>
+                                        <p className="text-sm text-light line-clamp-2">{notice.comment.body}</p>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+});
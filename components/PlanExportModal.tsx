@@ -0,0 +1,108 @@
+import React, { useMemo } from 'react';
+import { LoadedSessionState } from '../types';
+import { ScheduledDates } from '../services/ical';
+import { exportPlanToJSON, exportRunSheetMarkdown, exportTasksToCSV } from '../services/planExport';
+import { calculateTaskDates, getProjectStartDate } from '../services/schedule';
+
+interface PlanExportModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    session: LoadedSessionState;
+}
+
+const EXPORT_FORMATS = [
+    {
+        key: 'json',
+        label: 'Plan File (.json)',
+        description: 'The whole plan with its calendar, team, agents, approvals and attachment details. Import it from Load Plan to archive it or share it with another college.',
+        extension: 'json',
+        mimeType: 'application/json',
+    },
+    {
+        key: 'csv',
+        label: 'Task List (.csv)',
+        description: 'One row per task with its agent, owner, status, dates and costs, for Excel or Google Sheets.',
+        extension: 'csv',
+        mimeType: 'text/csv;charset=utf-8',
+    },
+    {
+        key: 'markdown',
+        label: 'Run Sheet (.md)',
+        description: 'A readable report of every task grouped by agent, with its owner, dates and approved content.',
+        extension: 'md',
+        mimeType: 'text/markdown;charset=utf-8',
+    },
+] as const;
+
+type ExportFormat = typeof EXPORT_FORMATS[number]['key'];
+
+// Downloads the open plan as a portable file.
+export const PlanExportModal: React.FC<PlanExportModalProps> = ({ isOpen, onClose, session }) => {
+    const { tasks, calendar, eventDates, team } = session;
+    const schedule = useMemo(() => new Map<string, ScheduledDates>(
+        calculateTaskDates(tasks, getProjectStartDate(tasks), calendar, eventDates)
+            .map(task => [task.id, { start: task.ganttStartDate, end: task.ganttEndDate }])
+    ), [tasks, calendar, eventDates]);
+
+    if (!isOpen) return null;
+
+    const handleDownload = (format: ExportFormat) => {
+        const option = EXPORT_FORMATS.find(f => f.key === format)!;
+        const contents = format === 'json'
+            ? exportPlanToJSON(session)
+            : format === 'csv'
+                ? exportTasksToCSV(tasks, team, schedule)
+                : exportRunSheetMarkdown(session, schedule);
+        const blob = new Blob([contents], { type: option.mimeType });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${session.projectName.replace(/[^\w-]+/g, '-').toLowerCase() || 'festflow-plan'}.${option.extension}`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4 animate-fadeIn"
+            onClick={onClose}
+        >
+            <div
+                className="bg-secondary rounded-xl shadow-2xl w-full max-w-lg max-h-[85vh] flex flex-col border border-accent transform transition-transform duration-300 scale-95 animate-fadeIn"
+                onClick={e => e.stopPropagation()}
+                style={{animationDuration: '0.3s'}}
+            >
+                <div className="p-4 border-b border-accent flex justify-between items-center">
+                    <h3 className="text-lg font-bold text-highlight">Export Plan</h3>
+                    <button onClick={onClose} className="text-text-secondary hover:text-white text-2xl">&times;</button>
+                </div>
+
+                <ul className="p-6 overflow-y-auto space-y-3">
+                    {EXPORT_FORMATS.map(format => (
+                        <li key={format.key} className="bg-primary p-3 rounded-lg border border-accent flex items-center justify-between gap-4">
+                            <div className="min-w-0">
+                                <p className="text-sm font-semibold text-light">{format.label}</p>
+                                <p className="text-xs text-text-secondary">{format.description}</p>
+                            </div>
+                            <button
+                                onClick={() => handleDownload(format.key)}
+                                className="flex-shrink-0 px-4 py-2 rounded-lg bg-accent text-light hover:bg-accent/80 transition-opacity text-sm font-semibold"
+                            >
+                                Download
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+
+                <div className="p-4 border-t border-accent text-right">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 rounded-lg bg-accent text-light hover:bg-accent/80 transition-opacity font-semibold"
+                    >
+                        Close
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { PlanDiff, PlannedTaskFields, Task } from '../types';
+import { isPlanDiffEmpty } from '../services/planDiff';
+import { RobotIcon } from './icons/RobotIcon';
+
+interface PlannerChatProps {
+    tasks: Task[];
+    // Asks the Master Planner for the changes a request calls for.
+    onRequest: (request: string) => Promise<PlanDiff>;
+    onApply: (request: string, diff: PlanDiff) => void;
+}
+
+interface PlannerExchange {
+    id: number;
+    request: string;
+    status: 'thinking' | 'proposed' | 'applied' | 'discarded' | 'failed';
+    diff?: PlanDiff;
+    error?: string;
+}
+
+const FIELD_LABELS: Record<keyof PlannedTaskFields, string> = {
+    title: 'Title',
+    description: 'Description',
+    assignedTo: 'Agent',
+    dependsOn: 'Depends on',
+    estimatedDuration: 'Duration',
+    parentId: 'Parent task',
+    estimatedCost: 'Estimated cost',
+    costCategory: 'Cost category',
+    committedAmount: 'Committed amount',
+};
+
+const STATUS_LABELS: Record<PlannerExchange['status'], string> = {
+    thinking: 'Thinking...',
+    proposed: 'Proposed',
+    applied: 'Applied',
+    discarded: 'Discarded',
+    failed: 'Failed',
+};
+
+// A command box for asking the Master Planner to change the plan, e.g. "we lost the venue,
+// replan logistics". Each answer is shown as added, removed and changed tasks and is only
+// applied, all at once, when an organizer accepts it.
+export const PlannerChat: React.FC<PlannerChatProps> = React.memo(({ tasks, onRequest, onApply }) => {
+    const [request, setRequest] = useState('');
+    const [exchanges, setExchanges] = useState<PlannerExchange[]>([]);
+    const isThinking = exchanges.some(e => e.status === 'thinking');
+
+    const titleOf = (id: string, diff?: PlanDiff) =>
+        tasks.find(t => t.id === id)?.title ?? diff?.added.find(t => t.id === id)?.title ?? id;
+
+    const formatValue = (key: keyof PlannedTaskFields, value: unknown, diff: PlanDiff): string => {
+        if (value === undefined || value === null || value === '') return 'none';
+        if (key === 'dependsOn') return (value as string[]).map(id => titleOf(id, diff)).join(', ') || 'none';
+        if (key === 'parentId') return titleOf(value as string, diff);
+        if (key === 'estimatedDuration') return `${value} day${value === 1 ? '' : 's'}`;
+        return String(value);
+    };
+
+    const updateExchange = (id: number, updates: Partial<PlannerExchange>) =>
+        setExchanges(prev => prev.map(e => (e.id === id ? { ...e, ...updates } : e)));
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const text = request.trim();
+        if (!text || isThinking) return;
+        const id = Date.now();
+        setExchanges(prev => [...prev, { id, request: text, status: 'thinking' }]);
+        setRequest('');
+        try {
+            const diff = await onRequest(text);
+            updateExchange(id, { status: 'proposed', diff });
+        } catch (err) {
+            updateExchange(id, { status: 'failed', error: err instanceof Error ? err.message : 'The Master Planner could not revise the plan.' });
+        }
+    };
+
+    const renderDiff = (exchange: PlannerExchange, diff: PlanDiff) => (
+        <div className="space-y-2 text-sm">
+            {diff.summary && <p className="text-light">{diff.summary}</p>}
+            {isPlanDiffEmpty(diff) ? (
+                <p className="text-text-secondary">No changes to the plan were needed.</p>
+            ) : (
+                <ul className="space-y-1.5">
+                    {diff.added.map(task => (
+                        <li key={`added-${task.id}`} className="border-l-4 border-success pl-2">
+                            <span className="font-semibold text-success">Add</span> <span className="text-light">{task.title}</span>
+                            <span className="text-xs text-text-secondary"> &middot; {task.assignedTo} &middot; {formatValue('estimatedDuration', task.estimatedDuration, diff)}
+                                {task.dependsOn.length > 0 && <> &middot; after {formatValue('dependsOn', task.dependsOn, diff)}</>}
+                                {task.parentId && <> &middot; under {titleOf(task.parentId, diff)}</>}
+                            </span>
+                        </li>
+                    ))}
+                    {diff.removed.map(({ taskId, reason }) => (
+                        <li key={`removed-${taskId}`} className="border-l-4 border-danger pl-2">
+                            <span className="font-semibold text-danger">Remove</span> <span className="text-light line-through">{titleOf(taskId)}</span>
+                            {reason && <span className="text-xs text-text-secondary"> &middot; {reason}</span>}
+                        </li>
+                    ))}
+                    {diff.modified.map(({ taskId, changes, reason }) => {
+                        const task = tasks.find(t => t.id === taskId);
+                        return (
+                            <li key={`modified-${taskId}`} className="border-l-4 border-highlight pl-2">
+                                <span className="font-semibold text-highlight">Change</span> <span className="text-light">{titleOf(taskId)}</span>
+                                {reason && <span className="text-xs text-text-secondary"> &middot; {reason}</span>}
+                                <ul className="text-xs text-text-secondary">
+                                    {(Object.keys(changes) as (keyof PlannedTaskFields)[]).map(key => (
+                                        <li key={key}>
+                                            {FIELD_LABELS[key]}: {key !== 'description' && <><del>{formatValue(key, task?.[key], diff)}</del> &rarr; </>}
+                                            <span className="text-light">{formatValue(key, changes[key], diff)}</span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+            {exchange.status === 'proposed' && (
+                <div className="flex justify-end space-x-2 pt-1">
+                    <button
+                        onClick={() => updateExchange(exchange.id, { status: 'discarded' })}
+                        className="px-3 py-1.5 rounded-lg bg-accent text-light hover:bg-accent/80 transition-opacity text-xs font-semibold"
+                    >
+                        Discard
+                    </button>
+                    {!isPlanDiffEmpty(diff) && (
+                        <button
+                            onClick={() => {
+                                onApply(exchange.request, diff);
+                                updateExchange(exchange.id, { status: 'applied' });
+                            }}
+                            className="px-3 py-1.5 rounded-lg bg-highlight text-white hover:opacity-90 transition-opacity text-xs font-semibold"
+                        >
+                            Apply Changes
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+
+    return (
+        <div className="bg-secondary p-6 rounded-xl shadow-2xl border border-accent animate-fadeIn space-y-4">
+            <div className="flex items-center space-x-2">
+                <RobotIcon className="w-5 h-5 text-highlight" />
+                <h2 className="text-xl font-bold text-highlight">Ask the Master Planner</h2>
+            </div>
+            <p className="text-text-secondary text-sm">Describe a change to the plan, e.g. "add a hackathon track on day 2" or "we lost the venue, replan logistics". You can review the proposed changes before they are applied.</p>
+
+            {exchanges.length > 0 && (
+                <ul className="space-y-3 max-h-96 overflow-y-auto pr-1">
+                    {exchanges.map(exchange => (
+                        <li key={exchange.id} className="space-y-2">
+                            <p className="ml-auto max-w-[80%] w-fit bg-highlight/20 text-light text-sm p-2 px-3 rounded-lg">{exchange.request}</p>
+                            <div className="bg-primary p-3 rounded-lg border border-accent max-w-[90%]">
+                                <p className="text-xs font-semibold text-text-secondary mb-1">Master Planner &middot; {STATUS_LABELS[exchange.status]}</p>
+                                {exchange.error && <p className="text-sm text-red-300 whitespace-pre-wrap">{exchange.error}</p>}
+                                {exchange.diff && renderDiff(exchange, exchange.diff)}
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <form onSubmit={handleSubmit} className="flex gap-2">
+                <input
+                    type="text"
+                    value={request}
+                    onChange={e => setRequest(e.target.value)}
+                    placeholder="What should change?"
+                    disabled={isThinking}
+                    className="flex-grow p-3 bg-primary border-2 border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight transition-all text-light text-sm disabled:opacity-50"
+                    aria-label="Request to the Master Planner"
+                />
+                <button
+                    type="submit"
+                    disabled={!request.trim() || isThinking}
+                    className="px-4 py-2 rounded-lg bg-highlight text-white hover:opacity-90 transition-opacity text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isThinking ? 'Thinking...' : 'Send'}
+                </button>
+            </form>
+        </div>
+    );
+});
@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { ProjectCalendar } from '../types';
+import { WEEKDAY_LABELS } from '../constants';
+import { TrashIcon } from './icons/TrashIcon';
+
+interface ProjectCalendarModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    calendar: ProjectCalendar;
+    onSave: (calendar: ProjectCalendar) => void;
+    readOnly?: boolean;
+}
+
+const inputClass = "p-2 bg-primary border-2 border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight text-sm text-light disabled:opacity-50";
+
+const formatDateKey = (key: string) =>
+    new Date(`${key}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+
+// Edits the working week, public holidays and blackout ranges (e.g. exam weeks)
+// that the timeline schedules around. Changes are kept in a draft until saved.
+export const ProjectCalendarModal: React.FC<ProjectCalendarModalProps> = ({ isOpen, onClose, calendar, onSave, readOnly = false }) => {
+    const [draft, setDraft] = useState<ProjectCalendar>(calendar);
+    const [holidayDate, setHolidayDate] = useState('');
+    const [holidayName, setHolidayName] = useState('');
+    const [blackoutName, setBlackoutName] = useState('');
+    const [blackoutStart, setBlackoutStart] = useState('');
+    const [blackoutEnd, setBlackoutEnd] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    if (!isOpen) return null;
+
+    const toggleWorkingDay = (day: number) => {
+        setDraft(prev => ({
+            ...prev,
+            workingDays: prev.workingDays.includes(day)
+                ? prev.workingDays.filter(d => d !== day)
+                : [...prev.workingDays, day].sort((a, b) => a - b),
+        }));
+    };
+
+    const handleAddHoliday = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!holidayDate) return;
+        if (draft.holidays.some(h => h.date === holidayDate)) {
+            setError(`${formatDateKey(holidayDate)} is already a holiday.`);
+            return;
+        }
+        setError(null);
+        setDraft(prev => ({
+            ...prev,
+            holidays: [...prev.holidays, { date: holidayDate, name: holidayName.trim() || 'Holiday' }].sort((a, b) => a.date.localeCompare(b.date)),
+        }));
+        setHolidayDate('');
+        setHolidayName('');
+    };
+
+    const handleAddBlackout = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!blackoutStart || !blackoutEnd) return;
+        if (blackoutEnd < blackoutStart) {
+            setError('A blackout must end on or after the day it starts.');
+            return;
+        }
+        setError(null);
+        setDraft(prev => ({
+            ...prev,
+            blackouts: [...prev.blackouts, {
+                id: `blackout-${Date.now()}`,
+                name: blackoutName.trim() || 'Blackout',
+                startDate: blackoutStart,
+                endDate: blackoutEnd,
+            }].sort((a, b) => a.startDate.localeCompare(b.startDate)),
+        }));
+        setBlackoutName('');
+        setBlackoutStart('');
+        setBlackoutEnd('');
+    };
+
+    const handleSave = () => {
+        if (draft.workingDays.length === 0) {
+            setError('Select at least one working day.');
+            return;
+        }
+        onSave(draft);
+        onClose();
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4 animate-fadeIn"
+            onClick={onClose}
+        >
+            <div
+                className="bg-secondary rounded-xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col border border-accent transform transition-transform duration-300 scale-95 animate-fadeIn"
+                onClick={e => e.stopPropagation()}
+                style={{animationDuration: '0.3s'}}
+            >
+                <div className="p-4 border-b border-accent flex justify-between items-center">
+                    <h3 className="text-lg font-bold text-highlight">Project Calendar</h3>
+                    <button onClick={onClose} className="text-text-secondary hover:text-white text-2xl">&times;</button>
+                </div>
+
+                <div className="p-6 overflow-y-auto space-y-6">
+                    <p className="text-sm text-text-secondary">Task durations are counted in working days. Weekly days off, holidays and blackout periods are skipped and shaded on the timeline.</p>
+
+                    {error && <div className="bg-danger/20 border border-danger text-red-300 p-3 rounded-lg text-sm">{error}</div>}
+
+                    <div>
+                        <h4 className="text-sm font-semibold text-text-secondary mb-2">Working Days</h4>
+                        <div className="flex flex-wrap gap-2">
+                            {WEEKDAY_LABELS.map((label, day) => {
+                                const isWorking = draft.workingDays.includes(day);
+                                return (
+                                    <button
+                                        key={label}
+                                        type="button"
+                                        onClick={() => toggleWorkingDay(day)}
+                                        disabled={readOnly}
+                                        className={`w-14 py-2 rounded-lg text-sm font-semibold border-2 transition-colors disabled:cursor-default ${isWorking ? 'bg-highlight border-highlight text-white' : 'bg-primary border-accent text-text-secondary'}`}
+                                        aria-pressed={isWorking}
+                                    >
+                                        {label}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+
+                    <div>
+                        <h4 className="text-sm font-semibold text-text-secondary mb-2">Holidays</h4>
+                        {!readOnly && (
+                            <form onSubmit={handleAddHoliday} className="flex items-center space-x-2 mb-3">
+                                <input type="date" required value={holidayDate} onChange={e => setHolidayDate(e.target.value)} className={inputClass} />
+                                <input type="text" value={holidayName} onChange={e => setHolidayName(e.target.value)} placeholder="e.g. Diwali" className={`${inputClass} flex-grow min-w-0`} />
+                                <button type="submit" className="px-4 py-2 rounded-lg bg-accent text-light hover:bg-accent/80 transition-opacity text-sm font-semibold">Add</button>
+                            </form>
+                        )}
+                        {draft.holidays.length === 0 ? (
+                            <p className="text-sm text-text-secondary">No holidays added.</p>
+                        ) : (
+                            <ul className="space-y-2">
+                                {draft.holidays.map(holiday => (
+                                    <li key={holiday.date} className="flex items-center justify-between bg-primary p-2 pl-3 rounded-lg border border-accent text-sm">
+                                        <span className="text-light truncate">{holiday.name} <span className="text-text-secondary">&middot; {formatDateKey(holiday.date)}</span></span>
+                                        {!readOnly && (
+                                            <button
+                                                onClick={() => setDraft(prev => ({ ...prev, holidays: prev.holidays.filter(h => h.date !== holiday.date) }))}
+                                                className="p-1.5 rounded-lg text-text-secondary hover:bg-danger hover:text-white transition-colors"
+                                                title="Remove holiday"
+                                            >
+                                                <TrashIcon className="w-4 h-4" />
+                                            </button>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+
+                    <div>
+                        <h4 className="text-sm font-semibold text-text-secondary mb-2">Blackout Periods</h4>
+                        {!readOnly && (
+                            <form onSubmit={handleAddBlackout} className="flex flex-wrap items-center gap-2 mb-3">
+                                <input type="text" value={blackoutName} onChange={e => setBlackoutName(e.target.value)} placeholder="e.g. Mid-semester exams" className={`${inputClass} flex-grow min-w-0`} />
+                                <input type="date" required value={blackoutStart} onChange={e => setBlackoutStart(e.target.value)} className={inputClass} aria-label="First day" />
+                                <input type="date" required value={blackoutEnd} min={blackoutStart || undefined} onChange={e => setBlackoutEnd(e.target.value)} className={inputClass} aria-label="Last day" />
+                                <button type="submit" className="px-4 py-2 rounded-lg bg-accent text-light hover:bg-accent/80 transition-opacity text-sm font-semibold">Add</button>
+                            </form>
+                        )}
+                        {draft.blackouts.length === 0 ? (
+                            <p className="text-sm text-text-secondary">No blackout periods added.</p>
+                        ) : (
+                            <ul className="space-y-2">
+                                {draft.blackouts.map(blackout => (
+                                    <li key={blackout.id} className="flex items-center justify-between bg-primary p-2 pl-3 rounded-lg border border-accent text-sm">
+                                        <span className="text-light truncate">{blackout.name} <span className="text-text-secondary">&middot; {formatDateKey(blackout.startDate)} &ndash; {formatDateKey(blackout.endDate)}</span></span>
+                                        {!readOnly && (
+                                            <button
+                                                onClick={() => setDraft(prev => ({ ...prev, blackouts: prev.blackouts.filter(b => b.id !== blackout.id) }))}
+                                                className="p-1.5 rounded-lg text-text-secondary hover:bg-danger hover:text-white transition-colors"
+                                                title="Remove blackout period"
+                                            >
+                                                <TrashIcon className="w-4 h-4" />
+                                            </button>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+
+                <div className="p-4 border-t border-accent flex justify-end space-x-3">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 rounded-lg bg-accent text-light hover:bg-accent/80 transition-opacity font-semibold"
+                    >
+                        {readOnly ? 'Close' : 'Cancel'}
+                    </button>
+                    {!readOnly && (
+                        <button
+                            onClick={handleSave}
+                            className="px-4 py-2 rounded-lg bg-highlight text-white hover:opacity-90 transition-opacity font-semibold"
+                        >
+                            Save Calendar
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
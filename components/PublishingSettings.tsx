@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import {
+    clearPublishedLog,
+    countPublishedLog,
+    exportPublishedLog,
+    getPublishingSettings,
+    PUBLISHING_ADAPTER_OPTIONS,
+    PublishingSettings as PublishingSettingsValue,
+    setPublishingSettings,
+} from '../services/publishingService';
+
+const inputClass = "w-full p-3 bg-primary border-2 border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight transition-all text-light";
+
+// Lets the user choose where scheduled social posts are published. The choice is
+// stored per browser, and it is the browser that publishes a due post that uses it.
+export const PublishingSettings: React.FC = () => {
+    const [settings, setSettings] = useState<PublishingSettingsValue>(getPublishingSettings);
+    const [logCount, setLogCount] = useState(countPublishedLog);
+
+    const update = (updates: Partial<PublishingSettingsValue>) => {
+        const next = { ...settings, ...updates };
+        setSettings(next);
+        setPublishingSettings(next);
+    };
+
+    const handleDownload = () => {
+        const blob = new Blob([exportPublishedLog()], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'festflow-published-posts.json';
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleClear = () => {
+        clearPublishedLog();
+        setLogCount(0);
+    };
+
+    const selectedOption = PUBLISHING_ADAPTER_OPTIONS.find(option => option.kind === settings.kind);
+
+    return (
+        <div className="space-y-4">
+            <h4 className="text-md font-bold text-light border-b border-accent pb-2">Publishing</h4>
+            <div>
+                <label htmlFor="publishingAdapter" className="text-sm font-semibold text-text-secondary mb-2 block">Publish Posts To</label>
+                <select
+                    id="publishingAdapter"
+                    value={settings.kind}
+                    onChange={e => update({ kind: e.target.value as PublishingSettingsValue['kind'] })}
+                    className={inputClass}
+                >
+                    {PUBLISHING_ADAPTER_OPTIONS.map(option => (
+                        <option key={option.kind} value={option.kind}>{option.label}</option>
+                    ))}
+                </select>
+                {selectedOption && <p className="text-xs text-text-secondary mt-2">{selectedOption.description}</p>}
+            </div>
+            {settings.kind === 'webhook' ? (
+                <div>
+                    <label htmlFor="publishingUrl" className="text-sm font-semibold text-text-secondary mb-2 block">Webhook URL</label>
+                    <input
+                        id="publishingUrl"
+                        type="url"
+                        value={settings.url}
+                        onChange={e => update({ url: e.target.value })}
+                        placeholder="https://hooks.example.com/festflow-posts"
+                        className={inputClass}
+                    />
+                </div>
+            ) : (
+                <div className="flex items-center justify-between text-sm text-text-secondary">
+                    <span>{logCount} published post{logCount === 1 ? '' : 's'} in the file</span>
+                    <div className="flex items-center space-x-3">
+                        <button
+                            type="button"
+                            onClick={handleDownload}
+                            disabled={logCount === 0}
+                            className="font-semibold text-highlight hover:underline disabled:opacity-50 disabled:no-underline"
+                        >
+                            Download
+                        </button>
+                        <button
+                            type="button"
+                            onClick={handleClear}
+                            disabled={logCount === 0}
+                            className="font-semibold text-red-400 hover:text-red-300 disabled:opacity-50"
+                        >
+                            Clear
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
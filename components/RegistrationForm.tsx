@@ -0,0 +1,154 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Attendee, RegistrationStatus } from '../types';
+import { registerAttendee, subscribeToRegistration } from '../services/firestoreService';
+import { formatTicketPrice, summarizeRegistrations, validateRegistration } from '../services/registration';
+import { formatEventDates } from '../services/visualAssets';
+import { FullScreenLoader } from './FullScreenLoader';
+import { TicketCard } from './TicketCard';
+import { FestFlowLogoIcon } from './icons/FestFlowLogoIcon';
+
+interface RegistrationFormProps {
+    sessionId: string;
+}
+
+const inputClass = "w-full p-3 bg-primary border-2 border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight transition-all text-light";
+
+// The public registration form of a plan, opened from its link without signing in.
+// Remaining places update live, so a ticket type that sells out cannot be chosen.
+export const RegistrationForm: React.FC<RegistrationFormProps> = ({ sessionId }) => {
+    const [status, setStatus] = useState<RegistrationStatus | null | undefined>(undefined);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [name, setName] = useState('');
+    const [email, setEmail] = useState('');
+    const [ticketTypeId, setTicketTypeId] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [attendee, setAttendee] = useState<Attendee | null>(null);
+
+    useEffect(() => subscribeToRegistration(sessionId, setStatus, e => setLoadError(e.message)), [sessionId]);
+
+    const summary = useMemo(() => (status ? summarizeRegistrations(status) : null), [status]);
+
+    // Pick the first ticket type with places left, and move off one that sells out.
+    useEffect(() => {
+        if (!summary) return;
+        const selected = summary.byTicketType.find(t => t.ticketType.id === ticketTypeId);
+        if (!selected || selected.remaining === 0) {
+            setTicketTypeId(summary.byTicketType.find(t => t.remaining > 0)?.ticketType.id ?? '');
+        }
+    }, [summary, ticketTypeId]);
+
+    if (status === undefined && !loadError) return <FullScreenLoader />;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!status) return;
+        const problem = validateRegistration(status, name, email, ticketTypeId);
+        if (problem) {
+            setError(problem);
+            return;
+        }
+        setError(null);
+        setIsSubmitting(true);
+        try {
+            setAttendee(await registerAttendee(sessionId, { name, email, ticketTypeId }));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Registration failed. Please try again.');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const renderBody = () => {
+        if (loadError || !status || !summary) {
+            return <p className="text-text-secondary text-center">{loadError ?? "This registration form does not exist or has been removed."}</p>;
+        }
+        if (attendee) {
+            return (
+                <div className="space-y-4 animate-fadeIn">
+                    <div>
+                        <h3 className="text-lg font-bold text-success">You're registered!</h3>
+                        <p className="text-sm text-text-secondary">Save this ticket: show its QR code or code at the entrance.</p>
+                    </div>
+                    <TicketCard attendee={attendee} page={status.page} />
+                </div>
+            );
+        }
+        const isSoldOut = summary.byTicketType.every(t => t.remaining === 0);
+        if (!status.page.isOpen || isSoldOut) {
+            return <p className="text-text-secondary text-center">{isSoldOut && status.page.isOpen ? "All tickets have been taken." : "Registration is closed."}</p>;
+        }
+        return (
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <fieldset className="space-y-2">
+                    <legend className="text-sm font-semibold text-text-secondary mb-2">Ticket</legend>
+                    {summary.byTicketType.map(({ ticketType, remaining }) => (
+                        <label
+                            key={ticketType.id}
+                            className={`flex items-start gap-3 p-3 rounded-lg border-2 transition-colors ${remaining === 0 ? 'border-accent opacity-50' : ticketTypeId === ticketType.id ? 'border-highlight cursor-pointer' : 'border-accent cursor-pointer hover:border-highlight/50'}`}
+                        >
+                            <input
+                                type="radio"
+                                name="ticketType"
+                                value={ticketType.id}
+                                checked={ticketTypeId === ticketType.id}
+                                disabled={remaining === 0}
+                                onChange={() => setTicketTypeId(ticketType.id)}
+                                className="mt-1 accent-highlight"
+                            />
+                            <div className="flex-grow min-w-0">
+                                <div className="flex justify-between gap-2">
+                                    <span className="font-semibold text-light">{ticketType.name}</span>
+                                    <span className="font-semibold text-light tabular-nums">{formatTicketPrice(ticketType)}</span>
+                                </div>
+                                {ticketType.description && <p className="text-sm text-text-secondary">{ticketType.description}</p>}
+                                <p className="text-xs text-text-secondary mt-1">{remaining === 0 ? 'Sold out' : `${remaining} place${remaining === 1 ? '' : 's'} left`}</p>
+                            </div>
+                        </label>
+                    ))}
+                </fieldset>
+                <div>
+                    <label htmlFor="registrationName" className="text-sm font-semibold text-text-secondary mb-2 block">Name</label>
+                    <input id="registrationName" type="text" required maxLength={200} value={name} onChange={e => setName(e.target.value)} autoComplete="name" className={inputClass} />
+                </div>
+                <div>
+                    <label htmlFor="registrationEmail" className="text-sm font-semibold text-text-secondary mb-2 block">Email</label>
+                    <input id="registrationEmail" type="email" required value={email} onChange={e => setEmail(e.target.value)} autoComplete="email" className={inputClass} />
+                </div>
+                {summary.byTicketType.some(t => t.ticketType.price > 0) && (
+                    <p className="text-xs text-text-secondary">Payment is not taken here; the organizers will tell you how to pay.</p>
+                )}
+                {error && <div className="bg-danger/20 border border-danger text-red-300 p-3 rounded-lg text-sm">{error}</div>}
+                <button
+                    type="submit"
+                    disabled={isSubmitting || !ticketTypeId}
+                    className="w-full py-3 rounded-lg bg-highlight text-white font-bold hover:opacity-90 transition-opacity disabled:opacity-50"
+                >
+                    {isSubmitting ? 'Registering…' : 'Register'}
+                </button>
+            </form>
+        );
+    };
+
+    return (
+        <div className="min-h-screen bg-primary text-light flex flex-col items-center p-4 py-10">
+            <div className="w-full max-w-lg space-y-6">
+                <div className="flex items-center space-x-3">
+                    <FestFlowLogoIcon className="w-8 h-8 text-highlight" />
+                    <span className="text-lg font-bold tracking-wider">FestFlow</span>
+                </div>
+                <div className="bg-secondary rounded-2xl border border-accent p-6 space-y-6">
+                    {status && (
+                        <div className="space-y-1">
+                            <h1 className="text-2xl font-bold text-light">{status.page.eventName}</h1>
+                            <p className="text-sm font-semibold text-highlight">{formatEventDates(status.page.eventDates)}</p>
+                            {status.page.venue && <p className="text-sm text-text-secondary">{status.page.venue}</p>}
+                            {status.page.description && <p className="text-sm text-text-secondary whitespace-pre-line pt-2">{status.page.description}</p>}
+                        </div>
+                    )}
+                    {renderBody()}
+                </div>
+            </div>
+        </div>
+    );
+};
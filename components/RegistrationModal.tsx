@@ -0,0 +1,272 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Attendee, EventDates, RegistrationPage, RegistrationStatus, TicketType } from '../types';
+import { BUDGET_CURRENCY } from '../constants';
+import { saveRegistrationPage, setAttendeeCheckedIn, subscribeToAttendees } from '../services/firestoreService';
+import { createTicketType, getRegistrationUrl, searchAttendees, summarizeRegistrations } from '../services/registration';
+import { exportAttendeesToCSV } from '../services/planExport';
+import { TicketCard } from './TicketCard';
+import { SearchIcon } from './icons/SearchIcon';
+import { TrashIcon } from './icons/TrashIcon';
+
+interface RegistrationModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    sessionId: string;
+    registration: RegistrationStatus | null;
+    // The form a plan without one starts from.
+    defaultPage: RegistrationPage;
+    eventDates: EventDates | null;
+    readOnly?: boolean;
+}
+
+const inputClass = "p-2 bg-primary border-2 border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight text-sm text-light";
+
+// Sets up the plan's public registration form and lists who registered, with check-in
+// at the door. The form is saved straight to Firestore rather than with the plan, since
+// people register against it while organizers work.
+export const RegistrationModal: React.FC<RegistrationModalProps> = ({ isOpen, onClose, sessionId, registration, defaultPage, eventDates, readOnly = false }) => {
+    const [draft, setDraft] = useState<RegistrationPage>(registration?.page ?? defaultPage);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [attendees, setAttendees] = useState<Attendee[]>([]);
+    const [search, setSearch] = useState('');
+    const [openTicketId, setOpenTicketId] = useState<string | null>(null);
+    const [isCopied, setIsCopied] = useState(false);
+
+    // Attendees can be listed once the form exists.
+    const hasForm = registration !== null;
+    useEffect(() => {
+        if (!isOpen || !hasForm) return;
+        return subscribeToAttendees(sessionId, setAttendees, e => setError(e.message));
+    }, [isOpen, sessionId, hasForm]);
+
+    const counts = registration?.counts ?? {};
+    const summary = useMemo(() => summarizeRegistrations({ page: draft, counts }), [draft, counts]);
+    const matches = useMemo(() => searchAttendees(attendees, search), [attendees, search]);
+    const checkedIn = attendees.filter(a => a.checkedInAt).length;
+    const url = getRegistrationUrl(sessionId);
+
+    if (!isOpen) return null;
+
+    const updateTicketType = (id: string, updates: Partial<TicketType>) => {
+        setDraft(prev => ({ ...prev, ticketTypes: prev.ticketTypes.map(t => (t.id === id ? { ...t, ...updates } : t)) }));
+    };
+
+    const handleSave = async () => {
+        const ticketTypes = draft.ticketTypes.map(t => ({ ...t, name: t.name.trim(), description: t.description?.trim() || undefined }));
+        if (!draft.eventName.trim()) {
+            setError('Give the event a name.');
+            return;
+        }
+        if (ticketTypes.length === 0 || ticketTypes.some(t => !t.name)) {
+            setError('Every ticket type needs a name.');
+            return;
+        }
+        const overbooked = ticketTypes.find(t => !Number.isInteger(t.capacity) || t.capacity < Math.max(1, counts[t.id] ?? 0));
+        if (overbooked) {
+            setError(`The capacity of ${overbooked.name} must be a whole number, at least 1 and no less than the ${counts[overbooked.id] ?? 0} already registered.`);
+            return;
+        }
+        if (ticketTypes.some(t => !Number.isFinite(t.price) || t.price < 0)) {
+            setError('Prices must be zero or more.');
+            return;
+        }
+        setError(null);
+        setIsSaving(true);
+        try {
+            const page = { ...draft, eventName: draft.eventName.trim(), venue: draft.venue.trim(), description: draft.description.trim(), eventDates, ticketTypes };
+            await saveRegistrationPage(sessionId, page);
+            setDraft(page);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to save the registration form.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleCopyLink = async () => {
+        await navigator.clipboard.writeText(url);
+        setIsCopied(true);
+        setTimeout(() => setIsCopied(false), 2000);
+    };
+
+    const handleCheckIn = (attendee: Attendee) => {
+        setAttendeeCheckedIn(sessionId, attendee.id, !attendee.checkedInAt).catch(e => setError(e.message));
+    };
+
+    const handleExport = () => {
+        const blob = new Blob([exportAttendeesToCSV(attendees, draft.ticketTypes)], { type: 'text/csv;charset=utf-8' });
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(blob);
+        link.download = `${draft.eventName.replace(/[^\w-]+/g, '-').toLowerCase() || 'festflow'}-attendees.csv`;
+        link.click();
+        URL.revokeObjectURL(link.href);
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4 animate-fadeIn"
+            onClick={onClose}
+        >
+            <div
+                className="bg-secondary rounded-xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col border border-accent transform transition-transform duration-300 scale-95 animate-fadeIn"
+                onClick={e => e.stopPropagation()}
+                style={{animationDuration: '0.3s'}}
+            >
+                <div className="p-4 border-b border-accent flex justify-between items-center">
+                    <h3 className="text-lg font-bold text-highlight">Registration</h3>
+                    <button onClick={onClose} className="text-text-secondary hover:text-white text-2xl">&times;</button>
+                </div>
+
+                <div className="p-6 overflow-y-auto space-y-6">
+                    {error && <div className="bg-danger/20 border border-danger text-red-300 p-3 rounded-lg text-sm">{error}</div>}
+
+                    <section className="space-y-3">
+                        <div className="flex justify-between items-center">
+                            <h4 className="font-semibold text-light">Registration Form</h4>
+                            <label className={`flex items-center space-x-2 text-sm font-semibold ${draft.isOpen ? 'text-success' : 'text-text-secondary'}`}>
+                                <input
+                                    type="checkbox"
+                                    checked={draft.isOpen}
+                                    disabled={readOnly}
+                                    onChange={e => setDraft(prev => ({ ...prev, isOpen: e.target.checked }))}
+                                    className="accent-highlight"
+                                />
+                                <span>{draft.isOpen ? 'Open' : 'Closed'}</span>
+                            </label>
+                        </div>
+                        {registration ? (
+                            <div className="flex gap-2">
+                                <input type="text" readOnly value={url} onFocus={e => e.target.select()} className={`${inputClass} flex-grow min-w-0`} aria-label="Registration link" />
+                                <button onClick={handleCopyLink} className="px-3 py-2 rounded-lg bg-accent text-light hover:bg-accent/80 transition-opacity text-sm font-semibold flex-shrink-0">
+                                    {isCopied ? 'Copied' : 'Copy Link'}
+                                </button>
+                            </div>
+                        ) : (
+                            <p className="text-sm text-text-secondary">Save the form to get the link people register with.</p>
+                        )}
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                            <input type="text" value={draft.eventName} disabled={readOnly} onChange={e => setDraft(prev => ({ ...prev, eventName: e.target.value }))} placeholder="Event name" className={inputClass} aria-label="Event name" />
+                            <input type="text" value={draft.venue} disabled={readOnly} onChange={e => setDraft(prev => ({ ...prev, venue: e.target.value }))} placeholder="Venue" className={inputClass} aria-label="Venue" />
+                            <textarea value={draft.description} disabled={readOnly} onChange={e => setDraft(prev => ({ ...prev, description: e.target.value }))} placeholder="What attendees should know, e.g. what to bring" rows={2} className={`${inputClass} sm:col-span-2`} />
+                        </div>
+
+                        <div className="space-y-2">
+                            <div className="flex justify-between text-xs font-semibold text-text-secondary">
+                                <span>Ticket Types</span>
+                                <span>{summary.registered} of {summary.capacity} places taken</span>
+                            </div>
+                            {summary.byTicketType.map(({ ticketType, registered }) => (
+                                <div key={ticketType.id} className="grid grid-cols-[2fr_1fr_1fr_auto] gap-2 items-center">
+                                    <input type="text" value={ticketType.name} disabled={readOnly} onChange={e => updateTicketType(ticketType.id, { name: e.target.value })} placeholder="Name, e.g. Student pass" className={inputClass} aria-label="Ticket name" />
+                                    <input type="number" min="0" value={ticketType.price} disabled={readOnly} onChange={e => updateTicketType(ticketType.id, { price: Number(e.target.value) })} className={inputClass} aria-label={`Price (${BUDGET_CURRENCY})`} title={`Price in ${BUDGET_CURRENCY}; 0 for free`} />
+                                    <input type="number" min={Math.max(1, registered)} value={ticketType.capacity} disabled={readOnly} onChange={e => updateTicketType(ticketType.id, { capacity: Number(e.target.value) })} className={inputClass} aria-label="Capacity" title={`Capacity; ${registered} registered`} />
+                                    <button
+                                        type="button"
+                                        onClick={() => setDraft(prev => ({ ...prev, ticketTypes: prev.ticketTypes.filter(t => t.id !== ticketType.id) }))}
+                                        disabled={readOnly || registered > 0}
+                                        className="p-1.5 rounded-lg text-text-secondary hover:bg-danger hover:text-white transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                                        title={registered > 0 ? 'People have registered for this ticket type' : 'Remove ticket type'}
+                                    >
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                    <input type="text" value={ticketType.description ?? ''} disabled={readOnly} onChange={e => updateTicketType(ticketType.id, { description: e.target.value })} placeholder="Description (optional)" className={`${inputClass} col-span-3`} aria-label="Ticket description" />
+                                    <span className="text-xs text-text-secondary tabular-nums">{registered}/{ticketType.capacity}</span>
+                                </div>
+                            ))}
+                            {!readOnly && (
+                                <button
+                                    type="button"
+                                    onClick={() => setDraft(prev => ({ ...prev, ticketTypes: [...prev.ticketTypes, createTicketType()] }))}
+                                    className="text-xs font-semibold text-highlight hover:underline"
+                                >
+                                    + Add ticket type
+                                </button>
+                            )}
+                        </div>
+                        {!readOnly && (
+                            <div className="flex justify-end">
+                                <button
+                                    onClick={handleSave}
+                                    disabled={isSaving}
+                                    className="px-4 py-2 rounded-lg bg-highlight text-white hover:opacity-90 transition-opacity text-sm font-semibold disabled:opacity-50"
+                                >
+                                    {isSaving ? 'Saving…' : 'Save Form'}
+                                </button>
+                            </div>
+                        )}
+                    </section>
+
+                    {registration && (
+                        <section className="space-y-3">
+                            <div className="flex justify-between items-center">
+                                <h4 className="font-semibold text-light">Attendees ({attendees.length}, {checkedIn} checked in)</h4>
+                                <button
+                                    onClick={handleExport}
+                                    disabled={attendees.length === 0}
+                                    className="text-sm font-semibold text-highlight hover:underline disabled:opacity-50 disabled:no-underline"
+                                >
+                                    Export CSV
+                                </button>
+                            </div>
+                            <div className="relative">
+                                <SearchIcon className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-text-secondary" />
+                                <input
+                                    type="search"
+                                    value={search}
+                                    onChange={e => setSearch(e.target.value)}
+                                    placeholder="Search by name, email or ticket code, or scan a ticket"
+                                    className={`${inputClass} w-full pl-9`}
+                                />
+                            </div>
+                            {matches.length === 0 ? (
+                                <p className="text-sm text-text-secondary">{attendees.length === 0 ? 'Nobody has registered yet.' : 'No attendees match.'}</p>
+                            ) : (
+                                <ul className="space-y-2">
+                                    {matches.map(attendee => (
+                                        <li key={attendee.id} className="bg-primary rounded-lg border border-accent text-sm">
+                                            <div className="flex items-center justify-between gap-3 p-2 pl-3">
+                                                <button onClick={() => setOpenTicketId(prev => (prev === attendee.id ? null : attendee.id))} className="min-w-0 text-left">
+                                                    <p className="text-light truncate">
+                                                        {attendee.name}
+                                                        <span className="text-text-secondary"> &middot; {draft.ticketTypes.find(t => t.id === attendee.ticketTypeId)?.name ?? 'Removed ticket type'}</span>
+                                                    </p>
+                                                    <p className="text-xs text-text-secondary truncate">{attendee.email} &middot; <span className="font-mono">{attendee.ticketCode}</span></p>
+                                                </button>
+                                                {readOnly ? (
+                                                    attendee.checkedInAt && <span className="px-2 py-1 rounded-full text-xs font-semibold bg-success/20 text-success flex-shrink-0">Checked in</span>
+                                                ) : (
+                                                    <button
+                                                        onClick={() => handleCheckIn(attendee)}
+                                                        className={`px-3 py-1 rounded-full text-xs font-semibold flex-shrink-0 transition-colors ${attendee.checkedInAt ? 'bg-success/20 text-success hover:bg-success/30' : 'bg-accent text-light hover:bg-highlight'}`}
+                                                        title={attendee.checkedInAt ? `Checked in at ${new Date(attendee.checkedInAt).toLocaleTimeString()}; click to undo` : 'Check in'}
+                                                    >
+                                                        {attendee.checkedInAt ? 'Checked in' : 'Check in'}
+                                                    </button>
+                                                )}
+                                            </div>
+                                            {openTicketId === attendee.id && (
+                                                <div className="p-2 pt-0 animate-fadeIn">
+                                                    <TicketCard attendee={attendee} page={draft} />
+                                                </div>
+                                            )}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </section>
+                    )}
+                </div>
+
+                <div className="p-4 border-t border-accent flex justify-end">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 rounded-lg bg-accent text-light hover:bg-accent/80 transition-opacity font-semibold"
+                    >
+                        Close
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,49 @@
+import React, { useMemo } from 'react';
+import { RegistrationStatus } from '../types';
+import { summarizeRegistrations } from '../services/registration';
+import { TicketIcon } from './icons/TicketIcon';
+
+interface RegistrationPanelProps {
+    registration: RegistrationStatus;
+    onManage: () => void;
+}
+
+// Registrations against capacity for each ticket type, as logistics are planned with them.
+export const RegistrationPanel: React.FC<RegistrationPanelProps> = React.memo(({ registration, onManage }) => {
+    const summary = useMemo(() => summarizeRegistrations(registration), [registration]);
+    const percent = (registered: number, capacity: number) => (capacity > 0 ? Math.min(100, Math.round((registered / capacity) * 100)) : 0);
+
+    return (
+        <div className="bg-secondary p-4 md:p-6 rounded-2xl border border-accent/50">
+            <div className="flex justify-between items-center">
+                <div className="flex items-center space-x-3">
+                    <TicketIcon className="w-6 h-6 text-highlight" />
+                    <div>
+                        <h4 className="font-bold text-lg text-light tracking-wide">Registrations</h4>
+                        <p className="text-sm text-text-secondary">
+                            {summary.registered} of {summary.capacity} places taken &middot; {registration.page.isOpen ? 'Open' : 'Closed'}
+                        </p>
+                    </div>
+                </div>
+                <button onClick={onManage} className="text-sm font-semibold text-highlight hover:underline">Manage</button>
+            </div>
+            <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-3">
+                {summary.byTicketType.map(({ ticketType, registered, remaining }) => (
+                    <div key={ticketType.id} className="bg-primary p-3 rounded-lg border border-accent">
+                        <div className="flex justify-between text-sm">
+                            <span className="font-semibold text-light truncate">{ticketType.name}</span>
+                            <span className="text-text-secondary tabular-nums">{registered}/{ticketType.capacity}</span>
+                        </div>
+                        <div className="w-full bg-accent rounded-full h-2 mt-2">
+                            <div
+                                className={`h-2 rounded-full transition-all duration-500 ${remaining === 0 ? 'bg-warning' : 'bg-highlight'}`}
+                                style={{ width: `${percent(registered, ticketType.capacity)}%` }}
+                            />
+                        </div>
+                        {remaining === 0 && <p className="text-xs text-warning mt-1">Sold out</p>}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+});
@@ -0,0 +1,119 @@
+import React, { useMemo, useState } from 'react';
+import { ContentRevision, RevisionKind } from '../types';
+import { diffText } from '../services/textDiff';
+import { RobotIcon } from './icons/RobotIcon';
+import { UserIcon } from './icons/UserIcon';
+import { UndoIcon } from './icons/UndoIcon';
+
+interface RevisionHistoryProps {
+    revisions: ContentRevision[];
+    // The content currently in use, so the matching revision can be marked.
+    currentContent: string | undefined;
+    onRestore: (revisionId: string) => void;
+    canRestore: boolean;
+}
+
+const KIND_LABELS: Record<RevisionKind, string> = {
+    draft: 'AI draft',
+    edit: 'Edited',
+    approval: 'Approved',
+    restore: 'Restored',
+};
+
+const KIND_STYLES: Record<RevisionKind, string> = {
+    draft: 'bg-accent text-light',
+    edit: 'bg-blue-500/20 text-blue-300',
+    approval: 'bg-success/20 text-green-300',
+    restore: 'bg-warning/20 text-yellow-300',
+};
+
+const formatTimestamp = (iso: string) => new Date(iso).toLocaleString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const describeRevision = (revision: ContentRevision, index: number) =>
+    `#${index + 1} ${KIND_LABELS[revision.kind]}${revision.label ? ` (${revision.label})` : ''} · ${revision.author}`;
+
+// Lists every version of a task's content and shows a word diff between any two.
+// By default the latest version is compared with the one before it.
+export const RevisionHistory: React.FC<RevisionHistoryProps> = React.memo(({ revisions, currentContent, onRestore, canRestore }) => {
+    const [fromId, setFromId] = useState(revisions[revisions.length - 2]?.id ?? revisions[0]?.id ?? '');
+    const [toId, setToId] = useState(revisions[revisions.length - 1]?.id ?? '');
+
+    const from = revisions.find(r => r.id === fromId);
+    const to = revisions.find(r => r.id === toId);
+    const segments = useMemo(() => (from && to ? diffText(from.content, to.content) : []), [from, to]);
+
+    if (revisions.length === 0) {
+        return <p className="text-sm text-text-secondary">No revisions recorded for this task yet.</p>;
+    }
+
+    const selectClass = "min-w-0 flex-1 p-2 bg-primary border-2 border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight text-sm text-light";
+
+    return (
+        <div className="space-y-4">
+            <ul className="space-y-2 max-h-56 overflow-y-auto pr-1">
+                {[...revisions].reverse().map(revision => {
+                    const index = revisions.indexOf(revision);
+                    const isCurrent = revision.content === currentContent;
+                    const restoredFrom = revision.restoredFrom ? revisions.findIndex(r => r.id === revision.restoredFrom) : -1;
+                    return (
+                        <li key={revision.id} className={`flex items-center justify-between gap-3 bg-primary p-2 pl-3 rounded-lg border text-sm ${isCurrent ? 'border-highlight' : 'border-accent'}`}>
+                            <div className="flex items-center space-x-3 min-w-0">
+                                {revision.source === 'ai'
+                                    ? <RobotIcon className="w-4 h-4 flex-shrink-0 text-text-secondary" />
+                                    : <UserIcon className="w-4 h-4 flex-shrink-0 text-text-secondary" />}
+                                <div className="min-w-0">
+                                    <p className="text-light truncate">
+                                        <span className={`text-xs font-semibold px-2 py-0.5 rounded-full mr-2 ${KIND_STYLES[revision.kind]}`}>{KIND_LABELS[revision.kind]}</span>
+                                        {revision.author}
+                                        {revision.label && <span className="text-text-secondary"> &middot; {revision.label}</span>}
+                                    </p>
+                                    <p className="text-xs text-text-secondary truncate">
+                                        #{index + 1} &middot; {formatTimestamp(revision.createdAt)}
+                                        {restoredFrom >= 0 && <> &middot; from #{restoredFrom + 1}</>}
+                                        {isCurrent && <span className="text-highlight"> &middot; current</span>}
+                                    </p>
+                                </div>
+                            </div>
+                            {canRestore && !isCurrent && (
+                                <button
+                                    onClick={() => onRestore(revision.id)}
+                                    className="flex items-center space-x-1 flex-shrink-0 text-xs font-semibold text-text-secondary hover:text-white"
+                                    title="Make this version the current result, once approved if it never was"
+                                >
+                                    <UndoIcon className="w-4 h-4" />
+                                    <span>Restore</span>
+                                </button>
+                            )}
+                        </li>
+                    );
+                })}
+            </ul>
+
+            {revisions.length > 1 && (
+                <div className="space-y-2">
+                    <div className="flex flex-col sm:flex-row sm:items-center gap-2 text-sm text-text-secondary">
+                        <span className="flex-shrink-0">Compare</span>
+                        <select value={fromId} onChange={e => setFromId(e.target.value)} className={selectClass} aria-label="Earlier revision">
+                            {revisions.map((revision, index) => <option key={revision.id} value={revision.id}>{describeRevision(revision, index)}</option>)}
+                        </select>
+                        <span className="flex-shrink-0">with</span>
+                        <select value={toId} onChange={e => setToId(e.target.value)} className={selectClass} aria-label="Later revision">
+                            {revisions.map((revision, index) => <option key={revision.id} value={revision.id}>{describeRevision(revision, index)}</option>)}
+                        </select>
+                    </div>
+                    <div className="w-full max-h-64 p-3 bg-primary border border-accent rounded-lg text-light whitespace-pre-wrap font-sans text-sm overflow-y-auto" aria-label="Differences between the revisions">
+                        {from && to && from.content === to.content ? (
+                            <span className="text-text-secondary italic">These revisions are identical.</span>
+                        ) : segments.map((segment, index) => (
+                            segment.type === 'same'
+                                ? <span key={index}>{segment.text}</span>
+                                : segment.type === 'added'
+                                    ? <ins key={index} className="bg-green-500/20 text-green-300 no-underline">{segment.text}</ins>
+                                    : <del key={index} className="bg-red-500/20 text-red-300">{segment.text}</del>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+});
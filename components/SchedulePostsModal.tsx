@@ -0,0 +1,131 @@
+import React, { useMemo, useState } from 'react';
+import { SocialChannel, Task } from '../types';
+import { SOCIAL_CHANNEL_STYLES } from '../constants';
+import {
+    checkChannelPosts,
+    formatPublishTime,
+    fromDateTimeInputValue,
+    getChannelSpec,
+    getDefaultPublishTime,
+    toDateTimeInputValue,
+} from '../services/socialPosts';
+
+interface SchedulePostsModalProps {
+    task: Task;
+    onClose: () => void;
+    onSchedule: (posts: { channel: SocialChannel; text: string; publishAt: string }[]) => void;
+}
+
+interface PostDraft {
+    isSelected: boolean;
+    // The value of the datetime-local input.
+    publishAt: string;
+}
+
+// Turns the approved channel posts of a task into scheduled posts, each with its own
+// publish time. Posts that break their channel's limits cannot be scheduled until the
+// result is edited to fit.
+export const SchedulePostsModal: React.FC<SchedulePostsModalProps> = ({ task, onClose, onSchedule }) => {
+    const checks = useMemo(() => checkChannelPosts(task.approvedContent ?? ''), [task.approvedContent]);
+    const [drafts, setDrafts] = useState<PostDraft[]>(() => {
+        const defaultTime = toDateTimeInputValue(getDefaultPublishTime(new Date()));
+        return checks.map(check => ({
+            // Channels that already have a post of this task start out unselected.
+            isSelected: check.problems.length === 0 && !task.posts?.some(p => p.channel === check.channel && p.status !== 'failed'),
+            publishAt: defaultTime,
+        }));
+    });
+
+    const existingPosts = (channel: SocialChannel) => (task.posts ?? []).filter(p => p.channel === channel);
+    const updateDraft = (index: number, updates: Partial<PostDraft>) =>
+        setDrafts(prev => prev.map((draft, i) => (i === index ? { ...draft, ...updates } : draft)));
+
+    const selected = checks.flatMap((check, index) => {
+        const publishAt = fromDateTimeInputValue(drafts[index].publishAt);
+        return drafts[index].isSelected && check.problems.length === 0 && publishAt
+            ? [{ channel: check.channel, text: check.text, publishAt }]
+            : [];
+    });
+
+    const handleSchedule = () => {
+        if (selected.length === 0) return;
+        onSchedule(selected);
+        onClose();
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4 animate-fadeIn"
+            onClick={onClose}
+        >
+            <div
+                className="bg-secondary rounded-xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col border border-accent transform transition-transform duration-300 scale-95 animate-fadeIn"
+                onClick={e => e.stopPropagation()}
+                style={{animationDuration: '0.3s'}}
+            >
+                <div className="p-4 border-b border-accent flex justify-between items-center">
+                    <h3 className="text-lg font-bold text-highlight">Schedule Posts: {task.title}</h3>
+                    <button onClick={onClose} className="text-text-secondary hover:text-white text-2xl">&times;</button>
+                </div>
+
+                <div className="p-6 overflow-y-auto space-y-4">
+                    <p className="text-sm text-text-secondary">Pick when each approved post goes out. Scheduled posts appear in the Posts view of the task board and are published through the adapter chosen in the Publishing settings on your profile page.</p>
+                    <ul className="space-y-3">
+                        {checks.map((check, index) => {
+                            const spec = getChannelSpec(check.channel);
+                            const canSchedule = check.problems.length === 0;
+                            return (
+                                <li key={index} className={`bg-primary p-3 rounded-lg border ${drafts[index].isSelected ? 'border-highlight' : 'border-accent'} space-y-2`}>
+                                    <div className="flex flex-wrap items-center gap-3">
+                                        <label className={`flex items-center space-x-2 text-sm text-light ${canSchedule ? 'cursor-pointer' : 'opacity-50'}`}>
+                                            <input
+                                                type="checkbox"
+                                                checked={drafts[index].isSelected && canSchedule}
+                                                disabled={!canSchedule}
+                                                onChange={e => updateDraft(index, { isSelected: e.target.checked })}
+                                                className="accent-highlight"
+                                            />
+                                            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${SOCIAL_CHANNEL_STYLES[check.channel]}`}>{spec.label}</span>
+                                        </label>
+                                        <span className="text-xs text-text-secondary">{check.length} / {spec.maxLength} characters</span>
+                                        <input
+                                            type="datetime-local"
+                                            value={drafts[index].publishAt}
+                                            onChange={e => updateDraft(index, { publishAt: e.target.value })}
+                                            disabled={!canSchedule}
+                                            className="ml-auto p-1.5 bg-secondary border-2 border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight text-sm text-light disabled:opacity-50"
+                                            aria-label={`Publish time for ${spec.label}`}
+                                        />
+                                    </div>
+                                    <p className="text-sm text-text-secondary whitespace-pre-wrap line-clamp-4">{check.text}</p>
+                                    {check.problems.map(problem => <p key={problem} className="text-xs text-red-300">{problem}</p>)}
+                                    {existingPosts(check.channel).map(post => (
+                                        <p key={post.id} className="text-xs text-text-secondary">
+                                            Already {post.status === 'published' ? 'published' : post.status === 'failed' ? 'failed' : 'scheduled'} for {formatPublishTime(post.publishAt)}.
+                                        </p>
+                                    ))}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </div>
+
+                <div className="p-4 border-t border-accent flex justify-end space-x-3">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 rounded-lg bg-accent text-light hover:bg-accent/80 transition-opacity font-semibold"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleSchedule}
+                        disabled={selected.length === 0}
+                        className="px-4 py-2 rounded-lg bg-highlight text-white hover:opacity-90 transition-opacity font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Schedule {selected.length} Post{selected.length === 1 ? '' : 's'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,210 @@
+import React, { useMemo, useState } from 'react';
+import { EmailDelivery, Sponsor, Task } from '../types';
+import { findUnresolvedPlaceholders, getTaskRecipients, MailRecipient, parseAddressList, renderEmail } from '../services/mailMerge';
+import { getMailSettings, MAIL_TRANSPORT_OPTIONS } from '../services/mailService';
+
+interface SendEmailModalProps {
+    task: Task;
+    sponsors: Sponsor[];
+    eventName: string;
+    senderName: string;
+    onClose: () => void;
+    // Sends the approved content and resolves with one delivery per recipient.
+    onSend: (recipients: MailRecipient[], subject: string) => Promise<EmailDelivery[]>;
+}
+
+const inputClass = "w-full p-2 bg-primary border-2 border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight text-sm text-light";
+
+const recipientKey = (recipient: MailRecipient) => `${recipient.sponsorId ?? ''}:${recipient.email.toLowerCase()}`;
+
+// Mail-merges a task's approved content and sends it to sponsor contacts or typed-in
+// addresses, then shows how each delivery went.
+export const SendEmailModal: React.FC<SendEmailModalProps> = ({ task, sponsors, eventName, senderName, onClose, onSend }) => {
+    const { recipients: candidates, personalized } = useMemo(() => getTaskRecipients(task, sponsors), [task, sponsors]);
+    const [selected, setSelected] = useState<Set<string>>(() => new Set(candidates
+        .filter(r => personalized || task.sponsorIds?.includes(r.sponsorId ?? ''))
+        .map(recipientKey)));
+    const [otherAddresses, setOtherAddresses] = useState('');
+    const [subject, setSubject] = useState('');
+    const [isSending, setIsSending] = useState(false);
+    const [results, setResults] = useState<EmailDelivery[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const settings = getMailSettings();
+    const transportLabel = MAIL_TRANSPORT_OPTIONS.find(option => option.kind === settings.kind)?.label;
+    const others = parseAddressList(personalized ? '' : otherAddresses);
+    const recipients = [...candidates.filter(r => selected.has(recipientKey(r))), ...others.recipients];
+    const sponsorOf = (recipient: MailRecipient) => sponsors.find(s => s.id === recipient.sponsorId);
+    const renderFor = (recipient: MailRecipient) => renderEmail(task, subject, {
+        recipient,
+        sponsor: sponsorOf(recipient),
+        senderName: settings.fromName || senderName,
+        eventName,
+    });
+    const preview = recipients.length > 0 ? renderFor(recipients[0]) : null;
+    const unresolved = [...new Set(recipients.flatMap(recipient => {
+        const email = renderFor(recipient);
+        return findUnresolvedPlaceholders(`${email.subject}\n${email.text}`);
+    }))];
+    const lastSentTo = (email: string) => [...(task.deliveries ?? [])].reverse()
+        .find(d => d.status === 'sent' && d.email.toLowerCase() === email.toLowerCase());
+
+    const toggle = (recipient: MailRecipient) => {
+        const key = recipientKey(recipient);
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(key)) next.delete(key);
+            else next.add(key);
+            return next;
+        });
+    };
+
+    const handleSend = async () => {
+        if (recipients.length === 0 || others.invalid.length > 0 || isSending) return;
+        setIsSending(true);
+        setError(null);
+        try {
+            setResults(await onSend(recipients, subject));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'The emails could not be sent.');
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    const failedCount = results?.filter(d => d.status === 'failed').length ?? 0;
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4 animate-fadeIn"
+            onClick={onClose}
+        >
+            <div
+                className="bg-secondary rounded-xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col border border-accent transform transition-transform duration-300 scale-95 animate-fadeIn"
+                onClick={e => e.stopPropagation()}
+                style={{animationDuration: '0.3s'}}
+            >
+                <div className="p-4 border-b border-accent flex justify-between items-center">
+                    <h3 className="text-lg font-bold text-highlight">Send by Email: {task.title}</h3>
+                    <button onClick={onClose} className="text-text-secondary hover:text-white text-2xl">&times;</button>
+                </div>
+
+                <div className="p-6 overflow-y-auto space-y-5">
+                    {results ? (
+                        <div className="space-y-3">
+                            <p className={`text-sm font-semibold ${failedCount > 0 ? 'text-red-300' : 'text-success'}`}>
+                                {failedCount > 0
+                                    ? `${results.length - failedCount} of ${results.length} email(s) sent. ${failedCount} failed.`
+                                    : `${results.length} email(s) sent via ${results[0]?.transport}.`}
+                            </p>
+                            <ul className="space-y-1.5 text-sm">
+                                {results.map(delivery => (
+                                    <li key={delivery.id} className={`border-l-4 pl-2 ${delivery.status === 'sent' ? 'border-success' : 'border-danger'}`}>
+                                        <span className="text-light">{delivery.recipientName}</span> <span className="text-text-secondary">&lt;{delivery.email}&gt;</span>
+                                        {delivery.error && <p className="text-xs text-red-300">{delivery.error}</p>}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    ) : (
+                        <>
+                            <p className="text-sm text-text-secondary">
+                                Each recipient gets the approved content with placeholders such as [Sponsor Name] filled in{personalized && ', using the draft written to their company'}. Emails go through the {transportLabel}, which you can change in the Email settings on your profile page.
+                            </p>
+
+                            <div className="space-y-2">
+                                <h4 className="text-sm font-semibold text-text-secondary">Sponsor Contacts</h4>
+                                {candidates.length === 0 ? (
+                                    <p className="text-sm text-text-secondary italic">No sponsor contacts have an email address yet.</p>
+                                ) : (
+                                    <div className="space-y-1 max-h-48 overflow-y-auto pr-1">
+                                        {candidates.map(recipient => {
+                                            const previous = lastSentTo(recipient.email);
+                                            return (
+                                                <label key={recipientKey(recipient)} className="flex items-center space-x-2 text-sm text-light cursor-pointer">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={selected.has(recipientKey(recipient))}
+                                                        onChange={() => toggle(recipient)}
+                                                        className="accent-highlight"
+                                                    />
+                                                    <span>{recipient.name}</span>
+                                                    <span className="text-xs text-text-secondary truncate">
+                                                        &lt;{recipient.email}&gt; &middot; {sponsorOf(recipient)?.company}
+                                                        {previous && ` · sent ${new Date(previous.sentAt).toLocaleDateString()}`}
+                                                    </span>
+                                                </label>
+                                            );
+                                        })}
+                                    </div>
+                                )}
+                            </div>
+
+                            {!personalized && (
+                                <div>
+                                    <label htmlFor="otherAddresses" className="text-sm font-semibold text-text-secondary mb-2 block">Other Recipients</label>
+                                    <textarea
+                                        id="otherAddresses"
+                                        value={otherAddresses}
+                                        onChange={e => setOtherAddresses(e.target.value)}
+                                        placeholder="Name <name@example.com>, one per line or separated by commas"
+                                        rows={2}
+                                        className={inputClass}
+                                    />
+                                    {others.invalid.length > 0 && (
+                                        <p className="text-xs text-red-300 mt-1">Not valid email addresses: {others.invalid.join(', ')}</p>
+                                    )}
+                                </div>
+                            )}
+
+                            <div>
+                                <label htmlFor="emailSubject" className="text-sm font-semibold text-text-secondary mb-2 block">Subject</label>
+                                <input
+                                    id="emailSubject"
+                                    type="text"
+                                    value={subject}
+                                    onChange={e => setSubject(e.target.value)}
+                                    placeholder="The draft's own subject line, or the task title"
+                                    className={inputClass}
+                                />
+                            </div>
+
+                            {preview && (
+                                <div className="space-y-2">
+                                    <h4 className="text-sm font-semibold text-text-secondary">Preview for {recipients[0].name}</h4>
+                                    <div className="bg-primary border border-accent rounded-lg p-3 text-sm max-h-60 overflow-y-auto">
+                                        <p className="text-light font-semibold mb-2">{preview.subject}</p>
+                                        <p className="text-light whitespace-pre-wrap">{preview.text}</p>
+                                    </div>
+                                    {unresolved.length > 0 && (
+                                        <p className="text-xs text-warning">Some emails still contain placeholders that could not be filled in: {unresolved.join(', ')}</p>
+                                    )}
+                                </div>
+                            )}
+
+                            {error && <p className="text-sm text-red-300">{error}</p>}
+                        </>
+                    )}
+                </div>
+
+                <div className="p-4 border-t border-accent flex justify-end space-x-3">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 rounded-lg bg-accent text-light hover:bg-accent/80 transition-opacity font-semibold"
+                    >
+                        {results ? 'Close' : 'Cancel'}
+                    </button>
+                    {!results && (
+                        <button
+                            onClick={handleSend}
+                            disabled={recipients.length === 0 || others.invalid.length > 0 || isSending}
+                            className="px-4 py-2 rounded-lg bg-highlight text-white hover:opacity-90 transition-opacity font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {isSending ? 'Sending...' : `Send to ${recipients.length}`}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
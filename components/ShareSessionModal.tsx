@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { SessionAccess, SessionInvite, SessionMember, SessionRole, TeamMember } from '../types';
+import { SESSION_ROLE_DETAILS, SESSION_ROLES } from '../constants';
+import { inviteToSession, linkSessionMemberToTeam, removeSessionMember, revokeSessionInvite, updateSessionMemberRole } from '../services/firestoreService';
+import { TrashIcon } from './icons/TrashIcon';
+import { UserIcon } from './icons/UserIcon';
+
+interface ShareSessionModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    sessionId: string;
+    access: SessionAccess;
+    currentUserUid: string;
+    // Members sign off approvals as the team member the owner links them to.
+    team: TeamMember[];
+}
+
+type AssignableRole = Exclude<SessionRole, 'owner'>;
+
+const ASSIGNABLE_ROLES = SESSION_ROLES.filter((role): role is AssignableRole => role !== 'owner');
+
+const RoleSelect: React.FC<{ value: AssignableRole; onChange: (role: AssignableRole) => void; disabled?: boolean; id?: string }> = ({ value, onChange, disabled, id }) => (
+    <select
+        id={id}
+        value={value}
+        disabled={disabled}
+        onChange={e => onChange(e.target.value as AssignableRole)}
+        className="p-2 bg-primary border-2 border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight text-sm text-light disabled:opacity-50"
+    >
+        {ASSIGNABLE_ROLES.map(role => (
+            <option key={role} value={role}>{SESSION_ROLE_DETAILS[role].label}</option>
+        ))}
+    </select>
+);
+
+// Lists who has access to the open plan. Owners can invite organizers by email,
+// change their roles, link them to the team and remove them; everyone else sees
+// the list read-only.
+// Changes show up through the live session subscription, so no local copy is kept.
+export const ShareSessionModal: React.FC<ShareSessionModalProps> = ({ isOpen, onClose, sessionId, access, currentUserUid, team }) => {
+    const [inviteEmail, setInviteEmail] = useState('');
+    const [inviteRole, setInviteRole] = useState<AssignableRole>('editor');
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    if (!isOpen) return null;
+
+    const canManage = access.members[currentUserUid]?.role === 'owner';
+    const members = Object.values<SessionMember>(access.members).sort((a, b) =>
+        SESSION_ROLES.indexOf(a.role) - SESSION_ROLES.indexOf(b.role) || (a.displayName ?? '').localeCompare(b.displayName ?? ''));
+    const invites = Object.values<SessionInvite>(access.invites).sort((a, b) => a.email.localeCompare(b.email));
+    // A team member's sign-offs can only be given by one member.
+    const linkedTeamMemberIds = new Set(members.map(m => m.teamMemberId).filter(Boolean));
+    const linkedName = (member: SessionMember) => team.find(m => m.id === member.teamMemberId)?.name;
+
+    const runAction = async (action: () => Promise<void>) => {
+        setIsBusy(true);
+        setError(null);
+        try {
+            await action();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'An unknown error occurred.');
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleInvite = (e: React.FormEvent) => {
+        e.preventDefault();
+        const email = inviteEmail.trim().toLowerCase();
+        if (Object.values<SessionMember>(access.members).some(m => m.email?.toLowerCase() === email)) {
+            setError(`${email} is already a member of this plan.`);
+            return;
+        }
+        runAction(async () => {
+            await inviteToSession(sessionId, email, inviteRole, currentUserUid);
+            setInviteEmail('');
+        });
+    };
+
+    const renderMember = (member: SessionMember) => (
+        <li key={member.uid} className="flex items-center justify-between bg-primary p-3 rounded-lg border border-accent">
+            <div className="flex items-center space-x-3 min-w-0">
+                {member.photoURL
+                    ? <img src={member.photoURL} alt="" className="w-8 h-8 rounded-full flex-shrink-0" />
+                    : <UserIcon className="w-8 h-8 p-1.5 rounded-full bg-accent text-text-secondary flex-shrink-0" />}
+                <div className="min-w-0">
+                    <p className="text-sm font-semibold text-light truncate">
+                        {member.displayName || member.email || 'Unknown organizer'}
+                        {member.uid === currentUserUid && <span className="text-text-secondary font-normal"> (you)</span>}
+                    </p>
+                    {member.email && <p className="text-xs text-text-secondary truncate">{member.email}</p>}
+                    {canManage && team.length > 0 ? (
+                        <select
+                            value={member.teamMemberId ?? ''}
+                            disabled={isBusy}
+                            onChange={e => runAction(() => linkSessionMemberToTeam(sessionId, member.uid, e.target.value || null))}
+                            className="mt-1 p-1 bg-primary border border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight text-xs text-light disabled:opacity-50"
+                            aria-label="Team member they sign off approvals as"
+                        >
+                            <option value="">Not linked to the team</option>
+                            {team.filter(m => m.id === member.teamMemberId || !linkedTeamMemberIds.has(m.id)).map(m => (
+                                <option key={m.id} value={m.id}>Signs off as {m.name}</option>
+                            ))}
+                        </select>
+                    ) : linkedName(member) && (
+                        <p className="text-xs text-text-secondary truncate">Signs off as {linkedName(member)}</p>
+                    )}
+                </div>
+            </div>
+            <div className="flex items-center space-x-2 flex-shrink-0 ml-3">
+                {member.role === 'owner' || !canManage ? (
+                    <span className="text-sm text-text-secondary">{SESSION_ROLE_DETAILS[member.role].label}</span>
+                ) : (
+                    <>
+                        <RoleSelect
+                            value={member.role}
+                            disabled={isBusy}
+                            onChange={role => runAction(() => updateSessionMemberRole(sessionId, member.uid, role))}
+                        />
+                        <button
+                            onClick={() => runAction(() => removeSessionMember(sessionId, member.uid))}
+                            disabled={isBusy}
+                            className="p-2 rounded-lg text-text-secondary hover:bg-danger hover:text-white transition-colors disabled:opacity-50"
+                            title="Remove from plan"
+                        >
+                            <TrashIcon className="w-4 h-4" />
+                        </button>
+                    </>
+                )}
+            </div>
+        </li>
+    );
+
+    const renderInvite = (invite: SessionInvite) => (
+        <li key={invite.email} className="flex items-center justify-between bg-primary p-3 rounded-lg border border-dashed border-accent">
+            <div className="min-w-0">
+                <p className="text-sm text-light truncate">{invite.email}</p>
+                <p className="text-xs text-text-secondary">Invited as {SESSION_ROLE_DETAILS[invite.role].label}</p>
+            </div>
+            {canManage && (
+                <button
+                    onClick={() => runAction(() => revokeSessionInvite(sessionId, invite.email))}
+                    disabled={isBusy}
+                    className="text-sm font-semibold text-red-400 hover:text-red-300 disabled:opacity-50 flex-shrink-0 ml-3"
+                >
+                    Revoke
+                </button>
+            )}
+        </li>
+    );
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4 animate-fadeIn"
+            onClick={onClose}
+        >
+            <div
+                className="bg-secondary rounded-xl shadow-2xl w-full max-w-xl max-h-[80vh] flex flex-col border border-accent transform transition-transform duration-300 scale-95 animate-fadeIn"
+                onClick={e => e.stopPropagation()}
+                style={{animationDuration: '0.3s'}}
+            >
+                <div className="p-4 border-b border-accent flex justify-between items-center">
+                    <h3 className="text-lg font-bold text-highlight">Share Plan</h3>
+                    <button onClick={onClose} className="text-text-secondary hover:text-white text-2xl">&times;</button>
+                </div>
+
+                <div className="p-6 overflow-y-auto space-y-6">
+                    {canManage && (
+                        <form onSubmit={handleInvite} className="space-y-2">
+                            <label htmlFor="inviteEmail" className="text-sm font-semibold text-text-secondary block">Invite an organizer</label>
+                            <div className="flex items-center space-x-2">
+                                <input
+                                    id="inviteEmail"
+                                    type="email"
+                                    required
+                                    value={inviteEmail}
+                                    onChange={e => setInviteEmail(e.target.value)}
+                                    placeholder="name@college.edu"
+                                    className="flex-grow min-w-0 p-2 bg-primary border-2 border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight text-sm text-light"
+                                />
+                                <RoleSelect value={inviteRole} onChange={setInviteRole} disabled={isBusy} />
+                                <button
+                                    type="submit"
+                                    disabled={isBusy || !inviteEmail.trim()}
+                                    className="px-4 py-2 rounded-lg bg-highlight text-white hover:opacity-90 transition-opacity text-sm font-semibold disabled:opacity-50"
+                                >
+                                    Invite
+                                </button>
+                            </div>
+                            <p className="text-xs text-text-secondary">{SESSION_ROLE_DETAILS[inviteRole].description} They'll find the plan under Load Plan after signing in with this email. Once they have joined, link them to their place on the team so they can sign off approvals.</p>
+                        </form>
+                    )}
+
+                    {error && <div className="bg-danger/20 border border-danger text-red-300 p-3 rounded-lg text-sm">{error}</div>}
+
+                    <div>
+                        <h4 className="text-sm font-semibold text-text-secondary mb-2">Members</h4>
+                        <ul className="space-y-2">{members.map(renderMember)}</ul>
+                    </div>
+
+                    {invites.length > 0 && (
+                        <div>
+                            <h4 className="text-sm font-semibold text-text-secondary mb-2">Pending Invites</h4>
+                            <ul className="space-y-2">{invites.map(renderInvite)}</ul>
+                        </div>
+                    )}
+                </div>
+
+                <div className="p-4 border-t border-accent text-right">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 rounded-lg bg-accent text-light hover:bg-accent/80 transition-opacity font-semibold"
+                    >
+                        Done
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
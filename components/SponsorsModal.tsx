@@ -0,0 +1,260 @@
+import React, { useMemo, useState } from 'react';
+import { Sponsor, SponsorContact, SponsorStage, Task } from '../types';
+import { SPONSOR_STAGES, SPONSOR_STAGE_STYLES, BUDGET_CURRENCY } from '../constants';
+import { formatCurrency } from '../services/budget';
+import { extractSponsorTiers, summarizeSponsors } from '../services/sponsors';
+import { PencilIcon } from './icons/PencilIcon';
+import { TrashIcon } from './icons/TrashIcon';
+
+interface SponsorsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    sponsors: Sponsor[];
+    tasks: Task[];
+    onSave: (sponsors: Sponsor[]) => void;
+    readOnly?: boolean;
+}
+
+const inputClass = "p-2 bg-primary border-2 border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight text-sm text-light";
+
+const EMPTY_CONTACT: SponsorContact = { name: '', email: '', role: '' };
+
+const EMPTY_FORM = { company: '', tier: '', stage: SponsorStage.IDENTIFIED, amount: '', notes: '', contacts: [EMPTY_CONTACT] };
+
+// Tracks the companies being asked for sponsorship and where each one stands. Changes
+// are kept in a draft until saved; removing a sponsor stops tasks from writing to it.
+export const SponsorsModal: React.FC<SponsorsModalProps> = ({ isOpen, onClose, sponsors, tasks, onSave, readOnly = false }) => {
+    const [draft, setDraft] = useState<Sponsor[]>(sponsors);
+    const [form, setForm] = useState(EMPTY_FORM);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    // Tiers come from the approved output of the plan's sponsorship tiers task.
+    const tiers = useMemo(() => extractSponsorTiers(tasks), [tasks]);
+    const summary = useMemo(() => summarizeSponsors(draft), [draft]);
+    const sortedDraft = useMemo(() => [...draft].sort((a, b) => SPONSOR_STAGES.indexOf(a.stage) - SPONSOR_STAGES.indexOf(b.stage)), [draft]);
+
+    if (!isOpen) return null;
+
+    const resetForm = () => {
+        setForm(EMPTY_FORM);
+        setEditingId(null);
+    };
+
+    const handleContactChange = (index: number, field: keyof SponsorContact, value: string) => {
+        setForm(prev => ({ ...prev, contacts: prev.contacts.map((c, i) => (i === index ? { ...c, [field]: value } : c)) }));
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const company = form.company.trim();
+        if (!company) return;
+        if (draft.some(s => s.id !== editingId && s.company.toLowerCase() === company.toLowerCase())) {
+            setError(`${company} is already on the list.`);
+            return;
+        }
+        const amount = form.amount.trim() ? Number(form.amount) : undefined;
+        if (amount !== undefined && (!Number.isFinite(amount) || amount < 0)) {
+            setError('The amount must be a positive number.');
+            return;
+        }
+        setError(null);
+        const sponsor: Sponsor = {
+            id: editingId ?? `sponsor-${Date.now()}`,
+            company,
+            contacts: form.contacts
+                .map(c => ({ name: c.name.trim(), email: c.email.trim().toLowerCase(), role: c.role.trim() }))
+                .filter(c => c.name),
+            tier: form.tier.trim(),
+            stage: form.stage,
+            amount: amount !== undefined ? Math.round(amount) : undefined,
+            notes: form.notes.trim(),
+        };
+        setDraft(prev => editingId
+            ? prev.map(s => s.id === editingId ? sponsor : s)
+            : [...prev, sponsor]);
+        resetForm();
+    };
+
+    const startEditing = (sponsor: Sponsor) => {
+        setForm({
+            company: sponsor.company,
+            tier: sponsor.tier,
+            stage: sponsor.stage,
+            amount: sponsor.amount !== undefined ? String(sponsor.amount) : '',
+            notes: sponsor.notes,
+            contacts: sponsor.contacts.length > 0 ? sponsor.contacts : [EMPTY_CONTACT],
+        });
+        setEditingId(sponsor.id);
+        setError(null);
+    };
+
+    const handleRemove = (sponsorId: string) => {
+        setDraft(prev => prev.filter(s => s.id !== sponsorId));
+        if (editingId === sponsorId) resetForm();
+    };
+
+    const handleStageChange = (sponsorId: string, stage: SponsorStage) => {
+        setDraft(prev => prev.map(s => (s.id === sponsorId ? { ...s, stage } : s)));
+    };
+
+    const handleSave = () => {
+        onSave(draft);
+        onClose();
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4 animate-fadeIn"
+            onClick={onClose}
+        >
+            <div
+                className="bg-secondary rounded-xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col border border-accent transform transition-transform duration-300 scale-95 animate-fadeIn"
+                onClick={e => e.stopPropagation()}
+                style={{animationDuration: '0.3s'}}
+            >
+                <div className="p-4 border-b border-accent flex justify-between items-center">
+                    <h3 className="text-lg font-bold text-highlight">Sponsors</h3>
+                    <button onClick={onClose} className="text-text-secondary hover:text-white text-2xl">&times;</button>
+                </div>
+
+                <div className="p-6 overflow-y-auto space-y-6">
+                    <p className="text-sm text-text-secondary">The companies you are asking for sponsorship. Content tasks can be set to write a personalized draft to each sponsor in their task details.</p>
+
+                    <div className="space-y-2">
+                        <div className="flex flex-wrap gap-2">
+                            {SPONSOR_STAGES.map(stage => (
+                                <span key={stage} className={`px-2 py-1 rounded-full text-xs font-semibold ${SPONSOR_STAGE_STYLES[stage]}`}>
+                                    {stage}: {summary.count[stage]}
+                                </span>
+                            ))}
+                        </div>
+                        <p className="text-xs text-text-secondary">
+                            {formatCurrency(summary.committed)} committed, of which {formatCurrency(summary.paid)} paid &middot; {formatCurrency(summary.inPipeline)} still in the pipeline
+                        </p>
+                    </div>
+
+                    {error && <div className="bg-danger/20 border border-danger text-red-300 p-3 rounded-lg text-sm">{error}</div>}
+
+                    {!readOnly && (
+                        <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                            <input type="text" required value={form.company} onChange={e => setForm(prev => ({ ...prev, company: e.target.value }))} placeholder="Company" className={inputClass} />
+                            <input type="text" list="sponsor-tiers" value={form.tier} onChange={e => setForm(prev => ({ ...prev, tier: e.target.value }))} placeholder={tiers.length > 0 ? `Tier, e.g. ${tiers[0]}` : 'Tier'} className={inputClass} />
+                            <datalist id="sponsor-tiers">
+                                {tiers.map(tier => <option key={tier} value={tier} />)}
+                            </datalist>
+                            <select value={form.stage} onChange={e => setForm(prev => ({ ...prev, stage: e.target.value as SponsorStage }))} className={inputClass} aria-label="Stage">
+                                {SPONSOR_STAGES.map(stage => <option key={stage} value={stage}>{stage}</option>)}
+                            </select>
+                            <input type="number" min="0" value={form.amount} onChange={e => setForm(prev => ({ ...prev, amount: e.target.value }))} placeholder={`Amount (${BUDGET_CURRENCY})`} className={inputClass} />
+                            <div className="sm:col-span-2 space-y-2">
+                                {form.contacts.map((contact, index) => (
+                                    <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2">
+                                        <input type="text" value={contact.name} onChange={e => handleContactChange(index, 'name', e.target.value)} placeholder={index === 0 ? 'Main contact' : 'Contact name'} className={inputClass} />
+                                        <input type="email" value={contact.email} onChange={e => handleContactChange(index, 'email', e.target.value)} placeholder="Email" className={inputClass} />
+                                        <input type="text" value={contact.role} onChange={e => handleContactChange(index, 'role', e.target.value)} placeholder="Role" className={inputClass} />
+                                        <button
+                                            type="button"
+                                            onClick={() => setForm(prev => ({ ...prev, contacts: prev.contacts.length > 1 ? prev.contacts.filter((_, i) => i !== index) : [EMPTY_CONTACT] }))}
+                                            className="p-1.5 rounded-lg text-text-secondary hover:bg-danger hover:text-white transition-colors"
+                                            title="Remove contact"
+                                        >
+                                            <TrashIcon className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                ))}
+                                <button
+                                    type="button"
+                                    onClick={() => setForm(prev => ({ ...prev, contacts: [...prev.contacts, EMPTY_CONTACT] }))}
+                                    className="text-xs font-semibold text-highlight hover:underline"
+                                >
+                                    + Add contact
+                                </button>
+                            </div>
+                            <textarea value={form.notes} onChange={e => setForm(prev => ({ ...prev, notes: e.target.value }))} placeholder="Notes, e.g. sponsored the robotics track last year" rows={2} className={`${inputClass} sm:col-span-2`} />
+                            <div className="sm:col-span-2 flex justify-end space-x-2">
+                                {editingId && (
+                                    <button type="button" onClick={resetForm} className="px-4 py-2 text-sm font-semibold text-text-secondary hover:text-white">Cancel</button>
+                                )}
+                                <button type="submit" className="px-4 py-2 rounded-lg bg-accent text-light hover:bg-accent/80 transition-opacity text-sm font-semibold">
+                                    {editingId ? 'Update Sponsor' : 'Add Sponsor'}
+                                </button>
+                            </div>
+                        </form>
+                    )}
+
+                    {sortedDraft.length === 0 ? (
+                        <p className="text-sm text-text-secondary">No sponsors added.</p>
+                    ) : (
+                        <ul className="space-y-2">
+                            {sortedDraft.map(sponsor => {
+                                const contact = sponsor.contacts[0];
+                                return (
+                                    <li key={sponsor.id} className={`flex items-center justify-between gap-3 bg-primary p-2 pl-3 rounded-lg border text-sm ${editingId === sponsor.id ? 'border-highlight' : 'border-accent'}`}>
+                                        <div className="min-w-0">
+                                            <p className="text-light truncate">
+                                                {sponsor.company}
+                                                {sponsor.tier && <span className="text-text-secondary"> &middot; {sponsor.tier}</span>}
+                                                {sponsor.amount !== undefined && <span className="text-text-secondary"> &middot; {formatCurrency(sponsor.amount)}</span>}
+                                            </p>
+                                            <p className="text-xs text-text-secondary truncate">
+                                                {[contact && [contact.name, contact.role, contact.email].filter(Boolean).join(', '), sponsor.contacts.length > 1 && `+${sponsor.contacts.length - 1} more`, sponsor.notes].filter(Boolean).join(' · ')}
+                                            </p>
+                                        </div>
+                                        <div className="flex items-center flex-shrink-0 space-x-1">
+                                            {readOnly ? (
+                                                <span className={`px-2 py-1 rounded-full text-xs font-semibold ${SPONSOR_STAGE_STYLES[sponsor.stage]}`}>{sponsor.stage}</span>
+                                            ) : (
+                                                <>
+                                                    <select
+                                                        value={sponsor.stage}
+                                                        onChange={e => handleStageChange(sponsor.id, e.target.value as SponsorStage)}
+                                                        className={`px-2 py-1 rounded-full text-xs font-semibold border-none focus:outline-none focus:ring-2 focus:ring-highlight ${SPONSOR_STAGE_STYLES[sponsor.stage]}`}
+                                                        aria-label={`Stage of ${sponsor.company}`}
+                                                    >
+                                                        {SPONSOR_STAGES.map(stage => <option key={stage} value={stage} className="bg-primary text-light">{stage}</option>)}
+                                                    </select>
+                                                    <button
+                                                        onClick={() => startEditing(sponsor)}
+                                                        className="p-1.5 rounded-lg text-text-secondary hover:bg-accent hover:text-white transition-colors"
+                                                        title="Edit sponsor"
+                                                    >
+                                                        <PencilIcon className="w-4 h-4" />
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleRemove(sponsor.id)}
+                                                        className="p-1.5 rounded-lg text-text-secondary hover:bg-danger hover:text-white transition-colors"
+                                                        title="Remove sponsor"
+                                                    >
+                                                        <TrashIcon className="w-4 h-4" />
+                                                    </button>
+                                                </>
+                                            )}
+                                        </div>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+                </div>
+
+                <div className="p-4 border-t border-accent flex justify-end space-x-3">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 rounded-lg bg-accent text-light hover:bg-accent/80 transition-opacity font-semibold"
+                    >
+                        {readOnly ? 'Close' : 'Cancel'}
+                    </button>
+                    {!readOnly && (
+                        <button
+                            onClick={handleSave}
+                            className="px-4 py-2 rounded-lg bg-highlight text-white hover:opacity-90 transition-opacity font-semibold"
+                        >
+                            Save Sponsors
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
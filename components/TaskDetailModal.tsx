@@ -1,20 +1,40 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { Task, AgentName, TaskStatus, FileAttachment } from '../types';
-import { AGENT_DETAILS, MAX_TASK_RETRIES, TASK_STATUS_STYLES, AGENT_NAMES } from '../constants';
+import { Task, AgentName, TaskStatus, FileAttachment, CostCategory, TeamMember, Sponsor, AgentDefinition, Approval, SocialChannel, VisualAssetKind } from '../types';
+import { MAX_TASK_RETRIES, SOCIAL_CHANNELS, TASK_STATUS_STYLES, VISUAL_TEMPLATES } from '../constants';
+import { findAgent, getAgentDisplay, isContentGenerationAgent } from '../services/agentRegistry';
+import { describeApprovalPolicy, getApprovalPolicy } from '../services/approvalPolicy';
+import { ApprovalPolicyEditor } from './ApprovalPolicyEditor';
 import { CheckCircleIcon } from './icons/CheckCircleIcon';
 import { ClockIcon } from './icons/ClockIcon';
 import { PaperclipIcon } from './icons/PaperclipIcon';
 import { TrashIcon } from './icons/TrashIcon';
 import { FileIcon } from './icons/FileIcon';
 import { PencilIcon } from './icons/PencilIcon';
+import { UserIcon } from './icons/UserIcon';
 import { useAuth } from '../context/AuthContext';
 import { deleteFileFromStorage } from '../services/firebase';
+import { formatCurrency, summarizeBudget } from '../services/budget';
+import { MentionCandidate, getTaskComments } from '../services/comments';
+import { CommentThread } from './CommentThread';
+import { getChannelSpec, getTaskChannels } from '../services/socialPosts';
+import { getTaskVisuals, getVisualTemplate } from '../services/visualAssets';
 
 interface TaskDetailModalProps {
     task: Task;
     allTasks: Task[];
+    // Comments on the task's draft awaiting approval are shown with its own.
+    approvals: Approval[];
+    team: TeamMember[];
+    // Content tasks can write a personalized draft to each of these.
+    sponsors: Sponsor[];
+    agents: AgentDefinition[];
     onClose: () => void;
     onTaskUpdate: (taskId: string, updates: Partial<Task>) => void;
+    onAddComment: (taskId: string, body: string, mentions: string[], replyTo?: string) => void;
+    mentionCandidates: MentionCandidate[];
+    canComment: boolean;
+    // Hides editing and attachment controls for members who cannot change the plan.
+    readOnly?: boolean;
 }
 
 const formatBytes = (bytes: number, decimals = 2): string => {
@@ -26,7 +46,7 @@ const formatBytes = (bytes: number, decimals = 2): string => {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
 };
 
-export const TaskDetailModal: React.FC<TaskDetailModalProps> = React.memo(({ task, allTasks, onClose, onTaskUpdate }) => {
+export const TaskDetailModal: React.FC<TaskDetailModalProps> = React.memo(({ task, allTasks, approvals, team, sponsors, agents, onClose, onTaskUpdate, onAddComment, mentionCandidates, canComment, readOnly = false }) => {
     const { uploadTaskAttachment } = useAuth();
     const [isEditing, setIsEditing] = useState(false);
     const [editedTask, setEditedTask] = useState<Task>(task);
@@ -40,18 +60,32 @@ export const TaskDetailModal: React.FC<TaskDetailModalProps> = React.memo(({ tas
         }
     }, [task]);
 
-    const agentDetail = AGENT_DETAILS[editedTask.assignedTo];
+    const agentDetail = getAgentDisplay(agents, editedTask.assignedTo);
     const isRetrying = editedTask.status === TaskStatus.IN_PROGRESS && (editedTask.retries || 0) > 0;
     const statusStyle = isRetrying ? TASK_STATUS_STYLES['Retrying'] : TASK_STATUS_STYLES[editedTask.status];
     const StatusIcon = statusStyle.icon;
     const AgentIcon = agentDetail.icon;
     const parentTask = editedTask.parentId ? allTasks.find(t => t.id === editedTask.parentId) : null;
     const subTasks = allTasks.filter(t => t.parentId === editedTask.id);
+    const assignee = editedTask.assigneeId ? team.find(m => m.id === editedTask.assigneeId) : undefined;
+    const generatesContent = isContentGenerationAgent(agents, editedTask.assignedTo);
+    const agentPolicy = findAgent(agents, editedTask.assignedTo)?.approvalPolicy;
+    const effectivePolicy = getApprovalPolicy(editedTask, agents, team);
+    const targetSponsors = sponsors.filter(s => editedTask.sponsorIds?.includes(s.id));
+    const channels = getTaskChannels(editedTask, findAgent(agents, editedTask.assignedTo));
+    const writesPosts = findAgent(agents, editedTask.assignedTo)?.outputFormat === 'social-post';
+    const visuals = getTaskVisuals(editedTask, findAgent(agents, editedTask.assignedTo));
+    const comments = useMemo(() => getTaskComments(task, approvals), [task, approvals]);
 
     const handleFieldChange = (field: keyof Task, value: any) => {
         setEditedTask(prev => ({ ...prev, [field]: value }));
     };
 
+    const handleAmountChange = (field: 'estimatedCost' | 'actualCost' | 'committedAmount', value: string) => {
+        const amount = parseFloat(value);
+        handleFieldChange(field, value === '' || isNaN(amount) ? undefined : Math.max(0, amount));
+    };
+
     const handleDependencyChange = (depId: string) => {
         const currentDeps = editedTask.dependsOn || [];
         const newDeps = currentDeps.includes(depId)
@@ -60,11 +94,37 @@ export const TaskDetailModal: React.FC<TaskDetailModalProps> = React.memo(({ tas
         handleFieldChange('dependsOn', newDeps);
     };
 
+    const handleSponsorToggle = (sponsorId: string) => {
+        const current = editedTask.sponsorIds || [];
+        const next = current.includes(sponsorId) ? current.filter(id => id !== sponsorId) : [...current, sponsorId];
+        handleFieldChange('sponsorIds', next.length > 0 ? next : undefined);
+    };
+
+    const handleChannelToggle = (channel: SocialChannel) => {
+        const next = channels.includes(channel) ? channels.filter(c => c !== channel) : [...channels, channel];
+        // Every channel, in the usual order, is the default.
+        handleFieldChange('channels', next.length === SOCIAL_CHANNELS.length ? undefined : SOCIAL_CHANNELS.map(spec => spec.id).filter(id => next.includes(id)));
+    };
+
+    const handleVisualToggle = (kind: VisualAssetKind) => {
+        const next = visuals.includes(kind) ? visuals.filter(v => v !== kind) : [...visuals, kind];
+        handleFieldChange('visuals', next.length > 0 ? VISUAL_TEMPLATES.map(t => t.kind).filter(k => next.includes(k)) : undefined);
+    };
+
     const handleSave = () => {
         const updates: Partial<Task> = {};
         if (task.title !== editedTask.title) updates.title = editedTask.title;
         if (task.description !== editedTask.description) updates.description = editedTask.description;
         if (task.assignedTo !== editedTask.assignedTo) updates.assignedTo = editedTask.assignedTo;
+        if (task.assigneeId !== editedTask.assigneeId) updates.assigneeId = editedTask.assigneeId;
+        if (task.estimatedCost !== editedTask.estimatedCost) updates.estimatedCost = editedTask.estimatedCost;
+        if (task.actualCost !== editedTask.actualCost) updates.actualCost = editedTask.actualCost;
+        if (task.costCategory !== editedTask.costCategory) updates.costCategory = editedTask.costCategory;
+        if (task.committedAmount !== editedTask.committedAmount) updates.committedAmount = editedTask.committedAmount;
+        if (JSON.stringify(task.approvalPolicy) !== JSON.stringify(editedTask.approvalPolicy)) updates.approvalPolicy = editedTask.approvalPolicy;
+        if (JSON.stringify(task.sponsorIds) !== JSON.stringify(editedTask.sponsorIds)) updates.sponsorIds = editedTask.sponsorIds;
+        if (JSON.stringify(task.channels) !== JSON.stringify(editedTask.channels)) updates.channels = editedTask.channels;
+        if (JSON.stringify(task.visuals) !== JSON.stringify(editedTask.visuals)) updates.visuals = editedTask.visuals;
 
         const originalDeps = new Set(task.dependsOn || []);
         const editedDeps = new Set(editedTask.dependsOn || []);
@@ -97,6 +157,12 @@ export const TaskDetailModal: React.FC<TaskDetailModalProps> = React.memo(({ tas
     
     const taskDescendants = useMemo(() => getDescendantIds(task.id, allTasks), [task.id, allTasks]);
 
+    // Parent tasks carry no costs of their own; show the totals of their sub-tasks instead.
+    const subTaskBudget = useMemo(
+        () => subTasks.length > 0 ? summarizeBudget(allTasks.filter(t => taskDescendants.has(t.id))) : null,
+        [subTasks.length, allTasks, taskDescendants]
+    );
+
     const circularDependencyCandidates = useMemo(() => {
         const descendants = new Set<string>();
         const queue: string[] = [task.id];
@@ -230,7 +296,7 @@ export const TaskDetailModal: React.FC<TaskDetailModalProps> = React.memo(({ tas
                         <h3 className="text-lg font-bold text-highlight truncate pr-4">{editedTask.title}</h3>
                     )}
                     <div className="flex items-center space-x-2 flex-shrink-0">
-                        {!isEditing && (
+                        {!isEditing && !readOnly && (
                             <button onClick={() => setIsEditing(true)} className="p-2 text-text-secondary hover:text-white rounded-full hover:bg-accent transition-colors" title="Edit Task">
                                 <PencilIcon className="w-5 h-5" />
                             </button>
@@ -245,11 +311,11 @@ export const TaskDetailModal: React.FC<TaskDetailModalProps> = React.memo(({ tas
                              {isEditing ? (
                                 <select
                                     value={editedTask.assignedTo}
-                                    onChange={(e) => handleFieldChange('assignedTo', e.target.value as AgentName)}
+                                    onChange={(e) => handleFieldChange('assignedTo', e.target.value)}
                                     className="w-full appearance-none bg-primary border-2 border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight transition-all text-light p-3 text-base"
                                 >
-                                    {AGENT_NAMES.filter(a => a !== AgentName.MASTER_PLANNER).map(name => (
-                                        <option key={name} value={name}>{name}</option>
+                                    {agents.map(agent => (
+                                        <option key={agent.name} value={agent.name}>{agent.name}</option>
                                     ))}
                                 </select>
                             ) : (
@@ -267,6 +333,141 @@ export const TaskDetailModal: React.FC<TaskDetailModalProps> = React.memo(({ tas
                             </div>
                         </div>
                     </div>
+                    <div>
+                        <h4 className="text-sm font-semibold text-text-secondary mb-2">Team Member</h4>
+                        {isEditing ? (
+                            <select
+                                value={editedTask.assigneeId ?? ''}
+                                onChange={(e) => handleFieldChange('assigneeId', e.target.value || undefined)}
+                                className="w-full appearance-none bg-primary border-2 border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight transition-all text-light p-3 text-base"
+                            >
+                                <option value="">Unassigned</option>
+                                {team.map(member => (
+                                    <option key={member.id} value={member.id}>{member.name}{member.role ? ` (${member.role})` : ''}</option>
+                                ))}
+                            </select>
+                        ) : assignee ? (
+                            <div className="flex items-center space-x-2 bg-primary p-3 rounded-lg">
+                                <UserIcon className="w-5 h-5 text-highlight" />
+                                <span className="font-bold text-light">{assignee.name}</span>
+                                {assignee.availability && <span className="text-sm text-text-secondary truncate">&middot; {assignee.availability}</span>}
+                            </div>
+                        ) : (
+                            <p className="text-sm text-text-secondary">{team.length > 0 ? 'No one on the team has been assigned.' : 'Add people to the team from the task board to assign them tasks.'}</p>
+                        )}
+                    </div>
+                    {generatesContent && (
+                        <div>
+                            <h4 className="text-sm font-semibold text-text-secondary mb-2">Sign-off</h4>
+                            {isEditing ? (
+                                <div className="bg-primary p-3 rounded-lg border border-accent space-y-2">
+                                    {!editedTask.approvalPolicy && (
+                                        <p className="text-xs text-text-secondary">
+                                            {agentPolicy ? `Uses the ${editedTask.assignedTo} agent's policy: ${describeApprovalPolicy(agentPolicy, team)}.` : `The ${editedTask.assignedTo} agent requires no sign-off.`} Select people to set a policy for this task only.
+                                        </p>
+                                    )}
+                                    <ApprovalPolicyEditor
+                                        policy={editedTask.approvalPolicy}
+                                        team={team}
+                                        onChange={policy => handleFieldChange('approvalPolicy', policy)}
+                                    />
+                                </div>
+                            ) : (
+                                <p className="text-sm text-light bg-primary p-3 rounded-lg border border-accent">
+                                    {effectivePolicy ? describeApprovalPolicy(effectivePolicy, team) : 'Any approver can approve the content.'}
+                                    {effectivePolicy && !editedTask.approvalPolicy && <span className="text-text-secondary"> (the {editedTask.assignedTo} agent's policy)</span>}
+                                </p>
+                            )}
+                        </div>
+                    )}
+                    {generatesContent && (isEditing ? sponsors.length > 0 : targetSponsors.length > 0) && (
+                        <div>
+                            <h4 className="text-sm font-semibold text-text-secondary mb-2">Write to Sponsors</h4>
+                            {isEditing ? (
+                                <div className="bg-primary p-3 rounded-lg border border-accent space-y-2">
+                                    <p className="text-xs text-text-secondary">Select sponsors to write one personalized draft to each of them the next time the content is generated, instead of variants for everyone.</p>
+                                    <div className="max-h-40 overflow-y-auto space-y-1">
+                                        {sponsors.map(sponsor => (
+                                            <label key={sponsor.id} className="flex items-center space-x-2 text-sm text-light cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={editedTask.sponsorIds?.includes(sponsor.id) ?? false}
+                                                    onChange={() => handleSponsorToggle(sponsor.id)}
+                                                    className="accent-highlight"
+                                                />
+                                                <span>{sponsor.company}</span>
+                                                <span className="text-xs text-text-secondary">&middot; {sponsor.stage}{sponsor.tier && ` · ${sponsor.tier}`}</span>
+                                            </label>
+                                        ))}
+                                    </div>
+                                </div>
+                            ) : (
+                                <p className="text-sm text-light bg-primary p-3 rounded-lg border border-accent">
+                                    One personalized draft each for {targetSponsors.map(s => s.company).join(', ')}.
+                                </p>
+                            )}
+                        </div>
+                    )}
+                    {writesPosts && (
+                        <div>
+                            <h4 className="text-sm font-semibold text-text-secondary mb-2">Channels</h4>
+                            {isEditing ? (
+                                <div className="bg-primary p-3 rounded-lg border border-accent space-y-2">
+                                    <p className="text-xs text-text-secondary">The agent writes one post for each channel, within its length and hashtag limits. Clear them all to write a single post in the agent's usual variants instead.</p>
+                                    <div className="flex flex-wrap gap-4">
+                                        {SOCIAL_CHANNELS.map(spec => (
+                                            <label key={spec.id} className="flex items-center space-x-2 text-sm text-light cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={channels.includes(spec.id)}
+                                                    onChange={() => handleChannelToggle(spec.id)}
+                                                    className="accent-highlight"
+                                                />
+                                                <span>{spec.label}</span>
+                                                <span className="text-xs text-text-secondary">&middot; {spec.maxLength} characters</span>
+                                            </label>
+                                        ))}
+                                    </div>
+                                </div>
+                            ) : (
+                                <p className="text-sm text-light bg-primary p-3 rounded-lg border border-accent">
+                                    {channels.length > 0
+                                        ? `One post each for ${channels.map(c => getChannelSpec(c).label).join(', ')}.`
+                                        : 'A single post, not written for a particular channel.'}
+                                </p>
+                            )}
+                        </div>
+                    )}
+                    {writesPosts && (
+                        <div>
+                            <h4 className="text-sm font-semibold text-text-secondary mb-2">Visuals</h4>
+                            {isEditing ? (
+                                <div className="bg-primary p-3 rounded-lg border border-accent space-y-2">
+                                    <p className="text-xs text-text-secondary">Designed with the content from the event's name, dates and venue, and sent for approval with it. Approved visuals are added to the task's attachments.</p>
+                                    <div className="flex flex-wrap gap-4">
+                                        {VISUAL_TEMPLATES.map(template => (
+                                            <label key={template.kind} className="flex items-center space-x-2 text-sm text-light cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={visuals.includes(template.kind)}
+                                                    onChange={() => handleVisualToggle(template.kind)}
+                                                    className="accent-highlight"
+                                                />
+                                                <span>{template.label}</span>
+                                                <span className="text-xs text-text-secondary">&middot; {template.description}</span>
+                                            </label>
+                                        ))}
+                                    </div>
+                                </div>
+                            ) : (
+                                <p className="text-sm text-light bg-primary p-3 rounded-lg border border-accent">
+                                    {visuals.length > 0
+                                        ? `Designs a ${visuals.map(v => getVisualTemplate(v).label.toLowerCase()).join(' and a ')} with the content.`
+                                        : 'No visuals, only text.'}
+                                </p>
+                            )}
+                        </div>
+                    )}
                     {parentTask && (
                         <div>
                             <h4 className="text-sm font-semibold text-text-secondary mb-2">Parent Task</h4>
@@ -286,6 +487,52 @@ export const TaskDetailModal: React.FC<TaskDetailModalProps> = React.memo(({ tas
                         )}
                     </div>
 
+                    <div>
+                        <h4 className="text-sm font-semibold text-text-secondary mb-2">Budget</h4>
+                        {subTaskBudget ? (
+                            <div className="grid grid-cols-3 gap-3 bg-primary p-3 rounded-lg border border-accent text-sm">
+                                <div><p className="text-xs text-text-secondary">Estimated (sub-tasks)</p><p className="font-bold text-light tabular-nums">{formatCurrency(subTaskBudget.estimatedExpense)}</p></div>
+                                <div><p className="text-xs text-text-secondary">Spent (sub-tasks)</p><p className="font-bold text-light tabular-nums">{formatCurrency(subTaskBudget.actualExpense)}</p></div>
+                                <div><p className="text-xs text-text-secondary">Income (sub-tasks)</p><p className="font-bold text-success tabular-nums">{formatCurrency(subTaskBudget.income)}</p></div>
+                            </div>
+                        ) : isEditing ? (
+                            <div className="grid grid-cols-2 gap-3 bg-primary p-3 rounded-lg border border-accent">
+                                <label className="text-xs text-text-secondary">
+                                    Estimated Cost
+                                    <input type="number" min={0} value={editedTask.estimatedCost ?? ''} onChange={(e) => handleAmountChange('estimatedCost', e.target.value)} className="mt-1 w-full bg-secondary border-2 border-accent rounded-lg p-2 text-light text-sm focus:outline-none focus:ring-2 focus:ring-highlight" />
+                                </label>
+                                <label className="text-xs text-text-secondary">
+                                    Actual Cost
+                                    <input type="number" min={0} value={editedTask.actualCost ?? ''} onChange={(e) => handleAmountChange('actualCost', e.target.value)} className="mt-1 w-full bg-secondary border-2 border-accent rounded-lg p-2 text-light text-sm focus:outline-none focus:ring-2 focus:ring-highlight" />
+                                </label>
+                                <label className="text-xs text-text-secondary">
+                                    Category
+                                    <select value={editedTask.costCategory ?? ''} onChange={(e) => handleFieldChange('costCategory', e.target.value ? e.target.value as CostCategory : undefined)} className="mt-1 w-full bg-secondary border-2 border-accent rounded-lg p-2 text-light text-sm focus:outline-none focus:ring-2 focus:ring-highlight">
+                                        <option value="">Uncategorized</option>
+                                        {Object.values(CostCategory).map(category => (
+                                            <option key={category} value={category}>{category}</option>
+                                        ))}
+                                    </select>
+                                </label>
+                                {editedTask.assignedTo === AgentName.SPONSORSHIP_OUTREACH && (
+                                    <label className="text-xs text-text-secondary">
+                                        Committed Sponsorship
+                                        <input type="number" min={0} value={editedTask.committedAmount ?? ''} onChange={(e) => handleAmountChange('committedAmount', e.target.value)} className="mt-1 w-full bg-secondary border-2 border-accent rounded-lg p-2 text-light text-sm focus:outline-none focus:ring-2 focus:ring-highlight" />
+                                    </label>
+                                )}
+                            </div>
+                        ) : (
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 bg-primary p-3 rounded-lg border border-accent text-sm">
+                                <div><p className="text-xs text-text-secondary">Estimated</p><p className="font-bold text-light tabular-nums">{editedTask.estimatedCost !== undefined ? formatCurrency(editedTask.estimatedCost) : '—'}</p></div>
+                                <div><p className="text-xs text-text-secondary">Actual</p><p className={`font-bold tabular-nums ${(editedTask.actualCost ?? 0) > (editedTask.estimatedCost ?? Infinity) ? 'text-danger' : 'text-light'}`}>{editedTask.actualCost !== undefined ? formatCurrency(editedTask.actualCost) : '—'}</p></div>
+                                <div><p className="text-xs text-text-secondary">Category</p><p className="font-bold text-light">{editedTask.costCategory ?? '—'}</p></div>
+                                {editedTask.committedAmount !== undefined && (
+                                    <div><p className="text-xs text-text-secondary">Committed</p><p className="font-bold text-success tabular-nums">{formatCurrency(editedTask.committedAmount)}</p></div>
+                                )}
+                            </div>
+                        )}
+                    </div>
+
                     {isEditing ? (
                         <div>
                             <h4 className="text-sm font-semibold text-text-secondary mb-2">Prerequisites</h4>
@@ -388,23 +635,36 @@ export const TaskDetailModal: React.FC<TaskDetailModalProps> = React.memo(({ tas
                                             </button>
                                             <span className="text-text-secondary flex-shrink-0">({formatBytes(file.size)})</span>
                                         </div>
-                                        <button 
-                                            onClick={() => handleRemoveAttachment(file.id, file.url)} 
-                                            className="text-text-secondary hover:text-danger opacity-0 group-hover:opacity-100 transition-opacity ml-2 flex-shrink-0"
-                                            title="Delete attachment"
-                                        >
-                                            <TrashIcon className="w-4 h-4" />
-                                        </button>
+                                        {!readOnly && (
+                                            <button 
+                                                onClick={() => handleRemoveAttachment(file.id, file.url)} 
+                                                className="text-text-secondary hover:text-danger opacity-0 group-hover:opacity-100 transition-opacity ml-2 flex-shrink-0"
+                                                title="Delete attachment"
+                                            >
+                                                <TrashIcon className="w-4 h-4" />
+                                            </button>
+                                        )}
                                     </li>
                                 ))}
                             </ul>
+                             {!readOnly && (
                              <label className={`w-full mt-2 flex items-center justify-center space-x-2 px-4 py-2 rounded-lg bg-accent text-light transition-opacity font-semibold text-sm ${isUploading ? 'opacity-50 cursor-not-allowed' : 'hover:bg-accent/80 cursor-pointer'}`}>
                                 <PaperclipIcon className="w-4 h-4" />
                                 <span>{isUploading ? 'Uploading...' : 'Add Attachment'}</span>
                                 <input type="file" className="hidden" onChange={handleFileChange} disabled={isUploading} />
                             </label>
+                             )}
                         </div>
                     </div>
+                    <div>
+                        <h4 className="text-sm font-semibold text-text-secondary mb-2">Comments</h4>
+                        <CommentThread
+                            comments={comments}
+                            mentionCandidates={mentionCandidates}
+                            onAddComment={(body, mentions, replyTo) => onAddComment(task.id, body, mentions, replyTo)}
+                            canComment={canComment}
+                        />
+                    </div>
                 </div>
                  <div className="p-4 border-t border-accent text-right flex-shrink-0">
                     {isEditing ? (
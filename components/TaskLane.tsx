@@ -1,41 +1,65 @@
 
 import React, { useState, useMemo } from 'react';
-import { Task, AgentName, TaskStatus, AgentStatus } from '../types';
-import { AGENT_DETAILS, TASK_STATUS_STYLES, MAX_TASK_RETRIES, AGENT_NAMES } from '../constants';
+import { Task, TaskStatus, AgentStatus, TeamMember, AgentDefinition } from '../types';
+import { TASK_STATUS_STYLES, MAX_TASK_RETRIES } from '../constants';
+import { getAgentDisplay } from '../services/agentRegistry';
 import { CheckCircleIcon } from './icons/CheckCircleIcon';
 import { ClockIcon } from './icons/ClockIcon';
 import { ChevronDownIcon } from './icons/ChevronDownIcon';
+import { UserIcon } from './icons/UserIcon';
+import { UsersIcon } from './icons/UsersIcon';
+import { MessageIcon } from './icons/MessageIcon';
 
-// Tailwind JIT scanning hints
-// border-cyan-400 bg-cyan-400
-// border-orange-400 bg-orange-400
-// border-green-400 bg-green-400
-// border-purple-400 bg-purple-400
+// Tailwind JIT scanning hints for every color in AGENT_COLORS (lanes, cards and timeline bars)
+// border-cyan-400 bg-cyan-400 bg-cyan-500/70
+// border-orange-400 bg-orange-400 bg-orange-500/70
+// border-green-400 bg-green-400 bg-green-500/70
+// border-purple-400 bg-purple-400 bg-purple-500/70
+// border-pink-400 bg-pink-400 bg-pink-500/70
+// border-yellow-400 bg-yellow-400 bg-yellow-500/70
+// border-blue-400 bg-blue-400 bg-blue-500/70
+// border-rose-400 bg-rose-400 bg-rose-500/70
+
+// Whose tasks a lane shows: an agent's, a team member's, or those no one on the team has picked up.
+export type LaneOwner =
+    | { kind: 'agent'; agentName: string }
+    | { kind: 'member'; member: TeamMember }
+    | { kind: 'unassigned' };
 
 interface TaskLaneProps {
-    agentName: AgentName;
+    owner: LaneOwner;
     tasks: Task[];
     allTasks: Task[];
+    team: TeamMember[];
+    agents: AgentDefinition[];
     onCompleteTask: (taskId: string) => void;
-    agentStatus: Record<AgentName, AgentStatus>;
-    onReassign: (taskId: string, newAgent: AgentName) => void;
+    agentStatus: Record<string, AgentStatus>;
+    onReassign: (taskId: string, newAgent: string) => void;
     onTaskClick: (task: Task) => void;
     onViewResult: (task: Task) => void;
+    // Comments by others the user has not read yet, keyed by task ID.
+    unreadComments: Record<string, number>;
+    // False for members who may only look at the plan.
+    canEdit: boolean;
 }
 
 interface TaskCardProps {
     task: Task;
     subTasks: Task[];
     allTasks: Task[];
+    team: TeamMember[];
+    agents: AgentDefinition[];
     onComplete: (taskId:string) => void;
-    agentStatus: Record<AgentName, AgentStatus>;
-    onReassign: (taskId: string, newAgent: AgentName) => void;
+    agentStatus: Record<string, AgentStatus>;
+    onReassign: (taskId: string, newAgent: string) => void;
     onCardClick: (task: Task) => void;
     onViewResult: (task: Task) => void;
+    unreadComments: Record<string, number>;
+    canEdit: boolean;
     isSubTask?: boolean;
 }
 
-const TaskCard: React.FC<TaskCardProps> = React.memo(({ task, subTasks, allTasks, onComplete, agentStatus, onReassign, onCardClick, onViewResult, isSubTask = false }) => {
+const TaskCard: React.FC<TaskCardProps> = React.memo(({ task, subTasks, allTasks, team, agents, onComplete, agentStatus, onReassign, onCardClick, onViewResult, unreadComments, canEdit, isSubTask = false }) => {
     const [showReassignOptions, setShowReassignOptions] = useState(false);
     const [isExpanded, setIsExpanded] = useState(true);
 
@@ -52,12 +76,12 @@ const TaskCard: React.FC<TaskCardProps> = React.memo(({ task, subTasks, allTasks
     const hasApprovedContent = task.status === TaskStatus.COMPLETED && task.approvedContent;
     const isFailed = task.status === TaskStatus.FAILED;
     const isCompleted = task.status === TaskStatus.COMPLETED;
+    const assignee = task.assigneeId ? team.find(m => m.id === task.assigneeId) : undefined;
+    const unreadCount = unreadComments[task.id] ?? 0;
 
-    const availableAgentsForReassignment = AGENT_NAMES.filter(name => 
-        name !== AgentName.MASTER_PLANNER &&
-        name !== task.assignedTo &&
-        agentStatus[name] === AgentStatus.IDLE
-    );
+    const availableAgentsForReassignment = agents
+        .map(agent => agent.name)
+        .filter(name => name !== task.assignedTo && (agentStatus[name] ?? AgentStatus.IDLE) === AgentStatus.IDLE);
     
     const handleButtonClick = (e: React.MouseEvent, action: () => void) => {
         e.stopPropagation();
@@ -69,7 +93,7 @@ const TaskCard: React.FC<TaskCardProps> = React.memo(({ task, subTasks, allTasks
         setIsExpanded(!isExpanded);
     };
 
-    const agentColor = AGENT_DETAILS[task.assignedTo].color;
+    const agentColor = getAgentDisplay(agents, task.assignedTo).color;
     const agentBorderColor = agentColor.replace('text-', 'border-');
     const agentBgColor = agentColor.replace('text-', 'bg-');
 
@@ -92,6 +116,18 @@ const TaskCard: React.FC<TaskCardProps> = React.memo(({ task, subTasks, allTasks
                             )}
                         </div>
                         <p className="text-sm text-text-secondary truncate">{task.description}</p>
+                        {assignee && (
+                            <p className="flex items-center text-xs text-text-secondary" title={assignee.availability ? `Available: ${assignee.availability}` : undefined}>
+                                <UserIcon className="w-3.5 h-3.5 mr-1.5 flex-shrink-0" />
+                                <span className="truncate">{assignee.name}</span>
+                            </p>
+                        )}
+                        {unreadCount > 0 && (
+                            <p className="flex items-center text-xs font-semibold text-highlight">
+                                <MessageIcon className="w-3.5 h-3.5 mr-1.5 flex-shrink-0" />
+                                {unreadCount} unread comment{unreadCount === 1 ? '' : 's'}
+                            </p>
+                        )}
                     </div>
                     
                     {task.dependsOn && task.dependsOn.length > 0 && (
@@ -132,7 +168,7 @@ const TaskCard: React.FC<TaskCardProps> = React.memo(({ task, subTasks, allTasks
                             )}
                         </div>
 
-                        {isManuallyCompletable && (
+                        {isManuallyCompletable && canEdit && (
                              <button
                                 onClick={(e) => handleButtonClick(e, () => onComplete(task.id))}
                                 className="w-full bg-success text-white font-bold py-2 px-3 rounded-lg hover:bg-success/90 transition-colors text-sm"
@@ -148,7 +184,7 @@ const TaskCard: React.FC<TaskCardProps> = React.memo(({ task, subTasks, allTasks
                                 View Result
                             </button>
                         )}
-                        {isFailed && (
+                        {isFailed && canEdit && (
                             <div className="relative">
                                 <button
                                     onClick={(e) => handleButtonClick(e, () => setShowReassignOptions(!showReassignOptions))}
@@ -195,11 +231,15 @@ const TaskCard: React.FC<TaskCardProps> = React.memo(({ task, subTasks, allTasks
                             task={subTask}
                             subTasks={[]} // Sub-tasks don't have further nesting in this UI
                             allTasks={allTasks}
+                            team={team}
+                            agents={agents}
                             onComplete={onComplete}
                             agentStatus={agentStatus}
                             onReassign={onReassign}
                             onCardClick={onCardClick}
                             onViewResult={onViewResult}
+                            unreadComments={unreadComments}
+                            canEdit={canEdit}
                             isSubTask={true}
                         />
                     ))}
@@ -210,12 +250,50 @@ const TaskCard: React.FC<TaskCardProps> = React.memo(({ task, subTasks, allTasks
 });
 
 
-export const TaskLane: React.FC<TaskLaneProps> = React.memo(({ agentName, tasks, allTasks, onCompleteTask, agentStatus, onReassign, onTaskClick, onViewResult }) => {
-    const agentDetail = AGENT_DETAILS[agentName];
-    const Icon = agentDetail.icon;
-    
+const belongsToLane = (task: Task, owner: LaneOwner): boolean => {
+    switch (owner.kind) {
+        case 'agent': return task.assignedTo === owner.agentName;
+        case 'member': return task.assigneeId === owner.member.id;
+        case 'unassigned': return !task.assigneeId;
+    }
+};
+
+const LaneHeader: React.FC<{ owner: LaneOwner; agents: AgentDefinition[] }> = ({ owner, agents }) => {
+    if (owner.kind === 'agent') {
+        const agentDetail = getAgentDisplay(agents, owner.agentName);
+        const Icon = agentDetail.icon;
+        return (
+            <>
+                <Icon className={`w-6 h-6 ${agentDetail.color}`} />
+                <h3 className="font-bold text-lg text-light">{owner.agentName}</h3>
+            </>
+        );
+    }
+    if (owner.kind === 'unassigned') {
+        return (
+            <>
+                <UsersIcon className="w-6 h-6 text-text-secondary" />
+                <h3 className="font-bold text-lg text-light">Unassigned</h3>
+            </>
+        );
+    }
+    const { member } = owner;
+    return (
+        <>
+            <UserIcon className="w-6 h-6 text-highlight flex-shrink-0" />
+            <div className="min-w-0">
+                <h3 className="font-bold text-lg text-light truncate">{member.name}</h3>
+                {(member.role || member.availability) && (
+                    <p className="text-xs text-text-secondary truncate">{[member.role, member.availability].filter(Boolean).join(' · ')}</p>
+                )}
+            </div>
+        </>
+    );
+};
+
+export const TaskLane: React.FC<TaskLaneProps> = React.memo(({ owner, tasks, allTasks, team, agents, onCompleteTask, agentStatus, onReassign, onTaskClick, onViewResult, unreadComments, canEdit }) => {
     const { topLevelTasks, subTaskMap } = useMemo(() => {
-        const tasksForLane = tasks.filter(t => t.assignedTo === agentName);
+        const tasksForLane = tasks.filter(t => belongsToLane(t, owner));
         const taskIdsInLane = new Set(tasksForLane.map(t => t.id));
 
         const topLevelTasks = tasksForLane.filter(t => !t.parentId || !taskIdsInLane.has(t.parentId));
@@ -231,13 +309,12 @@ export const TaskLane: React.FC<TaskLaneProps> = React.memo(({ agentName, tasks,
         });
 
         return { topLevelTasks, subTaskMap };
-    }, [tasks, agentName]);
+    }, [tasks, owner]);
 
     return (
         <div className="bg-secondary p-4 rounded-xl flex flex-col border border-accent">
             <div className="flex items-center space-x-3 mb-4 p-2 border-b border-accent">
-                <Icon className={`w-6 h-6 ${agentDetail.color}`} />
-                <h3 className="font-bold text-lg text-light">{agentName}</h3>
+                <LaneHeader owner={owner} agents={agents} />
             </div>
             <div className="flex-grow overflow-y-auto overflow-x-hidden">
                  <div className="space-y-4 p-2">
@@ -249,11 +326,15 @@ export const TaskLane: React.FC<TaskLaneProps> = React.memo(({ agentName, tasks,
                             task={task} 
                             subTasks={subTaskMap.get(task.id) || []}
                             allTasks={allTasks}
+                            team={team}
+                            agents={agents}
                             onComplete={onCompleteTask}
                             agentStatus={agentStatus}
                             onReassign={onReassign}
                             onCardClick={onTaskClick}
                             onViewResult={onViewResult}
+                            unreadComments={unreadComments}
+                            canEdit={canEdit}
                         />)
                     )}
                 </div>
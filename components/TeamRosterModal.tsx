@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { Task, TeamMember } from '../types';
+import { PencilIcon } from './icons/PencilIcon';
+import { TrashIcon } from './icons/TrashIcon';
+
+interface TeamRosterModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    team: TeamMember[];
+    tasks: Task[];
+    onSave: (team: TeamMember[]) => void;
+    readOnly?: boolean;
+}
+
+const inputClass = "p-2 bg-primary border-2 border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight text-sm text-light";
+
+const EMPTY_FORM = { name: '', email: '', role: '', availability: '' };
+
+// Edits the people on the organizing team. Changes are kept in a draft until saved;
+// removing someone unassigns their tasks.
+export const TeamRosterModal: React.FC<TeamRosterModalProps> = ({ isOpen, onClose, team, tasks, onSave, readOnly = false }) => {
+    const [draft, setDraft] = useState<TeamMember[]>(team);
+    const [form, setForm] = useState(EMPTY_FORM);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    if (!isOpen) return null;
+
+    const handleFieldChange = (field: keyof typeof EMPTY_FORM, value: string) => {
+        setForm(prev => ({ ...prev, [field]: value }));
+    };
+
+    const resetForm = () => {
+        setForm(EMPTY_FORM);
+        setEditingId(null);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = form.name.trim();
+        const email = form.email.trim().toLowerCase();
+        if (!name) return;
+        if (email && draft.some(m => m.id !== editingId && m.email === email)) {
+            setError(`${email} is already on the team.`);
+            return;
+        }
+        setError(null);
+        const member: TeamMember = {
+            id: editingId ?? `member-${Date.now()}`,
+            name,
+            email,
+            role: form.role.trim(),
+            availability: form.availability.trim(),
+        };
+        setDraft(prev => editingId
+            ? prev.map(m => m.id === editingId ? member : m)
+            : [...prev, member]);
+        resetForm();
+    };
+
+    const startEditing = (member: TeamMember) => {
+        setForm({ name: member.name, email: member.email, role: member.role, availability: member.availability });
+        setEditingId(member.id);
+        setError(null);
+    };
+
+    const handleRemove = (memberId: string) => {
+        setDraft(prev => prev.filter(m => m.id !== memberId));
+        if (editingId === memberId) resetForm();
+    };
+
+    const handleSave = () => {
+        onSave(draft);
+        onClose();
+    };
+
+    const countAssigned = (memberId: string) => tasks.filter(t => t.assigneeId === memberId).length;
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4 animate-fadeIn"
+            onClick={onClose}
+        >
+            <div
+                className="bg-secondary rounded-xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col border border-accent transform transition-transform duration-300 scale-95 animate-fadeIn"
+                onClick={e => e.stopPropagation()}
+                style={{animationDuration: '0.3s'}}
+            >
+                <div className="p-4 border-b border-accent flex justify-between items-center">
+                    <h3 className="text-lg font-bold text-highlight">Team</h3>
+                    <button onClick={onClose} className="text-text-secondary hover:text-white text-2xl">&times;</button>
+                </div>
+
+                <div className="p-6 overflow-y-auto space-y-6">
+                    <p className="text-sm text-text-secondary">The people doing the work. Tasks can be assigned to a team member as well as an agent, and each member gets their own lane on the task board.</p>
+
+                    {error && <div className="bg-danger/20 border border-danger text-red-300 p-3 rounded-lg text-sm">{error}</div>}
+
+                    {!readOnly && (
+                        <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                            <input type="text" required value={form.name} onChange={e => handleFieldChange('name', e.target.value)} placeholder="Name" className={inputClass} />
+                            <input type="email" value={form.email} onChange={e => handleFieldChange('email', e.target.value)} placeholder="Email" className={inputClass} />
+                            <input type="text" value={form.role} onChange={e => handleFieldChange('role', e.target.value)} placeholder="Role, e.g. Hospitality lead" className={inputClass} />
+                            <input type="text" value={form.availability} onChange={e => handleFieldChange('availability', e.target.value)} placeholder="Availability, e.g. Weekends only" className={inputClass} />
+                            <div className="sm:col-span-2 flex justify-end space-x-2">
+                                {editingId && (
+                                    <button type="button" onClick={resetForm} className="px-4 py-2 text-sm font-semibold text-text-secondary hover:text-white">Cancel</button>
+                                )}
+                                <button type="submit" className="px-4 py-2 rounded-lg bg-accent text-light hover:bg-accent/80 transition-opacity text-sm font-semibold">
+                                    {editingId ? 'Update Member' : 'Add Member'}
+                                </button>
+                            </div>
+                        </form>
+                    )}
+
+                    {draft.length === 0 ? (
+                        <p className="text-sm text-text-secondary">No team members added.</p>
+                    ) : (
+                        <ul className="space-y-2">
+                            {draft.map(member => {
+                                const assignedCount = countAssigned(member.id);
+                                return (
+                                    <li key={member.id} className={`flex items-center justify-between bg-primary p-2 pl-3 rounded-lg border text-sm ${editingId === member.id ? 'border-highlight' : 'border-accent'}`}>
+                                        <div className="min-w-0">
+                                            <p className="text-light truncate">
+                                                {member.name}
+                                                {member.role && <span className="text-text-secondary"> &middot; {member.role}</span>}
+                                            </p>
+                                            <p className="text-xs text-text-secondary truncate">
+                                                {[member.email, member.availability, `${assignedCount} task${assignedCount === 1 ? '' : 's'}`].filter(Boolean).join(' · ')}
+                                            </p>
+                                        </div>
+                                        {!readOnly && (
+                                            <div className="flex items-center flex-shrink-0">
+                                                <button
+                                                    onClick={() => startEditing(member)}
+                                                    className="p-1.5 rounded-lg text-text-secondary hover:bg-accent hover:text-white transition-colors"
+                                                    title="Edit member"
+                                                >
+                                                    <PencilIcon className="w-4 h-4" />
+                                                </button>
+                                                <button
+                                                    onClick={() => handleRemove(member.id)}
+                                                    className="p-1.5 rounded-lg text-text-secondary hover:bg-danger hover:text-white transition-colors"
+                                                    title="Remove member"
+                                                >
+                                                    <TrashIcon className="w-4 h-4" />
+                                                </button>
+                                            </div>
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+                </div>
+
+                <div className="p-4 border-t border-accent flex justify-end space-x-3">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 rounded-lg bg-accent text-light hover:bg-accent/80 transition-opacity font-semibold"
+                    >
+                        {readOnly ? 'Close' : 'Cancel'}
+                    </button>
+                    {!readOnly && (
+                        <button
+                            onClick={handleSave}
+                            className="px-4 py-2 rounded-lg bg-highlight text-white hover:opacity-90 transition-opacity font-semibold"
+                        >
+                            Save Team
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
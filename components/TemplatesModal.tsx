@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { PlanTemplate } from '../types';
+import { TrashIcon } from './icons/TrashIcon';
+
+interface TemplatesModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    templates: PlanTemplate[];
+    // Null when there is no plan open to save.
+    currentPlanName: string | null;
+    onSave: (name: string) => Promise<void>;
+    onDelete: (templateId: string) => Promise<void>;
+}
+
+// Saves the open plan as a template and manages the user's saved templates.
+// New plans pick a template in the event setup form.
+export const TemplatesModal: React.FC<TemplatesModalProps> = ({ isOpen, onClose, templates, currentPlanName, onSave, onDelete }) => {
+    const [name, setName] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (isOpen) {
+            setName(currentPlanName ?? '');
+            setError(null);
+        }
+    }, [isOpen, currentPlanName]);
+
+    if (!isOpen) return null;
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim() || isSaving) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            await onSave(name.trim());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save the template.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (templateId: string) => {
+        setError(null);
+        try {
+            await onDelete(templateId);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to delete the template.');
+        }
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4 animate-fadeIn"
+            onClick={onClose}
+        >
+            <div
+                className="bg-secondary rounded-xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col border border-accent transform transition-transform duration-300 scale-95 animate-fadeIn"
+                onClick={e => e.stopPropagation()}
+                style={{animationDuration: '0.3s'}}
+            >
+                <div className="p-4 border-b border-accent flex justify-between items-center">
+                    <h3 className="text-lg font-bold text-highlight">Plan Templates</h3>
+                    <button onClick={onClose} className="text-text-secondary hover:text-white text-2xl">&times;</button>
+                </div>
+
+                <div className="p-6 overflow-y-auto space-y-6">
+                    {currentPlanName !== null && (
+                        <form onSubmit={handleSave} className="space-y-2">
+                            <h4 className="text-sm font-semibold text-text-secondary">Save the current plan as a template</h4>
+                            <p className="text-xs text-text-secondary">Keeps the tasks, dependencies, durations, costs and agents. Progress, content, comments and team assignments are left out.</p>
+                            <div className="flex gap-2">
+                                <input
+                                    type="text"
+                                    value={name}
+                                    onChange={e => setName(e.target.value)}
+                                    placeholder="Template name"
+                                    className="flex-grow p-2 bg-primary border-2 border-accent rounded-lg focus:outline-none focus:ring-2 focus:ring-highlight text-light text-sm"
+                                    aria-label="Template name"
+                                />
+                                <button
+                                    type="submit"
+                                    disabled={!name.trim() || isSaving}
+                                    className="px-4 py-2 rounded-lg bg-highlight text-white hover:opacity-90 transition-opacity text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    {isSaving ? 'Saving...' : 'Save Template'}
+                                </button>
+                            </div>
+                        </form>
+                    )}
+
+                    {error && <div className="bg-danger/20 border border-danger text-red-300 p-3 rounded-lg text-sm">{error}</div>}
+
+                    <div className="space-y-2">
+                        <h4 className="text-sm font-semibold text-text-secondary">Saved templates</h4>
+                        {templates.length === 0 ? (
+                            <p className="text-sm text-text-secondary">No templates yet.</p>
+                        ) : (
+                            <ul className="space-y-2">
+                                {templates.map(template => (
+                                    <li key={template.id} className="bg-primary p-3 rounded-lg border border-accent flex justify-between items-center">
+                                        <div className="min-w-0">
+                                            <p className="text-sm font-semibold text-light truncate">{template.name}</p>
+                                            <p className="text-xs text-text-secondary">
+                                                {template.tasks.length} tasks &middot; Saved {template.createdAt.toLocaleDateString()}
+                                                {template.eventDates && <> &middot; Event on {template.eventDates.startDate}</>}
+                                            </p>
+                                        </div>
+                                        <button
+                                            onClick={() => handleDelete(template.id)}
+                                            className="p-2 rounded-lg text-text-secondary hover:bg-danger hover:text-white transition-colors flex-shrink-0"
+                                            title="Delete this template"
+                                        >
+                                            <TrashIcon className="w-5 h-5" />
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+
+                <div className="p-4 border-t border-accent text-right">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 rounded-lg bg-accent text-light hover:bg-accent/80 transition-opacity font-semibold"
+                    >
+                        Close
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
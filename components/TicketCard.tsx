@@ -0,0 +1,44 @@
+import React, { useMemo } from 'react';
+import { Attendee, RegistrationPage } from '../types';
+import { formatEventDates } from '../services/visualAssets';
+import { getTicketPayload } from '../services/registration';
+import { renderQrCodeSvg } from '../services/qrCode';
+
+interface TicketCardProps {
+    attendee: Attendee;
+    page: RegistrationPage;
+}
+
+// An attendee's ticket with its QR code, shown after registering and to organizers at the door.
+export const TicketCard: React.FC<TicketCardProps> = React.memo(({ attendee, page }) => {
+    const qrCodeUrl = useMemo(
+        () => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(renderQrCodeSvg(getTicketPayload(attendee)))}`,
+        [attendee]
+    );
+    const ticketType = page.ticketTypes.find(t => t.id === attendee.ticketTypeId);
+
+    return (
+        <div className="bg-primary rounded-xl border border-accent overflow-hidden">
+            <div className="p-4 border-b border-dashed border-accent">
+                <p className="text-xs font-semibold text-highlight uppercase tracking-wide">{ticketType?.name ?? 'Ticket'}</p>
+                <h4 className="text-lg font-bold text-light">{page.eventName}</h4>
+                <p className="text-sm text-text-secondary">{formatEventDates(page.eventDates)}{page.venue && ` · ${page.venue}`}</p>
+            </div>
+            <div className="p-4 flex items-center gap-4">
+                <img src={qrCodeUrl} alt={`QR code of ticket ${attendee.ticketCode}`} className="w-32 h-32 rounded-md bg-white flex-shrink-0" />
+                <div className="min-w-0 space-y-1">
+                    <p className="font-semibold text-light truncate">{attendee.name}</p>
+                    <p className="text-sm text-text-secondary truncate">{attendee.email}</p>
+                    <p className="font-mono text-lg tracking-widest text-light">{attendee.ticketCode}</p>
+                    <a
+                        href={qrCodeUrl}
+                        download={`ticket-${attendee.ticketCode}.svg`}
+                        className="inline-block text-xs font-semibold text-highlight hover:underline"
+                    >
+                        Download QR code
+                    </a>
+                </div>
+            </div>
+        </div>
+    );
+});
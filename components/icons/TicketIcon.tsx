@@ -0,0 +1,10 @@
+import React from 'react';
+
+export const TicketIcon: React.FC<React.SVGProps<SVGSVGElement>> = React.memo((props) => (
+  <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" {...props}>
+    <path d="M2 9a3 3 0 0 1 0 6v2a2 2 0 0 0 2 2h16a2 2 0 0 0 2-2v-2a3 3 0 0 1 0-6V7a2 2 0 0 0-2-2H4a2 2 0 0 0-2 2Z"></path>
+    <path d="M13 5v2"></path>
+    <path d="M13 17v2"></path>
+    <path d="M13 11v2"></path>
+  </svg>
+));
@@ -1,4 +1,4 @@
-import { AgentName, TaskStatus, AgentStatus } from './types';
+import { AgentName, TaskStatus, AgentStatus, SessionRole, ProjectCalendar, AgentDefinition, AgentOutputFormat, AgentTool, ContentVariantStyle, SocialChannel, SocialChannelSpec, SponsorStage, VisualTemplate } from './types';
 import React from 'react';
 import { RobotIcon } from './components/icons/RobotIcon';
 import { CalendarIcon } from './components/icons/CalendarIcon';
@@ -9,38 +9,134 @@ import { ClockIcon } from './components/icons/ClockIcon';
 import { XCircleIcon } from './components/icons/XCircleIcon';
 import { PauseCircleIcon } from './components/icons/PauseCircleIcon';
 import { CogIcon } from './components/icons/CogIcon';
+import { UsersIcon } from './components/icons/UsersIcon';
+import { FileIcon } from './components/icons/FileIcon';
+import { GanttChartIcon } from './components/icons/GanttChartIcon';
 
 export const MAX_TASK_RETRIES = 3;
 
-export const AGENT_NAMES: AgentName[] = [
-    AgentName.MASTER_PLANNER,
-    AgentName.LOGISTICS_COORDINATOR,
-    AgentName.SPONSORSHIP_OUTREACH,
-    AgentName.MARKETING,
+// All budget amounts are recorded and displayed in this currency.
+export const BUDGET_CURRENCY = 'INR';
+export const BUDGET_LOCALE = 'en-IN';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Most colleges run a six-day week, so plans start out with only Sundays off.
+export const DEFAULT_PROJECT_CALENDAR: ProjectCalendar = {
+    workingDays: [1, 2, 3, 4, 5, 6],
+    holidays: [],
+    blackouts: [],
+};
+
+// Icons an agent can be shown with, keyed by the name stored in AgentDefinition.icon.
+export const AGENT_ICONS: Record<string, React.FC<any>> = {
+    robot: RobotIcon,
+    calendar: CalendarIcon,
+    dollar: DollarSignIcon,
+    megaphone: MegaphoneIcon,
+    users: UsersIcon,
+    file: FileIcon,
+    cog: CogIcon,
+    chart: GanttChartIcon,
+};
+
+// Colors an agent can be shown with. Components derive border and background
+// classes from these, so each one needs a scanning hint in TaskLane.tsx.
+export const AGENT_COLORS = [
+    'text-cyan-400',
+    'text-orange-400',
+    'text-green-400',
+    'text-purple-400',
+    'text-pink-400',
+    'text-yellow-400',
+    'text-blue-400',
+    'text-rose-400',
 ];
 
-export const AGENT_DETAILS: Record<AgentName, { icon: React.FC<any>, color: string, description: string }> = {
-    [AgentName.MASTER_PLANNER]: {
-        icon: RobotIcon,
-        color: 'text-cyan-400',
-        description: 'Project manager. Decomposes goals into tasks.'
+export const AGENT_OUTPUT_FORMATS: Record<AgentOutputFormat, { label: string; instruction: string }> = {
+    'text': {
+        label: 'Plain text',
+        instruction: 'Write plain text without markdown formatting.',
     },
-    [AgentName.LOGISTICS_COORDINATOR]: {
-        icon: CalendarIcon,
+    'email': {
+        label: 'Email',
+        instruction: 'Write an email that starts with a "Subject:" line, followed by a greeting, the body and a sign-off.',
+    },
+    'social-post': {
+        label: 'Social media post',
+        instruction: 'Write a short social media post with emojis where they fit and a few relevant hashtags at the end.',
+    },
+    'markdown': {
+        label: 'Markdown document',
+        instruction: 'Write a well-structured markdown document with headings and bullet points where they help.',
+    },
+};
+
+export const AGENT_TOOLS: Record<AgentTool, { label: string; description: string }> = {
+    'web-search': {
+        label: 'Web search',
+        description: 'Looks up current information (e.g. vendor prices or local venues) before writing. Gemini only.',
+    },
+};
+
+// Variants are written in these styles, in order: a single draft uses the agent's usual style.
+export const CONTENT_VARIANT_STYLES: ContentVariantStyle[] = [
+    { label: 'Standard', instruction: '' },
+    { label: 'Concise', instruction: 'Keep it brief: about half the length you would normally write, covering only the essentials.' },
+    { label: 'Energetic', instruction: 'Use a warmer, more energetic and enthusiastic tone than usual.' },
+];
+
+export const MAX_CONTENT_VARIANTS = CONTENT_VARIANT_STYLES.length;
+
+// The planner itself is not part of the registry: it cannot be assigned tasks.
+export const MASTER_PLANNER_AGENT: AgentDefinition = {
+    name: AgentName.MASTER_PLANNER,
+    description: 'Project manager. Decomposes goals into tasks.',
+    icon: 'robot',
+    color: 'text-cyan-400',
+    generatesContent: false,
+    systemPrompt: '',
+    outputFormat: 'text',
+    tools: [],
+    variantCount: 1,
+};
+
+// The agents every new plan starts with.
+export const DEFAULT_AGENTS: AgentDefinition[] = [
+    {
+        name: AgentName.LOGISTICS_COORDINATOR,
+        description: 'Handles physical and organizational tasks like booking venues, managing vendors, and creating schedules.',
+        icon: 'calendar',
         color: 'text-orange-400',
-        description: 'Manages venues, resources, and scheduling.'
+        generatesContent: false,
+        systemPrompt: '',
+        outputFormat: 'text',
+        tools: [],
+        variantCount: 1,
     },
-    [AgentName.SPONSORSHIP_OUTREACH]: {
-        icon: DollarSignIcon,
+    {
+        name: AgentName.SPONSORSHIP_OUTREACH,
+        description: 'Handles all communication with potential sponsors, such as outreach emails.',
+        icon: 'dollar',
         color: 'text-green-400',
-        description: 'Identifies and contacts potential sponsors.'
+        generatesContent: true,
+        systemPrompt: 'Your task is to draft professional and persuasive outreach emails to potential sponsors. Be clear, concise, and highlight the value proposition.',
+        outputFormat: 'email',
+        tools: [],
+        variantCount: 1,
     },
-    [AgentName.MARKETING]: {
-        icon: MegaphoneIcon,
+    {
+        name: AgentName.MARKETING,
+        description: 'Handles all promotional activities, such as social media posts.',
+        icon: 'megaphone',
         color: 'text-purple-400',
-        description: 'Generates promotional content for social media.'
-    }
-};
+        generatesContent: true,
+        systemPrompt: "Your task is to generate compelling marketing content. Be creative, engaging, and align with the event's theme.",
+        outputFormat: 'social-post',
+        tools: [],
+        variantCount: 1,
+    },
+];
 
 export const AGENT_STATUS_STYLES: Record<AgentStatus, { color: string, icon: React.FC<any> | null }> = {
     [AgentStatus.IDLE]: {
@@ -93,4 +189,86 @@ export const TASK_STATUS_STYLES: Record<TaskStatus | 'Retrying', { icon: React.F
         color: 'text-red-300',
         bgColor: 'bg-red-800/30'
     }
-};
\ No newline at end of file
+};
+
+// The sponsor pipeline, in order, with the colors its stages are shown in.
+export const SPONSOR_STAGES: SponsorStage[] = Object.values(SponsorStage);
+
+export const SPONSOR_STAGE_STYLES: Record<SponsorStage, string> = {
+    [SponsorStage.IDENTIFIED]: 'bg-gray-800/30 text-gray-300',
+    [SponsorStage.CONTACTED]: 'bg-blue-800/30 text-blue-300',
+    [SponsorStage.NEGOTIATING]: 'bg-yellow-800/30 text-yellow-300',
+    [SponsorStage.COMMITTED]: 'bg-green-800/30 text-green-300',
+    [SponsorStage.PAID]: 'bg-emerald-700/40 text-emerald-200',
+};
+
+// The channels social posts are written for, in the order they are shown.
+export const SOCIAL_CHANNELS: SocialChannelSpec[] = [
+    {
+        id: 'instagram',
+        label: 'Instagram',
+        maxLength: 2200,
+        maxHashtags: 30,
+        guidance: 'Write an Instagram caption: a hook in the first line, short paragraphs with emojis where they fit, a call to action, and 5 to 10 relevant hashtags at the end.',
+    },
+    {
+        id: 'x',
+        label: 'X',
+        maxLength: 280,
+        maxHashtags: 2,
+        guidance: 'Write a single post for X (Twitter): one or two punchy sentences with at most 2 hashtags.',
+    },
+    {
+        id: 'linkedin',
+        label: 'LinkedIn',
+        maxLength: 3000,
+        maxHashtags: 5,
+        guidance: 'Write a LinkedIn post in a professional tone: lead with the news, add a few sentences on why it matters to professionals, use emojis sparingly and end with 3 to 5 hashtags.',
+    },
+];
+
+export const SOCIAL_CHANNEL_STYLES: Record<SocialChannel, string> = {
+    instagram: 'bg-pink-800/30 text-pink-300',
+    x: 'bg-gray-800/30 text-gray-300',
+    linkedin: 'bg-blue-800/30 text-blue-300',
+};
+
+export const VISUAL_TEMPLATES: VisualTemplate[] = [
+    { kind: 'poster', label: 'Poster', width: 1240, height: 1754, description: 'A4 portrait, for printing and notice boards' },
+    { kind: 'social-card', label: 'Social card', width: 1200, height: 630, description: 'Link preview and banner image for social posts' },
+];
+
+export interface SessionPermissions {
+    canEditPlan: boolean;
+    canDecideApprovals: boolean;
+    // Whether this member's browser may execute agent work (AI generation, simulated tasks).
+    canRunAgents: boolean;
+    canManageMembers: boolean;
+    // Whether this member can join the discussion on tasks and approvals.
+    canComment: boolean;
+}
+
+export const SESSION_ROLE_DETAILS: Record<SessionRole, { label: string; description: string; permissions: SessionPermissions }> = {
+    owner: {
+        label: 'Owner',
+        description: 'Full control, including sharing and deleting the plan.',
+        permissions: { canEditPlan: true, canDecideApprovals: true, canRunAgents: true, canManageMembers: true, canComment: true },
+    },
+    editor: {
+        label: 'Editor',
+        description: 'Can edit tasks, the timeline and the budget, and decide approvals.',
+        permissions: { canEditPlan: true, canDecideApprovals: true, canRunAgents: true, canManageMembers: false, canComment: true },
+    },
+    approver: {
+        label: 'Approver',
+        description: 'Can review, approve or regenerate agent content.',
+        permissions: { canEditPlan: false, canDecideApprovals: true, canRunAgents: true, canManageMembers: false, canComment: true },
+    },
+    viewer: {
+        label: 'Viewer',
+        description: 'Read-only access to the plan.',
+        permissions: { canEditPlan: false, canDecideApprovals: false, canRunAgents: false, canManageMembers: false, canComment: false },
+    },
+};
+
+export const SESSION_ROLES: SessionRole[] = ['owner', 'editor', 'approver', 'viewer'];
@@ -3,17 +3,26 @@ import ReactDOM from 'react-dom/client';
 import App from './App';
 import './index.css';
 import { AuthProvider } from './context/AuthContext';
+import { RegistrationForm } from './components/RegistrationForm';
+import { parseRegistrationPath } from './services/registration';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Registration links open the public form, which needs no sign-in.
+const registrationSessionId = parseRegistrationPath(window.location.pathname);
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <AuthProvider>
-      <App />
-    </AuthProvider>
+    {registrationSessionId ? (
+      <RegistrationForm sessionId={registrationSessionId} />
+    ) : (
+      <AuthProvider>
+        <App />
+      </AuthProvider>
+    )}
   </React.StrictMode>
 );
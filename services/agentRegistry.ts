@@ -0,0 +1,90 @@
+import React from 'react';
+import { AgentDefinition, AgentName, AgentOutputFormat, AgentTool } from '../types';
+import { AGENT_COLORS, AGENT_ICONS, AGENT_OUTPUT_FORMATS, AGENT_TOOLS, DEFAULT_AGENTS, MASTER_PLANNER_AGENT, MAX_CONTENT_VARIANTS } from '../constants';
+import { RobotIcon } from '../components/icons/RobotIcon';
+import { normalizeApprovalPolicy } from './approvalPolicy';
+
+/**
+ * Helpers for the per-session agent registry. Tasks, approvals and logs only store
+ * an agent's name, so everything else about the agent (how it looks, whether it
+ * generates content, its prompt) is looked up here.
+ */
+
+export interface AgentDisplay {
+    icon: React.FC<any>;
+    color: string;
+    description: string;
+}
+
+// Shown for agents that were removed from the registry after they did some work.
+const UNREGISTERED_AGENT_DISPLAY: AgentDisplay = {
+    icon: RobotIcon,
+    color: 'text-gray-400',
+    description: 'This agent is no longer registered.',
+};
+
+export const findAgent = (agents: AgentDefinition[], name: string): AgentDefinition | undefined =>
+    agents.find(agent => agent.name === name);
+
+/**
+ * Whether tasks assigned to the agent produce content that must be approved by a
+ * human. Every other agent performs "manual" work that the user marks as complete.
+ */
+export const isContentGenerationAgent = (agents: AgentDefinition[], name: string): boolean =>
+    !!findAgent(agents, name)?.generatesContent;
+
+/**
+ * Returns the icon, color and description to show for an agent name, including the
+ * Master Planner and agents that have since been removed.
+ */
+export const getAgentDisplay = (agents: AgentDefinition[], name: string): AgentDisplay => {
+    const agent = name === AgentName.MASTER_PLANNER ? MASTER_PLANNER_AGENT : findAgent(agents, name);
+    if (!agent) return UNREGISTERED_AGENT_DISPLAY;
+    return {
+        icon: AGENT_ICONS[agent.icon] ?? RobotIcon,
+        color: agent.color,
+        description: agent.description,
+    };
+};
+
+/**
+ * Picks the agent a task should go to when the model named one that is not
+ * registered: the first manual agent, since a person can always complete the task.
+ */
+export const resolveAssignedAgent = (agents: AgentDefinition[], name: string): string => {
+    if (findAgent(agents, name)) return name;
+    return (agents.find(agent => !agent.generatesContent) ?? agents[0])?.name ?? name;
+};
+
+/**
+ * Keeps a requested number of variants between one and MAX_CONTENT_VARIANTS.
+ */
+export const clampVariantCount = (value: unknown): number =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(MAX_CONTENT_VARIANTS, Math.max(1, Math.round(value))) : 1;
+
+/**
+ * Reads a registry from storage, filling in fields that are missing or invalid.
+ * Sessions created before agents were configurable get the default agents.
+ */
+export const normalizeAgents = (value: unknown): AgentDefinition[] => {
+    if (!Array.isArray(value) || value.length === 0) return DEFAULT_AGENTS;
+    const agents: AgentDefinition[] = [];
+    value.forEach((agent: Partial<AgentDefinition> | null) => {
+        if (!agent || typeof agent.name !== 'string' || agent.name.trim() === '') return;
+        if (agent.name === AgentName.MASTER_PLANNER || findAgent(agents, agent.name)) return;
+        const outputFormat: AgentOutputFormat = agent.outputFormat && agent.outputFormat in AGENT_OUTPUT_FORMATS ? agent.outputFormat : 'text';
+        agents.push({
+            name: agent.name,
+            description: agent.description ?? '',
+            icon: agent.icon && AGENT_ICONS[agent.icon] ? agent.icon : 'robot',
+            color: agent.color && AGENT_COLORS.includes(agent.color) ? agent.color : AGENT_COLORS[0],
+            generatesContent: !!agent.generatesContent,
+            systemPrompt: agent.systemPrompt ?? '',
+            outputFormat,
+            tools: (agent.tools ?? []).filter((tool): tool is AgentTool => tool in AGENT_TOOLS),
+            variantCount: clampVariantCount(agent.variantCount),
+            approvalPolicy: normalizeApprovalPolicy(agent.approvalPolicy),
+        });
+    });
+    return agents.length > 0 ? agents : DEFAULT_AGENTS;
+};
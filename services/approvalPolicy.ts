@@ -0,0 +1,70 @@
+import { AgentDefinition, Approval, ApprovalPolicy, ApproverDecision, Task, TeamMember } from '../types';
+
+/**
+ * Helpers for approval policies, which name the team members who must sign off on an
+ * agent's or a task's content. An approval without a policy is decided by whoever
+ * reviews it first.
+ */
+
+/**
+ * Reads a policy from storage, dropping it when it lists no approvers.
+ */
+export const normalizeApprovalPolicy = (value: unknown): ApprovalPolicy | undefined => {
+    const policy = value as Partial<ApprovalPolicy> | null | undefined;
+    if (!policy || !Array.isArray(policy.approverIds)) return undefined;
+    const approverIds = [...new Set(policy.approverIds.filter((id): id is string => typeof id === 'string' && id !== ''))];
+    if (approverIds.length === 0) return undefined;
+    return { approverIds, rule: policy.rule === 'any' ? 'any' : 'all' };
+};
+
+// Leaves out approvers who are no longer on the team, so nobody waits for them.
+const withCurrentApprovers = (policy: ApprovalPolicy | undefined, team: TeamMember[]): ApprovalPolicy | undefined =>
+    policy && normalizeApprovalPolicy({ ...policy, approverIds: policy.approverIds.filter(id => team.some(m => m.id === id)) });
+
+/**
+ * The policy that applies to a task's content: the task's own, or else its agent's.
+ */
+export const getApprovalPolicy = (task: Task, agents: AgentDefinition[], team: TeamMember[]): ApprovalPolicy | undefined =>
+    withCurrentApprovers(task.approvalPolicy ?? agents.find(agent => agent.name === task.assignedTo)?.approvalPolicy, team);
+
+/**
+ * The policy an approval is decided under. It is dropped once all of its approvers
+ * have left the team, so that any approver can decide again.
+ */
+export const getActivePolicy = (approval: Approval, team: TeamMember[]): ApprovalPolicy | undefined =>
+    withCurrentApprovers(approval.policy, team);
+
+/**
+ * The team members of an approval's policy who have not decided yet.
+ */
+export const getOutstandingApprovers = (approval: Approval, team: TeamMember[]): TeamMember[] => {
+    const policy = getActivePolicy(approval, team);
+    if (!policy) return [];
+    const decided = new Set((approval.decisions ?? []).map(d => d.approverId));
+    return team.filter(m => policy.approverIds.includes(m.id) && !decided.has(m.id));
+};
+
+/**
+ * Works out where an approval stands under a policy. A single rejection sends the
+ * content back for regeneration; otherwise it is approved once the policy's rule is
+ * met and pending until then.
+ */
+export const resolveApprovalStatus = (policy: ApprovalPolicy, decisions: ApproverDecision[]): 'pending' | 'approved' | 'rejected' => {
+    const relevant = decisions.filter(d => policy.approverIds.includes(d.approverId));
+    if (relevant.some(d => d.decision === 'rejected')) return 'rejected';
+    const approvedIds = new Set(relevant.map(d => d.approverId));
+    const isMet = policy.rule === 'any'
+        ? approvedIds.size > 0
+        : policy.approverIds.every(id => approvedIds.has(id));
+    return isMet ? 'approved' : 'pending';
+};
+
+/**
+ * Describes a policy in a few words, e.g. "Priya and Sam must all approve".
+ */
+export const describeApprovalPolicy = (policy: ApprovalPolicy, team: TeamMember[]): string => {
+    const names = policy.approverIds.map(id => team.find(m => m.id === id)?.name ?? 'a former member');
+    if (names.length === 1) return `${names[0]} must approve`;
+    const list = `${names.slice(0, -1).join(', ')} ${policy.rule === 'all' ? 'and' : 'or'} ${names[names.length - 1]}`;
+    return policy.rule === 'all' ? `${list} must all approve` : `${list} must approve`;
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { CostCategory, TaskStatus } from '../types';
+import { calculateBurnDown, getBudgetLines, summarizeBudget } from './budget';
+import { createTask } from './testUtils';
+
+const tasks = [
+    createTask('venue', { estimatedCost: 50000, actualCost: 55000, costCategory: CostCategory.VENUE, status: TaskStatus.COMPLETED, completedAt: new Date(2026, 2, 3, 15).toISOString() }),
+    createTask('food', { estimatedCost: 30000, costCategory: CostCategory.CATERING }),
+    createTask('sponsors', { committedAmount: 100000 }),
+    // Parent tasks only group their sub-tasks, so their own amounts are not counted.
+    createTask('prizes', { estimatedCost: 99999 }),
+    createTask('trophies', { parentId: 'prizes', estimatedCost: 8000, costCategory: CostCategory.PRIZES }),
+    createTask('unbudgeted'),
+];
+
+describe('getBudgetLines', () => {
+    it('lists the leaf tasks that carry amounts', () => {
+        const lines = getBudgetLines(tasks);
+        expect(lines.map(l => l.taskId)).toEqual(['venue', 'food', 'sponsors', 'trophies']);
+        expect(lines[0]).toMatchObject({ estimated: 50000, actual: 55000, projected: 55000 });
+        expect(lines[2]).toMatchObject({ category: CostCategory.MISCELLANEOUS, estimated: 0, projected: 0, committed: 100000 });
+    });
+});
+
+describe('summarizeBudget', () => {
+    it('totals income, spend and variance', () => {
+        const summary = summarizeBudget(tasks);
+        expect(summary).toMatchObject({
+            income: 100000,
+            estimatedExpense: 88000,
+            actualExpense: 55000,
+            projectedExpense: 93000,
+            variance: -5000,
+            balance: 7000,
+        });
+    });
+
+    it('orders categories by projected spend and leaves out income-only lines', () => {
+        expect(summarizeBudget(tasks).byCategory.map(c => [c.category, c.projected])).toEqual([
+            [CostCategory.VENUE, 55000],
+            [CostCategory.CATERING, 30000],
+            [CostCategory.PRIZES, 8000],
+        ]);
+    });
+});
+
+describe('calculateBurnDown', () => {
+    const day = (date: number) => new Date(2026, 2, date);
+    const plannedEndDates = new Map([['venue', day(2)], ['food', day(6)], ['trophies', day(5)]]);
+
+    it('has nothing to plot without costs', () => {
+        expect(calculateBurnDown([createTask('a')], new Map(), day(4))).toEqual([]);
+    });
+
+    it('burns the budget down on planned finish dates and actual completion dates', () => {
+        const points = calculateBurnDown(tasks, plannedEndDates, day(4));
+        expect(points.map(p => p.date)).toEqual([day(1), day(2), day(3), day(4), day(5), day(6)]);
+        expect(points.map(p => p.planned)).toEqual([88000, 38000, 38000, 38000, 30000, 0]);
+        expect(points.map(p => p.actual)).toEqual([88000, 88000, 33000, 33000, null, null]);
+    });
+});
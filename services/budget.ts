@@ -0,0 +1,173 @@
+import { CostCategory, Task, TaskStatus } from '../types';
+import { BUDGET_CURRENCY, BUDGET_LOCALE } from '../constants';
+
+/**
+ * Pure budget calculations over the task list. The tasks are the single source of
+ * truth: every amount shown in the budget panel is derived from the cost fields on
+ * `Task`, so the ledger is always in sync with the plan.
+ *
+ * Parent tasks are organizational containers, so only leaf tasks are counted;
+ * a parent's totals are the sum of its sub-tasks.
+ */
+
+export interface BudgetLine {
+    taskId: string;
+    title: string;
+    category: CostCategory;
+    status: TaskStatus;
+    estimated: number;
+    actual?: number;
+    // Actual cost where it has been recorded, otherwise the estimate.
+    projected: number;
+    committed: number;
+}
+
+export interface CategoryTotals {
+    category: CostCategory;
+    estimated: number;
+    actual: number;
+    projected: number;
+}
+
+export interface BudgetSummary {
+    // Sponsorship income committed across all tasks.
+    income: number;
+    estimatedExpense: number;
+    // Spend recorded so far.
+    actualExpense: number;
+    // Expected final spend: actuals where known, estimates elsewhere.
+    projectedExpense: number;
+    // Positive when the projected spend is under the estimate, negative when over.
+    variance: number;
+    // Income left after the projected spend.
+    balance: number;
+    byCategory: CategoryTotals[];
+    lines: BudgetLine[];
+}
+
+export interface BurnDownPoint {
+    date: Date;
+    // Budget remaining if every task spends its estimate on its planned finish date.
+    planned: number;
+    // Budget remaining given the actual costs recorded so far. Null for future dates.
+    actual: number | null;
+}
+
+const startOfDay = (date: Date): Date => {
+    const result = new Date(date);
+    result.setHours(0, 0, 0, 0);
+    return result;
+};
+
+export const formatCurrency = (amount: number): string =>
+    new Intl.NumberFormat(BUDGET_LOCALE, { style: 'currency', currency: BUDGET_CURRENCY, maximumFractionDigits: 0 }).format(amount);
+
+/**
+ * Builds one ledger line for each leaf task that carries any budget information.
+ */
+export const getBudgetLines = (tasks: Task[]): BudgetLine[] => {
+    const parentTaskIds = new Set(tasks.map(t => t.parentId).filter((id): id is string => !!id));
+
+    return tasks
+        .filter(task => !parentTaskIds.has(task.id))
+        .filter(task => task.estimatedCost !== undefined || task.actualCost !== undefined || task.committedAmount !== undefined)
+        .map(task => {
+            const estimated = task.estimatedCost ?? 0;
+            return {
+                taskId: task.id,
+                title: task.title,
+                category: task.costCategory ?? CostCategory.MISCELLANEOUS,
+                status: task.status,
+                estimated,
+                actual: task.actualCost,
+                projected: task.actualCost ?? estimated,
+                committed: task.committedAmount ?? 0,
+            };
+        });
+};
+
+/**
+ * Totals the ledger into income, expense, variance and per-category figures.
+ * @param tasks All tasks in the session.
+ * @returns The budget summary, with categories ordered by projected spend.
+ */
+export const summarizeBudget = (tasks: Task[]): BudgetSummary => {
+    const lines = getBudgetLines(tasks);
+    const categoryMap = new Map<CostCategory, CategoryTotals>();
+
+    let income = 0;
+    let estimatedExpense = 0;
+    let actualExpense = 0;
+    let projectedExpense = 0;
+
+    lines.forEach(line => {
+        income += line.committed;
+        estimatedExpense += line.estimated;
+        actualExpense += line.actual ?? 0;
+        projectedExpense += line.projected;
+
+        if (line.estimated === 0 && line.actual === undefined) return;
+        const totals = categoryMap.get(line.category) ?? { category: line.category, estimated: 0, actual: 0, projected: 0 };
+        totals.estimated += line.estimated;
+        totals.actual += line.actual ?? 0;
+        totals.projected += line.projected;
+        categoryMap.set(line.category, totals);
+    });
+
+    return {
+        income,
+        estimatedExpense,
+        actualExpense,
+        projectedExpense,
+        variance: estimatedExpense - projectedExpense,
+        balance: income - projectedExpense,
+        byCategory: Array.from(categoryMap.values()).sort((a, b) => b.projected - a.projected),
+        lines,
+    };
+};
+
+/**
+ * Computes a daily burn-down of the expense budget.
+ * @param tasks All tasks in the session.
+ * @param plannedEndDates The scheduled finish date of each task, as computed for the timeline.
+ * @param today The current date; actual spend is only plotted up to this day.
+ * @returns One point per day, from the day before the first spend to the last one, or an empty array if there is nothing to plot.
+ */
+export const calculateBurnDown = (tasks: Task[], plannedEndDates: Map<string, Date>, today: Date = new Date()): BurnDownPoint[] => {
+    const lines = getBudgetLines(tasks).filter(line => line.estimated > 0 || (line.actual ?? 0) > 0);
+    if (lines.length === 0) return [];
+
+    const taskMap = new Map(tasks.map(t => [t.id, t]));
+    const todayStart = startOfDay(today);
+    const totalBudget = lines.reduce((sum, line) => sum + line.estimated, 0);
+
+    const plannedSpend = lines.map(line => ({
+        date: startOfDay(plannedEndDates.get(line.taskId) ?? todayStart),
+        amount: line.estimated,
+    }));
+
+    // Actual spend is booked on the day the task was completed. Costs recorded on
+    // tasks that are still open are booked today.
+    const actualSpend = lines
+        .filter(line => line.actual !== undefined)
+        .map(line => {
+            const completedAt = taskMap.get(line.taskId)?.completedAt;
+            return { date: startOfDay(completedAt ? new Date(completedAt) : todayStart), amount: line.actual! };
+        });
+
+    const allDates = [...plannedSpend, ...actualSpend].map(s => s.date.getTime());
+    // Start the day before the first spend so the chart opens at the full budget.
+    const firstDay = new Date(Math.min(...allDates, todayStart.getTime()));
+    firstDay.setDate(firstDay.getDate() - 1);
+    const lastDay = Math.max(...allDates);
+
+    const points: BurnDownPoint[] = [];
+    for (const date = firstDay; date.getTime() <= lastDay; date.setDate(date.getDate() + 1)) {
+        const planned = totalBudget - plannedSpend.filter(s => s.date.getTime() <= date.getTime()).reduce((sum, s) => sum + s.amount, 0);
+        const actual = date.getTime() <= todayStart.getTime()
+            ? totalBudget - actualSpend.filter(s => s.date.getTime() <= date.getTime()).reduce((sum, s) => sum + s.amount, 0)
+            : null;
+        points.push({ date: new Date(date), planned, actual });
+    }
+    return points;
+};
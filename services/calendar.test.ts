@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { ProjectCalendar } from '../types';
+import { DEFAULT_PROJECT_CALENDAR } from '../constants';
+import {
+    addWorkingDays,
+    countWorkingDays,
+    getNonWorkingReason,
+    getPreparationDeadline,
+    getWorkingDayOffset,
+    nextWorkingDay,
+    normalizeCalendar,
+    parseDateKey,
+    previousWorkingDay,
+    toDateKey,
+} from './calendar';
+
+// Monday 2 March 2026 onwards, in local time.
+const day = (date: number) => new Date(2026, 2, date);
+
+const calendar: ProjectCalendar = {
+    ...DEFAULT_PROJECT_CALENDAR,
+    holidays: [{ date: '2026-03-04', name: 'Holi' }],
+    blackouts: [{ id: 'exams', name: 'Mid-terms', startDate: '2026-03-09', endDate: '2026-03-11' }],
+};
+
+describe('date keys', () => {
+    it('round-trip local dates', () => {
+        expect(toDateKey(day(2))).toBe('2026-03-02');
+        expect(parseDateKey('2026-03-02')).toEqual(day(2));
+    });
+});
+
+describe('normalizeCalendar', () => {
+    it('fills in what an older plan is missing', () => {
+        expect(normalizeCalendar(null)).toEqual(DEFAULT_PROJECT_CALENDAR);
+        expect(normalizeCalendar({ workingDays: [1, 2] })).toEqual({ workingDays: [1, 2], holidays: [], blackouts: [] });
+    });
+});
+
+describe('getNonWorkingReason', () => {
+    it('names holidays, blackouts and weekly days off', () => {
+        expect(getNonWorkingReason(day(2), calendar)).toBeNull();
+        expect(getNonWorkingReason(day(4), calendar)).toBe('Holi');
+        expect(getNonWorkingReason(day(10), calendar)).toBe('Mid-terms');
+        expect(getNonWorkingReason(day(8), calendar)).toBe('Weekly off');
+    });
+
+    it('ignores a calendar without working days', () => {
+        expect(getNonWorkingReason(day(8), { workingDays: [], holidays: [], blackouts: [] })).toBeNull();
+    });
+});
+
+describe('working day arithmetic', () => {
+    it('skips to the nearest working day', () => {
+        expect(nextWorkingDay(day(8), calendar)).toEqual(day(12));
+        expect(previousWorkingDay(day(11), calendar)).toEqual(day(7));
+    });
+
+    it('adds and subtracts working days', () => {
+        expect(addWorkingDays(day(3), 1, calendar)).toEqual(day(5));
+        expect(addWorkingDays(day(7), 2, calendar)).toEqual(day(13));
+        expect(addWorkingDays(day(12), -1, calendar)).toEqual(day(7));
+        expect(addWorkingDays(day(3), 0, calendar)).toEqual(day(3));
+    });
+
+    it('counts working days between dates', () => {
+        expect(countWorkingDays(day(2), day(13), calendar)).toEqual(7);
+        expect(getWorkingDayOffset(day(2), day(6), calendar)).toBe(3);
+        expect(getWorkingDayOffset(day(6), day(2), calendar)).toBe(-3);
+        expect(getWorkingDayOffset(day(2), day(2), calendar)).toBe(0);
+    });
+
+    it('does not hang on a calendar with no working days left', () => {
+        const blocked: ProjectCalendar = { ...calendar, blackouts: [{ id: 'all', name: 'Closed', startDate: '2000-01-01', endDate: '2100-01-01' }] };
+        expect(nextWorkingDay(day(2), blocked)).toEqual(day(2));
+    });
+});
+
+describe('getPreparationDeadline', () => {
+    it('is the day before the event starts', () => {
+        expect(getPreparationDeadline({ startDate: '2026-03-20', endDate: '2026-03-21' })).toEqual(day(19));
+    });
+});
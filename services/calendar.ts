@@ -0,0 +1,123 @@
+import { EventDates, ProjectCalendar } from '../types';
+import { DEFAULT_PROJECT_CALENDAR } from '../constants';
+
+/**
+ * Pure working-day arithmetic against a project calendar. Task durations are
+ * counted in working days: weekly days off, public holidays and blackout ranges
+ * (exam weeks, vacations...) are skipped when scheduling.
+ *
+ * Dates are compared by their local calendar day; the time of day is ignored.
+ */
+
+// Stops a search for the next working day if a calendar blocks out everything.
+const MAX_SEARCH_DAYS = 5 * 366;
+
+/** Formats a date as the YYYY-MM-DD key used by holidays and blackouts. */
+export const toDateKey = (date: Date): string => {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/** Parses a YYYY-MM-DD key as local midnight. */
+export const parseDateKey = (key: string): Date => {
+    const [year, month, day] = key.split('-').map(Number);
+    return new Date(year, month - 1, day);
+};
+
+const addDays = (date: Date, days: number): Date => {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result;
+};
+
+/**
+ * Fills in anything missing from a stored calendar, e.g. for plans saved before
+ * calendars existed.
+ */
+export const normalizeCalendar = (calendar: Partial<ProjectCalendar> | null | undefined): ProjectCalendar => ({
+    workingDays: Array.isArray(calendar?.workingDays) ? calendar.workingDays : DEFAULT_PROJECT_CALENDAR.workingDays,
+    holidays: Array.isArray(calendar?.holidays) ? calendar.holidays : [],
+    blackouts: Array.isArray(calendar?.blackouts) ? calendar.blackouts : [],
+});
+
+/**
+ * Explains why no work is scheduled on a day.
+ * @returns The holiday or blackout name, "Weekly off", or null on a working day.
+ */
+export const getNonWorkingReason = (date: Date, calendar: ProjectCalendar): string | null => {
+    const key = toDateKey(date);
+    const holiday = calendar.holidays.find(h => h.date === key);
+    if (holiday) return holiday.name || 'Holiday';
+    // Date keys sort chronologically, so ranges can be checked as strings.
+    const blackout = calendar.blackouts.find(b => b.startDate <= key && key <= b.endDate);
+    if (blackout) return blackout.name || 'Blackout';
+    // A calendar without any working weekdays would never schedule anything; ignore it.
+    if (calendar.workingDays.length > 0 && !calendar.workingDays.includes(date.getDay())) return 'Weekly off';
+    return null;
+};
+
+export const isWorkingDay = (date: Date, calendar: ProjectCalendar): boolean =>
+    getNonWorkingReason(date, calendar) === null;
+
+/**
+ * The first working day on or after a date. If none is found within a few years
+ * the date itself is returned, so a fully blocked calendar cannot hang scheduling.
+ */
+export const nextWorkingDay = (date: Date, calendar: ProjectCalendar): Date => {
+    let candidate = new Date(date);
+    for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+        if (isWorkingDay(candidate, calendar)) return candidate;
+        candidate = addDays(candidate, 1);
+    }
+    return new Date(date);
+};
+
+/**
+ * The last working day on or before a date, with the same safeguard as `nextWorkingDay`.
+ */
+export const previousWorkingDay = (date: Date, calendar: ProjectCalendar): Date => {
+    let candidate = new Date(date);
+    for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+        if (isWorkingDay(candidate, calendar)) return candidate;
+        candidate = addDays(candidate, -1);
+    }
+    return new Date(date);
+};
+
+/**
+ * Moves a date forwards (or backwards, for negative counts) by a number of working days.
+ * @param date The working day to count from.
+ * @param workingDays How many working days to move. Zero returns the date unchanged.
+ */
+export const addWorkingDays = (date: Date, workingDays: number, calendar: ProjectCalendar): Date => {
+    const step = workingDays < 0 ? -1 : 1;
+    let result = new Date(date);
+    for (let remaining = Math.abs(workingDays); remaining > 0; remaining--) {
+        result = step > 0 ? nextWorkingDay(addDays(result, 1), calendar) : previousWorkingDay(addDays(result, -1), calendar);
+    }
+    return result;
+};
+
+/** Counts the working days between two dates, both inclusive. */
+export const countWorkingDays = (startDate: Date, endDate: Date, calendar: ProjectCalendar): number => {
+    let count = 0;
+    const endKey = toDateKey(endDate);
+    for (let date = new Date(startDate); toDateKey(date) <= endKey; date = addDays(date, 1)) {
+        if (isWorkingDay(date, calendar)) count++;
+    }
+    return count;
+};
+
+/**
+ * How many working days lie between two dates: positive when `to` is later,
+ * negative when it is earlier, zero for the same day.
+ */
+export const getWorkingDayOffset = (from: Date, to: Date, calendar: ProjectCalendar): number => {
+    if (toDateKey(to) >= toDateKey(from)) return countWorkingDays(addDays(from, 1), to, calendar);
+    return -countWorkingDays(addDays(to, 1), from, calendar);
+};
+
+/** The last day preparation can run: the day before the event starts. */
+export const getPreparationDeadline = (eventDates: EventDates): Date =>
+    addDays(parseDateKey(eventDates.startDate), -1);
@@ -0,0 +1,76 @@
+import { Approval, DiscussionComment, SessionAccess, Task, TeamMember } from '../types';
+
+/**
+ * Helpers for the comment threads on tasks and on the drafts awaiting their approval.
+ * People are identified by their lowercased email, which links session members,
+ * team members and the signed-in user.
+ */
+
+export interface MentionCandidate {
+    name: string;
+    email: string;
+}
+
+// A comment that mentions the signed-in user, with the task it belongs to.
+export interface MentionNotice {
+    comment: DiscussionComment;
+    task: Task;
+}
+
+/**
+ * The people who can be @mentioned: the session's members and everyone on the team
+ * with an email, listed once each.
+ */
+export const getMentionCandidates = (access: SessionAccess | null, team: TeamMember[]): MentionCandidate[] => {
+    const candidates = new Map<string, MentionCandidate>();
+    Object.values(access?.members ?? {}).forEach(member => {
+        const email = member.email?.toLowerCase();
+        if (email) candidates.set(email, { name: member.displayName || email.split('@')[0], email });
+    });
+    team.forEach(member => {
+        if (member.email && !candidates.has(member.email)) candidates.set(member.email, { name: member.name, email: member.email });
+    });
+    return [...candidates.values()];
+};
+
+/**
+ * The emails of the candidates mentioned in a comment as "@Name".
+ */
+export const findMentions = (body: string, candidates: MentionCandidate[]): string[] => {
+    const text = body.toLowerCase();
+    return candidates.filter(c => text.includes(`@${c.name.toLowerCase()}`)).map(c => c.email);
+};
+
+/**
+ * Everything said about a task, including comments on its draft awaiting approval,
+ * oldest first.
+ */
+export const getTaskComments = (task: Task, approvals: Approval[]): DiscussionComment[] => {
+    const approvalComments = approvals.filter(a => a.taskId === task.id).flatMap(a => a.comments ?? []);
+    const comments = [...(task.comments ?? []), ...approvalComments];
+    return approvalComments.length > 0 ? comments.sort((a, b) => a.createdAt.localeCompare(b.createdAt)) : comments;
+};
+
+/**
+ * How many comments by other people were made after the user last read the thread.
+ */
+export const countUnreadComments = (comments: DiscussionComment[], lastReadAt: string | undefined, email: string | null): number =>
+    comments.filter(c => c.authorEmail !== email && (!lastReadAt || c.createdAt > lastReadAt)).length;
+
+/**
+ * The comments that mention the user, newest first.
+ */
+export const getMentionNotices = (tasks: Task[], approvals: Approval[], email: string | null): MentionNotice[] => {
+    if (!email) return [];
+    return tasks
+        .flatMap(task => getTaskComments(task, approvals)
+            .filter(comment => comment.mentions.includes(email) && comment.authorEmail !== email)
+            .map(comment => ({ comment, task })))
+        .sort((a, b) => b.comment.createdAt.localeCompare(a.comment.createdAt));
+};
+
+/**
+ * Formats a discussion as context for an agent regenerating the task's content.
+ */
+export const formatCommentsForPrompt = (comments: DiscussionComment[]): string =>
+    comments.map(c => `- ${c.authorName}${c.replyTo ? ' (reply)' : ''}: ${c.body}`).join('\n');
@@ -2,10 +2,9 @@
 
 import {
   collection,
-  addDoc,
   serverTimestamp,
   query,
-  orderBy,
+  where,
   getDocs,
   doc,
   getDoc,
@@ -13,24 +12,63 @@ import {
   setDoc,
   deleteDoc,
   updateDoc,
+  writeBatch,
+  orderBy,
+  onSnapshot,
+  runTransaction,
+  arrayUnion,
+  arrayRemove,
+  deleteField,
+  FieldPath,
+  DocumentData,
+  DocumentReference,
+  WriteBatch,
+  Unsubscribe,
 } from 'firebase/firestore';
 import { db } from './firebase';
-import { AppState, SavedSession, UserProfile, LoadedSessionState } from '../types';
+import { ActivityLog, AppState, Attendee, PlanTemplate, RegistrationPage, RegistrationStatus, SavedSession, UserProfile, LoadedSessionState, SessionAccess, SessionInvite, SessionMember, SessionRole, Task, Approval } from '../types';
+import { ChangedFields, StateChanges } from './sessionSync';
+import { normalizeCalendar } from './calendar';
+import { normalizeAgents } from './agentRegistry';
+import { createTicketCode } from './registration';
 
 const USERS_COLLECTION = 'users';
 const SESSIONS_COLLECTION = 'sessions';
+const TASKS_SUBCOLLECTION = 'tasks';
+const APPROVALS_SUBCOLLECTION = 'approvals';
+const LOGS_SUBCOLLECTION = 'logs';
+const TEMPLATES_SUBCOLLECTION = 'templates';
+// Registration lives outside the session, since anyone with the form's link may read it.
+const REGISTRATIONS_COLLECTION = 'registrations';
+const TICKET_COUNTS_SUBCOLLECTION = 'ticketCounts';
+const ATTENDEES_SUBCOLLECTION = 'attendees';
+
+// Version 2 sessions keep tasks, approvals and logs in subcollections. Older
+// sessions embed them in the session document and are upgraded when opened.
+const SESSION_SCHEMA_VERSION = 2;
+
+// Firestore allows at most 500 writes per batch.
+const MAX_BATCH_SIZE = 450;
+
+// How long a member's browser may hold a task before another member's browser can take it over.
+const TASK_CLAIM_LEASE_MS = 5 * 60 * 1000;
+
+// The signed-in user, as needed to record membership.
+type SessionUser = Omit<SessionMember, 'role'>;
 
 /**
  * Recursively removes properties with `undefined` values from an object or array.
  * Firestore does not support `undefined` values and will throw an error.
  * This function sanitizes the state before it's sent to the database.
+ * Only plain objects are copied; dates, Timestamps and sentinels such as
+ * `deleteField()` are passed through as they are.
  * @param obj The object or array to clean.
  * @returns A new object or array with `undefined` values removed.
  */
 const removeUndefinedValues = (obj: any): any => {
   if (Array.isArray(obj)) {
     return obj.map(item => removeUndefinedValues(item));
-  } else if (obj !== null && typeof obj === 'object') {
+  } else if (obj !== null && typeof obj === 'object' && Object.getPrototypeOf(obj) === Object.prototype) {
     const newObj: { [key: string]: any } = {};
     for (const key in obj) {
       if (Object.prototype.hasOwnProperty.call(obj, key)) {
@@ -45,6 +83,201 @@ const removeUndefinedValues = (obj: any): any => {
   return obj;
 };
 
+const toPermissionAwareError = (e: unknown, fallback: string): Error => {
+  if (e instanceof Error && e.message.includes('Missing or insufficient permissions')) {
+    return new Error("Firestore Error: Missing or insufficient permissions. Please check your security rules.");
+  }
+  return new Error(fallback);
+};
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+/**
+ * The fields kept on the session document itself. Tasks, approvals and logs live
+ * in subcollections so that the document stays small however long the plan runs;
+ * `taskOrder` keeps the display order of the tasks.
+ */
+const toSessionMetaFields = (state: AppState): Record<string, any> => ({
+  taskOrder: state.tasks.map(task => task.id),
+  taskCount: state.tasks.length,
+  agentStatus: state.agentStatus,
+  agentWork: state.agentWork,
+  isStarted: state.isStarted,
+  calendar: state.calendar,
+  eventDates: state.eventDates,
+  team: state.team,
+  sponsors: removeUndefinedValues(state.sponsors),
+  agents: state.agents,
+  schemaVersion: SESSION_SCHEMA_VERSION,
+});
+
+type BatchOperation = (batch: WriteBatch) => void;
+
+/**
+ * Commits writes in as many batches as needed. Operations are applied in order,
+ * so anything the security rules depend on (e.g. the session document) should come first.
+ */
+const commitInBatches = async (operations: BatchOperation[]): Promise<void> => {
+  for (let i = 0; i < operations.length; i += MAX_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    operations.slice(i, i + MAX_BATCH_SIZE).forEach(operation => operation(batch));
+    await batch.commit();
+  }
+};
+
+/**
+ * Builds the write for a task or approval that changed. Added items are written whole
+ * and removed ones deleted; for a modified item only its changed fields are updated,
+ * so that another organizer's concurrent edits to other fields are kept.
+ * @param docRef The item's document.
+ * @param item The item's current value, or undefined when it was removed.
+ * @param fields The changed fields, or null when the whole item changed.
+ */
+const toChangedItemOperation = (docRef: DocumentReference, item: object | undefined, fields: Set<string> | null): BatchOperation => batch => {
+  if (!item) {
+    batch.delete(docRef);
+  } else if (!fields) {
+    batch.set(docRef, removeUndefinedValues(item));
+  } else {
+    const values = item as Record<string, unknown>;
+    const updates: Record<string, unknown> = {};
+    fields.forEach(field => {
+      updates[field] = values[field] === undefined ? deleteField() : removeUndefinedValues(values[field]);
+    });
+    batch.update(docRef, updates);
+  }
+};
+
+/**
+ * Builds the writes that store every task, approval and log entry of a state in
+ * the session's subcollections.
+ * @param sessionDocRef The session the state belongs to.
+ * @param state The state to write.
+ * @param getLogId Optional ID for each log entry. When omitted, Firestore generates one.
+ */
+const toSubcollectionOperations = (
+  sessionDocRef: DocumentReference,
+  state: AppState,
+  getLogId?: (index: number) => string,
+): BatchOperation[] => [
+  ...state.tasks.map(task => (batch: WriteBatch) => {
+    batch.set(doc(sessionDocRef, TASKS_SUBCOLLECTION, task.id), removeUndefinedValues(task));
+  }),
+  ...state.approvals.map(approval => (batch: WriteBatch) => {
+    batch.set(doc(sessionDocRef, APPROVALS_SUBCOLLECTION, approval.id), removeUndefinedValues(approval));
+  }),
+  ...state.logs.map((log, index) => (batch: WriteBatch) => {
+    const logDocRef = getLogId
+      ? doc(sessionDocRef, LOGS_SUBCOLLECTION, getLogId(index))
+      : doc(collection(sessionDocRef, LOGS_SUBCOLLECTION));
+    batch.set(logDocRef, removeUndefinedValues(log));
+  }),
+];
+
+// Also reads Timestamps that were saved as plain `{ seconds, nanoseconds }` maps.
+const toDate = (value: any): Date => {
+  if ((value as Timestamp)?.toDate) return (value as Timestamp).toDate();
+  if (typeof value?.seconds === 'number') return new Timestamp(value.seconds, value.nanoseconds ?? 0).toDate();
+  return value ? new Date(value) : new Date();
+};
+
+const parseLog = (log: any): ActivityLog => ({ ...log, timestamp: toDate(log.timestamp) });
+
+const orderTasks = (tasks: Task[], order: string[]): Task[] => {
+  const position = new Map(order.map((id, index) => [id, index]));
+  return [...tasks].sort((a, b) => (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity));
+};
+
+const isEmbeddedSession = (data: DocumentData): boolean => (data.schemaVersion ?? 1) < SESSION_SCHEMA_VERSION;
+
+/**
+ * Combines a session document with the contents of its subcollections.
+ */
+const buildSessionState = (data: DocumentData, tasks: Task[], approvals: Approval[], logs: ActivityLog[]): LoadedSessionState => ({
+  tasks: orderTasks(tasks, data.taskOrder || []),
+  approvals,
+  logs,
+  agentStatus: data.agentStatus || {},
+  agentWork: data.agentWork || {},
+  isStarted: data.isStarted || false,
+  calendar: normalizeCalendar(data.calendar),
+  eventDates: data.eventDates ?? null,
+  team: data.team || [],
+  sponsors: data.sponsors || [],
+  agents: normalizeAgents(data.agents),
+  projectName: data.name || 'Untitled Plan',
+  goalPrompt: data.goalPrompt || data.name || '',
+});
+
+/**
+ * Reads the app state out of a session that still embeds its tasks, approvals and
+ * logs. The first saved sessions stored them as arrays, later ones as maps keyed
+ * by id, so both shapes are accepted.
+ */
+const parseEmbeddedSessionState = (data: DocumentData): LoadedSessionState => {
+  const tasks: Task[] = Array.isArray(data.tasks) ? data.tasks : Object.values(data.tasks || {});
+  const approvals: Approval[] = Array.isArray(data.approvals) ? data.approvals : Object.values(data.approvals || {});
+  const logs = (data.logs || []).map(parseLog);
+  return buildSessionState(data, tasks, approvals, logs);
+};
+
+/**
+ * Moves the tasks, approvals and logs embedded in an older session document into
+ * subcollections. Document IDs are derived from the data, so if two organizers
+ * open the plan at the same time both upgrades write the same documents. The
+ * embedded fields are only removed in the final write.
+ * @returns The upgraded session state.
+ */
+const upgradeEmbeddedSession = async (sessionDocRef: DocumentReference, data: DocumentData): Promise<LoadedSessionState> => {
+  const session = parseEmbeddedSessionState(data);
+  const { projectName, goalPrompt, ...state } = session;
+  await commitInBatches([
+    ...toSubcollectionOperations(sessionDocRef, state, index => `legacy-${index}`),
+    batch => {
+      batch.update(sessionDocRef, {
+        ...toSessionMetaFields(state),
+        tasks: deleteField(),
+        approvals: deleteField(),
+        logs: deleteField(),
+      });
+    },
+  ]);
+  return session;
+};
+
+const getSubcollectionDocs = async (sessionDocRef: DocumentReference) => {
+  const [tasksSnapshot, approvalsSnapshot, logsSnapshot] = await Promise.all([
+    getDocs(collection(sessionDocRef, TASKS_SUBCOLLECTION)),
+    getDocs(collection(sessionDocRef, APPROVALS_SUBCOLLECTION)),
+    getDocs(query(collection(sessionDocRef, LOGS_SUBCOLLECTION), orderBy('timestamp'))),
+  ]);
+  return { tasksSnapshot, approvalsSnapshot, logsSnapshot };
+};
+
+const parseSessionAccess = (data: DocumentData): SessionAccess => ({
+  ownerId: data.ownerId,
+  members: data.members || {},
+  invites: data.invites || {},
+});
+
+// The session document of a new plan, with its creator as the only member.
+const toNewSessionFields = (owner: SessionUser, name: string, goalPrompt: string, state: AppState): Record<string, any> => {
+  const member: SessionMember = { ...owner, role: 'owner' };
+  return {
+    name,
+    goalPrompt,
+    ...toSessionMetaFields(state),
+    timestamp: serverTimestamp(),
+    lastUpdated: serverTimestamp(),
+    ownerId: owner.uid,
+    members: { [owner.uid]: member },
+    memberIds: [owner.uid],
+    invites: {},
+    inviteEmails: [],
+    taskClaims: {},
+  };
+};
+
 export const getUserProfile = async (uid: string): Promise<UserProfile | null> => {
     if (!uid) return null;
     const userDocRef = doc(db, USERS_COLLECTION, uid);
@@ -62,134 +295,286 @@ export const updateUserProfile = async (uid: string, data: Partial<UserProfile>)
 };
 
 /**
- * Creates a new session document in Firestore for a user.
- * @param userUid The UID of the authenticated user.
+ * Creates a new shared session document in Firestore, owned by the given user.
+ * @param owner The authenticated user creating the plan.
  * @param state The initial state of the application to save.
- * @param goal The user's event goal, used as the initial session name and the static goal prompt.
+ * @param goal The user's event goal, used as the static goal prompt.
+ * @param name The session name. Defaults to the goal.
  * @returns The ID of the newly created session document.
  */
-export const createSession = async (userUid: string, state: AppState, goal: string): Promise<string> => {
-    if (!userUid) throw new Error("User is not authenticated.");
+export const createSession = async (owner: SessionUser, state: AppState, goal: string, name: string = goal): Promise<string> => {
+    if (!owner.uid) throw new Error("User is not authenticated.");
     try {
-        const sanitizedState = removeUndefinedValues(state);
-        const userSessionsCollection = collection(db, USERS_COLLECTION, userUid, SESSIONS_COLLECTION);
-        const docRef = await addDoc(userSessionsCollection, {
-            name: goal,
-            goalPrompt: goal,
-            ...sanitizedState,
-            timestamp: serverTimestamp(),
-            ownerId: userUid,
-        });
-        return docRef.id;
+        const sessionDocRef = doc(collection(db, SESSIONS_COLLECTION));
+        await commitInBatches([
+            batch => { batch.set(sessionDocRef, toNewSessionFields(owner, name, goal, state)); },
+            ...toSubcollectionOperations(sessionDocRef, state),
+        ]);
+        return sessionDocRef.id;
     } catch (e) {
         console.error("Error creating new session document: ", e);
         throw new Error("Failed to create a new session in Firestore.");
     }
 };
 
+// Builds the writes for the changed parts of a session, the session document last.
+const toSessionChangeOperations = (sessionDocRef: DocumentReference, state: AppState, changes: StateChanges): BatchOperation[] => {
+    const taskMap = new Map(state.tasks.map(task => [task.id, task]));
+    const approvalMap = new Map(state.approvals.map(approval => [approval.id, approval]));
+    const operations: BatchOperation[] = [];
+
+    changes.tasks.forEach((fields, id) => {
+        operations.push(toChangedItemOperation(doc(sessionDocRef, TASKS_SUBCOLLECTION, id), taskMap.get(id), fields));
+    });
+    changes.approvals.forEach((fields, id) => {
+        operations.push(toChangedItemOperation(doc(sessionDocRef, APPROVALS_SUBCOLLECTION, id), approvalMap.get(id), fields));
+    });
+    changes.logs.forEach(log => operations.push(batch => {
+        batch.set(doc(collection(sessionDocRef, LOGS_SUBCOLLECTION)), removeUndefinedValues(log));
+    }));
+
+    const sessionFields: Record<string, any> = {};
+    if (changes.taskOrder) {
+        sessionFields.taskOrder = state.tasks.map(task => task.id);
+        sessionFields.taskCount = state.tasks.length;
+    }
+    if (changes.agentStatus) sessionFields.agentStatus = state.agentStatus;
+    if (changes.agentWork) sessionFields.agentWork = state.agentWork;
+    if (changes.isStarted) sessionFields.isStarted = state.isStarted;
+    if (changes.calendar) sessionFields.calendar = removeUndefinedValues(state.calendar);
+    if (changes.eventDates) sessionFields.eventDates = state.eventDates;
+    if (changes.team) sessionFields.team = state.team;
+    if (changes.sponsors) sessionFields.sponsors = removeUndefinedValues(state.sponsors);
+    if (changes.agents) sessionFields.agents = state.agents;
+
+    if (operations.length === 0 && Object.keys(sessionFields).length === 0) return [];
+    operations.push(batch => { batch.update(sessionDocRef, { ...sessionFields, lastUpdated: serverTimestamp() }); });
+    return operations;
+};
+
+/**
+ * Leaves out the field updates of tasks and approvals whose documents no longer exist,
+ * e.g. because another organizer removed them meanwhile.
+ * @returns The remaining changes, or null when every updated document still exists.
+ */
+const withoutRemovedItems = async (sessionDocRef: DocumentReference, changes: StateChanges): Promise<StateChanges | null> => {
+    let hasRemoved = false;
+    const keepExisting = async (changed: ChangedFields, subcollection: string): Promise<ChangedFields> => {
+        const kept: ChangedFields = new Map(changed);
+        await Promise.all([...changed].filter(([, fields]) => fields).map(async ([id]) => {
+            const snapshot = await getDoc(doc(sessionDocRef, subcollection, id));
+            if (snapshot.exists()) return;
+            kept.delete(id);
+            hasRemoved = true;
+        }));
+        return kept;
+    };
+    const tasks = await keepExisting(changes.tasks, TASKS_SUBCOLLECTION);
+    const approvals = await keepExisting(changes.approvals, APPROVALS_SUBCOLLECTION);
+    return hasRemoved ? { ...changes, tasks, approvals } : null;
+};
+
 /**
- * Updates an existing session document in Firestore.
- * @param userUid The UID of the authenticated user.
+ * Writes only the parts of a session that changed. Each task, approval and log
+ * entry is its own document, so organizers editing different tasks never
+ * overwrite each other and a progress update rewrites only the fields it touched.
+ * Changes to items another organizer removed in the meantime are dropped, so they
+ * cannot fail the rest of the write.
  * @param sessionId The ID of the session document to update.
- * @param state The current application state to save.
- * @param projectName The current name of the project.
+ * @param state The current application state to read changed values from.
+ * @param changes What changed since the last write.
+ * @throws If the write fails, in which case none of the changes may have been written.
  */
-export const updateSession = async (userUid: string, sessionId: string, state: AppState, projectName: string | null): Promise<void> => {
-    if (!userUid) throw new Error("User is not authenticated.");
+export const applySessionChanges = async (sessionId: string, state: AppState, changes: StateChanges): Promise<void> => {
     if (!sessionId) throw new Error("No session is currently active.");
-    try {
-        const sanitizedState = removeUndefinedValues(state);
-        const sessionDocRef = doc(db, USERS_COLLECTION, userUid, SESSIONS_COLLECTION, sessionId);
-
-        const dataToUpdate: Record<string, any> = {
-            ...sanitizedState,
-            lastUpdated: serverTimestamp(),
-        };
 
-        if (projectName) {
-            dataToUpdate.name = projectName;
+    const sessionDocRef = doc(db, SESSIONS_COLLECTION, sessionId);
+    try {
+        try {
+            await commitInBatches(toSessionChangeOperations(sessionDocRef, state, changes));
+        } catch (e) {
+            // An update of a document that is gone fails the whole batch.
+            const remaining = (e as { code?: string }).code === 'not-found' ? await withoutRemovedItems(sessionDocRef, changes) : null;
+            if (!remaining) throw e;
+            await commitInBatches(toSessionChangeOperations(sessionDocRef, state, remaining));
         }
-
-        await setDoc(sessionDocRef, dataToUpdate, { merge: true });
     } catch (e) {
         console.error(`Error updating document (${sessionId}): `, e);
-        if (e instanceof Error && e.message.includes('Missing or insufficient permissions')) {
-            throw new Error("Firestore Error: Missing or insufficient permissions. Please check your security rules.");
-        }
-        throw new Error("Failed to update session in Firestore.");
+        throw toPermissionAwareError(e, "Failed to update session in Firestore.");
     }
 };
 
+/**
+ * Listens to a session and its subcollections for live updates from other organizers.
+ * Older sessions that still embed their data are upgraded the first time they are seen.
+ * @param sessionId The ID of the session to follow.
+ * @param onChange Called with the latest state and membership whenever the session changes on the server.
+ * @param onError Called once if the session is deleted or the user loses access to it.
+ * @returns A function that stops listening.
+ */
+export const subscribeToSession = (
+    sessionId: string,
+    onChange: (session: LoadedSessionState, access: SessionAccess) => void,
+    onError: (error: Error) => void,
+): Unsubscribe => {
+    const sessionDocRef = doc(db, SESSIONS_COLLECTION, sessionId);
+    let sessionData: DocumentData | null = null;
+    let tasks: Task[] | null = null;
+    let approvals: Approval[] | null = null;
+    let logs: ActivityLog[] | null = null;
+    let hasTriedUpgrade = false;
+    let hasFailed = false;
+
+    // Only report once everything has arrived, so a half-loaded plan is never shown.
+    const emit = () => {
+        if (!sessionData || hasFailed) return;
+        if (isEmbeddedSession(sessionData)) {
+            onChange(parseEmbeddedSessionState(sessionData), parseSessionAccess(sessionData));
+        } else if (tasks && approvals && logs) {
+            onChange(buildSessionState(sessionData, tasks, approvals, logs), parseSessionAccess(sessionData));
+        }
+    };
+
+    const fail = (error: Error) => {
+        if (hasFailed) return;
+        hasFailed = true;
+        onError(error);
+    };
+
+    const handleError = (e: { code: string }) => {
+        console.error(`Error listening to session (${sessionId}): `, e);
+        fail(e.code === 'permission-denied'
+            ? new Error("You no longer have access to this plan.")
+            : new Error("Lost connection to the shared plan."));
+    };
+
+    // Our own writes are already reflected locally, so each listener waits for the server's copy.
+    // Metadata changes are included so that the snapshot confirming a write still fires,
+    // carrying any changes from other organizers that arrived while it was pending.
+    const options = { includeMetadataChanges: true };
+    const unsubscribes = [
+        onSnapshot(sessionDocRef, options, snapshot => {
+            if (snapshot.metadata.hasPendingWrites) return;
+            if (!snapshot.exists()) {
+                fail(new Error("This plan has been deleted."));
+                return;
+            }
+            sessionData = snapshot.data();
+            if (isEmbeddedSession(sessionData) && !hasTriedUpgrade) {
+                hasTriedUpgrade = true;
+                // Viewers cannot write, so for them the plan keeps being read in its old shape.
+                upgradeEmbeddedSession(sessionDocRef, sessionData).catch(e => console.error(`Could not upgrade session (${sessionId}): `, e));
+            }
+            emit();
+        }, handleError),
+        onSnapshot(collection(sessionDocRef, TASKS_SUBCOLLECTION), options, snapshot => {
+            if (snapshot.metadata.hasPendingWrites) return;
+            tasks = snapshot.docs.map(taskDoc => taskDoc.data() as Task);
+            emit();
+        }, handleError),
+        onSnapshot(collection(sessionDocRef, APPROVALS_SUBCOLLECTION), options, snapshot => {
+            if (snapshot.metadata.hasPendingWrites) return;
+            approvals = snapshot.docs.map(approvalDoc => approvalDoc.data() as Approval);
+            emit();
+        }, handleError),
+        onSnapshot(query(collection(sessionDocRef, LOGS_SUBCOLLECTION), orderBy('timestamp')), options, snapshot => {
+            if (snapshot.metadata.hasPendingWrites) return;
+            logs = snapshot.docs.map(logDoc => parseLog(logDoc.data()));
+            emit();
+        }, handleError),
+    ];
+
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+};
+
 /**
  * Updates the name of a specific session document.
- * @param userUid The UID of the authenticated user.
  * @param sessionId The ID of the session to update.
  * @param newName The new name for the session.
  */
-export const updateSessionName = async (userUid: string, sessionId: string, newName: string): Promise<void> => {
-    if (!userUid) throw new Error("User is not authenticated.");
+export const updateSessionName = async (sessionId: string, newName: string): Promise<void> => {
     if (!sessionId) throw new Error("Session ID is required.");
     if (!newName.trim()) throw new Error("Session name cannot be empty.");
 
-    const sessionDocRef = doc(db, USERS_COLLECTION, userUid, SESSIONS_COLLECTION, sessionId);
+    const sessionDocRef = doc(db, SESSIONS_COLLECTION, sessionId);
     await updateDoc(sessionDocRef, {
         name: newName.trim()
     });
 };
 
-export const getSavedSessions = async (userUid: string): Promise<SavedSession[]> => {
-  if (!userUid) throw new Error("User is not authenticated.");
+/**
+ * Lists the sessions the user is a member of, plus any they have been invited to.
+ * @param user The authenticated user.
+ * @returns The sessions, most recent first.
+ */
+export const getSavedSessions = async (user: SessionUser): Promise<SavedSession[]> => {
+  if (!user.uid) throw new Error("User is not authenticated.");
   try {
-    const sessionsCollectionRef = collection(db, USERS_COLLECTION, userUid, SESSIONS_COLLECTION);
-    const q = query(sessionsCollectionRef, orderBy('timestamp', 'desc'));
-    const querySnapshot = await getDocs(q);
-    const sessions: SavedSession[] = [];
-    querySnapshot.forEach((doc) => {
+    const sessionsCollectionRef = collection(db, SESSIONS_COLLECTION);
+    const queries = [query(sessionsCollectionRef, where('memberIds', 'array-contains', user.uid))];
+    if (user.email) {
+        queries.push(query(sessionsCollectionRef, where('inviteEmails', 'array-contains', normalizeEmail(user.email))));
+    }
+    const snapshots = await Promise.all(queries.map(q => getDocs(q)));
+
+    const sessions = new Map<string, SavedSession>();
+    snapshots.forEach(querySnapshot => querySnapshot.forEach((doc) => {
+      if (sessions.has(doc.id)) return;
       const data = doc.data() as any;
       const timestamp = (data.timestamp as Timestamp)?.toDate() || new Date();
-      sessions.push({
+      const access = parseSessionAccess(data);
+      const member = access.members[user.uid];
+      const invite = user.email ? access.invites[normalizeEmail(user.email)] : undefined;
+      const taskCount = data.taskCount ?? (Array.isArray(data.tasks) ? data.tasks.length : Object.keys(data.tasks || {}).length);
+      sessions.set(doc.id, {
         id: doc.id,
         name: data.name || `Plan from ${timestamp.toLocaleString()}`,
         timestamp: timestamp,
-        taskCount: data.tasks?.length || 0,
+        taskCount,
+        role: member?.role ?? invite?.role ?? 'viewer',
+        ownerName: access.members[access.ownerId]?.displayName ?? null,
+        isInvite: !member,
       });
-    });
-    return sessions;
+    }));
+    // Sorted here rather than in the query to avoid needing composite indexes.
+    return Array.from(sessions.values()).sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
   } catch (e) {
     console.error("Error getting documents: ", e);
-    if (e instanceof Error && e.message.includes('Missing or insufficient permissions')) {
-        throw new Error("Firestore Error: Missing or insufficient permissions. Please check your security rules.");
-    }
-    throw new Error("Failed to fetch saved sessions from Firestore.");
+    throw toPermissionAwareError(e, "Failed to fetch saved sessions from Firestore.");
   }
 };
 
-export const loadSessionFromFirestore = async (userUid: string, sessionId: string): Promise<LoadedSessionState> => {
-  if (!userUid) throw new Error("User is not authenticated.");
+/**
+ * Loads a session with its tasks, approvals and logs. Sessions that still embed
+ * them in the session document are upgraded to subcollections on the way.
+ * @param sessionId The ID of the session to load.
+ */
+export const loadSessionFromFirestore = async (sessionId: string): Promise<LoadedSessionState> => {
   try {
-    const docRef = doc(db, USERS_COLLECTION, userUid, SESSIONS_COLLECTION, sessionId);
+    const docRef = doc(db, SESSIONS_COLLECTION, sessionId);
     const docSnap = await getDoc(docRef);
-    if (docSnap.exists()) {
-      const data = docSnap.data() as any;
-      
-      const logsWithDates = (data.logs || []).map((log: any) => ({
-          ...log,
-          timestamp: (log.timestamp as Timestamp)?.toDate ? (log.timestamp as Timestamp).toDate() : new Date(log.timestamp)
-      }));
-
-      return {
-          tasks: data.tasks || [],
-          approvals: data.approvals || [],
-          logs: logsWithDates,
-          agentStatus: data.agentStatus || {},
-          agentWork: data.agentWork || {},
-          isStarted: data.isStarted || false,
-          projectName: data.name || 'Untitled Plan',
-          goalPrompt: data.goalPrompt || data.name || '',
-      };
-    } else {
+    if (!docSnap.exists()) {
       throw new Error("No such session found!");
     }
+    const data = docSnap.data();
+
+    if (isEmbeddedSession(data)) {
+      try {
+        return await upgradeEmbeddedSession(docRef, data);
+      } catch (upgradeError) {
+        // e.g. a viewer opening an old plan: show it as it is.
+        console.error(`Could not upgrade session (${sessionId}), loading it as-is: `, upgradeError);
+        return parseEmbeddedSessionState(data);
+      }
+    }
+
+    const { tasksSnapshot, approvalsSnapshot, logsSnapshot } = await getSubcollectionDocs(docRef);
+    return buildSessionState(
+      data,
+      tasksSnapshot.docs.map(taskDoc => taskDoc.data() as Task),
+      approvalsSnapshot.docs.map(approvalDoc => approvalDoc.data() as Approval),
+      logsSnapshot.docs.map(logDoc => parseLog(logDoc.data())),
+    );
   } catch (e) {
     console.error("Error loading document: ", e);
     throw new Error(`Failed to load session ${sessionId}.`);
@@ -197,18 +582,363 @@ export const loadSessionFromFirestore = async (userUid: string, sessionId: strin
 };
 
 /**
- * Deletes a specific session document from Firestore for a user.
- * @param userUid The UID of the authenticated user.
+ * Turns a pending invite for the user's email into a membership.
+ * @param sessionId The session the user was invited to.
+ * @param user The authenticated user accepting the invite.
+ * @returns The role granted by the invite.
+ */
+export const acceptSessionInvite = async (sessionId: string, user: SessionUser): Promise<SessionRole> => {
+    if (!user.email) throw new Error("An email address is required to accept an invite.");
+    const email = normalizeEmail(user.email);
+    const sessionDocRef = doc(db, SESSIONS_COLLECTION, sessionId);
+    try {
+        return await runTransaction(db, async transaction => {
+            const snapshot = await transaction.get(sessionDocRef);
+            if (!snapshot.exists()) throw new Error("No such session found!");
+            const invite: SessionInvite | undefined = parseSessionAccess(snapshot.data()).invites[email];
+            if (!invite) throw new Error("This invite is no longer valid.");
+
+            const member: SessionMember = { ...user, role: invite.role };
+            transaction.update(sessionDocRef,
+                new FieldPath('members', user.uid), member,
+                'memberIds', arrayUnion(user.uid),
+                new FieldPath('invites', email), deleteField(),
+                'inviteEmails', arrayRemove(email),
+            );
+            return invite.role;
+        });
+    } catch (e) {
+        console.error(`Error accepting invite (${sessionId}): `, e);
+        throw e instanceof Error && e.message === "This invite is no longer valid." ? e : toPermissionAwareError(e, "Failed to accept the invite.");
+    }
+};
+
+/**
+ * Invites someone to a session by email. They become a member the first time they open it.
+ * @param sessionId The session to share.
+ * @param email The invitee's email address.
+ * @param role The role they will have.
+ * @param invitedBy The UID of the member sending the invite.
+ */
+export const inviteToSession = async (sessionId: string, email: string, role: SessionInvite['role'], invitedBy: string): Promise<void> => {
+    const normalizedEmail = normalizeEmail(email);
+    if (!normalizedEmail.includes('@')) throw new Error("Please enter a valid email address.");
+    const invite: SessionInvite = { email: normalizedEmail, role, invitedBy };
+    try {
+        await updateDoc(doc(db, SESSIONS_COLLECTION, sessionId),
+            new FieldPath('invites', normalizedEmail), invite,
+            'inviteEmails', arrayUnion(normalizedEmail),
+        );
+    } catch (e) {
+        console.error(`Error inviting to session (${sessionId}): `, e);
+        throw toPermissionAwareError(e, "Failed to send the invite.");
+    }
+};
+
+export const revokeSessionInvite = async (sessionId: string, email: string): Promise<void> => {
+    const normalizedEmail = normalizeEmail(email);
+    try {
+        await updateDoc(doc(db, SESSIONS_COLLECTION, sessionId),
+            new FieldPath('invites', normalizedEmail), deleteField(),
+            'inviteEmails', arrayRemove(normalizedEmail),
+        );
+    } catch (e) {
+        console.error(`Error revoking invite (${sessionId}): `, e);
+        throw toPermissionAwareError(e, "Failed to revoke the invite.");
+    }
+};
+
+export const updateSessionMemberRole = async (sessionId: string, uid: string, role: Exclude<SessionRole, 'owner'>): Promise<void> => {
+    try {
+        await updateDoc(doc(db, SESSIONS_COLLECTION, sessionId), new FieldPath('members', uid, 'role'), role);
+    } catch (e) {
+        console.error(`Error updating member role (${sessionId}): `, e);
+        throw toPermissionAwareError(e, "Failed to change the member's role.");
+    }
+};
+
+export const linkSessionMemberToTeam = async (sessionId: string, uid: string, teamMemberId: string | null): Promise<void> => {
+    try {
+        await updateDoc(doc(db, SESSIONS_COLLECTION, sessionId), new FieldPath('members', uid, 'teamMemberId'), teamMemberId ?? deleteField());
+    } catch (e) {
+        console.error(`Error linking member to the team (${sessionId}): `, e);
+        throw toPermissionAwareError(e, "Failed to link the member to the team.");
+    }
+};
+
+export const removeSessionMember = async (sessionId: string, uid: string): Promise<void> => {
+    try {
+        await updateDoc(doc(db, SESSIONS_COLLECTION, sessionId),
+            new FieldPath('members', uid), deleteField(),
+            'memberIds', arrayRemove(uid),
+        );
+    } catch (e) {
+        console.error(`Error removing member (${sessionId}): `, e);
+        throw toPermissionAwareError(e, "Failed to remove the member.");
+    }
+};
+
+/**
+ * Claims a task so that only one organizer's browser runs its agent work.
+ * @param sessionId The session the task belongs to.
+ * @param taskId The task about to be worked on.
+ * @param uid The user whose browser will do the work.
+ * @returns False if another member currently holds the task.
+ */
+export const claimTask = async (sessionId: string, taskId: string, uid: string): Promise<boolean> => {
+    const sessionDocRef = doc(db, SESSIONS_COLLECTION, sessionId);
+    return runTransaction(db, async transaction => {
+        const snapshot = await transaction.get(sessionDocRef);
+        const claim = snapshot.data()?.taskClaims?.[taskId] as { uid: string; expiresAt: number } | undefined;
+        if (claim && claim.uid !== uid && claim.expiresAt > Date.now()) {
+            return false;
+        }
+        transaction.update(sessionDocRef, new FieldPath('taskClaims', taskId), { uid, expiresAt: Date.now() + TASK_CLAIM_LEASE_MS });
+        return true;
+    });
+};
+
+export const releaseTaskClaim = async (sessionId: string, taskId: string): Promise<void> => {
+    await updateDoc(doc(db, SESSIONS_COLLECTION, sessionId), new FieldPath('taskClaims', taskId), deleteField());
+};
+
+/**
+ * Publishes or updates a plan's registration form. Each ticket type's capacity is kept on
+ * its counter too, where the security rules check registrations against it.
+ */
+export const saveRegistrationPage = async (sessionId: string, page: RegistrationPage): Promise<void> => {
+    const pageDocRef = doc(db, REGISTRATIONS_COLLECTION, sessionId);
+    try {
+        await runTransaction(db, async transaction => {
+            const counterRefs = page.ticketTypes.map(ticketType => doc(pageDocRef, TICKET_COUNTS_SUBCOLLECTION, ticketType.id));
+            const counters = await Promise.all(counterRefs.map(counterRef => transaction.get(counterRef)));
+            transaction.set(pageDocRef, removeUndefinedValues(page));
+            page.ticketTypes.forEach((ticketType, i) => {
+                if (counters[i].exists()) {
+                    transaction.update(counterRefs[i], { capacity: ticketType.capacity });
+                } else {
+                    transaction.set(counterRefs[i], { count: 0, capacity: ticketType.capacity, lastAttendeeId: null });
+                }
+            });
+        });
+    } catch (e) {
+        console.error(`Error saving registration form (${sessionId}): `, e);
+        throw toPermissionAwareError(e, "Failed to save the registration form.");
+    }
+};
+
+/**
+ * Listens to a plan's registration form and how many have registered for each ticket type.
+ * Needs no sign-in, so the public form uses it too.
+ * @param onChange Called with null while the plan has no registration form.
+ * @returns A function that stops listening.
+ */
+export const subscribeToRegistration = (
+    sessionId: string,
+    onChange: (status: RegistrationStatus | null) => void,
+    onError: (error: Error) => void,
+): Unsubscribe => {
+    const pageDocRef = doc(db, REGISTRATIONS_COLLECTION, sessionId);
+    let page: RegistrationPage | null | undefined;
+    let counts: Record<string, number> | undefined;
+
+    const emit = () => {
+        if (page === undefined || counts === undefined) return;
+        onChange(page ? { page, counts } : null);
+    };
+
+    const handleError = (e: Error) => {
+        console.error(`Error listening to registration (${sessionId}): `, e);
+        onError(new Error("Could not load the registration form."));
+    };
+
+    const unsubscribes = [
+        onSnapshot(pageDocRef, snapshot => {
+            page = snapshot.exists() ? snapshot.data() as RegistrationPage : null;
+            emit();
+        }, handleError),
+        onSnapshot(collection(pageDocRef, TICKET_COUNTS_SUBCOLLECTION), snapshot => {
+            counts = Object.fromEntries(snapshot.docs.map(countDoc => [countDoc.id, countDoc.data().count as number]));
+            emit();
+        }, handleError),
+    ];
+
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+};
+
+/**
+ * Registers someone through the public form. The attendee is only added together with
+ * the increment of their ticket type's counter, so a ticket type never oversells.
+ * @returns The attendee with their ticket code.
+ */
+export const registerAttendee = async (sessionId: string, registration: Pick<Attendee, 'name' | 'email' | 'ticketTypeId'>): Promise<Attendee> => {
+    const pageDocRef = doc(db, REGISTRATIONS_COLLECTION, sessionId);
+    const counterDocRef = doc(pageDocRef, TICKET_COUNTS_SUBCOLLECTION, registration.ticketTypeId);
+    const attendeeDocRef = doc(collection(pageDocRef, ATTENDEES_SUBCOLLECTION));
+    const attendee: Attendee = {
+        id: attendeeDocRef.id,
+        name: registration.name.trim(),
+        email: normalizeEmail(registration.email),
+        ticketTypeId: registration.ticketTypeId,
+        ticketCode: createTicketCode(),
+        registeredAt: new Date().toISOString(),
+    };
+
+    let problem: string | null;
+    try {
+        problem = await runTransaction(db, async transaction => {
+            const pageSnapshot = await transaction.get(pageDocRef);
+            const counterSnapshot = await transaction.get(counterDocRef);
+            if (!pageSnapshot.data()?.isOpen) return "Registration is closed.";
+            const counter = counterSnapshot.data();
+            if (!counter || counter.count >= counter.capacity) return "This ticket is sold out.";
+            transaction.update(counterDocRef, { count: counter.count + 1, lastAttendeeId: attendee.id });
+            transaction.set(attendeeDocRef, attendee);
+            return null;
+        });
+    } catch (e) {
+        console.error(`Error registering for (${sessionId}): `, e);
+        throw new Error("Registration failed. Please try again.");
+    }
+    if (problem) throw new Error(problem);
+    return attendee;
+};
+
+/**
+ * Listens to the attendees of a plan, in the order they registered. Only the plan's
+ * members may see them.
+ * @returns A function that stops listening.
+ */
+export const subscribeToAttendees = (
+    sessionId: string,
+    onChange: (attendees: Attendee[]) => void,
+    onError: (error: Error) => void,
+): Unsubscribe => {
+    const attendeesRef = collection(db, REGISTRATIONS_COLLECTION, sessionId, ATTENDEES_SUBCOLLECTION);
+    return onSnapshot(query(attendeesRef, orderBy('registeredAt')), snapshot => {
+        onChange(snapshot.docs.map(attendeeDoc => attendeeDoc.data() as Attendee));
+    }, e => {
+        console.error(`Error listening to attendees (${sessionId}): `, e);
+        onError(toPermissionAwareError(e, "Could not load the attendees."));
+    });
+};
+
+export const setAttendeeCheckedIn = async (sessionId: string, attendeeId: string, checkedIn: boolean): Promise<void> => {
+    try {
+        await updateDoc(doc(db, REGISTRATIONS_COLLECTION, sessionId, ATTENDEES_SUBCOLLECTION, attendeeId), {
+            checkedInAt: checkedIn ? new Date().toISOString() : deleteField(),
+        });
+    } catch (e) {
+        console.error(`Error checking in attendee (${attendeeId}): `, e);
+        throw toPermissionAwareError(e, "Failed to update the check-in.");
+    }
+};
+
+/**
+ * Deletes a session and everything in it from Firestore. Only the owner may do this.
  * @param sessionId The ID of the session document to delete.
  */
-export const deleteSession = async (userUid: string, sessionId: string): Promise<void> => {
-    if (!userUid) throw new Error("User is not authenticated.");
+export const deleteSession = async (sessionId: string): Promise<void> => {
     if (!sessionId) throw new Error("Session ID is required to delete.");
     try {
-        const sessionDocRef = doc(db, USERS_COLLECTION, userUid, SESSIONS_COLLECTION, sessionId);
+        const sessionDocRef = doc(db, SESSIONS_COLLECTION, sessionId);
+        // Firestore does not delete subcollections with their parent document.
+        const { tasksSnapshot, approvalsSnapshot, logsSnapshot } = await getSubcollectionDocs(sessionDocRef);
+        await commitInBatches([tasksSnapshot, approvalsSnapshot, logsSnapshot].flatMap(snapshot =>
+            snapshot.docs.map(subDoc => (batch: WriteBatch) => { batch.delete(subDoc.ref); })));
+        // The registration form and its attendees go first, while the rules can still see who owns them.
+        const registrationDocRef = doc(db, REGISTRATIONS_COLLECTION, sessionId);
+        const [countsSnapshot, attendeesSnapshot] = await Promise.all([
+            getDocs(collection(registrationDocRef, TICKET_COUNTS_SUBCOLLECTION)),
+            getDocs(collection(registrationDocRef, ATTENDEES_SUBCOLLECTION)),
+        ]);
+        await commitInBatches([
+            ...[countsSnapshot, attendeesSnapshot].flatMap(snapshot =>
+                snapshot.docs.map(subDoc => (batch: WriteBatch) => { batch.delete(subDoc.ref); })),
+            batch => { batch.delete(registrationDocRef); },
+        ]);
         await deleteDoc(sessionDocRef);
     } catch (e) {
         console.error(`Error deleting document (${sessionId}): `, e);
         throw new Error("Failed to delete session from Firestore.");
     }
 };
+
+/**
+ * Saves a plan template in the user's own templates.
+ * @returns The template with its new ID.
+ */
+export const saveTemplate = async (uid: string, template: Omit<PlanTemplate, 'id'>): Promise<PlanTemplate> => {
+    if (!uid) throw new Error("User is not authenticated.");
+    try {
+        const templateDocRef = doc(collection(db, USERS_COLLECTION, uid, TEMPLATES_SUBCOLLECTION));
+        await setDoc(templateDocRef, removeUndefinedValues({ ...template, createdAt: Timestamp.fromDate(template.createdAt) }));
+        return { ...template, id: templateDocRef.id };
+    } catch (e) {
+        console.error("Error saving template: ", e);
+        throw toPermissionAwareError(e, "Failed to save the template.");
+    }
+};
+
+/**
+ * Lists the user's plan templates, newest first.
+ */
+export const getTemplates = async (uid: string): Promise<PlanTemplate[]> => {
+    if (!uid) throw new Error("User is not authenticated.");
+    try {
+        const snapshot = await getDocs(collection(db, USERS_COLLECTION, uid, TEMPLATES_SUBCOLLECTION));
+        return snapshot.docs
+            .map(templateDoc => {
+                const data = templateDoc.data();
+                return {
+                    id: templateDoc.id,
+                    name: data.name || 'Untitled Template',
+                    goalPrompt: data.goalPrompt || '',
+                    tasks: data.tasks || [],
+                    eventDates: data.eventDates ?? null,
+                    workingDays: normalizeCalendar({ workingDays: data.workingDays }).workingDays,
+                    agents: normalizeAgents(data.agents),
+                    createdAt: toDate(data.createdAt),
+                };
+            })
+            .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    } catch (e) {
+        console.error("Error getting templates: ", e);
+        throw toPermissionAwareError(e, "Failed to fetch templates.");
+    }
+};
+
+export const deleteTemplate = async (uid: string, templateId: string): Promise<void> => {
+    if (!uid || !templateId) throw new Error("User and template ID are required to delete a template.");
+    await deleteDoc(doc(db, USERS_COLLECTION, uid, TEMPLATES_SUBCOLLECTION, templateId));
+};
+
+/**
+ * Moves sessions saved under `users/{uid}/sessions`, from before plans could be
+ * shared, to the top-level collection. Session IDs are kept, so links and the
+ * locally remembered current session keep working.
+ * @param owner The authenticated user whose sessions should be moved.
+ * @returns The number of sessions moved.
+ */
+export const migrateLegacySessions = async (owner: SessionUser): Promise<number> => {
+    if (!owner.uid) throw new Error("User is not authenticated.");
+    const legacySnapshot = await getDocs(collection(db, USERS_COLLECTION, owner.uid, SESSIONS_COLLECTION));
+
+    await Promise.all(legacySnapshot.docs.map(async legacyDoc => {
+        const data = legacyDoc.data();
+        const { projectName, goalPrompt, ...state } = parseEmbeddedSessionState(data);
+        const sessionDocRef = doc(db, SESSIONS_COLLECTION, legacyDoc.id);
+        await commitInBatches([
+            batch => {
+                batch.set(sessionDocRef, {
+                    ...toNewSessionFields(owner, projectName, goalPrompt, state),
+                    timestamp: data.timestamp ?? serverTimestamp(),
+                    lastUpdated: data.lastUpdated ?? serverTimestamp(),
+                });
+            },
+            ...toSubcollectionOperations(sessionDocRef, state, index => `legacy-${index}`),
+        ]);
+        await deleteDoc(legacyDoc.ref);
+    }));
+    return legacySnapshot.size;
+};
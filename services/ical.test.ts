@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { TaskStatus } from '../types';
+import { DEFAULT_PROJECT_CALENDAR } from '../constants';
+import { exportPlanToICal, ICalEvent, parseICal, planICalImport, ScheduledDates } from './ical';
+import { createTask } from './testUtils';
+
+// Monday 2 March 2026 onwards, in local time like the timeline.
+const day = (date: number) => new Date(2026, 2, date);
+
+const tasks = [
+    createTask('venue', { title: 'Book venue, stage; lights', description: 'Call the hall\nand the stage crew', estimatedDuration: 2, status: TaskStatus.COMPLETED }),
+    createTask('posters', { dependsOn: ['venue', 'design'], estimatedDuration: 3 }),
+    createTask('design', { estimatedDuration: 1 }),
+];
+const schedule = new Map<string, ScheduledDates>([
+    ['venue', { start: day(2), end: day(3) }],
+    ['posters', { start: day(4), end: day(6) }],
+    ['design', { start: day(2), end: day(2) }],
+]);
+
+const exportPlan = (planId: string | null) => exportPlanToICal(tasks, schedule, {
+    planId,
+    projectName: 'TechFest',
+    eventDates: { startDate: '2026-03-20', endDate: '2026-03-21' },
+    team: [],
+    now: new Date('2026-03-01T10:00:00Z'),
+});
+
+describe('exportPlanToICal', () => {
+    it('writes every scheduled task and the event as all-day events', () => {
+        const ics = exportPlan('plan-1');
+        expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+        expect(ics).toContain('UID:venue.plan-1@festflow');
+        expect(ics).toContain('UID:event.plan-1@festflow');
+        expect(ics).toContain('DTSTART;VALUE=DATE:20260302\r\nDTEND;VALUE=DATE:20260304');
+        expect(ics).toContain('SUMMARY:Book venue\\, stage\\; lights');
+        expect(ics.split('\r\n').every(line => line.length <= 75)).toBe(true);
+    });
+
+    it('tells unsaved plans apart from saved ones', () => {
+        expect(exportPlan(null)).toContain('UID:venue.unsaved@festflow');
+    });
+});
+
+describe('parseICal', () => {
+    it('reads back the events it exported', () => {
+        const events = parseICal(exportPlan('plan-1'));
+        expect(events).toHaveLength(4);
+        expect(events[1]).toEqual({ uid: 'venue.plan-1@festflow', summary: 'Book venue, stage; lights', start: day(2), end: day(3) });
+    });
+
+    it('reads durations and skips events without a start', () => {
+        const events = parseICal([
+            'BEGIN:VCALENDAR',
+            'BEGIN:VEVENT', 'UID:a', 'DTSTART;VALUE=DATE:20260302', 'DURATION:P3D', 'END:VEVENT',
+            'BEGIN:VEVENT', 'UID:b', 'SUMMARY:No date', 'END:VEVENT',
+            'END:VCALENDAR',
+        ].join('\n'));
+        expect(events).toEqual([{ uid: 'a', summary: '', start: day(2), end: day(4) }]);
+    });
+
+    it('rejects files that are not calendars', () => {
+        expect(() => parseICal('id,title\n1,Venue')).toThrow('The file is not an iCalendar (.ics) file.');
+    });
+});
+
+describe('planICalImport', () => {
+    const moved = (uid: string, start: Date, end: Date): ICalEvent => ({ uid, summary: '', start, end });
+
+    it('finds nothing to change in an unedited file', () => {
+        expect(planICalImport(tasks, schedule, parseICal(exportPlan('plan-1')), DEFAULT_PROJECT_CALENDAR, 'plan-1')).toEqual([]);
+    });
+
+    it('pins moved tasks and counts new durations in working days', () => {
+        // Friday to the next Tuesday is four working days, with Sunday off.
+        const changes = planICalImport(tasks, schedule, [moved('venue.plan-1@festflow', day(6), day(10))], DEFAULT_PROJECT_CALENDAR, 'plan-1');
+        expect(changes).toEqual([{ taskId: 'venue', title: 'Book venue, stage; lights', startDate: '2026-03-06', estimatedDuration: 4 }]);
+    });
+
+    it('lists the unfinished prerequisites of a task that is moved', () => {
+        const [change] = planICalImport(tasks, schedule, [moved('posters.plan-1@festflow', day(3), day(5))], DEFAULT_PROJECT_CALENDAR, 'plan-1');
+        expect(change).toMatchObject({ taskId: 'posters', startDate: '2026-03-03', unfinishedPrerequisites: ['Task design'] });
+    });
+
+    it('ignores events of other plans', () => {
+        expect(planICalImport(tasks, schedule, [moved('venue.plan-2@festflow', day(6), day(6))], DEFAULT_PROJECT_CALENDAR, 'plan-1')).toEqual([]);
+    });
+});
@@ -0,0 +1,246 @@
+import { EventDates, ProjectCalendar, Task, TaskStatus, TeamMember } from '../types';
+import { countWorkingDays, parseDateKey, toDateKey } from './calendar';
+
+/**
+ * iCalendar (RFC 5545) export and import of the plan's timeline. Every task becomes an
+ * all-day VEVENT, so the schedule can be opened in Google Calendar or Outlook, moved
+ * around there and read back in.
+ */
+
+// Events are identified as "<task id>.<plan id>@festflow", so that they can be matched on
+// import and do not collide with the events of other plans, or of copies of this one.
+const UID_SUFFIX = '@festflow';
+// Stands in for the plan ID of a plan that has not been saved yet.
+const UNSAVED_PLAN_ID = 'unsaved';
+// Content lines longer than this are folded, as the format requires.
+const MAX_LINE_LENGTH = 74;
+
+// A task's first and last working day on the timeline, both inclusive.
+export interface ScheduledDates {
+    start: Date;
+    end: Date;
+}
+
+export interface ICalEvent {
+    uid: string;
+    summary: string;
+    start: Date;
+    // Inclusive: the last day the event covers.
+    end: Date;
+}
+
+// An edit to a task's schedule read from a calendar file.
+export interface ScheduleChange {
+    taskId: string;
+    title: string;
+    // YYYY-MM-DD, pinning the task to the day it was moved to.
+    startDate?: string;
+    estimatedDuration?: number;
+    // Prerequisites that are not completed yet. A pinned task starts on its date
+    // without waiting for them, so moving it has to be confirmed.
+    unfinishedPrerequisites?: string[];
+}
+
+interface ExportOptions {
+    // The session the plan is saved in, or null when it is not saved yet.
+    planId: string | null;
+    projectName: string | null;
+    eventDates: EventDates | null;
+    team: TeamMember[];
+    now?: Date;
+}
+
+const addDays = (date: Date, days: number): Date => {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result;
+};
+
+const getUid = (id: string, planId: string | null): string => `${id}.${planId ?? UNSAVED_PLAN_ID}${UID_SUFFIX}`;
+
+const formatDateValue = (date: Date): string => toDateKey(date).replace(/-/g, '');
+
+const formatTimestamp = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeText = (text: string): string =>
+    text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeText = (text: string): string =>
+    text.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+const foldLine = (line: string): string => {
+    if (line.length <= MAX_LINE_LENGTH) return line;
+    const parts = [line.slice(0, MAX_LINE_LENGTH)];
+    for (let i = MAX_LINE_LENGTH; i < line.length; i += MAX_LINE_LENGTH - 1) {
+        parts.push(` ${line.slice(i, i + MAX_LINE_LENGTH - 1)}`);
+    }
+    return parts.join('\r\n');
+};
+
+const describeTask = (task: Task, tasks: Task[], team: TeamMember[]): string => {
+    const lines = [task.description, ''];
+    lines.push(`Agent: ${task.assignedTo}`);
+    const assignee = team.find(m => m.id === task.assigneeId);
+    if (assignee) lines.push(`Assigned to: ${assignee.name}`);
+    lines.push(`Status: ${task.status}`);
+    const prerequisites = (task.dependsOn ?? [])
+        .map(id => tasks.find(t => t.id === id)?.title)
+        .filter((title): title is string => !!title);
+    if (prerequisites.length > 0) lines.push(`Depends on: ${prerequisites.join(', ')}`);
+    return lines.join('\n');
+};
+
+/**
+ * Writes the scheduled tasks, and the event itself, as an iCalendar file. Sub-tasks are
+ * grouped under their parent task's title as a category.
+ * @param schedule The dates of each task, as calculated for the timeline.
+ */
+export const exportPlanToICal = (tasks: Task[], schedule: Map<string, ScheduledDates>, { planId, projectName, eventDates, team, now = new Date() }: ExportOptions): string => {
+    const stamp = formatTimestamp(now);
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//FestFlow//Event Plan//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(projectName || 'FestFlow plan')}`,
+    ];
+
+    if (eventDates) {
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:${getUid('event', planId)}`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART;VALUE=DATE:${formatDateValue(parseDateKey(eventDates.startDate))}`,
+            `DTEND;VALUE=DATE:${formatDateValue(addDays(parseDateKey(eventDates.endDate), 1))}`,
+            `SUMMARY:${escapeText(projectName || 'Event')}`,
+            'END:VEVENT',
+        );
+    }
+
+    tasks.forEach(task => {
+        const dates = schedule.get(task.id);
+        if (!dates) return;
+        const parent = task.parentId ? tasks.find(t => t.id === task.parentId) : undefined;
+        const isParent = tasks.some(t => t.parentId === task.id);
+        const category = parent?.title ?? (isParent ? task.title : undefined);
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:${getUid(task.id, planId)}`,
+            `DTSTAMP:${stamp}`,
+            // All-day events end on the day after their last day.
+            `DTSTART;VALUE=DATE:${formatDateValue(dates.start)}`,
+            `DTEND;VALUE=DATE:${formatDateValue(addDays(dates.end, 1))}`,
+            `SUMMARY:${escapeText(task.title)}`,
+            `DESCRIPTION:${escapeText(describeTask(task, tasks, team))}`,
+            ...(category ? [`CATEGORIES:${escapeText(category)}`] : []),
+            'TRANSP:TRANSPARENT',
+            'END:VEVENT',
+        );
+    });
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// Reads DATE and DATE-TIME values as the local calendar day they fall on.
+const parseDateValue = (value: string): Date | null => {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+    if (!match) return null;
+    const [, year, month, day, hours, minutes, seconds, utc] = match;
+    if (!hours) return new Date(Number(year), Number(month) - 1, Number(day));
+    const date = utc
+        ? new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)))
+        : new Date(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds));
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+};
+
+// Reads the days of a DURATION value such as "P3D" or "P1W".
+const parseDurationDays = (value: string): number => {
+    const match = value.match(/^P(?:(\d+)W)?(?:(\d+)D)?/);
+    return match ? Number(match[1] ?? 0) * 7 + Number(match[2] ?? 0) : 0;
+};
+
+/**
+ * Reads the events of an iCalendar file. Events without a UID or a start date are skipped.
+ * @throws If the text is not an iCalendar file.
+ */
+export const parseICal = (text: string): ICalEvent[] => {
+    const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    if (!lines.some(line => line.trim() === 'BEGIN:VCALENDAR')) {
+        throw new Error('The file is not an iCalendar (.ics) file.');
+    }
+
+    const events: ICalEvent[] = [];
+    let current: Record<string, { params: string; value: string }> | null = null;
+    lines.forEach(line => {
+        if (line === 'BEGIN:VEVENT') {
+            current = {};
+            return;
+        }
+        if (line === 'END:VEVENT') {
+            const props: Record<string, { params: string; value: string }> = current ?? {};
+            current = null;
+            const start = props.DTSTART && parseDateValue(props.DTSTART.value);
+            if (!props.UID || !start) return;
+
+            let end = start;
+            if (props.DTEND) {
+                const endValue = parseDateValue(props.DTEND.value);
+                // All-day events end on the day after their last day; timed ones on their last day.
+                const isAllDay = !props.DTEND.value.includes('T');
+                if (endValue) end = isAllDay ? addDays(endValue, -1) : endValue;
+            } else if (props.DURATION) {
+                end = addDays(start, Math.max(1, parseDurationDays(props.DURATION.value)) - 1);
+            }
+            events.push({
+                uid: props.UID.value,
+                summary: unescapeText(props.SUMMARY?.value ?? ''),
+                start,
+                end: end < start ? start : end,
+            });
+            return;
+        }
+        if (!current) return;
+        const separator = line.indexOf(':');
+        if (separator < 0) return;
+        const [name, ...params] = line.slice(0, separator).split(';');
+        current[name.toUpperCase()] = { params: params.join(';'), value: line.slice(separator + 1) };
+    });
+    return events;
+};
+
+/**
+ * Compares the events of an edited calendar file with the plan. Tasks that were moved
+ * get pinned to their new first day, and tasks that were lengthened or shortened get
+ * a new duration in working days. Parent tasks are skipped, since their dates follow
+ * their sub-tasks, and so are events exported from other plans. Moves of tasks that
+ * still wait on prerequisites list them, since pinning would start the task early.
+ * @param planId The session the plan is saved in, as given when exporting.
+ */
+export const planICalImport = (tasks: Task[], schedule: Map<string, ScheduledDates>, events: ICalEvent[], calendar: ProjectCalendar, planId: string | null): ScheduleChange[] => {
+    const parentIds = new Set(tasks.map(t => t.parentId).filter((id): id is string => !!id));
+    const tasksByUid = new Map(tasks.map(t => [getUid(t.id, planId), t]));
+    const changes: ScheduleChange[] = [];
+    events.forEach(event => {
+        const task = tasksByUid.get(event.uid);
+        const dates = task && schedule.get(task.id);
+        if (!task || !dates || parentIds.has(task.id)) return;
+
+        const change: ScheduleChange = { taskId: task.id, title: task.title };
+        const startDate = toDateKey(event.start);
+        if (startDate !== toDateKey(dates.start)) change.startDate = startDate;
+        if (change.startDate && task.status === TaskStatus.PENDING && !task.startDate) {
+            const unfinished = (task.dependsOn ?? [])
+                .map(id => tasks.find(t => t.id === id))
+                .filter((t): t is Task => !!t && t.status !== TaskStatus.COMPLETED)
+                .map(t => t.title);
+            if (unfinished.length > 0) change.unfinishedPrerequisites = unfinished;
+        }
+        const duration = Math.max(1, countWorkingDays(event.start, event.end, calendar));
+        if (duration !== Math.max(1, task.estimatedDuration || 1)) change.estimatedDuration = duration;
+
+        if (change.startDate || change.estimatedDuration) changes.push(change);
+    });
+    return changes;
+};
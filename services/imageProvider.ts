@@ -0,0 +1,128 @@
+/**
+ * Optional image generation for visual assets. Posters and social cards are drawn
+ * from templates either way; with an image model configured, they get generated
+ * artwork as their background.
+ */
+
+// The contract every image backend implements. `generateImage` resolves with a data
+// URL and rejects when no image was produced.
+export interface ImageProvider {
+    readonly name: string;
+    generateImage(prompt: string, signal?: AbortSignal): Promise<string>;
+}
+
+export type ImageProviderKind = 'none' | 'openai';
+
+export const IMAGE_PROVIDER_OPTIONS: { kind: ImageProviderKind; label: string; description: string }[] = [
+    { kind: 'none', label: 'Templates only', description: 'Draws posters and social cards from the built-in templates. No network required.' },
+    { kind: 'openai', label: 'OpenAI-compatible images', description: 'Adds artwork from an /images/generations endpoint, configured with VITE_IMAGE_BASE_URL, VITE_IMAGE_API_KEY and VITE_IMAGE_MODEL.' },
+];
+
+const PROVIDER_SETTING_KEY = 'festflow_imageProvider';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'dall-e-3';
+// Artwork is scaled down and stored as JPEG, since it is embedded in every visual drawn over it.
+const MAX_ARTWORK_SIZE = 768;
+const ARTWORK_QUALITY = 0.8;
+
+interface ImageGenerationResponse {
+    data?: { b64_json?: string; url?: string }[];
+}
+
+const isProviderKind = (value: unknown): value is ImageProviderKind =>
+    IMAGE_PROVIDER_OPTIONS.some(option => option.kind === value);
+
+/**
+ * Resolves which image provider to use. A choice saved in the user's settings wins over
+ * the VITE_IMAGE_PROVIDER build-time default, and without either, only templates are used.
+ */
+export const getImageProviderKind = (): ImageProviderKind => {
+    try {
+        const saved = localStorage.getItem(PROVIDER_SETTING_KEY);
+        if (isProviderKind(saved)) return saved;
+    } catch {
+        // Fall through to the build-time default.
+    }
+    const fromEnv = import.meta.env.VITE_IMAGE_PROVIDER;
+    return isProviderKind(fromEnv) ? fromEnv : 'none';
+};
+
+export const setImageProviderKind = (kind: ImageProviderKind): void => {
+    localStorage.setItem(PROVIDER_SETTING_KEY, kind);
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error("Could not read the image."));
+    reader.readAsDataURL(blob);
+});
+
+// Re-encodes an image as a JPEG no larger than MAX_ARTWORK_SIZE on either side.
+const compactImage = async (blob: Blob): Promise<string> => {
+    const bitmap = await createImageBitmap(blob);
+    const scale = Math.min(1, MAX_ARTWORK_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) return blobToDataUrl(blob);
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/jpeg', ARTWORK_QUALITY);
+};
+
+/**
+ * Creates a provider for any server implementing the OpenAI `/images/generations` API.
+ * Images are requested as base64; servers that answer with a link instead have to
+ * allow the app's origin to download it.
+ */
+const createOpenAICompatibleImageProvider = (): ImageProvider => {
+    const baseUrl = ((import.meta.env.VITE_IMAGE_BASE_URL as string | undefined) || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    const apiKey = import.meta.env.VITE_IMAGE_API_KEY as string | undefined;
+    const model = (import.meta.env.VITE_IMAGE_MODEL as string | undefined) || DEFAULT_MODEL;
+
+    return {
+        name: `OpenAI-compatible images (${model})`,
+        generateImage: async (prompt, signal) => {
+            const response = await fetch(`${baseUrl}/images/generations`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+                },
+                body: JSON.stringify({ model, prompt, n: 1, size: '1024x1024', response_format: 'b64_json' }),
+                signal,
+            });
+            if (!response.ok) {
+                const body = await response.text().catch(() => '');
+                throw new Error(`The image model responded with ${response.status}${body.trim() ? `: ${body.trim().slice(0, 200)}` : ''}.`);
+            }
+            const image = ((await response.json()) as ImageGenerationResponse).data?.[0];
+            let blob: Blob;
+            if (image?.b64_json) {
+                blob = await (await fetch(`data:image/png;base64,${image.b64_json}`)).blob();
+            } else if (image?.url) {
+                blob = await (await fetch(image.url, { signal })).blob();
+            } else {
+                throw new Error("The image model returned no image.");
+            }
+            return compactImage(blob);
+        },
+    };
+};
+
+/**
+ * Returns the image provider selected by the current settings, or null when visual
+ * assets are drawn from templates only.
+ */
+export const getImageProvider = (): ImageProvider | null => {
+    switch (getImageProviderKind()) {
+        case 'openai':
+            return createOpenAICompatibleImageProvider();
+        case 'none':
+        default:
+            return null;
+    }
+};
@@ -0,0 +1,134 @@
+import { AgentDefinition, ContentVariantStyle, PlanDiff, PlanTemplate, Task, UserProfile } from "../types";
+import { createGeminiProvider } from "./providers/geminiProvider";
+import { createOpenAICompatibleProvider } from "./providers/openAICompatibleProvider";
+import { createMockProvider } from "./providers/mockProvider";
+import { createRecordingProvider, createReplayProvider } from "./providers/replayProvider";
+
+// The type for the structured response from the institution details endpoint.
+export interface InstitutionDetails {
+    city: string;
+    state: string;
+    pincode: string;
+}
+
+// The type for the autocomplete suggestions response.
+export type InstitutionSuggestions = string[];
+
+// The structured response from goal decomposition. Event dates are only present
+// when the goal states them, as YYYY-MM-DD.
+export interface GoalDecomposition {
+    tasks: Task[];
+    eventStartDate?: string;
+    eventEndDate?: string;
+}
+
+/**
+ * Receives content while it is generated. `onText` is called with the full text so
+ * far rather than the latest chunk, and aborting `signal` stops the generation.
+ */
+export interface ContentStream {
+    onText: (text: string) => void;
+    signal?: AbortSignal;
+}
+
+/**
+ * The contract every LLM backend implements. Providers only talk to the model;
+ * post-processing of the results (e.g. normalizing the task graph) happens in
+ * geminiService so that it is identical regardless of the vendor.
+ */
+export interface LLMProvider {
+    readonly name: string;
+    // With a `template`, the plan is adapted from it rather than written from scratch.
+    decomposeGoal(goal: string, userProfile: UserProfile | null, agents: AgentDefinition[], template?: PlanTemplate): Promise<GoalDecomposition>;
+    // Proposes the changes to an existing plan that an organizer's request calls for.
+    revisePlan(request: string, tasks: Task[], goal: string, agents: AgentDefinition[]): Promise<PlanDiff>;
+    // `agent` is the registry entry of the agent the task is assigned to, if it still exists.
+    // `style` asks for a variant in a different tone or length. With a `stream`, partial text
+    // is reported as it arrives; the promise still resolves with the complete text.
+    executeTask(task: Task, agent: AgentDefinition | undefined, userProfile: UserProfile | null, projectName: string | null, style?: ContentVariantStyle, stream?: ContentStream): Promise<string>;
+    getInstitutionDetails(institutionName: string): Promise<InstitutionDetails>;
+    getInstitutionSuggestions(query: string): Promise<InstitutionSuggestions>;
+}
+
+export type LLMProviderKind = 'gemini' | 'openai' | 'mock' | 'replay';
+
+export const LLM_PROVIDER_OPTIONS: { kind: LLMProviderKind; label: string; description: string }[] = [
+    { kind: 'gemini', label: 'Google Gemini', description: 'Uses the Gemini API with VITE_GEMINI_API_KEY.' },
+    { kind: 'openai', label: 'OpenAI-compatible', description: 'Any /chat/completions endpoint, e.g. a local llama.cpp or Ollama server.' },
+    { kind: 'mock', label: 'Offline mock', description: 'Built-in sample plan and content. No network required.' },
+    { kind: 'replay', label: 'Replay recordings', description: 'Serves previously recorded responses. No network required.' },
+];
+
+const PROVIDER_SETTING_KEY = 'festflow_llmProvider';
+const RECORD_SETTING_KEY = 'festflow_llmRecord';
+
+const isProviderKind = (value: unknown): value is LLMProviderKind =>
+    LLM_PROVIDER_OPTIONS.some(option => option.kind === value);
+
+const readSetting = (key: string): string | null => {
+    try {
+        return localStorage.getItem(key);
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Resolves which provider to use. A choice saved in the user's settings wins over
+ * the VITE_LLM_PROVIDER build-time default, which in turn falls back to Gemini.
+ */
+export const getLLMProviderKind = (): LLMProviderKind => {
+    const saved = readSetting(PROVIDER_SETTING_KEY);
+    if (isProviderKind(saved)) return saved;
+    const fromEnv = import.meta.env.VITE_LLM_PROVIDER;
+    if (isProviderKind(fromEnv)) return fromEnv;
+    return 'gemini';
+};
+
+/**
+ * Whether live responses should be recorded for later replay. Enabled through the
+ * user's settings or with VITE_LLM_RECORD=true.
+ */
+export const isLLMRecordingEnabled = (): boolean => {
+    const saved = readSetting(RECORD_SETTING_KEY);
+    if (saved !== null) return saved === 'true';
+    return import.meta.env.VITE_LLM_RECORD === 'true';
+};
+
+let activeProvider: LLMProvider | null = null;
+
+export const setLLMProviderSettings = (kind: LLMProviderKind, record: boolean): void => {
+    localStorage.setItem(PROVIDER_SETTING_KEY, kind);
+    localStorage.setItem(RECORD_SETTING_KEY, String(record));
+    activeProvider = null;
+};
+
+const createProvider = (kind: LLMProviderKind): LLMProvider => {
+    switch (kind) {
+        case 'openai':
+            return createOpenAICompatibleProvider();
+        case 'mock':
+            return createMockProvider();
+        case 'replay':
+            return createReplayProvider();
+        case 'gemini':
+        default:
+            return createGeminiProvider();
+    }
+};
+
+/**
+ * Returns the provider selected by the current settings. Providers are created
+ * lazily so that, for example, the Gemini client is never constructed when the
+ * app runs offline.
+ */
+export const getLLMProvider = (): LLMProvider => {
+    if (!activeProvider) {
+        const kind = getLLMProviderKind();
+        const provider = createProvider(kind);
+        // Recording a replay would only duplicate what is already stored.
+        activeProvider = isLLMRecordingEnabled() && kind !== 'replay' ? createRecordingProvider(provider) : provider;
+        console.log(`Using LLM provider: ${activeProvider.name}`);
+    }
+    return activeProvider;
+};
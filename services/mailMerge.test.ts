@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { AgentName, Sponsor, SponsorStage, Task, TaskStatus } from '../types';
+import { findUnresolvedPlaceholders, getTaskRecipients, parseAddressList, renderEmail, renderPlaceholders, splitSubject } from './mailMerge';
+import { createTask } from './testUtils';
+
+const sponsors: Sponsor[] = [
+    {
+        id: 'acme',
+        company: 'Acme',
+        contacts: [{ name: 'Priya Nair', email: 'priya@acme.test', role: 'Head of Marketing' }, { name: 'No Email', email: '', role: '' }],
+        tier: 'Gold',
+        stage: SponsorStage.CONTACTED,
+        amount: 50000,
+        notes: '',
+    },
+    {
+        id: 'globex',
+        company: 'Globex',
+        contacts: [{ name: '', email: 'hello@globex.test', role: '' }],
+        tier: '',
+        stage: SponsorStage.IDENTIFIED,
+        notes: '',
+    },
+];
+
+const createOutreachTask = (overrides: Partial<Task> = {}): Task => createTask('outreach', {
+    title: 'Sponsor outreach',
+    assignedTo: AgentName.SPONSORSHIP_OUTREACH,
+    status: TaskStatus.COMPLETED,
+    progress: 100,
+    ...overrides,
+});
+
+const context = (sponsor: Sponsor) => ({
+    recipient: { name: sponsor.contacts[0].name || sponsor.company, email: sponsor.contacts[0].email, sponsorId: sponsor.id },
+    sponsor,
+    senderName: 'Asha',
+    eventName: 'TechFest',
+});
+
+describe('parseAddressList', () => {
+    it('reads names and addresses, dropping duplicates', () => {
+        expect(parseAddressList('"Dev Rao" <dev@college.test>; anu@college.test,\nDEV@college.test, not-an-address')).toEqual({
+            recipients: [{ name: 'Dev Rao', email: 'dev@college.test' }, { name: 'anu', email: 'anu@college.test' }],
+            invalid: ['not-an-address'],
+        });
+    });
+});
+
+describe('splitSubject', () => {
+    it('splits a leading subject line off', () => {
+        expect(splitSubject('**Subject:** Partnering with TechFest\n\nDear Priya,')).toEqual({ subject: 'Partnering with TechFest', body: 'Dear Priya,' });
+        expect(splitSubject('Dear Priya,')).toEqual({ body: 'Dear Priya,' });
+    });
+});
+
+describe('renderPlaceholders', () => {
+    it('fills in what it knows and leaves the rest, and links, alone', () => {
+        const text = 'Dear [First Name] at [Company], [Tier] tier for [Amount]. [Signature] [site](https://techfest.test)';
+        const rendered = renderPlaceholders(text, context(sponsors[0]));
+        expect(rendered).toBe('Dear Priya at Acme, Gold tier for ₹50,000. [Signature] [site](https://techfest.test)');
+        expect(findUnresolvedPlaceholders(rendered)).toEqual(['[Signature]']);
+    });
+});
+
+describe('getTaskRecipients', () => {
+    it('offers every sponsor contact for general content', () => {
+        expect(getTaskRecipients(createOutreachTask({ approvedContent: 'Hi' }), sponsors)).toEqual({
+            recipients: [
+                { name: 'Priya Nair', email: 'priya@acme.test', sponsorId: 'acme' },
+                { name: 'Globex', email: 'hello@globex.test', sponsorId: 'globex' },
+            ],
+            personalized: false,
+        });
+    });
+
+    it('only offers the sponsors personalized content was written to', () => {
+        const { recipients, personalized } = getTaskRecipients(createOutreachTask({ sponsorDrafts: { globex: 'Hi' } }), sponsors);
+        expect(personalized).toBe(true);
+        expect(recipients.map(r => r.sponsorId)).toEqual(['globex']);
+    });
+});
+
+describe('renderEmail', () => {
+    it('renders the approved content with its subject', () => {
+        const task = createOutreachTask({ approvedContent: 'Subject: TechFest x [Company]\n\nDear [Name],\nRegards, [Your Name]' });
+        expect(renderEmail(task, '', context(sponsors[0]))).toEqual({
+            subject: 'TechFest x Acme',
+            text: 'Dear Priya Nair,\nRegards, Asha',
+        });
+        expect(renderEmail(task, 'Invitation to [Event Name]', context(sponsors[0])).subject).toBe('Invitation to TechFest');
+    });
+
+    it('sends each sponsor their own draft', () => {
+        const task = createOutreachTask({ approvedContent: 'combined', sponsorDrafts: { acme: 'Dear Acme', globex: 'Dear Globex' } });
+        expect(renderEmail(task, '', context(sponsors[1]))).toEqual({ subject: 'Sponsor outreach', text: 'Dear Globex' });
+    });
+
+    it('refuses to write to a sponsor personalized content has no draft for', () => {
+        const task = createOutreachTask({ approvedContent: 'combined', sponsorDrafts: { acme: 'Dear Acme' } });
+        expect(() => renderEmail(task, '', context(sponsors[1]))).toThrow('There is no draft written to Globex.');
+    });
+});
@@ -0,0 +1,142 @@
+import { Sponsor, Task, TaskStatus } from '../types';
+import { formatCurrency } from './budget';
+
+/**
+ * Pure helpers for turning a task's approved content into one email per recipient:
+ * who it can go to, which part of the content is theirs, and filling in
+ * placeholders such as [Sponsor Name].
+ */
+
+export interface MailRecipient {
+    name: string;
+    email: string;
+    // Set when the recipient is one of a sponsor's contacts.
+    sponsorId?: string;
+}
+
+export interface MergeContext {
+    recipient: MailRecipient;
+    sponsor?: Sponsor;
+    // The organizer sending the email.
+    senderName: string;
+    eventName: string;
+}
+
+export interface RenderedEmail {
+    subject: string;
+    text: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+// "[Sponsor Name]", but not the text of a Markdown link such as "[site](https://...)".
+const PLACEHOLDER_PATTERN = /\[([^[\]\n]{1,40})\](?!\()/g;
+
+// A first line such as "Subject: Partnership Opportunity" or "**Subject:** ...".
+const SUBJECT_PATTERN = /^\**\s*subject\s*:\s*\**\s*(.+?)\s*\**$/i;
+
+export const isValidEmail = (email: string): boolean => EMAIL_PATTERN.test(email.trim());
+
+// Only content that has been approved, and is still the task's result, may be sent.
+export const canSendContent = (task: Task): boolean =>
+    task.status === TaskStatus.COMPLETED && !!task.approvedContent?.trim();
+
+/**
+ * Every sponsor contact with an email address, in list order.
+ */
+export const getSponsorRecipients = (sponsors: Sponsor[]): MailRecipient[] =>
+    sponsors.flatMap(sponsor => sponsor.contacts
+        .filter(contact => isValidEmail(contact.email))
+        .map(contact => ({ name: contact.name.trim() || sponsor.company, email: contact.email.trim(), sponsorId: sponsor.id })));
+
+/**
+ * Reads addresses typed as "Name <name@example.com>" or just "name@example.com",
+ * separated by commas, semicolons or new lines.
+ * @returns The recipients, and the entries that are not valid addresses.
+ */
+export const parseAddressList = (value: string): { recipients: MailRecipient[]; invalid: string[] } => {
+    const recipients: MailRecipient[] = [];
+    const invalid: string[] = [];
+    value.split(/[,;\n]+/).map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+        const match = entry.match(/^(.*?)\s*<([^<>]+)>$/);
+        const email = (match ? match[2] : entry).trim();
+        if (!isValidEmail(email)) {
+            invalid.push(entry);
+            return;
+        }
+        const name = match?.[1].replace(/^"|"$/g, '').trim() || email.split('@')[0];
+        if (!recipients.some(r => r.email.toLowerCase() === email.toLowerCase())) recipients.push({ name, email });
+    });
+    return { recipients, invalid };
+};
+
+/**
+ * Who a task's approved content can be sent to. Content written to particular sponsors
+ * only goes to those sponsors' contacts, each getting their own draft; anything else
+ * can go to any sponsor contact, or to addresses typed in.
+ */
+export const getTaskRecipients = (task: Task, sponsors: Sponsor[]): { recipients: MailRecipient[]; personalized: boolean } => {
+    const { sponsorDrafts } = task;
+    return sponsorDrafts
+        ? { recipients: getSponsorRecipients(sponsors.filter(sponsor => sponsorDrafts[sponsor.id] !== undefined)), personalized: true }
+        : { recipients: getSponsorRecipients(sponsors), personalized: false };
+};
+
+/**
+ * Splits a leading "Subject:" line off an email draft.
+ */
+export const splitSubject = (content: string): { subject?: string; body: string } => {
+    const lines = content.trim().split('\n');
+    const match = lines[0]?.trim().match(SUBJECT_PATTERN);
+    return match ? { subject: match[1], body: lines.slice(1).join('\n').trim() } : { body: content.trim() };
+};
+
+const normalizeKey = (key: string): string => key.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const buildMergeFields = ({ recipient, sponsor, senderName, eventName }: MergeContext): Map<string, string | undefined> => {
+    const contact = sponsor?.contacts.find(c => c.email.trim().toLowerCase() === recipient.email.toLowerCase());
+    const fields: [string[], string | undefined][] = [
+        [['sponsor name', 'name', 'recipient name', 'contact name', 'recipient'], recipient.name],
+        [['first name'], recipient.name.split(/\s+/)[0]],
+        [['company', 'company name', 'sponsor company', 'organization', 'organization name'], sponsor?.company],
+        [['title', 'role', 'position', 'designation'], contact?.role],
+        [['tier', 'sponsorship tier', 'tier name'], sponsor?.tier],
+        [['amount', 'sponsorship amount'], sponsor?.amount ? formatCurrency(sponsor.amount) : undefined],
+        [['email', 'email address'], recipient.email],
+        [['your name', 'sender name'], senderName],
+        [['event name', 'event', 'fest name'], eventName],
+    ];
+    return new Map(fields.flatMap(([keys, value]) => keys.map(key => [key, value?.trim() || undefined])));
+};
+
+/**
+ * Fills in the placeholders the context has values for. Others, e.g. a tier for a
+ * sponsor that has none yet, are left as they are.
+ */
+export const renderPlaceholders = (text: string, context: MergeContext): string => {
+    const fields = buildMergeFields(context);
+    return text.replace(PLACEHOLDER_PATTERN, (placeholder, key: string) => fields.get(normalizeKey(key)) ?? placeholder);
+};
+
+// The placeholders still in a rendered email, without duplicates.
+export const findUnresolvedPlaceholders = (text: string): string[] =>
+    [...new Set(text.match(PLACEHOLDER_PATTERN) ?? [])];
+
+/**
+ * Writes the email a recipient gets from a task's approved content. When the content
+ * was personalized, a sponsor's contacts get the draft written to that sponsor and
+ * nobody else can be written to, so that no one is sent another sponsor's draft.
+ * @param subject Overrides the draft's own subject line when set. The task title is used when there is neither.
+ * @throws If the content was personalized and there is no draft for the recipient's sponsor.
+ */
+export const renderEmail = (task: Task, subject: string, context: MergeContext): RenderedEmail => {
+    const template = task.sponsorDrafts ? task.sponsorDrafts[context.recipient.sponsorId ?? ''] : task.approvedContent ?? '';
+    if (template === undefined) {
+        throw new Error(`There is no draft written to ${context.sponsor?.company ?? context.recipient.name}.`);
+    }
+    const draft = splitSubject(template);
+    return {
+        subject: renderPlaceholders(subject.trim() || draft.subject || task.title, context),
+        text: renderPlaceholders(draft.body, context),
+    };
+};
@@ -0,0 +1,229 @@
+import { EmailDelivery, Sponsor, Task } from '../types';
+import { canSendContent, isValidEmail, MailRecipient, renderEmail } from './mailMerge';
+import { auth } from './firebase';
+
+/**
+ * Outbound email. Approved content is mail-merged per recipient and handed to a
+ * pluggable transport. Browsers cannot talk SMTP, so SMTP servers are reached through
+ * an HTTP relay; the local outbox keeps messages in the browser for testing.
+ */
+
+export interface MailAddress {
+    name: string;
+    email: string;
+}
+
+export interface OutgoingEmail {
+    from: MailAddress;
+    to: MailAddress;
+    subject: string;
+    text: string;
+}
+
+// The contract every mail backend implements. `send` rejects when the message was not accepted.
+export interface MailTransport {
+    readonly name: string;
+    send(email: OutgoingEmail): Promise<void>;
+}
+
+export type MailTransportKind = 'outbox' | 'mailpit' | 'http';
+
+export const MAIL_TRANSPORT_OPTIONS: { kind: MailTransportKind; label: string; description: string }[] = [
+    { kind: 'outbox', label: 'Local outbox', description: 'Keeps sent emails in this browser instead of delivering them. No network required.' },
+    { kind: 'mailpit', label: 'Mailpit / MailHog-style server', description: "Sends through Mailpit's HTTP API (e.g. http://localhost:8025), which catches the emails or relays them over SMTP." },
+    { kind: 'http', label: 'HTTP mail relay', description: 'POSTs each email as JSON to a relay that delivers it, e.g. over SMTP or a provider API.' },
+];
+
+export interface MailSettings {
+    kind: MailTransportKind;
+    // The Mailpit server or relay endpoint. Not used by the outbox.
+    url: string;
+    fromName: string;
+    fromEmail: string;
+}
+
+interface OutboxMessage extends OutgoingEmail {
+    sentAt: string;
+}
+
+const SETTINGS_KEY = 'festflow_mailSettings';
+const OUTBOX_KEY = 'festflow_mailOutbox';
+// The outbox only keeps the most recent messages.
+const MAX_OUTBOX_MESSAGES = 200;
+
+const DEFAULT_MAILPIT_URL = 'http://localhost:8025';
+
+const isTransportKind = (value: unknown): value is MailTransportKind =>
+    MAIL_TRANSPORT_OPTIONS.some(option => option.kind === value);
+
+/**
+ * Resolves the mail settings. What the user saved wins over the VITE_MAIL_* build-time
+ * defaults, and without either, emails go to the local outbox.
+ */
+export const getMailSettings = (): MailSettings => {
+    const env = import.meta.env;
+    const defaults: MailSettings = {
+        kind: isTransportKind(env.VITE_MAIL_TRANSPORT) ? env.VITE_MAIL_TRANSPORT : 'outbox',
+        url: (env.VITE_MAIL_URL as string | undefined) || '',
+        fromName: (env.VITE_MAIL_FROM_NAME as string | undefined) || '',
+        fromEmail: (env.VITE_MAIL_FROM as string | undefined) || '',
+    };
+    try {
+        const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null') as Partial<MailSettings> | null;
+        if (!saved || typeof saved !== 'object') return defaults;
+        return {
+            kind: isTransportKind(saved.kind) ? saved.kind : defaults.kind,
+            url: typeof saved.url === 'string' ? saved.url : defaults.url,
+            fromName: typeof saved.fromName === 'string' ? saved.fromName : defaults.fromName,
+            fromEmail: typeof saved.fromEmail === 'string' ? saved.fromEmail : defaults.fromEmail,
+        };
+    } catch {
+        return defaults;
+    }
+};
+
+export const setMailSettings = (settings: MailSettings): void => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const loadOutbox = (): OutboxMessage[] => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(OUTBOX_KEY) || '[]');
+        return Array.isArray(saved) ? saved : [];
+    } catch (error) {
+        console.error("Failed to load the mail outbox from localStorage", error);
+        return [];
+    }
+};
+
+export const countOutboxMessages = (): number => loadOutbox().length;
+
+export const exportOutboxMessages = (): string => JSON.stringify(loadOutbox(), null, 2);
+
+export const clearOutboxMessages = (): void => {
+    localStorage.removeItem(OUTBOX_KEY);
+};
+
+const createOutboxTransport = (): MailTransport => ({
+    name: 'Local outbox',
+    send: async (email) => {
+        const messages = [...loadOutbox(), { ...email, sentAt: new Date().toISOString() }].slice(-MAX_OUTBOX_MESSAGES);
+        try {
+            localStorage.setItem(OUTBOX_KEY, JSON.stringify(messages));
+        } catch (error) {
+            console.error("Failed to save to the mail outbox", error);
+            throw new Error("The local outbox is full. Download and clear it from your profile page.");
+        }
+    },
+});
+
+const postJson = async (url: string, body: unknown, headers: Record<string, string> = {}): Promise<void> => {
+    let response: Response;
+    try {
+        response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...headers },
+            body: JSON.stringify(body),
+        });
+    } catch (error) {
+        console.error(`Failed to reach the mail server at ${url}`, error);
+        throw new Error(`Could not reach the mail server at ${url}.`);
+    }
+    if (!response.ok) {
+        const detail = (await response.text().catch(() => '')).trim().slice(0, 200);
+        throw new Error(`The mail server responded with ${response.status}${detail ? `: ${detail}` : ''}.`);
+    }
+};
+
+/**
+ * Mailpit's send API. Mailpit (a maintained MailHog successor) shows the emails in its
+ * web UI, or relays them to a real SMTP server when started with --smtp-relay-*.
+ * The page's origin must be allowed with --api-cors.
+ */
+const createMailpitTransport = (baseUrl: string): MailTransport => ({
+    name: 'Mailpit',
+    send: (email) => postJson(`${(baseUrl || DEFAULT_MAILPIT_URL).replace(/\/+$/, '')}/api/v1/send`, {
+        From: { Email: email.from.email, Name: email.from.name },
+        To: [{ Email: email.to.email, Name: email.to.name }],
+        Subject: email.subject,
+        Text: email.text,
+    }),
+});
+
+// Any endpoint accepting { from, to, subject, text }. No secret can be kept in the
+// browser, so the organizer's Firebase ID token is sent instead, for the relay to verify.
+const createHttpRelayTransport = (url: string): MailTransport => ({
+    name: 'HTTP mail relay',
+    send: async (email) => {
+        if (!url) throw new Error("No mail relay URL is set. Add one in the Email settings on your profile page.");
+        const idToken = await auth.currentUser?.getIdToken();
+        return postJson(url, email, idToken ? { Authorization: `Bearer ${idToken}` } : {});
+    },
+});
+
+export const getMailTransport = (settings: MailSettings = getMailSettings()): MailTransport => {
+    switch (settings.kind) {
+        case 'mailpit':
+            return createMailpitTransport(settings.url);
+        case 'http':
+            return createHttpRelayTransport(settings.url);
+        case 'outbox':
+        default:
+            return createOutboxTransport();
+    }
+};
+
+export interface SendOptions {
+    // Overrides the subject line of the drafts when set.
+    subject: string;
+    sponsors: Sponsor[];
+    eventName: string;
+    sentBy: string;
+}
+
+/**
+ * Sends a task's approved content to each recipient, one at a time. A failed
+ * delivery does not stop the others; it is reported in the result.
+ * @returns One delivery record per recipient, in order.
+ */
+export const sendApprovedContent = async (task: Task, recipients: MailRecipient[], options: SendOptions): Promise<EmailDelivery[]> => {
+    if (!canSendContent(task)) {
+        throw new Error(`"${task.title}" has no approved content to send.`);
+    }
+    const settings = getMailSettings();
+    if (settings.kind !== 'outbox' && !isValidEmail(settings.fromEmail)) {
+        throw new Error("Set a sender address in the Email settings on your profile page first.");
+    }
+    const transport = getMailTransport(settings);
+    const from = { name: settings.fromName || options.sentBy, email: settings.fromEmail };
+
+    const deliveries: EmailDelivery[] = [];
+    for (const recipient of recipients) {
+        const sponsor = options.sponsors.find(s => s.id === recipient.sponsorId);
+        const delivery: EmailDelivery = {
+            id: `email-${Date.now()}-${deliveries.length}`,
+            recipientName: recipient.name,
+            email: recipient.email,
+            sponsorId: recipient.sponsorId,
+            subject: options.subject.trim() || task.title,
+            status: 'sent',
+            transport: transport.name,
+            sentBy: options.sentBy,
+            sentAt: new Date().toISOString(),
+        };
+        try {
+            const email = renderEmail(task, options.subject, {
+                recipient,
+                sponsor,
+                senderName: from.name,
+                eventName: options.eventName,
+            });
+            await transport.send({ from, to: { name: recipient.name, email: recipient.email }, ...email });
+            deliveries.push({ ...delivery, subject: email.subject });
+        } catch (error) {
+            console.error(`Failed to send "${task.title}" to ${recipient.email}`, error);
+            deliveries.push({ ...delivery, status: 'failed', error: error instanceof Error ? error.message : 'The email could not be sent.' });
+        }
+    }
+    return deliveries;
+};
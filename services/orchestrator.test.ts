@@ -0,0 +1,256 @@
+import { describe, expect, it } from 'vitest';
+import { AgentName, AppState, Sponsor, SponsorStage, Task, TaskStatus } from '../types';
+import { MAX_TASK_RETRIES } from '../constants';
+import { createInitialAppState, orchestrate, OrchestratorEvent } from './orchestrator';
+import { combineSponsorDrafts } from './sponsors';
+import { createTask } from './testUtils';
+
+const NOW = new Date('2026-03-02T09:00:00Z');
+
+const createState = (tasks: Task[], overrides: Partial<AppState> = {}): AppState => ({
+    ...createInitialAppState(),
+    tasks,
+    ...overrides,
+});
+
+// Applies the events in order, as the host would, collecting every side effect.
+const run = (state: AppState, ...events: OrchestratorEvent[]) =>
+    events.reduce(
+        (acc, event) => {
+            const result = orchestrate(acc.state, event, NOW);
+            return { state: result.state, effects: [...acc.effects, ...result.effects] };
+        },
+        { state, effects: [] as ReturnType<typeof orchestrate>['effects'] },
+    );
+
+const getTask = (state: AppState, id: string) => state.tasks.find(t => t.id === id)!;
+
+describe('orchestrate', () => {
+    it('never mutates the state it is given', () => {
+        const state = createState([createTask('a')]);
+        const snapshot = structuredClone(state);
+        orchestrate(state, { type: 'SYNC' }, NOW);
+        expect(state).toEqual(snapshot);
+    });
+
+    describe('scheduling', () => {
+        it('starts tasks whose prerequisites are complete and waits for the others', () => {
+            const { state, effects } = run(createState([createTask('a'), createTask('b', { dependsOn: ['a'] })]), { type: 'SYNC' });
+            expect(getTask(state, 'a').status).toBe(TaskStatus.IN_PROGRESS);
+            expect(getTask(state, 'b').status).toBe(TaskStatus.PENDING);
+            expect(effects).toEqual([{ type: 'SIMULATE_WORK', task: getTask(state, 'a') }]);
+        });
+
+        it('starts a task once its last prerequisite is completed', () => {
+            const { state, effects } = run(
+                createState([createTask('a'), createTask('b', { dependsOn: ['a'], assignedTo: AgentName.MARKETING })]),
+                { type: 'SYNC' },
+                { type: 'TASK_COMPLETED', taskId: 'a' },
+            );
+            expect(getTask(state, 'a')).toMatchObject({ status: TaskStatus.COMPLETED, progress: 100, completedAt: NOW.toISOString() });
+            expect(getTask(state, 'b').status).toBe(TaskStatus.IN_PROGRESS);
+            expect(effects.map(e => [e.type, e.task.id])).toEqual([['SIMULATE_WORK', 'a'], ['GENERATE_CONTENT', 'b']]);
+        });
+
+        it('starts a task pinned to a start date without waiting for its prerequisites', () => {
+            const { state } = run(createState([createTask('a'), createTask('b', { dependsOn: ['a'], startDate: '2026-03-05' })]), { type: 'SYNC' });
+            expect(getTask(state, 'b').status).toBe(TaskStatus.IN_PROGRESS);
+        });
+
+        it('rolls sub-tasks up into their parent', () => {
+            const { state } = run(
+                createState([createTask('p'), createTask('c1', { parentId: 'p' }), createTask('c2', { parentId: 'p' })]),
+                { type: 'SYNC' },
+                { type: 'TASK_COMPLETED', taskId: 'c1' },
+            );
+            expect(getTask(state, 'p')).toMatchObject({ status: TaskStatus.IN_PROGRESS, progress: 50 });
+
+            const { state: finished } = run(state, { type: 'TASK_COMPLETED', taskId: 'c2' });
+            expect(getTask(finished, 'p')).toMatchObject({ status: TaskStatus.COMPLETED, progress: 100 });
+        });
+
+        it('re-requests work for running tasks when resumed', () => {
+            const { state } = run(createState([createTask('a')]), { type: 'SYNC' });
+            expect(run(state, { type: 'SYNC' }).effects).toEqual([]);
+            expect(run(state, { type: 'RESUMED' }).effects.map(e => e.task.id)).toEqual(['a']);
+        });
+
+        it('applies imported dates and durations', () => {
+            const { state } = run(
+                createState([createTask('a', { status: TaskStatus.COMPLETED, progress: 100 }), createTask('b', { estimatedDuration: 2 })]),
+                { type: 'SCHEDULE_IMPORTED', changes: [{ taskId: 'b', startDate: '2026-03-10', estimatedDuration: 4 }] },
+            );
+            expect(getTask(state, 'b')).toMatchObject({ startDate: '2026-03-10', estimatedDuration: 4 });
+            expect(state.logs.map(l => l.message)).toContain('Imported 1 schedule change(s) from a calendar file.');
+        });
+    });
+
+    describe('content approval', () => {
+        const startContentTask = (overrides: Partial<Task> = {}) =>
+            run(createState([createTask('t', { assignedTo: AgentName.MARKETING, ...overrides })]), { type: 'SYNC' }).state;
+
+        it('puts generated content up for review', () => {
+            const { state } = run(startContentTask(), {
+                type: 'CONTENT_GENERATED',
+                taskId: 't',
+                drafts: [{ label: 'Formal', content: 'One' }, { label: 'Casual', content: 'Two' }],
+            });
+            expect(getTask(state, 't')).toMatchObject({ status: TaskStatus.AWAITING_APPROVAL, progress: 100 });
+            expect(getTask(state, 't').revisions?.map(r => r.label)).toEqual(['Formal', 'Casual']);
+            expect(state.approvals).toHaveLength(1);
+            expect(state.approvals[0]).toMatchObject({ taskId: 't', status: 'pending', content: 'One' });
+            expect(state.approvals[0].variants).toHaveLength(2);
+        });
+
+        it('completes the task with the approved content', () => {
+            const generated = run(startContentTask(), { type: 'CONTENT_GENERATED', taskId: 't', drafts: [{ label: 'Draft', content: 'Hello' }] }).state;
+            const { state } = run(generated, { type: 'APPROVAL_DECIDED', approvalId: generated.approvals[0].id, decision: 'approved', content: 'Hello!', actor: 'Asha' });
+            expect(state.approvals).toEqual([]);
+            expect(getTask(state, 't')).toMatchObject({ status: TaskStatus.COMPLETED, approvedContent: 'Hello!' });
+            expect(getTask(state, 't').revisions?.at(-1)).toMatchObject({ kind: 'approval', author: 'Asha', content: 'Hello!' });
+        });
+
+        it('regenerates rejected content, keeping the rejected draft in the history', () => {
+            const generated = run(startContentTask(), { type: 'CONTENT_GENERATED', taskId: 't', drafts: [{ label: 'Draft', content: 'Hello' }] }).state;
+            const approvalId = generated.approvals[0].id;
+            const { state, effects } = run(generated, { type: 'APPROVAL_DECIDED', approvalId, decision: 'rejected', customPrompt: 'Shorter' });
+            expect(getTask(state, 't')).toMatchObject({ status: TaskStatus.IN_PROGRESS, progress: 0, customPrompt: 'Shorter' });
+            expect(state.approvals[0]).toMatchObject({ id: approvalId, status: 'generating', content: '', history: [{ label: 'Draft', content: 'Hello' }] });
+            expect(effects.map(e => e.type)).toEqual(['GENERATE_CONTENT']);
+        });
+
+        it('ignores decisions on a draft that is still being generated', () => {
+            const streaming = run(startContentTask(), { type: 'CONTENT_STREAMED', taskId: 't', drafts: [{ label: 'Draft', content: 'Hel' }] }).state;
+            const { state } = run(streaming, { type: 'APPROVAL_DECIDED', approvalId: streaming.approvals[0].id, decision: 'approved' });
+            expect(state).toEqual(streaming);
+        });
+
+        it('keeps the partial draft for review when generation is cancelled', () => {
+            const streaming = run(startContentTask(), { type: 'CONTENT_STREAMED', taskId: 't', drafts: [{ label: 'Draft', content: 'Hel' }] }).state;
+            const { state } = run(streaming, { type: 'GENERATION_CANCELLED', approvalId: streaming.approvals[0].id });
+            expect(state.approvals[0]).toMatchObject({ status: 'pending', content: 'Hel' });
+            expect(getTask(state, 't').status).toBe(TaskStatus.AWAITING_APPROVAL);
+        });
+    });
+
+    describe('edits of approved content', () => {
+        const approveContent = () => {
+            const generated = run(createState([createTask('t', { assignedTo: AgentName.MARKETING })]), { type: 'SYNC' }, { type: 'CONTENT_GENERATED', taskId: 't', drafts: [{ label: 'Draft', content: 'Hello' }] }).state;
+            return run(generated, { type: 'APPROVAL_DECIDED', approvalId: generated.approvals[0].id, decision: 'approved', actor: 'Asha' }).state;
+        };
+        const editContent = () => run(approveContent(), { type: 'RESULT_EDITED', taskId: 't', content: 'Hello, all', actor: 'Sam' }).state;
+
+        it('puts an edit up for review and keeps the approved content until then', () => {
+            const state = editContent();
+            expect(getTask(state, 't')).toMatchObject({ status: TaskStatus.AWAITING_APPROVAL, approvedContent: 'Hello' });
+            expect(getTask(state, 't').revisions?.at(-1)).toMatchObject({ kind: 'edit', author: 'Sam', content: 'Hello, all' });
+            expect(state.approvals).toEqual([expect.objectContaining({ taskId: 't', status: 'pending', content: 'Hello, all', isResultEdit: true })]);
+        });
+
+        it('uses the edit once it is approved', () => {
+            const edited = editContent();
+            const { state } = run(edited, { type: 'APPROVAL_DECIDED', approvalId: edited.approvals[0].id, decision: 'approved', actor: 'Asha' });
+            expect(getTask(state, 't')).toMatchObject({ status: TaskStatus.COMPLETED, approvedContent: 'Hello, all' });
+            expect(state.approvals).toEqual([]);
+        });
+
+        it('discards a rejected edit instead of regenerating the content', () => {
+            const edited = editContent();
+            const { state, effects } = run(edited, { type: 'APPROVAL_DECIDED', approvalId: edited.approvals[0].id, decision: 'rejected' });
+            expect(getTask(state, 't')).toMatchObject({ status: TaskStatus.COMPLETED, approvedContent: 'Hello' });
+            expect(state.approvals).toEqual([]);
+            expect(effects).toEqual([]);
+        });
+
+        it('restores a version that was approved before without another review', () => {
+            const edited = editContent();
+            const approved = run(edited, { type: 'APPROVAL_DECIDED', approvalId: edited.approvals[0].id, decision: 'approved' }).state;
+            const firstApproval = getTask(approved, 't').revisions!.find(r => r.kind === 'approval')!;
+            const { state } = run(approved, { type: 'REVISION_RESTORED', taskId: 't', revisionId: firstApproval.id, actor: 'Sam' });
+            expect(getTask(state, 't')).toMatchObject({ status: TaskStatus.COMPLETED, approvedContent: 'Hello' });
+            expect(state.approvals).toEqual([]);
+        });
+
+        it('puts a restored version that was never approved up for review', () => {
+            const edited = editContent();
+            const rejected = run(edited, { type: 'APPROVAL_DECIDED', approvalId: edited.approvals[0].id, decision: 'rejected' }).state;
+            const edit = getTask(rejected, 't').revisions!.find(r => r.kind === 'edit')!;
+            const { state } = run(rejected, { type: 'REVISION_RESTORED', taskId: 't', revisionId: edit.id, actor: 'Sam' });
+            expect(getTask(state, 't')).toMatchObject({ status: TaskStatus.AWAITING_APPROVAL, approvedContent: 'Hello' });
+            expect(state.approvals).toEqual([expect.objectContaining({ content: 'Hello, all', isResultEdit: true })]);
+        });
+    });
+
+    describe('personalized sponsor drafts', () => {
+        const sponsors: Sponsor[] = ['Acme', 'Acme Corp'].map((company, index) => ({
+            id: `s${index}`,
+            company,
+            contacts: [{ name: `Contact ${index}`, email: `c${index}@example.com`, role: '' }],
+            tier: '',
+            stage: SponsorStage.IDENTIFIED,
+            notes: '',
+        }));
+        const content = combineSponsorDrafts(sponsors, ['Dear Acme', 'Dear Acme Corp']);
+
+        const generate = () => run(
+            createState([createTask('t', { assignedTo: AgentName.SPONSORSHIP_OUTREACH, sponsorIds: ['s0', 's1'] })], { sponsors }),
+            { type: 'SYNC' },
+            { type: 'CONTENT_GENERATED', taskId: 't', drafts: [{ label: 'Personalized', content, sponsorDrafts: { s0: 'Dear Acme', s1: 'Dear Acme Corp' } }] },
+        ).state;
+
+        it('keeps each sponsor\'s draft when approved as written', () => {
+            const generated = generate();
+            const { state } = run(generated, { type: 'APPROVAL_DECIDED', approvalId: generated.approvals[0].id, decision: 'approved', content });
+            expect(getTask(state, 't').sponsorDrafts).toEqual({ s0: 'Dear Acme', s1: 'Dear Acme Corp' });
+        });
+
+        it('reads the drafts back out of an edited document', () => {
+            const generated = generate();
+            const edited = content.replace('Dear Acme Corp', 'Dear Acme Corp team');
+            const { state } = run(generated, { type: 'APPROVAL_DECIDED', approvalId: generated.approvals[0].id, decision: 'approved', content: edited });
+            expect(getTask(state, 't').sponsorDrafts).toEqual({ s0: 'Dear Acme', s1: 'Dear Acme Corp team' });
+        });
+
+        it('drops the drafts when the content is rejected', () => {
+            const generated = generate();
+            const { state } = run(generated, { type: 'APPROVAL_DECIDED', approvalId: generated.approvals[0].id, decision: 'rejected' });
+            expect(getTask(state, 't').sponsorDrafts).toBeUndefined();
+            expect(state.approvals[0].sponsorDrafts).toBeUndefined();
+        });
+    });
+
+    describe('errors', () => {
+        it('retries a failed task', () => {
+            const started = run(createState([createTask('a')]), { type: 'SYNC' }).state;
+            const { state, effects } = run(started, { type: 'TASK_ERRORED', taskId: 'a', error: 'Timeout' });
+            expect(getTask(state, 'a')).toMatchObject({ status: TaskStatus.IN_PROGRESS, retries: 1 });
+            expect(effects.map(e => e.task.id)).toEqual(['a']);
+        });
+
+        it('fails the task for good after the last retry and removes its unfinished draft', () => {
+            const started = run(createState([createTask('t', { assignedTo: AgentName.MARKETING, retries: MAX_TASK_RETRIES })]), { type: 'SYNC' }).state;
+            const streaming = run(started, { type: 'CONTENT_STREAMED', taskId: 't', drafts: [{ label: 'Draft', content: 'Hel' }] }).state;
+            const { state, effects } = run(streaming, { type: 'TASK_ERRORED', taskId: 't', error: 'Timeout' });
+            expect(getTask(state, 't').status).toBe(TaskStatus.FAILED);
+            expect(state.approvals).toEqual([]);
+            expect(state.agentStatus[AgentName.MARKETING]).toBe('Error');
+            expect(effects).toEqual([]);
+        });
+
+        it('keeps a regenerated draft with a history for the retry, without its partial content', () => {
+            const generated = run(
+                createState([createTask('t', { assignedTo: AgentName.MARKETING })]),
+                { type: 'SYNC' },
+                { type: 'CONTENT_GENERATED', taskId: 't', drafts: [{ label: 'Draft', content: 'Hello' }] },
+            ).state;
+            const rejected = run(
+                generated,
+                { type: 'APPROVAL_DECIDED', approvalId: generated.approvals[0].id, decision: 'rejected' },
+                { type: 'CONTENT_STREAMED', taskId: 't', drafts: [{ label: 'Draft', content: 'Hi th' }] },
+            ).state;
+            const { state } = run(rejected, { type: 'TASK_ERRORED', taskId: 't', error: 'Timeout' });
+            expect(state.approvals).toHaveLength(1);
+            expect(state.approvals[0]).toMatchObject({ status: 'generating', content: '', history: [{ content: 'Hello' }] });
+        });
+    });
+});
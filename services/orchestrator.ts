@@ -0,0 +1,999 @@
+import { AgentDefinition, AgentName, AgentStatus, AppState, ActivityLog, Approval, ContentDraft, ContentRevision, DiscussionComment, EmailDelivery, EventDates, FileAttachment, PlanDiff, ProjectCalendar, ScheduledPost, Sponsor, SponsorStage, Task, TaskStatus, TeamMember } from '../types';
+import { DEFAULT_AGENTS, DEFAULT_PROJECT_CALENDAR, MAX_TASK_RETRIES } from '../constants';
+import { isContentGenerationAgent } from './agentRegistry';
+import { getActivePolicy, getApprovalPolicy, getOutstandingApprovers, resolveApprovalStatus } from './approvalPolicy';
+import { formatCommentsForPrompt, getTaskComments } from './comments';
+import { formatPublishTime, getChannelSpec } from './socialPosts';
+import { splitSponsorDrafts } from './sponsors';
+
+/**
+ * The orchestrator is the headless scheduling engine behind the dashboard.
+ * It is a pure function of (state, event) -> (next state, side effects): it never
+ * calls the AI, starts timers or touches React. Whoever hosts it (App.tsx today)
+ * is responsible for executing the returned side effects and reporting their
+ * outcome back as new events.
+ */
+
+export type OrchestratorEvent =
+    // Re-evaluate dependencies, parent rollups and agent status without any other change.
+    | { type: 'SYNC' }
+    // Re-request work for every runnable task, e.g. after a page reload or a session load.
+    | { type: 'RESUMED' }
+    | { type: 'LOG'; agent: string; message: string }
+    | { type: 'AGENT_STATUS_SET'; agent: string; status: AgentStatus; work: string | null }
+    | { type: 'TASK_COMPLETED'; taskId: string }
+    // `actor` is the display name of the organizer who took the action, recorded in the content's revisions.
+    // `approverId` is their team member id, which approvals with a policy need to record the decision.
+    // `includeComments` passes the task's discussion to the agent when regenerating.
+    | { type: 'APPROVAL_DECIDED'; approvalId: string; decision: 'approved' | 'rejected'; content?: string; customPrompt?: string; variantCount?: number; actor?: string; approverId?: string; comment?: string; includeComments?: boolean }
+    | { type: 'TASK_REASSIGNED'; taskId: string; agent: string }
+    | { type: 'TASK_UPDATED'; taskId: string; updates: Partial<Task> }
+    | { type: 'TIMELINE_SAVED'; tasks: Task[] }
+    // Changes proposed by the Master Planner for an organizer's request, applied together once reviewed.
+    | { type: 'PLAN_REVISED'; request: string; diff: PlanDiff }
+    // Dates edited in a calendar app and read back from an .ics file.
+    | { type: 'SCHEDULE_IMPORTED'; changes: { taskId: string; startDate?: string; estimatedDuration?: number }[] }
+    | { type: 'CALENDAR_UPDATED'; calendar: ProjectCalendar }
+    | { type: 'EVENT_DATES_SET'; eventDates: EventDates | null }
+    | { type: 'TEAM_UPDATED'; team: TeamMember[] }
+    | { type: 'SPONSORS_UPDATED'; sponsors: Sponsor[] }
+    | { type: 'AGENTS_UPDATED'; agents: AgentDefinition[] }
+    | { type: 'WORK_PROGRESSED'; taskId: string; increment: number }
+    | { type: 'WORK_FINISHED'; taskId: string }
+    // The text an agent has streamed so far, shown as a draft approval until generation finishes.
+    | { type: 'CONTENT_STREAMED'; taskId: string; drafts: ContentDraft[] }
+    // `assets` are the visual drafts designed with the content, e.g. a poster.
+    | { type: 'CONTENT_GENERATED'; taskId: string; drafts: ContentDraft[]; assets?: FileAttachment[] }
+    | { type: 'GENERATION_CANCELLED'; approvalId: string }
+    | { type: 'RESULT_EDITED'; taskId: string; content: string; actor: string }
+    | { type: 'REVISION_RESTORED'; taskId: string; revisionId: string; actor: string }
+    // The outcome of sending the task's approved content by email, one delivery per recipient.
+    | { type: 'EMAILS_SENT'; taskId: string; deliveries: EmailDelivery[] }
+    // Approved social posts set to be published, and what became of them.
+    | { type: 'POSTS_SCHEDULED'; taskId: string; posts: ScheduledPost[]; actor: string }
+    | { type: 'POST_RESCHEDULED'; taskId: string; postId: string; publishAt: string; actor: string }
+    | { type: 'POST_CANCELLED'; taskId: string; postId: string; actor: string }
+    | { type: 'POST_PUBLISHED'; taskId: string; postId: string; status: 'published' | 'failed'; adapter: string; url?: string; error?: string }
+    // A comment on a task, or on its draft awaiting approval when `approvalId` is set.
+    | { type: 'COMMENT_ADDED'; taskId: string; approvalId?: string; body: string; replyTo?: string; mentions: string[]; author: string; authorEmail: string | null }
+    | { type: 'TASK_ERRORED'; taskId: string; error: string };
+
+export type SideEffect =
+    // Ask an AI agent to generate approvable content for the task.
+    | { type: 'GENERATE_CONTENT'; task: Task }
+    // Simulate progress on a manual task until it is ready to be marked complete.
+    | { type: 'SIMULATE_WORK'; task: Task };
+
+export interface OrchestratorResult {
+    state: AppState;
+    effects: SideEffect[];
+}
+
+const getAgentNames = (agents: AgentDefinition[]): string[] =>
+    [AgentName.MASTER_PLANNER, ...agents.map(agent => agent.name)];
+
+export const createIdleAgentStatus = (agents: AgentDefinition[] = DEFAULT_AGENTS): Record<string, AgentStatus> =>
+    getAgentNames(agents).reduce((acc, name) => ({ ...acc, [name]: AgentStatus.IDLE }), {} as Record<string, AgentStatus>);
+
+export const createIdleAgentWork = (agents: AgentDefinition[] = DEFAULT_AGENTS): Record<string, string | null> =>
+    getAgentNames(agents).reduce((acc, name) => ({ ...acc, [name]: null }), {} as Record<string, string | null>);
+
+/**
+ * Creates the state of a new, empty plan.
+ * @param agents The agent registry to start with, e.g. the one of the previous plan.
+ */
+export const createInitialAppState = (agents: AgentDefinition[] = DEFAULT_AGENTS): AppState => ({
+    tasks: [],
+    approvals: [],
+    logs: [],
+    agentStatus: createIdleAgentStatus(agents),
+    agentWork: createIdleAgentWork(agents),
+    isStarted: false,
+    calendar: DEFAULT_PROJECT_CALENDAR,
+    eventDates: null,
+    team: [],
+    sponsors: [],
+    agents,
+});
+
+// A helper function to find all descendants of a task.
+export const getDescendantIds = (parentId: string, allTasks: Task[]): Set<string> => {
+    const descendants = new Set<string>();
+    const queue = allTasks.filter(t => t.parentId === parentId).map(t => t.id);
+    while (queue.length > 0) {
+        const currentId = queue.shift()!;
+        descendants.add(currentId);
+        const children = allTasks.filter(t => t.parentId === currentId);
+        children.forEach(c => queue.push(c.id));
+    }
+    return descendants;
+};
+
+const getParentTaskIds = (tasks: Task[]): Set<string> =>
+    new Set(tasks.map(t => t.parentId).filter((id): id is string => !!id));
+
+/**
+ * A task is runnable when an agent should actively be working on it: it is a leaf
+ * task, it is in progress and its work has not finished yet.
+ */
+const getRunnableTaskIds = (tasks: Task[]): Set<string> => {
+    const parentTaskIds = getParentTaskIds(tasks);
+    return new Set(
+        tasks
+            .filter(task => !parentTaskIds.has(task.id) && task.status === TaskStatus.IN_PROGRESS && (task.progress ?? 0) < 100)
+            .map(task => task.id)
+    );
+};
+
+/**
+ * Mutable scratchpad used while reducing a single event. Keeping it local to one
+ * `orchestrate` call preserves the purity of the public API.
+ */
+interface Draft {
+    state: AppState;
+    now: Date;
+    restartTaskIds: Set<string>;
+}
+
+// Puts freshly generated drafts on an approval. Single drafts only fill `content`.
+const withDrafts = (approval: Approval, drafts: ContentDraft[]): Approval => ({
+    ...approval,
+    content: drafts[0]?.content ?? '',
+    variants: drafts.length > 1 ? drafts : undefined,
+    sponsorDrafts: drafts[0]?.sponsorDrafts,
+});
+
+// The drafts an approval currently offers, e.g. to move them into its history.
+const getApprovalDrafts = (approval: Approval): ContentDraft[] =>
+    approval.variants ?? (approval.content ? [{ label: 'Draft', content: approval.content }] : []);
+
+const createApproval = (task: Task, drafts: ContentDraft[], status: Approval['status'], now: Date): Approval => withDrafts({
+    id: `approval-${task.id}-${now.getTime()}`,
+    taskId: task.id,
+    agent: task.assignedTo,
+    title: `Approval for: ${task.title}`,
+    content: '',
+    status,
+}, drafts);
+
+// Puts a finished draft up for review under the policy that currently applies to the task.
+const openForReview = (approval: Approval, task: Task, state: AppState): Approval => ({
+    ...approval,
+    status: 'pending',
+    policy: getApprovalPolicy(task, state.agents, state.team),
+    decisions: undefined,
+});
+
+// Shown as the author of human revisions when the organizer's name is not known.
+const UNKNOWN_ACTOR = 'An organizer';
+
+const addRevision = (task: Task, revision: Omit<ContentRevision, 'id' | 'createdAt'>, now: Date): Task => {
+    const revisions = task.revisions ?? [];
+    return {
+        ...task,
+        revisions: [...revisions, { ...revision, id: `rev-${now.getTime()}-${revisions.length}`, createdAt: now.toISOString() }],
+    };
+};
+
+const addDraftRevisions = (task: Task, drafts: ContentDraft[], now: Date): Task =>
+    drafts.reduce((acc, d) => addRevision(acc, { kind: 'draft', source: 'ai', author: task.assignedTo, content: d.content, label: d.label }, now), task);
+
+const log = (draft: Draft, agent: string, message: string) => {
+    const entry: ActivityLog = { agent, message, timestamp: draft.now };
+    draft.state = { ...draft.state, logs: [...draft.state.logs, entry] };
+};
+
+const replaceApproval = (draft: Draft, approval: Approval) => {
+    draft.state = { ...draft.state, approvals: draft.state.approvals.map(a => a.id === approval.id ? approval : a) };
+};
+
+// Reads the per-sponsor drafts back out of an edited document of personalized drafts.
+const readSponsorDrafts = (content: string, sponsorDrafts: Record<string, string> | undefined, sponsors: Sponsor[]): Record<string, string> | undefined =>
+    sponsorDrafts && splitSponsorDrafts(content, sponsors.filter(s => s.id in sponsorDrafts));
+
+/**
+ * Sets a task's result. Personalized content keeps a draft per sponsor; when the
+ * combined document was edited, they are read back out of it.
+ * @param sponsorDrafts The drafts the unedited content was combined from, if any.
+ * @param writtenContent The unedited content.
+ */
+const withApprovedContent = (task: Task, content: string, sponsorDrafts: Record<string, string> | undefined, writtenContent: string | undefined, sponsors: Sponsor[]): Task => ({
+    ...task,
+    approvedContent: content,
+    sponsorDrafts: content === writtenContent ? sponsorDrafts : readSponsorDrafts(content, sponsorDrafts, sponsors),
+});
+
+// Removes an approved draft and completes its task with the approved content.
+const completeApproval = (draft: Draft, approval: Approval, task: Task, content: string, author: string) => {
+    draft.state = { ...draft.state, approvals: draft.state.approvals.filter(a => a.id !== approval.id) };
+    mapTask(draft, task.id, t => addRevision({
+        ...withApprovedContent(t, content, approval.sponsorDrafts, approval.content, draft.state.sponsors),
+        status: TaskStatus.COMPLETED,
+        progress: 100,
+        customPrompt: undefined,
+        reviewerFeedback: undefined,
+        // The discussion of the draft stays with the task.
+        comments: approval.comments ? getTaskComments(t, [approval]) : t.comments,
+        attachments: approval.assets ? [...(t.attachments ?? []), ...approval.assets] : t.attachments,
+    }, { kind: 'approval', source: 'human', author, content }, draft.now));
+    log(draft, task.assignedTo, `Task approved: "${task.title}". Finalizing.`);
+    if (approval.assets?.length) {
+        log(draft, task.assignedTo, `Attached ${approval.assets.map(a => a.name).join(', ')} to "${task.title}".`);
+    }
+};
+
+/**
+ * Changes a completed task's result on an organizer's behalf. Content that was approved
+ * before replaces the result at once; anything else goes back for review under the task's
+ * policy, and the approved result stays in use until it is approved.
+ * @returns Whether the new content is awaiting approval.
+ */
+const changeResult = (draft: Draft, task: Task, content: string, revision: Omit<ContentRevision, 'id' | 'createdAt'>): boolean => {
+    if (task.revisions?.some(r => r.kind === 'approval' && r.content === content)) {
+        mapTask(draft, task.id, t => addRevision(withApprovedContent(t, content, t.sponsorDrafts, t.approvedContent, draft.state.sponsors), revision, draft.now));
+        return false;
+    }
+    const edit: ContentDraft = { label: 'Edited result', content, sponsorDrafts: readSponsorDrafts(content, task.sponsorDrafts, draft.state.sponsors) };
+    const approval = openForReview({ ...createApproval(task, [edit], 'pending', draft.now), isResultEdit: true }, task, draft.state);
+    draft.state = { ...draft.state, approvals: [...draft.state.approvals, approval] };
+    mapTask(draft, task.id, t => addRevision({ ...t, status: TaskStatus.AWAITING_APPROVAL }, revision, draft.now));
+    return true;
+};
+
+// The names of the approvers who signed off, e.g. as the author of the approval revision.
+const getApproverNames = (approval: Approval, team: TeamMember[]): string =>
+    (approval.decisions ?? [])
+        .filter(d => d.decision === 'approved')
+        .map(d => team.find(m => m.id === d.approverId)?.name ?? UNKNOWN_ACTOR)
+        .join(', ');
+
+const setTasks = (draft: Draft, tasks: Task[]) => {
+    draft.state = { ...draft.state, tasks };
+};
+
+const mapTask = (draft: Draft, taskId: string, update: (task: Task) => Task) => {
+    setTasks(draft, draft.state.tasks.map(t => (t.id === taskId ? update(t) : t)));
+};
+
+/**
+ * Moves pending leaf tasks to In Progress once all of their prerequisites are complete
+ * (or they have been pinned to an explicit start date).
+ * @returns true if any task was started.
+ */
+const unlockReadyTasks = (draft: Draft): boolean => {
+    const { tasks } = draft.state;
+    const completedTaskIds = new Set(tasks.filter(t => t.status === TaskStatus.COMPLETED).map(t => t.id));
+    const parentTaskIds = getParentTaskIds(tasks);
+
+    const tasksToStart = new Set(tasks
+        .filter(task =>
+            !parentTaskIds.has(task.id) &&
+            task.status === TaskStatus.PENDING &&
+            (task.startDate || (task.dependsOn || []).every(depId => completedTaskIds.has(depId)))
+        )
+        .map(t => t.id));
+
+    if (tasksToStart.size === 0) return false;
+
+    log(draft, AgentName.MASTER_PLANNER, `Dependencies met for ${tasksToStart.size} task(s). Starting now.`);
+    setTasks(draft, tasks.map(t => (tasksToStart.has(t.id) ? { ...t, status: TaskStatus.IN_PROGRESS } : t)));
+    return true;
+};
+
+/**
+ * Derives each parent task's progress and status from its sub-tasks.
+ * @returns true if any parent task changed.
+ */
+const rollUpParentTasks = (draft: Draft): boolean => {
+    const { tasks } = draft.state;
+    const taskMap = new Map(tasks.map(t => [t.id, t]));
+    const parentStats = new Map<string, { completed: number; total: number }>();
+    const completedTaskIds = new Set(tasks.filter(t => t.status === TaskStatus.COMPLETED).map(t => t.id));
+    const subTasksByParent = new Map<string, Task[]>();
+
+    tasks.forEach(task => {
+        if (task.parentId && taskMap.has(task.parentId)) {
+            if (!parentStats.has(task.parentId)) {
+                parentStats.set(task.parentId, { completed: 0, total: 0 });
+                subTasksByParent.set(task.parentId, []);
+            }
+            const stats = parentStats.get(task.parentId)!;
+            stats.total += 1;
+            if (task.status === TaskStatus.COMPLETED) {
+                stats.completed += 1;
+            }
+            subTasksByParent.get(task.parentId)!.push(task);
+        }
+    });
+
+    if (parentStats.size === 0) return false;
+
+    let hasChanged = false;
+    const newTasks = tasks.map(task => {
+        const stats = parentStats.get(task.id);
+        if (!stats) return task;
+
+        const newProgress = stats.total > 0 ? Math.round((stats.completed / stats.total) * 100) : 0;
+        const allSubtasksCompleted = stats.total > 0 && stats.completed === stats.total;
+        let newStatus = task.status;
+
+        if (allSubtasksCompleted && task.status !== TaskStatus.COMPLETED) newStatus = TaskStatus.COMPLETED;
+        else if (!allSubtasksCompleted && task.status === TaskStatus.COMPLETED) newStatus = TaskStatus.IN_PROGRESS;
+        else if (task.status === TaskStatus.PENDING) {
+            const subTasks = subTasksByParent.get(task.id) || [];
+            const isAnySubtaskReady = subTasks.some(sub => (sub.dependsOn || []).every(depId => completedTaskIds.has(depId)));
+            if (isAnySubtaskReady) newStatus = TaskStatus.IN_PROGRESS;
+        }
+
+        if (task.progress === newProgress && task.status === newStatus) return task;
+
+        hasChanged = true;
+        if (task.status !== newStatus) {
+            if (newStatus === TaskStatus.COMPLETED) log(draft, task.assignedTo, `All sub-tasks for "${task.title}" are complete. Marking parent task as complete.`);
+            else if (task.status === TaskStatus.COMPLETED) log(draft, task.assignedTo, `A sub-task for "${task.title}" is no longer complete. Reverting parent task to In Progress.`);
+            else if (newStatus === TaskStatus.IN_PROGRESS) log(draft, AgentName.MASTER_PLANNER, `A sub-task for "${task.title}" is ready. Marking parent task as In Progress.`);
+        }
+        return { ...task, progress: newProgress, status: newStatus };
+    });
+
+    if (hasChanged) setTasks(draft, newTasks);
+    return hasChanged;
+};
+
+/**
+ * Records when each task was completed and clears the timestamp when a task is
+ * reopened, so the budget burn-down can place actual spend on the timeline.
+ */
+const stampCompletionDates = (draft: Draft) => {
+    const { tasks } = draft.state;
+    const completedAt = draft.now.toISOString();
+    let hasChanged = false;
+
+    const newTasks = tasks.map(task => {
+        const isCompleted = task.status === TaskStatus.COMPLETED;
+        if (isCompleted && !task.completedAt) {
+            hasChanged = true;
+            return { ...task, completedAt };
+        }
+        if (!isCompleted && task.completedAt) {
+            hasChanged = true;
+            return { ...task, completedAt: undefined };
+        }
+        return task;
+    });
+
+    if (hasChanged) setTasks(draft, newTasks);
+};
+
+/**
+ * Derives which agents are working and on which task. The Master Planner is
+ * driven explicitly through AGENT_STATUS_SET events and is left untouched.
+ */
+const deriveAgentStatus = (draft: Draft) => {
+    const { tasks, agentStatus, agentWork } = draft.state;
+    const runnableTaskIds = getRunnableTaskIds(tasks);
+
+    const newAgentStatus = { ...agentStatus };
+    const newAgentWork = { ...agentWork };
+    let hasChanged = false;
+
+    draft.state.agents.forEach(({ name: agentName }) => {
+        const activeTask = tasks.find(t => t.assignedTo === agentName && runnableTaskIds.has(t.id));
+        const currentStatus = agentStatus[agentName];
+
+        if (activeTask) {
+            if (currentStatus !== AgentStatus.WORKING && currentStatus !== AgentStatus.ERROR) {
+                newAgentStatus[agentName] = AgentStatus.WORKING;
+                hasChanged = true;
+            }
+            if (agentWork[agentName] !== activeTask.id) {
+                newAgentWork[agentName] = activeTask.id;
+                hasChanged = true;
+            }
+        } else {
+            if (currentStatus === AgentStatus.WORKING) {
+                newAgentStatus[agentName] = AgentStatus.IDLE;
+                hasChanged = true;
+            }
+            if (agentWork[agentName] !== null) {
+                newAgentWork[agentName] = null;
+                hasChanged = true;
+            }
+        }
+    });
+
+    if (hasChanged) {
+        draft.state = { ...draft.state, agentStatus: newAgentStatus, agentWork: newAgentWork };
+    }
+};
+
+/**
+ * Applies the scheduling rules until the task graph is stable, then emits work
+ * requests for every task that became runnable during this event.
+ */
+const settle = (draft: Draft, previous: AppState): SideEffect[] => {
+    // Each pass either starts a task or changes a parent, so the graph converges
+    // well before this bound; it only guards against pathological input.
+    const maxPasses = draft.state.tasks.length * 2 + 2;
+    for (let pass = 0; pass < maxPasses; pass++) {
+        const started = unlockReadyTasks(draft);
+        const rolledUp = rollUpParentTasks(draft);
+        if (!started && !rolledUp) break;
+    }
+
+    stampCompletionDates(draft);
+    deriveAgentStatus(draft);
+
+    const wasRunnable = getRunnableTaskIds(previous.tasks);
+    const isRunnable = getRunnableTaskIds(draft.state.tasks);
+    const effects: SideEffect[] = [];
+
+    draft.state.tasks.forEach(task => {
+        if (!isRunnable.has(task.id)) return;
+        if (wasRunnable.has(task.id) && !draft.restartTaskIds.has(task.id)) return;
+
+        log(draft, task.assignedTo, `Starting task: "${task.title}"`);
+        if (isContentGenerationAgent(draft.state.agents, task.assignedTo)) {
+            log(draft, task.assignedTo, `Generating content for "${task.title}"...`);
+            effects.push({ type: 'GENERATE_CONTENT', task });
+        } else {
+            effects.push({ type: 'SIMULATE_WORK', task });
+        }
+    });
+
+    return effects;
+};
+
+const applyEvent = (draft: Draft, event: OrchestratorEvent) => {
+    const { tasks, approvals } = draft.state;
+
+    switch (event.type) {
+        case 'SYNC':
+            break;
+
+        case 'RESUMED':
+            getRunnableTaskIds(tasks).forEach(id => draft.restartTaskIds.add(id));
+            break;
+
+        case 'LOG':
+            log(draft, event.agent, event.message);
+            break;
+
+        case 'AGENT_STATUS_SET':
+            draft.state = {
+                ...draft.state,
+                agentStatus: { ...draft.state.agentStatus, [event.agent]: event.status },
+                agentWork: { ...draft.state.agentWork, [event.agent]: event.work },
+            };
+            break;
+
+        case 'TASK_COMPLETED': {
+            const task = tasks.find(t => t.id === event.taskId);
+            if (!task) break;
+            log(draft, AgentName.MASTER_PLANNER, `User marked task "${task.title}" as complete.`);
+            mapTask(draft, task.id, t => ({ ...t, status: TaskStatus.COMPLETED, progress: 100 }));
+            break;
+        }
+
+        case 'APPROVAL_DECIDED': {
+            const approval = approvals.find(a => a.id === event.approvalId);
+            // A draft that is still being generated has to finish or be cancelled first.
+            if (!approval || approval.status === 'generating') break;
+
+            const relatedTask = tasks.find(t => t.id === approval.taskId);
+            const policy = getActivePolicy(approval, draft.state.team);
+            let decided = approval;
+            let decision = event.decision;
+            let author = event.actor ?? UNKNOWN_ACTOR;
+
+            if (policy && relatedTask) {
+                // Only the policy's approvers decide, each once per round.
+                const approver = draft.state.team.find(m => m.id === event.approverId);
+                if (!approver || !policy.approverIds.includes(approver.id) || approval.decisions?.some(d => d.approverId === approver.id)) break;
+
+                // Editing the draft changes what earlier approvers signed off on, so they have to approve it again.
+                const isEdited = event.decision === 'approved' && event.content !== undefined
+                    && (event.content !== approval.content || !!approval.variants);
+                const earlierDecisions = isEdited ? [] : approval.decisions ?? [];
+                decided = {
+                    ...approval,
+                    ...(isEdited ? {
+                        content: event.content,
+                        variants: undefined,
+                        sponsorDrafts: readSponsorDrafts(event.content!, approval.sponsorDrafts, draft.state.sponsors),
+                    } : {}),
+                    decisions: [...earlierDecisions, {
+                        approverId: approver.id,
+                        decision: event.decision,
+                        ...(event.comment ? { comment: event.comment } : {}),
+                        decidedAt: draft.now.toISOString(),
+                    }],
+                };
+                log(draft, AgentName.MASTER_PLANNER, `${approver.name} ${event.decision} "${relatedTask.title}"${event.comment ? `: "${event.comment}"` : '.'}`);
+                if (isEdited && (approval.decisions ?? []).length > 0) {
+                    log(draft, AgentName.MASTER_PLANNER, `The draft of "${relatedTask.title}" was edited, so earlier sign-offs have to be given again.`);
+                }
+
+                const status = resolveApprovalStatus(policy, decided.decisions ?? []);
+                if (status === 'pending') {
+                    replaceApproval(draft, decided);
+                    const outstanding = getOutstandingApprovers(decided, draft.state.team);
+                    log(draft, AgentName.MASTER_PLANNER, `"${relatedTask.title}" is waiting on ${outstanding.map(m => m.name).join(', ')}.`);
+                    break;
+                }
+                decision = status;
+                author = getApproverNames(decided, draft.state.team) || approver.name;
+            }
+
+            if (!relatedTask || decision === 'approved' || approval.isResultEdit) {
+                draft.state = { ...draft.state, approvals: approvals.filter(a => a.id !== approval.id) };
+            } else {
+                // The approval stays to receive the new drafts, keeping the rejected ones in its history.
+                replaceApproval(draft, {
+                    ...decided,
+                    content: '',
+                    variants: undefined,
+                    sponsorDrafts: undefined,
+                    history: [...(decided.history ?? []), ...getApprovalDrafts(decided)],
+                    assets: undefined,
+                    status: 'generating',
+                    decisions: undefined,
+                });
+            }
+            if (!relatedTask) break;
+
+            log(draft, AgentName.MASTER_PLANNER, `Decision received for "${relatedTask.title}": ${decision.toUpperCase()}`);
+
+            if (decision === 'approved') {
+                completeApproval(draft, decided, relatedTask, event.content ?? decided.content, author);
+            } else if (approval.isResultEdit) {
+                // A rejected edit is dropped, and the approved result it would have replaced stays.
+                mapTask(draft, relatedTask.id, t => ({
+                    ...t,
+                    status: TaskStatus.COMPLETED,
+                    comments: decided.comments ? getTaskComments(t, [decided]) : t.comments,
+                }));
+                log(draft, relatedTask.assignedTo, `The edit of "${relatedTask.title}" was rejected. The approved result stays.`);
+            } else {
+                mapTask(draft, relatedTask.id, t => ({
+                    ...t,
+                    status: TaskStatus.IN_PROGRESS,
+                    progress: 0,
+                    retries: 0,
+                    customPrompt: event.customPrompt,
+                    reviewerFeedback: event.includeComments ? formatCommentsForPrompt(getTaskComments(t, [decided])) || undefined : undefined,
+                    variantCount: event.variantCount ?? t.variantCount,
+                    approvedContent: undefined,
+                    sponsorDrafts: undefined,
+                }));
+                log(draft, relatedTask.assignedTo, event.customPrompt
+                    ? `Task rejected: "${relatedTask.title}". Will attempt to regenerate with a new prompt.`
+                    : `Task rejected: "${relatedTask.title}". Will attempt to regenerate.`);
+            }
+            break;
+        }
+
+        case 'TASK_REASSIGNED': {
+            const task = tasks.find(t => t.id === event.taskId);
+            if (!task) break;
+
+            log(draft, event.agent, `Task "${task.title}" has been reassigned to me. Resetting and starting work.`);
+
+            const descendantIds = getDescendantIds(task.id, tasks);
+            if (descendantIds.size > 0) {
+                log(draft, event.agent, `All sub-tasks of "${task.title}" have also been reassigned.`);
+            }
+
+            draft.restartTaskIds.add(task.id);
+            setTasks(draft, tasks.map(t => {
+                if (t.id !== task.id && !descendantIds.has(t.id)) return t;
+                // Reset main task to In Progress and sub-tasks to Pending to allow dependency re-evaluation
+                return {
+                    ...t,
+                    assignedTo: event.agent,
+                    status: t.id === task.id ? TaskStatus.IN_PROGRESS : TaskStatus.PENDING,
+                    progress: 0,
+                    retries: 0,
+                };
+            }));
+            break;
+        }
+
+        case 'TASK_UPDATED': {
+            const task = tasks.find(t => t.id === event.taskId);
+            if (!task) break;
+
+            const newAgent = event.updates.assignedTo;
+            if (newAgent && newAgent !== task.assignedTo) {
+                log(draft, newAgent, `Task "${task.title}" has been manually reassigned to me.`);
+
+                const descendantIds = getDescendantIds(task.id, tasks);
+                if (descendantIds.size > 0) {
+                    log(draft, newAgent, `Propagating agent change to ${descendantIds.size} sub-task(s).`);
+                }
+
+                setTasks(draft, tasks.map(t => {
+                    if (t.id === task.id) return { ...t, ...event.updates };
+                    if (descendantIds.has(t.id)) return { ...t, assignedTo: newAgent };
+                    return t;
+                }));
+            } else {
+                mapTask(draft, task.id, t => ({ ...t, ...event.updates }));
+            }
+
+            if ('assigneeId' in event.updates && event.updates.assigneeId !== task.assigneeId) {
+                const member = draft.state.team.find(m => m.id === event.updates.assigneeId);
+                log(draft, AgentName.MASTER_PLANNER, member
+                    ? `Task "${task.title}" has been assigned to ${member.name}.`
+                    : `Task "${task.title}" no longer has a team member assigned.`);
+            }
+            break;
+        }
+
+        case 'TIMELINE_SAVED':
+            log(draft, AgentName.MASTER_PLANNER, "Timeline saved. Resetting all tasks and clearing previous results to start the new plan from a clean slate.");
+            draft.state = {
+                ...draft.state,
+                tasks: event.tasks.map(task => ({
+                    ...task,
+                    status: TaskStatus.PENDING,
+                    progress: 0,
+                    retries: 0,
+                    approvedContent: undefined,
+                    sponsorDrafts: undefined,
+                })),
+                approvals: [],
+            };
+            break;
+
+        case 'PLAN_REVISED': {
+            const { diff } = event;
+            const removedIds = new Set(diff.removed.map(r => r.taskId).filter(id => tasks.some(t => t.id === id)));
+            removedIds.forEach(id => getDescendantIds(id, tasks).forEach(descendantId => removedIds.add(descendantId)));
+            const changesById = new Map(diff.modified.map(m => [m.taskId, m.changes]));
+            const completedIds = new Set(tasks.filter(t => t.status === TaskStatus.COMPLETED).map(t => t.id));
+            const withoutRemoved = (ids: string[] = []) => ids.filter(id => !removedIds.has(id));
+
+            const revisedTasks = tasks.filter(t => !removedIds.has(t.id)).map(task => {
+                const changes = changesById.get(task.id);
+                const revised: Task = { ...task, ...changes, dependsOn: withoutRemoved(changes?.dependsOn ?? task.dependsOn) };
+                if (!changes || revised.status !== TaskStatus.IN_PROGRESS) return revised;
+                // Work in progress waits again if it now depends on unfinished tasks, and starts over if what it is about changed.
+                if (changes.dependsOn && revised.dependsOn!.some(id => !completedIds.has(id)) && !revised.startDate) {
+                    return { ...revised, status: TaskStatus.PENDING, progress: 0 };
+                }
+                if (changes.title || changes.description || changes.assignedTo) {
+                    draft.restartTaskIds.add(task.id);
+                    return { ...revised, progress: 0, retries: 0 };
+                }
+                return revised;
+            });
+            const addedTasks: Task[] = diff.added
+                .filter(task => !tasks.some(t => t.id === task.id))
+                .map(task => ({ ...task, dependsOn: withoutRemoved(task.dependsOn), status: TaskStatus.PENDING, progress: 0, retries: 0 }));
+
+            draft.state = {
+                ...draft.state,
+                tasks: [...revisedTasks, ...addedTasks],
+                approvals: approvals.filter(a => !removedIds.has(a.taskId)),
+            };
+            log(draft, AgentName.MASTER_PLANNER, `Plan revised for "${event.request}": ${addedTasks.length} task(s) added, ${removedIds.size} removed and ${changesById.size} changed.`);
+            break;
+        }
+
+        case 'SCHEDULE_IMPORTED': {
+            const changes = new Map(event.changes.map(change => [change.taskId, change]));
+            setTasks(draft, tasks.map(t => {
+                const change = changes.get(t.id);
+                if (!change) return t;
+                return {
+                    ...t,
+                    ...(change.startDate ? { startDate: change.startDate } : {}),
+                    ...(change.estimatedDuration ? { estimatedDuration: change.estimatedDuration } : {}),
+                };
+            }));
+            log(draft, AgentName.MASTER_PLANNER, `Imported ${event.changes.length} schedule change(s) from a calendar file.`);
+            break;
+        }
+
+        case 'CALENDAR_UPDATED':
+            // Only the timeline depends on the calendar; task statuses are unaffected.
+            draft.state = { ...draft.state, calendar: event.calendar };
+            log(draft, AgentName.MASTER_PLANNER, "Project calendar updated. The timeline has been rescheduled around the new working days.");
+            break;
+
+        case 'EVENT_DATES_SET':
+            draft.state = { ...draft.state, eventDates: event.eventDates };
+            log(draft, AgentName.MASTER_PLANNER, event.eventDates
+                ? `Event dates set to ${event.eventDates.startDate} – ${event.eventDates.endDate}. Each task's float is now counted back from the day before, and tasks that would finish too late are flagged.`
+                : "Event dates cleared. The timeline no longer has a deadline.");
+            break;
+
+        case 'TEAM_UPDATED': {
+            // Tasks assigned to someone who left the roster go back to being unassigned.
+            const memberIds = new Set(event.team.map(m => m.id));
+            const orphaned = tasks.filter(t => t.assigneeId && !memberIds.has(t.assigneeId));
+            draft.state = { ...draft.state, team: event.team };
+            if (orphaned.length > 0) {
+                const orphanedIds = new Set(orphaned.map(t => t.id));
+                setTasks(draft, tasks.map(t => orphanedIds.has(t.id) ? { ...t, assigneeId: undefined } : t));
+            }
+            log(draft, AgentName.MASTER_PLANNER, orphaned.length > 0
+                ? `Team roster updated. ${orphaned.length} task(s) assigned to removed members are now unassigned.`
+                : `Team roster updated. The team now has ${event.team.length} member(s).`);
+
+            // Approvals that were only waiting on removed members are now fully signed off.
+            approvals.forEach(approval => {
+                const policy = approval.status === 'pending' && (approval.decisions ?? []).length > 0 ? getActivePolicy(approval, event.team) : undefined;
+                const task = tasks.find(t => t.id === approval.taskId);
+                if (!policy || !task || resolveApprovalStatus(policy, approval.decisions ?? []) !== 'approved') return;
+                completeApproval(draft, approval, task, approval.content, getApproverNames(approval, event.team));
+            });
+            break;
+        }
+
+        case 'SPONSORS_UPDATED': {
+            // Tasks stop writing to sponsors that were removed from the list.
+            const sponsorIds = new Set(event.sponsors.map(s => s.id));
+            draft.state = { ...draft.state, sponsors: event.sponsors };
+            if (tasks.some(t => t.sponsorIds?.some(id => !sponsorIds.has(id)))) {
+                setTasks(draft, tasks.map(t => t.sponsorIds?.some(id => !sponsorIds.has(id))
+                    ? { ...t, sponsorIds: t.sponsorIds.filter(id => sponsorIds.has(id)) }
+                    : t));
+            }
+            const committed = event.sponsors.filter(s => s.stage === SponsorStage.COMMITTED || s.stage === SponsorStage.PAID).length;
+            log(draft, AgentName.MASTER_PLANNER, `Sponsor list updated. ${event.sponsors.length} sponsor(s), ${committed} committed.`);
+            break;
+        }
+
+        case 'AGENTS_UPDATED': {
+            // Agents that were just added start out idle; removed ones drop out of the status grid.
+            const names = getAgentNames(event.agents);
+            const { agentStatus, agentWork } = draft.state;
+            draft.state = {
+                ...draft.state,
+                agents: event.agents,
+                agentStatus: Object.fromEntries(names.map(name => [name, agentStatus[name] ?? AgentStatus.IDLE])),
+                agentWork: Object.fromEntries(names.map(name => [name, agentWork[name] ?? null])),
+            };
+            log(draft, AgentName.MASTER_PLANNER, `Agent registry updated. ${event.agents.length} agent(s) are available for new and reassigned tasks.`);
+            break;
+        }
+
+        case 'WORK_PROGRESSED':
+            mapTask(draft, event.taskId, t => t.status === TaskStatus.IN_PROGRESS
+                ? { ...t, progress: Math.min(100, (t.progress || 0) + event.increment) }
+                : t);
+            break;
+
+        case 'WORK_FINISHED': {
+            const task = tasks.find(t => t.id === event.taskId);
+            if (!task) break;
+            mapTask(draft, task.id, t => ({ ...t, progress: 100 }));
+            log(draft, task.assignedTo, `Task "${task.title}" work is finished. Awaiting manual completion.`);
+            break;
+        }
+
+        case 'CONTENT_STREAMED': {
+            const task = tasks.find(t => t.id === event.taskId);
+            if (!task || task.status !== TaskStatus.IN_PROGRESS) break;
+
+            const streamedDraft = approvals.find(a => a.taskId === task.id && a.status === 'generating');
+            if (streamedDraft) {
+                draft.state = {
+                    ...draft.state,
+                    approvals: approvals.map(a => a.id === streamedDraft.id ? withDrafts(a, event.drafts) : a),
+                };
+            } else {
+                draft.state = { ...draft.state, approvals: [...approvals, createApproval(task, event.drafts, 'generating', draft.now)] };
+            }
+            break;
+        }
+
+        case 'GENERATION_CANCELLED': {
+            const approval = approvals.find(a => a.id === event.approvalId);
+            if (!approval || approval.status !== 'generating') break;
+            const task = tasks.find(t => t.id === approval.taskId);
+
+            if (!task || task.status !== TaskStatus.IN_PROGRESS) {
+                // The task was completed or changed meanwhile, so the draft is no longer needed.
+                draft.state = { ...draft.state, approvals: approvals.filter(a => a.id !== approval.id) };
+                break;
+            }
+
+            // The partial draft is kept for review: it can be edited and approved, or regenerated.
+            replaceApproval(draft, openForReview(approval, task, draft.state));
+            const partialDrafts = getApprovalDrafts(approval).map(d => ({ ...d, label: `${d.label} (stopped)` }));
+            mapTask(draft, task.id, t => addDraftRevisions({ ...t, status: TaskStatus.AWAITING_APPROVAL, progress: 100, customPrompt: undefined, reviewerFeedback: undefined }, partialDrafts, draft.now));
+            log(draft, task.assignedTo, `Generation cancelled for "${task.title}". The partial draft is awaiting review.`);
+            break;
+        }
+
+        case 'CONTENT_GENERATED': {
+            const task = tasks.find(t => t.id === event.taskId);
+            if (!task) break;
+
+            if (task.status !== TaskStatus.IN_PROGRESS) {
+                log(draft, AgentName.MASTER_PLANNER, `Discarding generated content for "${task.title}" as it was manually completed or changed.`);
+                break;
+            }
+
+            const withAssets = (approval: Approval): Approval => event.assets?.length ? { ...approval, assets: event.assets } : approval;
+            const streamedDraft = approvals.find(a => a.taskId === task.id && a.status === 'generating');
+            if (streamedDraft) {
+                replaceApproval(draft, openForReview(withAssets(withDrafts(streamedDraft, event.drafts)), task, draft.state));
+            } else if (!approvals.some(a => a.taskId === task.id && a.status === 'pending')) {
+                const approval = openForReview(withAssets(createApproval(task, event.drafts, 'pending', draft.now)), task, draft.state);
+                draft.state = { ...draft.state, approvals: [...approvals, approval] };
+            }
+
+            log(draft, task.assignedTo, `Task "${task.title}" requires approval.`);
+            mapTask(draft, task.id, t => addDraftRevisions({ ...t, status: TaskStatus.AWAITING_APPROVAL, progress: 100, customPrompt: undefined, reviewerFeedback: undefined }, event.drafts, draft.now));
+            break;
+        }
+
+        case 'RESULT_EDITED': {
+            const task = tasks.find(t => t.id === event.taskId);
+            if (!task || task.status !== TaskStatus.COMPLETED || task.approvedContent === event.content) break;
+            const isAwaitingApproval = changeResult(draft, task, event.content, { kind: 'edit', source: 'human', author: event.actor, content: event.content });
+            log(draft, AgentName.MASTER_PLANNER, `${event.actor} edited the result of "${task.title}".`);
+            if (isAwaitingApproval) log(draft, task.assignedTo, `Task "${task.title}" requires approval.`);
+            break;
+        }
+
+        case 'REVISION_RESTORED': {
+            const task = tasks.find(t => t.id === event.taskId);
+            const revision = task?.revisions?.find(r => r.id === event.revisionId);
+            if (!task || !revision || task.status !== TaskStatus.COMPLETED) break;
+            const isAwaitingApproval = changeResult(draft, task, revision.content, {
+                kind: 'restore',
+                source: 'human',
+                author: event.actor,
+                content: revision.content,
+                restoredFrom: revision.id,
+            });
+            log(draft, AgentName.MASTER_PLANNER, `${event.actor} restored an earlier version of the result of "${task.title}".`);
+            if (isAwaitingApproval) log(draft, task.assignedTo, `Task "${task.title}" requires approval.`);
+            break;
+        }
+
+        case 'EMAILS_SENT': {
+            const task = tasks.find(t => t.id === event.taskId);
+            if (!task || event.deliveries.length === 0) break;
+            mapTask(draft, task.id, t => ({ ...t, deliveries: [...(t.deliveries ?? []), ...event.deliveries] }));
+            event.deliveries.forEach(delivery => {
+                const recipient = `${delivery.recipientName} <${delivery.email}>`;
+                log(draft, task.assignedTo, delivery.status === 'sent'
+                    ? `${delivery.sentBy} sent "${task.title}" to ${recipient} via ${delivery.transport}.`
+                    : `Sending "${task.title}" to ${recipient} failed: ${delivery.error}`);
+            });
+            break;
+        }
+
+        case 'POSTS_SCHEDULED': {
+            const task = tasks.find(t => t.id === event.taskId);
+            // Only approved content is published.
+            if (!task || task.status !== TaskStatus.COMPLETED || !task.approvedContent || event.posts.length === 0) break;
+            mapTask(draft, task.id, t => ({ ...t, posts: [...(t.posts ?? []), ...event.posts] }));
+            log(draft, AgentName.MASTER_PLANNER, `${event.actor} scheduled ${event.posts.length} post(s) of "${task.title}": ${event.posts.map(p => `${getChannelSpec(p.channel).label} on ${formatPublishTime(p.publishAt)}`).join(', ')}.`);
+            break;
+        }
+
+        case 'POST_RESCHEDULED': {
+            const task = tasks.find(t => t.id === event.taskId);
+            const post = task?.posts?.find(p => p.id === event.postId);
+            if (!task || !post || post.status === 'published') break;
+            mapTask(draft, task.id, t => ({
+                ...t,
+                posts: t.posts?.map(p => p.id === post.id ? { ...p, publishAt: event.publishAt, status: 'scheduled' as const, error: undefined } : p),
+            }));
+            log(draft, AgentName.MASTER_PLANNER, `${event.actor} moved the ${getChannelSpec(post.channel).label} post of "${task.title}" to ${formatPublishTime(event.publishAt)}.`);
+            break;
+        }
+
+        case 'POST_CANCELLED': {
+            const task = tasks.find(t => t.id === event.taskId);
+            const post = task?.posts?.find(p => p.id === event.postId);
+            if (!task || !post || post.status === 'published') break;
+            mapTask(draft, task.id, t => ({ ...t, posts: t.posts?.filter(p => p.id !== post.id) }));
+            log(draft, AgentName.MASTER_PLANNER, `${event.actor} cancelled the ${getChannelSpec(post.channel).label} post of "${task.title}".`);
+            break;
+        }
+
+        case 'POST_PUBLISHED': {
+            const task = tasks.find(t => t.id === event.taskId);
+            const post = task?.posts?.find(p => p.id === event.postId);
+            // Another browser may have published it, or it was moved, in the meantime.
+            if (!task || !post || post.status !== 'scheduled') break;
+            mapTask(draft, task.id, t => ({
+                ...t,
+                posts: t.posts?.map(p => p.id === post.id ? {
+                    ...p,
+                    status: event.status,
+                    adapter: event.adapter,
+                    url: event.url,
+                    error: event.error,
+                    publishedAt: event.status === 'published' ? draft.now.toISOString() : undefined,
+                } : p),
+            }));
+            const channel = getChannelSpec(post.channel).label;
+            log(draft, task.assignedTo, event.status === 'published'
+                ? `Published the ${channel} post of "${task.title}" via ${event.adapter}${event.url ? ` (${event.url})` : ''}.`
+                : `Publishing the ${channel} post of "${task.title}" failed: ${event.error}`);
+            break;
+        }
+
+        case 'COMMENT_ADDED': {
+            const task = tasks.find(t => t.id === event.taskId);
+            const approval = event.approvalId ? approvals.find(a => a.id === event.approvalId) : undefined;
+            const body = event.body.trim();
+            if (!task || !body) break;
+
+            const target = approval ?? task;
+            const comment: DiscussionComment = {
+                id: `comment-${draft.now.getTime()}-${target.comments?.length ?? 0}`,
+                ...(event.replyTo ? { replyTo: event.replyTo } : {}),
+                authorName: event.author,
+                authorEmail: event.authorEmail,
+                body,
+                mentions: event.mentions,
+                createdAt: draft.now.toISOString(),
+                ...(approval ? { approvalId: approval.id } : {}),
+            };
+            if (approval) {
+                replaceApproval(draft, { ...approval, comments: [...(approval.comments ?? []), comment] });
+            } else {
+                mapTask(draft, task.id, t => ({ ...t, comments: [...(t.comments ?? []), comment] }));
+            }
+            break;
+        }
+
+        case 'TASK_ERRORED': {
+            const task = tasks.find(t => t.id === event.taskId);
+            if (!task) break;
+
+            // A stream that broke off leaves an incomplete draft behind. Drafts with a history
+            // are kept for the retry. Once the task fails for good there is nothing left to
+            // review, so the draft is removed; earlier drafts stay in the task's revisions.
+            const currentRetries = task.retries || 0;
+            const willRetry = currentRetries < MAX_TASK_RETRIES;
+            draft.state = {
+                ...draft.state,
+                approvals: approvals
+                    .filter(a => a.taskId !== task.id || a.status !== 'generating' || (willRetry && (a.history?.length ?? 0) > 0))
+                    .map(a => a.taskId === task.id && a.status === 'generating'
+                        ? { ...a, content: '', variants: undefined, sponsorDrafts: undefined }
+                        : a),
+            };
+
+            if (willRetry) {
+                log(draft, task.assignedTo, `Error on task "${task.title}": ${event.error}. Retrying (${currentRetries + 1}/${MAX_TASK_RETRIES}).`);
+                mapTask(draft, task.id, t => ({ ...t, retries: currentRetries + 1, progress: 0 }));
+                draft.restartTaskIds.add(task.id);
+            } else {
+                log(draft, task.assignedTo, `Error on task "${task.title}": ${event.error}. Task failed after ${MAX_TASK_RETRIES} retries.`);
+                mapTask(draft, task.id, t => ({ ...t, status: TaskStatus.FAILED, progress: 0 }));
+                draft.state = {
+                    ...draft.state,
+                    agentStatus: { ...draft.state.agentStatus, [task.assignedTo]: AgentStatus.ERROR },
+                    agentWork: { ...draft.state.agentWork, [task.assignedTo]: null },
+                };
+            }
+            break;
+        }
+    }
+};
+
+/**
+ * Reduces one event against the current state.
+ * @param state The current application state. It is never mutated.
+ * @param event The event to apply.
+ * @param now The clock used for log timestamps and generated IDs, injectable for deterministic tests.
+ * @returns The next state and the side effects the host must execute.
+ */
+export const orchestrate = (state: AppState, event: OrchestratorEvent, now: Date = new Date()): OrchestratorResult => {
+    const draft: Draft = { state, now, restartTaskIds: new Set() };
+    applyEvent(draft, event);
+    const effects = settle(draft, state);
+    return { state: draft.state, effects };
+};
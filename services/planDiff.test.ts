@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { AgentName, PlanDiff, TaskStatus } from '../types';
+import { DEFAULT_AGENTS } from '../constants';
+import { applyPlanDiff, isPlanDiffEmpty, normalizePlanDiff, toSlug } from './planDiff';
+import { createTask } from './testUtils';
+
+const addedTask = (id: string, overrides: Partial<PlanDiff['added'][number]> = {}): PlanDiff['added'][number] => ({
+    id,
+    title: `New ${id}`,
+    description: '',
+    assignedTo: AgentName.MARKETING,
+    dependsOn: [],
+    estimatedDuration: 1,
+    ...overrides,
+});
+
+const plan = [createTask('venue'), createTask('catering', { dependsOn: ['venue'] }), createTask('menu', { parentId: 'catering' })];
+
+describe('toSlug', () => {
+    it('turns titles into ids', () => {
+        expect(toSlug('Book the Venue!')).toBe('book-the-venue');
+        expect(toSlug('???')).toBe('task');
+    });
+});
+
+describe('normalizePlanDiff', () => {
+    it('removes sub-tasks with their parent and ignores unknown tasks', () => {
+        const diff = normalizePlanDiff({ removed: [{ taskId: 'catering' }, { taskId: 'ghost' }] }, plan, DEFAULT_AGENTS);
+        expect(diff.removed.map(r => r.taskId)).toEqual(['catering', 'menu']);
+    });
+
+    it('renames added tasks that clash and rewrites references to them', () => {
+        const diff = normalizePlanDiff({
+            added: [
+                addedTask('venue', { title: 'Backup venue' }),
+                addedTask('tour', { dependsOn: ['venue', 'venue'], parentId: 'venue' }),
+            ],
+        }, plan, DEFAULT_AGENTS);
+        expect(diff.added.map(t => t.id)).toEqual(['venue-2', 'tour']);
+        // "venue" is already in the plan, so references to it still mean the existing task.
+        expect(diff.added[1]).toMatchObject({ dependsOn: ['venue'], parentId: 'venue' });
+    });
+
+    it('follows added tasks to their new ids', () => {
+        const diff = normalizePlanDiff({
+            added: [addedTask('Posters'), addedTask('print', { dependsOn: ['Posters'], parentId: 'Posters' })],
+        }, plan, DEFAULT_AGENTS);
+        expect(diff.added.map(t => t.id)).toEqual(['posters', 'print']);
+        expect(diff.added[1]).toMatchObject({ dependsOn: ['posters'], parentId: 'posters' });
+    });
+
+    it('keeps only the fields a modification actually changes', () => {
+        const diff = normalizePlanDiff({
+            modified: [{ taskId: 'catering', changes: { title: 'Task catering', dependsOn: ['venue', 'ghost'], estimatedDuration: 2.6 } }],
+        }, plan, DEFAULT_AGENTS);
+        expect(diff.modified).toEqual([{ taskId: 'catering', changes: { estimatedDuration: 3 }, reason: undefined }]);
+    });
+
+    it('drops dependencies on removed tasks', () => {
+        const diff = normalizePlanDiff({
+            removed: [{ taskId: 'venue' }],
+            added: [addedTask('tour', { dependsOn: ['venue'] })],
+        }, plan, DEFAULT_AGENTS);
+        expect(diff.added[0].dependsOn).toEqual([]);
+    });
+
+    it('is empty when nothing changes', () => {
+        expect(isPlanDiffEmpty(normalizePlanDiff({ modified: [{ taskId: 'venue', changes: { title: 'Task venue' } }] }, plan, DEFAULT_AGENTS))).toBe(true);
+    });
+});
+
+describe('applyPlanDiff', () => {
+    it('adds, removes and changes tasks', () => {
+        const diff = normalizePlanDiff({
+            summary: 'Swap catering for a food truck',
+            removed: [{ taskId: 'catering' }],
+            added: [addedTask('food-truck', { dependsOn: ['venue'] })],
+            modified: [{ taskId: 'venue', changes: { estimatedDuration: 4 } }],
+        }, plan, DEFAULT_AGENTS);
+        const tasks = applyPlanDiff(plan, diff);
+        expect(tasks.map(t => t.id)).toEqual(['venue', 'food-truck']);
+        expect(tasks[0].estimatedDuration).toBe(4);
+        expect(tasks[1]).toMatchObject({ dependsOn: ['venue'], status: TaskStatus.PENDING, progress: 0, retries: 0 });
+    });
+});
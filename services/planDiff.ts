@@ -0,0 +1,135 @@
+import { AgentDefinition, CostCategory, PlanDiff, PlannedTaskFields, PlanTaskModification, Task, TaskStatus } from '../types';
+import { resolveAssignedAgent } from './agentRegistry';
+
+/**
+ * Checks the changes the Master Planner proposes to a plan before they are shown for
+ * review. Anything that does not fit the current plan (unknown task ids, missing
+ * agents, dependencies on removed tasks) is dropped or corrected here, so applying
+ * a reviewed diff never breaks the task graph.
+ */
+
+const COST_CATEGORIES = new Set<string>(Object.values(CostCategory));
+
+// Task ids are slugs of their titles, e.g. "select-venue".
+export const toSlug = (value: string): string =>
+    value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'task';
+
+const toDuration = (value: unknown): number | undefined =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.max(1, Math.round(value)) : undefined;
+
+const toAmount = (value: unknown): number | undefined =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.round(value) : undefined;
+
+const sameIds = (a: string[] = [], b: string[] = []): boolean =>
+    a.length === b.length && a.every(id => b.includes(id));
+
+/**
+ * Cleans up a diff returned by the model against the plan it was asked to change.
+ * @returns A diff that only refers to tasks that exist, or are added by it.
+ */
+export const normalizePlanDiff = (diff: Partial<PlanDiff>, tasks: Task[], agents: AgentDefinition[]): PlanDiff => {
+    const existingIds = new Set(tasks.map(t => t.id));
+    const removedIds = new Set((diff.removed ?? []).map(r => r?.taskId).filter((id): id is string => typeof id === 'string' && existingIds.has(id)));
+    // Sub-tasks go with their parent.
+    tasks.forEach(t => {
+        if (t.parentId && removedIds.has(t.parentId)) removedIds.add(t.id);
+    });
+
+    // New tasks get ids that do not clash with the plan or with each other.
+    const usedIds = new Set(existingIds);
+    const addedSource = (diff.added ?? []).filter(task => task && typeof task.title === 'string' && task.title.trim());
+    const addedIds = addedSource.map(task => {
+        const base = toSlug(typeof task.id === 'string' ? task.id : task.title);
+        let id = base;
+        for (let n = 2; usedIds.has(id); n++) id = `${base}-${n}`;
+        usedIds.add(id);
+        return id;
+    });
+    // Added tasks refer to each other by the ids the model gave them, which may have been
+    // changed above. Ids of tasks already in the plan keep referring to those tasks.
+    const renamedIds = new Map<string, string>();
+    addedSource.forEach((task, index) => {
+        if (typeof task.id === 'string' && !existingIds.has(task.id)) renamedIds.set(task.id, addedIds[index]);
+    });
+    const resolveId = (id: string): string => renamedIds.get(id) ?? id;
+    const validIds = new Set([...[...existingIds].filter(id => !removedIds.has(id)), ...addedIds]);
+    const topLevelIds = new Set([
+        ...tasks.filter(t => !t.parentId && !removedIds.has(t.id)).map(t => t.id),
+        ...addedIds.filter((_, index) => !addedSource[index].parentId),
+    ]);
+
+    const normalizeFields = (fields: Partial<PlannedTaskFields>, ownId: string): Partial<PlannedTaskFields> => {
+        const result: Partial<PlannedTaskFields> = {};
+        if (typeof fields.title === 'string' && fields.title.trim()) result.title = fields.title.trim();
+        if (typeof fields.description === 'string') result.description = fields.description;
+        if (typeof fields.assignedTo === 'string') result.assignedTo = resolveAssignedAgent(agents, fields.assignedTo);
+        if (Array.isArray(fields.dependsOn)) {
+            result.dependsOn = [...new Set(fields.dependsOn.filter(id => typeof id === 'string').map(resolveId))].filter(id => id !== ownId && validIds.has(id));
+        }
+        const parentId = typeof fields.parentId === 'string' ? resolveId(fields.parentId) : undefined;
+        if (parentId && parentId !== ownId && topLevelIds.has(parentId)) result.parentId = parentId;
+        const duration = toDuration(fields.estimatedDuration);
+        if (duration) result.estimatedDuration = duration;
+        const estimatedCost = toAmount(fields.estimatedCost);
+        if (estimatedCost !== undefined) result.estimatedCost = estimatedCost;
+        const committedAmount = toAmount(fields.committedAmount);
+        if (committedAmount !== undefined) result.committedAmount = committedAmount;
+        if (fields.costCategory && COST_CATEGORIES.has(fields.costCategory)) result.costCategory = fields.costCategory;
+        return result;
+    };
+
+    const added = addedSource.map((task, index) => {
+        const fields = normalizeFields(task, addedIds[index]);
+        return {
+            ...fields,
+            id: addedIds[index],
+            title: fields.title ?? task.title.trim(),
+            description: fields.description ?? '',
+            assignedTo: fields.assignedTo ?? resolveAssignedAgent(agents, ''),
+            dependsOn: fields.dependsOn ?? [],
+            estimatedDuration: fields.estimatedDuration ?? 1,
+        };
+    });
+
+    const modified: PlanTaskModification[] = [];
+    (diff.modified ?? []).forEach(modification => {
+        const task = tasks.find(t => t.id === modification?.taskId);
+        if (!task || removedIds.has(task.id) || modified.some(m => m.taskId === task.id)) return;
+        const fields = normalizeFields(modification.changes ?? {}, task.id);
+        // Only keep what actually changes.
+        const changes: Partial<PlannedTaskFields> = {};
+        (Object.keys(fields) as (keyof PlannedTaskFields)[]).forEach(key => {
+            const isSame = key === 'dependsOn' ? sameIds(fields.dependsOn, task.dependsOn) : fields[key] === task[key];
+            if (!isSame) (changes as Record<string, unknown>)[key] = fields[key];
+        });
+        if (Object.keys(changes).length > 0) modified.push({ taskId: task.id, changes, reason: modification.reason });
+    });
+
+    return {
+        summary: typeof diff.summary === 'string' ? diff.summary : '',
+        added,
+        removed: [...removedIds].map(taskId => ({ taskId, reason: diff.removed?.find(r => r?.taskId === taskId)?.reason })),
+        modified,
+    };
+};
+
+export const isPlanDiffEmpty = (diff: PlanDiff): boolean =>
+    diff.added.length === 0 && diff.removed.length === 0 && diff.modified.length === 0;
+
+/**
+ * Applies a diff to a plan that is not running yet, such as a freshly generated one.
+ * Running plans go through the orchestrator's PLAN_REVISED event instead, which also
+ * decides what happens to work in progress.
+ */
+export const applyPlanDiff = (tasks: Task[], diff: PlanDiff): Task[] => {
+    const removedIds = new Set(diff.removed.map(r => r.taskId));
+    const changesById = new Map(diff.modified.map(m => [m.taskId, m.changes]));
+    const withoutRemoved = (ids: string[] = []) => ids.filter(id => !removedIds.has(id));
+    return [
+        ...tasks.filter(t => !removedIds.has(t.id)).map(task => {
+            const changes = changesById.get(task.id);
+            return { ...task, ...changes, dependsOn: withoutRemoved(changes?.dependsOn ?? task.dependsOn) };
+        }),
+        ...diff.added.map(task => ({ ...task, dependsOn: withoutRemoved(task.dependsOn), status: TaskStatus.PENDING, progress: 0, retries: 0 })),
+    ];
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AgentName, LoadedSessionState, SponsorStage, TaskStatus } from '../types';
+import { DEFAULT_AGENTS } from '../constants';
+import { createInitialAppState } from './orchestrator';
+import { exportPlanToJSON, exportTasksToCSV, parsePlanFile, PLAN_FILE_VERSION } from './planExport';
+import { createTask } from './testUtils';
+
+const session: LoadedSessionState = {
+    ...createInitialAppState(),
+    tasks: [
+        createTask('venue', { status: TaskStatus.COMPLETED, progress: 100, estimatedCost: 5000, startDate: '2026-03-02' }),
+        createTask('outreach', { assignedTo: AgentName.SPONSORSHIP_OUTREACH, dependsOn: ['venue'], status: TaskStatus.IN_PROGRESS, sponsorIds: ['acme'] }),
+    ],
+    approvals: [{ id: 'approval-1', taskId: 'outreach', agent: AgentName.SPONSORSHIP_OUTREACH, title: 'Approval for: outreach', content: 'Dear Ac', status: 'generating' }],
+    logs: [{ agent: AgentName.MASTER_PLANNER, message: 'Plan created.', timestamp: new Date('2026-03-01T10:00:00Z') }],
+    isStarted: true,
+    eventDates: { startDate: '2026-03-20', endDate: '2026-03-21' },
+    team: [{ id: 'm1', name: 'Asha', email: 'asha@college.test', role: 'Lead', availability: '' }],
+    sponsors: [{ id: 'acme', company: 'Acme', contacts: [], tier: 'Gold', stage: SponsorStage.CONTACTED, amount: 50000, notes: '' }],
+    projectName: 'TechFest',
+    goalPrompt: 'Plan TechFest',
+};
+
+// Exports the session with a change made to the file's JSON.
+const exportWith = (edit: (file: Record<string, any>) => void): string => {
+    const file = JSON.parse(exportPlanToJSON(session));
+    edit(file);
+    return JSON.stringify(file);
+};
+
+describe('parsePlanFile', () => {
+    it('reads back an exported plan', () => {
+        const imported = parsePlanFile(exportPlanToJSON(session, new Date('2026-03-05T00:00:00Z')));
+        expect(imported).toEqual({
+            ...session,
+            // Nothing streams into an imported draft, so it waits for review.
+            approvals: [{ ...session.approvals[0], status: 'pending' }],
+            agents: DEFAULT_AGENTS,
+        });
+    });
+
+    it('fills in what older files leave out', () => {
+        const imported = parsePlanFile(exportWith(file => {
+            delete file.session.approvals;
+            delete file.session.calendar;
+            delete file.session.projectName;
+            file.session.tasks = [{ id: 'a', title: 'A', assignedTo: AgentName.MARKETING, status: TaskStatus.PENDING }];
+        }));
+        expect(imported.approvals).toEqual([]);
+        expect(imported.calendar).toEqual(createInitialAppState().calendar);
+        expect(imported.projectName).toBe('Imported Plan');
+        expect(imported.tasks[0]).toMatchObject({ description: '', progress: 0, retries: 0, dependsOn: [] });
+    });
+
+    it('rejects files that are not plans', () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        expect(() => parsePlanFile('{')).toThrow('The file is not valid JSON.');
+        expect(() => parsePlanFile('{"tasks": []}')).toThrow('The file is not a FestFlow plan export.');
+        expect(() => parsePlanFile(exportWith(file => { file.version = PLAN_FILE_VERSION + 1; }))).toThrow('newer version of FestFlow');
+    });
+
+    it('names the field that is invalid', () => {
+        expect(() => parsePlanFile(exportWith(file => { file.session.tasks[1].status = 'Done'; })))
+            .toThrow('Invalid plan file: session.tasks[1].status must be one of');
+        expect(() => parsePlanFile(exportWith(file => { file.session.tasks[1].dependsOn = ['ghost']; })))
+            .toThrow('Invalid plan file: session.tasks[1].dependsOn must be ids of tasks in the file.');
+        expect(() => parsePlanFile(exportWith(file => { file.session.tasks[1].id = 'venue'; })))
+            .toThrow('Invalid plan file: session.tasks[1].id must be unique, but "venue" is used twice.');
+        expect(() => parsePlanFile(exportWith(file => { file.session.sponsors = []; })))
+            .toThrow('Invalid plan file: session.tasks[1].sponsorIds must be ids of sponsors in the file.');
+        expect(() => parsePlanFile(exportWith(file => { file.session.eventDates.endDate = '2026-03-19'; })))
+            .toThrow('Invalid plan file: session.eventDates must be');
+    });
+});
+
+describe('exportTasksToCSV', () => {
+    it('quotes fields and keeps spreadsheets from running them as formulas', () => {
+        const csv = exportTasksToCSV([createTask('a', { title: '=HYPERLINK("x")', description: 'Tables, chairs' })], [], new Map());
+        const row = csv.split('\n')[1];
+        expect(row).toContain('"\'=HYPERLINK(""x"")"');
+        expect(row).toContain('"Tables, chairs"');
+    });
+});
@@ -0,0 +1,357 @@
+import { ActivityLog, Approval, Attendee, CostCategory, EventDates, FileAttachment, LoadedSessionState, Sponsor, SponsorContact, SponsorStage, Task, TaskStatus, TeamMember, TicketType } from '../types';
+import { normalizeAgents } from './agentRegistry';
+import { normalizeCalendar, toDateKey } from './calendar';
+import { createIdleAgentStatus, createIdleAgentWork } from './orchestrator';
+import { ScheduledDates } from './ical';
+
+/**
+ * Portable copies of a plan, outside Firestore: a versioned JSON file that can be
+ * imported again as a new plan, CSVs of the tasks and of registered attendees for
+ * spreadsheets, and a Markdown run sheet for printing or sharing.
+ */
+
+const PLAN_FILE_FORMAT = 'festflow-plan';
+// Bump when the shape of the exported session changes, and upgrade older files in parsePlanFile.
+export const PLAN_FILE_VERSION = 1;
+
+// The contents of an exported JSON plan file.
+export interface PlanFile {
+    format: typeof PLAN_FILE_FORMAT;
+    version: number;
+    // ISO timestamp.
+    exportedAt: string;
+    session: LoadedSessionState;
+}
+
+/**
+ * Writes the whole plan, including its settings and the metadata of attached files,
+ * as a JSON plan file. The attachments themselves stay in storage.
+ */
+export const exportPlanToJSON = (session: LoadedSessionState, now = new Date()): string => {
+    const file: PlanFile = { format: PLAN_FILE_FORMAT, version: PLAN_FILE_VERSION, exportedAt: now.toISOString(), session };
+    return JSON.stringify(file, null, 2);
+};
+
+type JsonObject = Record<string, unknown>;
+
+const TASK_STATUSES = Object.values(TaskStatus) as string[];
+const COST_CATEGORIES = Object.values(CostCategory) as string[];
+const APPROVAL_STATUSES: Approval['status'][] = ['generating', 'pending', 'approved', 'rejected'];
+const SPONSOR_STAGES = Object.values(SponsorStage) as string[];
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isObject = (value: unknown): value is JsonObject =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const invalid = (path: string, expected: string): never => {
+    throw new Error(`Invalid plan file: ${path} must be ${expected}.`);
+};
+
+const readObject = (value: unknown, path: string): JsonObject => (isObject(value) ? value : invalid(path, 'an object'));
+
+const readArray = (value: unknown, path: string): unknown[] => (Array.isArray(value) ? value : invalid(path, 'a list'));
+
+const readString = (obj: JsonObject, key: string, path: string): string =>
+    typeof obj[key] === 'string' ? obj[key] as string : invalid(`${path}.${key}`, 'text');
+
+const checkOptional = (obj: JsonObject, key: string, type: 'string' | 'number', path: string) => {
+    if (obj[key] !== undefined && obj[key] !== null && typeof obj[key] !== type) {
+        invalid(`${path}.${key}`, type === 'string' ? 'text' : 'a number');
+    }
+};
+
+const checkOptionalArray = (obj: JsonObject, key: string, path: string) => {
+    if (obj[key] !== undefined && !Array.isArray(obj[key])) invalid(`${path}.${key}`, 'a list');
+};
+
+const parseAttachment = (value: unknown, path: string): FileAttachment => {
+    const attachment = readObject(value, path);
+    return {
+        id: readString(attachment, 'id', path),
+        name: readString(attachment, 'name', path),
+        type: readString(attachment, 'type', path),
+        size: typeof attachment.size === 'number' ? attachment.size : invalid(`${path}.size`, 'a number'),
+        url: readString(attachment, 'url', path),
+    };
+};
+
+const parseTask = (value: unknown, path: string): Task => {
+    const task = readObject(value, path);
+    const status = readString(task, 'status', path);
+    if (!TASK_STATUSES.includes(status)) invalid(`${path}.status`, `one of ${TASK_STATUSES.join(', ')}`);
+    ['assigneeId', 'approvedContent', 'customPrompt', 'reviewerFeedback', 'startDate', 'parentId', 'completedAt'].forEach(key => checkOptional(task, key, 'string', path));
+    ['estimatedDuration', 'variantCount', 'estimatedCost', 'actualCost', 'committedAmount'].forEach(key => checkOptional(task, key, 'number', path));
+    ['dependsOn', 'revisions', 'comments', 'sponsorIds', 'deliveries', 'channels', 'posts', 'visuals'].forEach(key => checkOptionalArray(task, key, path));
+    if (typeof task.startDate === 'string' && !DATE_KEY_PATTERN.test(task.startDate)) invalid(`${path}.startDate`, 'a YYYY-MM-DD date');
+    if (task.costCategory !== undefined && !COST_CATEGORIES.includes(task.costCategory as string)) {
+        invalid(`${path}.costCategory`, `one of ${COST_CATEGORIES.join(', ')}`);
+    }
+    const attachments = task.attachments === undefined
+        ? undefined
+        : readArray(task.attachments, `${path}.attachments`).map((attachment, index) => parseAttachment(attachment, `${path}.attachments[${index}]`));
+    return {
+        ...(task as unknown as Task),
+        id: readString(task, 'id', path),
+        title: readString(task, 'title', path),
+        description: typeof task.description === 'string' ? task.description : '',
+        assignedTo: readString(task, 'assignedTo', path),
+        status: status as TaskStatus,
+        progress: typeof task.progress === 'number' ? task.progress : 0,
+        retries: typeof task.retries === 'number' ? task.retries : 0,
+        dependsOn: ((task.dependsOn as unknown[] | undefined) ?? []).filter((id): id is string => typeof id === 'string'),
+        attachments,
+    };
+};
+
+const parseApproval = (value: unknown, path: string): Approval => {
+    const approval = readObject(value, path);
+    const status = readString(approval, 'status', path) as Approval['status'];
+    if (!APPROVAL_STATUSES.includes(status)) invalid(`${path}.status`, `one of ${APPROVAL_STATUSES.join(', ')}`);
+    ['variants', 'history', 'decisions', 'comments'].forEach(key => checkOptionalArray(approval, key, path));
+    const assets = approval.assets === undefined
+        ? undefined
+        : readArray(approval.assets, `${path}.assets`).map((asset, index) => parseAttachment(asset, `${path}.assets[${index}]`));
+    return {
+        ...(approval as unknown as Approval),
+        id: readString(approval, 'id', path),
+        taskId: readString(approval, 'taskId', path),
+        agent: readString(approval, 'agent', path),
+        title: readString(approval, 'title', path),
+        content: readString(approval, 'content', path),
+        assets,
+        // Nothing is streaming into an imported draft, so it waits for review instead.
+        status: status === 'generating' ? 'pending' : status,
+    };
+};
+
+const parseLog = (value: unknown, path: string): ActivityLog => {
+    const entry = readObject(value, path);
+    const timestamp = new Date(readString(entry, 'timestamp', path));
+    if (isNaN(timestamp.getTime())) invalid(`${path}.timestamp`, 'a date');
+    return { agent: readString(entry, 'agent', path), message: readString(entry, 'message', path), timestamp };
+};
+
+const parseTeamMember = (value: unknown, path: string): TeamMember => {
+    const member = readObject(value, path);
+    return {
+        id: readString(member, 'id', path),
+        name: readString(member, 'name', path),
+        email: typeof member.email === 'string' ? member.email.toLowerCase() : '',
+        role: typeof member.role === 'string' ? member.role : '',
+        availability: typeof member.availability === 'string' ? member.availability : '',
+    };
+};
+
+const parseSponsorContact = (value: unknown, path: string): SponsorContact => {
+    const contact = readObject(value, path);
+    return {
+        name: readString(contact, 'name', path),
+        email: typeof contact.email === 'string' ? contact.email : '',
+        role: typeof contact.role === 'string' ? contact.role : '',
+    };
+};
+
+const parseSponsor = (value: unknown, path: string): Sponsor => {
+    const sponsor = readObject(value, path);
+    const stage = readString(sponsor, 'stage', path);
+    if (!SPONSOR_STAGES.includes(stage)) invalid(`${path}.stage`, `one of ${SPONSOR_STAGES.join(', ')}`);
+    checkOptional(sponsor, 'amount', 'number', path);
+    return {
+        id: readString(sponsor, 'id', path),
+        company: readString(sponsor, 'company', path),
+        contacts: readArray(sponsor.contacts ?? [], `${path}.contacts`).map((contact, index) => parseSponsorContact(contact, `${path}.contacts[${index}]`)),
+        tier: typeof sponsor.tier === 'string' ? sponsor.tier : '',
+        stage: stage as SponsorStage,
+        amount: typeof sponsor.amount === 'number' ? sponsor.amount : undefined,
+        notes: typeof sponsor.notes === 'string' ? sponsor.notes : '',
+    };
+};
+
+const parseEventDates = (value: unknown): EventDates | null => {
+    if (value === null || value === undefined) return null;
+    const dates = readObject(value, 'session.eventDates');
+    const startDate = readString(dates, 'startDate', 'session.eventDates');
+    const endDate = readString(dates, 'endDate', 'session.eventDates');
+    if (!DATE_KEY_PATTERN.test(startDate) || !DATE_KEY_PATTERN.test(endDate) || endDate < startDate) {
+        invalid('session.eventDates', 'a start and end date as YYYY-MM-DD, ending on or after the start');
+    }
+    return { startDate, endDate };
+};
+
+const checkUniqueIds = (items: { id: string }[], path: string) => {
+    const seen = new Set<string>();
+    items.forEach((item, index) => {
+        if (seen.has(item.id)) invalid(`${path}[${index}].id`, `unique, but "${item.id}" is used twice`);
+        seen.add(item.id);
+    });
+};
+
+/**
+ * Reads and validates a JSON plan file.
+ * @returns The plan, ready to be saved as a new session. Agents start idle.
+ * @throws If the file is not a FestFlow plan, comes from a newer version, or fails validation.
+ */
+export const parsePlanFile = (text: string): LoadedSessionState => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (e) {
+        console.error("Failed to parse plan file:", e);
+        throw new Error('The file is not valid JSON.');
+    }
+    if (!isObject(data) || data.format !== PLAN_FILE_FORMAT) {
+        throw new Error('The file is not a FestFlow plan export.');
+    }
+    if (typeof data.version !== 'number' || data.version > PLAN_FILE_VERSION) {
+        throw new Error('The plan was exported by a newer version of FestFlow and cannot be imported.');
+    }
+
+    const session = readObject(data.session, 'session');
+    const tasks = readArray(session.tasks, 'session.tasks').map((task, index) => parseTask(task, `session.tasks[${index}]`));
+    checkUniqueIds(tasks, 'session.tasks');
+    const taskIds = new Set(tasks.map(t => t.id));
+    tasks.forEach((task, index) => {
+        if (task.parentId && !taskIds.has(task.parentId)) invalid(`session.tasks[${index}].parentId`, 'the id of a task in the file');
+        if (task.dependsOn?.some(id => !taskIds.has(id))) invalid(`session.tasks[${index}].dependsOn`, 'ids of tasks in the file');
+    });
+
+    const approvals = readArray(session.approvals ?? [], 'session.approvals').map((approval, index) => parseApproval(approval, `session.approvals[${index}]`));
+    checkUniqueIds(approvals, 'session.approvals');
+    approvals.forEach((approval, index) => {
+        if (!taskIds.has(approval.taskId)) invalid(`session.approvals[${index}].taskId`, 'the id of a task in the file');
+    });
+
+    const team = readArray(session.team ?? [], 'session.team').map((member, index) => parseTeamMember(member, `session.team[${index}]`));
+    checkUniqueIds(team, 'session.team');
+    const sponsors = readArray(session.sponsors ?? [], 'session.sponsors').map((sponsor, index) => parseSponsor(sponsor, `session.sponsors[${index}]`));
+    checkUniqueIds(sponsors, 'session.sponsors');
+    const sponsorIds = new Set(sponsors.map(s => s.id));
+    tasks.forEach((task, index) => {
+        if (task.sponsorIds?.some(id => !sponsorIds.has(id))) invalid(`session.tasks[${index}].sponsorIds`, 'ids of sponsors in the file');
+    });
+    const agents = normalizeAgents(session.agents);
+    const projectName = typeof session.projectName === 'string' && session.projectName.trim() ? session.projectName.trim() : 'Imported Plan';
+
+    return {
+        tasks,
+        approvals,
+        logs: readArray(session.logs ?? [], 'session.logs').map((entry, index) => parseLog(entry, `session.logs[${index}]`)),
+        agentStatus: createIdleAgentStatus(agents),
+        agentWork: createIdleAgentWork(agents),
+        isStarted: true,
+        calendar: normalizeCalendar(isObject(session.calendar) ? session.calendar : null),
+        eventDates: parseEventDates(session.eventDates),
+        team,
+        sponsors,
+        agents,
+        projectName,
+        goalPrompt: typeof session.goalPrompt === 'string' ? session.goalPrompt : projectName,
+    };
+};
+
+const CSV_COLUMNS = [
+    'ID', 'Title', 'Description', 'Agent', 'Assignee', 'Status', 'Progress', 'Parent', 'Depends On',
+    'Start Date', 'End Date', 'Duration (days)', 'Estimated Cost', 'Actual Cost', 'Cost Category', 'Committed Amount', 'Completed At',
+];
+
+// Quotes a CSV field. Text that a spreadsheet would run as a formula is prefixed with an apostrophe.
+const toCSVField = (value: string | number | undefined): string => {
+    if (value === undefined) return '';
+    let text = String(value);
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Writes one row per task, for spreadsheets.
+ * @param schedule The dates of each task, as calculated for the timeline.
+ */
+export const exportTasksToCSV = (tasks: Task[], team: TeamMember[], schedule: Map<string, ScheduledDates>): string => {
+    const titleOf = (id: string) => tasks.find(t => t.id === id)?.title ?? id;
+    const rows = tasks.map(task => {
+        const dates = schedule.get(task.id);
+        return [
+            task.id,
+            task.title,
+            task.description,
+            task.assignedTo,
+            team.find(m => m.id === task.assigneeId)?.name,
+            task.status,
+            task.progress,
+            task.parentId ? titleOf(task.parentId) : undefined,
+            (task.dependsOn ?? []).map(titleOf).join('; ') || undefined,
+            dates ? toDateKey(dates.start) : task.startDate,
+            dates ? toDateKey(dates.end) : undefined,
+            task.estimatedDuration,
+            task.estimatedCost,
+            task.actualCost,
+            task.costCategory,
+            task.committedAmount,
+            task.completedAt,
+        ].map(toCSVField).join(',');
+    });
+    return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+const ATTENDEE_CSV_COLUMNS = ['Name', 'Email', 'Ticket', 'Price', 'Ticket Code', 'Registered At', 'Checked In At'];
+
+/**
+ * Writes one row per registered attendee, e.g. for name badges or a printed door list.
+ */
+export const exportAttendeesToCSV = (attendees: Attendee[], ticketTypes: TicketType[]): string => {
+    const rows = attendees.map(attendee => {
+        const ticketType = ticketTypes.find(t => t.id === attendee.ticketTypeId);
+        return [
+            attendee.name,
+            attendee.email,
+            ticketType?.name ?? attendee.ticketTypeId,
+            ticketType?.price,
+            attendee.ticketCode,
+            attendee.registeredAt,
+            attendee.checkedInAt,
+        ].map(toCSVField).join(',');
+    });
+    return [ATTENDEE_CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+const formatDay = (date: Date) => date.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+
+/**
+ * Writes a run sheet: the event's details, then every task grouped by agent with its
+ * owner, dates and approved content.
+ * @param schedule The dates of each task, as calculated for the timeline.
+ */
+export const exportRunSheetMarkdown = (session: LoadedSessionState, schedule: Map<string, ScheduledDates>, now = new Date()): string => {
+    const { tasks, team, agents, eventDates } = session;
+    const lines = [`# ${session.projectName}`, ''];
+    if (eventDates) {
+        const start = new Date(`${eventDates.startDate}T00:00:00`);
+        const end = new Date(`${eventDates.endDate}T00:00:00`);
+        lines.push(`**Event:** ${eventDates.startDate === eventDates.endDate ? formatDay(start) : `${formatDay(start)} – ${formatDay(end)}`}  `);
+    }
+    const completed = tasks.filter(t => t.status === TaskStatus.COMPLETED).length;
+    lines.push(`**Progress:** ${completed} of ${tasks.length} tasks completed  `, `**Exported:** ${formatDay(now)}`, '');
+    if (session.goalPrompt && session.goalPrompt !== session.projectName) lines.push(`> ${session.goalPrompt.replace(/\n/g, '\n> ')}`, '');
+
+    // Registered agents first, in registry order, then any agent a task still names.
+    const agentNames = [...agents.map(a => a.name), ...tasks.map(t => t.assignedTo)]
+        .filter((name, index, names) => names.indexOf(name) === index && tasks.some(t => t.assignedTo === name));
+    agentNames.forEach(agentName => {
+        lines.push(`## ${agentName}`, '');
+        tasks.filter(t => t.assignedTo === agentName).forEach(task => {
+            const checkbox = task.status === TaskStatus.COMPLETED ? '[x]' : '[ ]';
+            lines.push(`### ${checkbox} ${task.title}`, '');
+            const dates = schedule.get(task.id);
+            const details = [`Status: ${task.status}`];
+            const assignee = team.find(m => m.id === task.assigneeId);
+            if (assignee) details.push(`Owner: ${assignee.name}`);
+            if (dates) details.push(`Dates: ${toDateKey(dates.start) === toDateKey(dates.end) ? formatDay(dates.start) : `${formatDay(dates.start)} – ${formatDay(dates.end)}`}`);
+            const parent = task.parentId ? tasks.find(t => t.id === task.parentId) : undefined;
+            if (parent) details.push(`Part of: ${parent.title}`);
+            lines.push(details.join(' · '), '');
+            if (task.description) lines.push(task.description, '');
+            if (task.approvedContent) lines.push('**Approved content:**', '', task.approvedContent, '');
+        });
+    });
+    return lines.join('\n');
+};
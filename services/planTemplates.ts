@@ -0,0 +1,106 @@
+import { AgentDefinition, EventDates, LoadedSessionState, PlanTemplate, ProjectCalendar, Task, TaskStatus, TemplateTask } from '../types';
+import { addWorkingDays, getWorkingDayOffset, parseDateKey, toDateKey } from './calendar';
+
+/**
+ * Plan templates: the structure of a past plan (tasks, dependencies, durations and
+ * agent assignments) without its progress, content or discussion, so a recurring
+ * event can start from last year's plan.
+ */
+
+// How a new plan starts from a template.
+export interface TemplateStart {
+    template: PlanTemplate;
+    // When the new event starts, as YYYY-MM-DD. Null keeps the template's dates.
+    eventStartDate: string | null;
+    // True to let the Master Planner adapt the template to the goal, false to copy it as it is.
+    adapt: boolean;
+}
+
+/**
+ * Strips a plan down to a template. Team assignments and approval policies are
+ * dropped, since they refer to this year's team.
+ */
+export const createTemplateFromPlan = (session: LoadedSessionState, name: string, now = new Date()): Omit<PlanTemplate, 'id'> => ({
+    name,
+    goalPrompt: session.goalPrompt,
+    tasks: session.tasks.map(task => ({
+        id: task.id,
+        title: task.title,
+        description: task.description,
+        assignedTo: task.assignedTo,
+        dependsOn: task.dependsOn ?? [],
+        estimatedDuration: task.estimatedDuration,
+        parentId: task.parentId,
+        startDate: task.startDate,
+        estimatedCost: task.estimatedCost,
+        costCategory: task.costCategory,
+        committedAmount: task.committedAmount,
+    })),
+    eventDates: session.eventDates,
+    workingDays: session.calendar.workingDays,
+    agents: session.agents.map(({ approvalPolicy, ...agent }) => agent),
+    createdAt: now,
+});
+
+/**
+ * Suggests when the next edition of a templated event starts: the original start
+ * date moved on by whole years until it is no longer in the past.
+ * @returns A YYYY-MM-DD date, or null when the template has no event dates.
+ */
+export const suggestNextEventStart = (template: Pick<PlanTemplate, 'eventDates'>, today = new Date()): string | null => {
+    if (!template.eventDates) return null;
+    const start = parseDateKey(template.eventDates.startDate);
+    const todayKey = toDateKey(today);
+    do {
+        start.setFullYear(start.getFullYear() + 1);
+    } while (toDateKey(start) < todayKey);
+    return toDateKey(start);
+};
+
+/**
+ * Moves the event to a new start date, keeping its length.
+ */
+export const shiftEventDates = (eventDates: EventDates, newStartDate: string): EventDates => {
+    const start = parseDateKey(eventDates.startDate);
+    const end = parseDateKey(eventDates.endDate);
+    const newEnd = parseDateKey(newStartDate);
+    newEnd.setDate(newEnd.getDate() + Math.round((end.getTime() - start.getTime()) / 86400000));
+    return { startDate: newStartDate, endDate: toDateKey(newEnd) };
+};
+
+// The status a new task starts in: ready to run unless it waits on other tasks.
+const getInitialStatus = (task: Pick<Task, 'dependsOn'>): TaskStatus =>
+    task.dependsOn && task.dependsOn.length > 0 ? TaskStatus.PENDING : TaskStatus.IN_PROGRESS;
+
+/**
+ * Creates the tasks of a new plan from a template. Pinned start dates keep the same
+ * number of working days before the event; without event dates to measure from,
+ * the pins are dropped and the tasks are scheduled afresh.
+ * @param eventStartDate When the new event starts, as YYYY-MM-DD, or null to keep the template's dates.
+ */
+export const instantiateTemplate = (template: PlanTemplate, eventStartDate: string | null): { tasks: Task[]; eventDates: EventDates | null; calendar: ProjectCalendar; agents: AgentDefinition[] } => {
+    const calendar: ProjectCalendar = { workingDays: template.workingDays, holidays: [], blackouts: [] };
+    const eventDates = template.eventDates && eventStartDate ? shiftEventDates(template.eventDates, eventStartDate) : template.eventDates;
+
+    const shiftStartDate = (startDate: string | undefined): string | undefined => {
+        if (!startDate || !template.eventDates || !eventDates) return undefined;
+        const offset = getWorkingDayOffset(parseDateKey(template.eventDates.startDate), parseDateKey(startDate), calendar);
+        return toDateKey(addWorkingDays(parseDateKey(eventDates.startDate), offset, calendar));
+    };
+
+    const tasks = template.tasks.map((task: TemplateTask): Task => ({
+        ...task,
+        dependsOn: task.dependsOn ?? [],
+        startDate: shiftStartDate(task.startDate),
+        status: getInitialStatus(task),
+        progress: 0,
+        retries: 0,
+    }));
+    return { tasks, eventDates, calendar, agents: template.agents };
+};
+
+/**
+ * Describes a template's tasks for the Master Planner, which adapts them to a new goal.
+ */
+export const formatTemplateForPrompt = (template: PlanTemplate): string =>
+    JSON.stringify(template.tasks.map(({ startDate, ...task }) => task), null, 2);
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { Task } from '../types';
+import { DEFAULT_AGENTS } from '../constants';
+import { findDependencyCycles, validatePlan } from './planValidation';
+import { createTask } from './testUtils';
+
+const getCodes = (tasks: Task[]) => validatePlan(tasks, DEFAULT_AGENTS).issues.map(issue => issue.code);
+
+describe('validatePlan', () => {
+    it('accepts a valid plan as it is', () => {
+        const tasks = [createTask('a'), createTask('b', { dependsOn: ['a'] }), createTask('c', { parentId: 'b' })];
+        expect(validatePlan(tasks, DEFAULT_AGENTS)).toEqual({ tasks, issues: [] });
+    });
+
+    it('reports an empty plan', () => {
+        expect(validatePlan([], DEFAULT_AGENTS).issues).toEqual([expect.objectContaining({ code: 'empty-plan', repaired: false })]);
+    });
+
+    it('gives tasks without an id one made from their title', () => {
+        const { tasks, issues } = validatePlan([createTask('', { title: 'Book the Venue' })], DEFAULT_AGENTS);
+        expect(tasks[0].id).toBe('book-the-venue');
+        expect(issues.map(i => i.code)).toEqual(['missing-id']);
+    });
+
+    it('renames duplicate ids, keeping dependencies on the first task', () => {
+        const { tasks } = validatePlan([createTask('a'), createTask('a'), createTask('b', { dependsOn: ['a'] })], DEFAULT_AGENTS);
+        expect(tasks.map(t => t.id)).toEqual(['a', 'a-2', 'b']);
+        expect(tasks[2].dependsOn).toEqual(['a']);
+    });
+
+    it('drops unknown parents and moves sub-tasks of sub-tasks up', () => {
+        const { tasks, issues } = validatePlan([
+            createTask('a', { parentId: 'missing' }),
+            createTask('b'),
+            createTask('c', { parentId: 'b' }),
+            createTask('d', { parentId: 'c' }),
+        ], DEFAULT_AGENTS);
+        expect(tasks.map(t => t.parentId)).toEqual([undefined, undefined, 'b', 'b']);
+        expect(issues.map(i => i.code)).toEqual(['unknown-parent', 'nested-sub-task']);
+    });
+
+    it('drops dependencies on unknown tasks, the task itself and its family', () => {
+        const { tasks } = validatePlan([
+            createTask('a', { dependsOn: ['a', 'ghost'] }),
+            createTask('b', { dependsOn: ['c', 'a', 'a'] }),
+            createTask('c', { parentId: 'b' }),
+        ], DEFAULT_AGENTS);
+        expect(tasks.map(t => t.dependsOn)).toEqual([[], ['a'], []]);
+        expect(getCodes([createTask('a', { dependsOn: ['ghost'] })])).toEqual(['unknown-dependency']);
+        expect(getCodes([createTask('a', { dependsOn: ['a'] })])).toEqual(['self-dependency']);
+    });
+
+    it('reassigns tasks of unknown agents and repairs bad durations', () => {
+        const { tasks, issues } = validatePlan([createTask('a', { assignedTo: 'Caterer', estimatedDuration: -2 })], DEFAULT_AGENTS);
+        expect(DEFAULT_AGENTS.map(a => a.name)).toContain(tasks[0].assignedTo);
+        expect(tasks[0].estimatedDuration).toBe(1);
+        expect(issues.map(i => i.code)).toEqual(['unknown-agent', 'invalid-duration']);
+    });
+
+    it('reports dependency cycles without repairing them', () => {
+        const { tasks, issues } = validatePlan([createTask('a', { dependsOn: ['b'] }), createTask('b', { dependsOn: ['a'] })], DEFAULT_AGENTS);
+        expect(tasks.map(t => t.dependsOn)).toEqual([['b'], ['a']]);
+        expect(issues).toEqual([expect.objectContaining({ code: 'dependency-cycle', taskIds: ['a', 'b'], repaired: false })]);
+    });
+});
+
+describe('findDependencyCycles', () => {
+    it('finds no cycles in a chain', () => {
+        expect(findDependencyCycles([createTask('a'), createTask('b', { dependsOn: ['a'] })])).toEqual([]);
+    });
+
+    it('counts sub-tasks and the dependencies they inherit from their parent', () => {
+        // The sub-task inherits its parent's dependency on a task that waits on the sub-task.
+        const tasks = [
+            createTask('p', { dependsOn: ['x'] }),
+            createTask('c', { parentId: 'p' }),
+            createTask('x', { dependsOn: ['c'] }),
+        ];
+        expect(findDependencyCycles(tasks)).toEqual([['c', 'x']]);
+    });
+});
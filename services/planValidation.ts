@@ -0,0 +1,191 @@
+import { AgentDefinition, PlanIssue, PlanIssueCode, Task } from '../types';
+import { findAgent, resolveAssignedAgent } from './agentRegistry';
+import { toSlug } from './planDiff';
+
+/**
+ * Checks the task graph the Master Planner generates before it starts running. What
+ * can be fixed without guessing at the planner's intent (missing or duplicate ids,
+ * references to tasks that do not exist, unknown agents, bad durations, sub-tasks of
+ * sub-tasks) is repaired and reported; dependency cycles are only reported, since
+ * breaking one means deciding which task really comes first.
+ */
+
+export interface PlanValidation {
+    tasks: Task[];
+    issues: PlanIssue[];
+}
+
+const quote = (title: string, id: string) => `"${title || id}"`;
+
+const joinTitles = (titles: string[]): string =>
+    titles.length <= 1 ? titles.join('') : `${titles.slice(0, -1).join(', ')} and ${titles[titles.length - 1]}`;
+
+/**
+ * Finds the groups of tasks that wait on each other, so that none of them can start.
+ * A task waits on its dependencies, on its parent's dependencies (which sub-tasks
+ * inherit) and, if it is a parent, on its sub-tasks.
+ * @returns The task ids of each cycle, in plan order.
+ */
+export const findDependencyCycles = (tasks: Task[]): string[][] => {
+    const taskMap = new Map(tasks.map(t => [t.id, t]));
+    const childrenMap = new Map<string, string[]>();
+    tasks.forEach(task => {
+        if (task.parentId && taskMap.has(task.parentId)) {
+            childrenMap.set(task.parentId, [...(childrenMap.get(task.parentId) || []), task.id]);
+        }
+    });
+    const getPrerequisites = (task: Task): string[] => [
+        ...(task.dependsOn || []),
+        ...((task.parentId && taskMap.get(task.parentId)?.dependsOn) || []),
+        ...(childrenMap.get(task.id) || []),
+    ].filter(id => taskMap.has(id));
+
+    // Tarjan's algorithm: every strongly connected component with more than one task,
+    // or a task that waits on itself, is a cycle.
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const cycles: string[][] = [];
+
+    const visit = (id: string) => {
+        index.set(id, index.size);
+        lowLink.set(id, index.get(id)!);
+        stack.push(id);
+        onStack.add(id);
+
+        const prerequisites = getPrerequisites(taskMap.get(id)!);
+        prerequisites.forEach(next => {
+            if (!index.has(next)) {
+                visit(next);
+                lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!));
+            } else if (onStack.has(next)) {
+                lowLink.set(id, Math.min(lowLink.get(id)!, index.get(next)!));
+            }
+        });
+
+        if (lowLink.get(id) === index.get(id)) {
+            const component: string[] = [];
+            let member: string;
+            do {
+                member = stack.pop()!;
+                onStack.delete(member);
+                component.push(member);
+            } while (member !== id);
+            if (component.length > 1 || prerequisites.includes(id)) cycles.push(component);
+        }
+    };
+
+    tasks.forEach(task => {
+        if (!index.has(task.id)) visit(task.id);
+    });
+    const order = new Map(tasks.map((t, i) => [t.id, i]));
+    return cycles.map(cycle => cycle.sort((a, b) => order.get(a)! - order.get(b)!));
+};
+
+/**
+ * Validates a generated plan and repairs what it safely can.
+ * @param input The tasks as the model returned them.
+ * @param agents The registered agents tasks may be assigned to.
+ * @returns The repaired tasks and every issue found, repaired or not.
+ */
+export const validatePlan = (input: Task[], agents: AgentDefinition[]): PlanValidation => {
+    const issues: PlanIssue[] = [];
+    const report = (code: PlanIssueCode, taskIds: string[], message: string, repaired = true) =>
+        issues.push({ code, taskIds, message, repaired });
+
+    if (input.length === 0) {
+        report('empty-plan', [], 'The plan has no tasks.', false);
+        return { tasks: [], issues };
+    }
+
+    // Every task needs an id of its own. Dependencies on a duplicated id keep pointing at its first task.
+    const usedIds = new Set<string>();
+    const claimId = (base: string): string => {
+        let id = base;
+        for (let n = 2; usedIds.has(id); n++) id = `${base}-${n}`;
+        usedIds.add(id);
+        return id;
+    };
+    let tasks: Task[] = input.map(task => {
+        const title = typeof task.title === 'string' ? task.title.trim() : '';
+        const originalId = typeof task.id === 'string' ? task.id.trim() : '';
+        const id = claimId(originalId || toSlug(title));
+        if (!originalId) {
+            report('missing-id', [id], `Task ${quote(title, id)} had no id and was given "${id}".`);
+        } else if (id !== originalId) {
+            report('duplicate-id', [id], `More than one task had the id "${originalId}", so ${quote(title, id)} was renamed to "${id}".`);
+        }
+        if (!title) report('missing-title', [id], `Task "${id}" has no title.`, false);
+        return { ...task, id, title, dependsOn: Array.isArray(task.dependsOn) ? task.dependsOn : [] };
+    });
+
+    // Sub-tasks need a parent in the plan, and only one level of sub-tasks is supported.
+    const taskIds = new Set(tasks.map(t => t.id));
+    tasks = tasks.map(task => {
+        if (!task.parentId || (task.parentId !== task.id && taskIds.has(task.parentId))) return task;
+        report('unknown-parent', [task.id], `${quote(task.title, task.id)} was a sub-task of "${task.parentId}", which is not in the plan, and is now a top-level task.`);
+        return { ...task, parentId: undefined };
+    });
+    const parentOf = new Map(tasks.map(t => [t.id, t.parentId]));
+    const titleOf = new Map(tasks.map(t => [t.id, t.title]));
+    tasks = tasks.map(task => {
+        if (!task.parentId || !parentOf.get(task.parentId)) return task;
+        // Move it up to its top-level ancestor. Parents that loop back on themselves have none.
+        const visited = new Set([task.id]);
+        let ancestorId = task.parentId;
+        while (parentOf.get(ancestorId) && !visited.has(ancestorId)) {
+            visited.add(ancestorId);
+            ancestorId = parentOf.get(ancestorId)!;
+        }
+        const newParentId = parentOf.get(ancestorId) ? undefined : ancestorId;
+        report('nested-sub-task', [task.id], newParentId
+            ? `${quote(task.title, task.id)} was a sub-task of a sub-task and was moved under ${quote(titleOf.get(newParentId) || '', newParentId)}.`
+            : `${quote(task.title, task.id)} was part of a loop of sub-tasks and is now a top-level task.`);
+        return { ...task, parentId: newParentId };
+    });
+
+    // Dependencies must be on other tasks in the plan. A task cannot wait on its own
+    // parent or sub-tasks either, since a parent is done when its sub-tasks are.
+    const parentIds = new Map(tasks.map(t => [t.id, t.parentId]));
+    tasks = tasks.map(task => {
+        const unknown = task.dependsOn.filter(id => !taskIds.has(id));
+        const ownFamily = task.dependsOn.filter(id => id === task.id || id === task.parentId || parentIds.get(id) === task.id);
+        if (unknown.length > 0) {
+            report('unknown-dependency', [task.id], `${quote(task.title, task.id)} depended on ${joinTitles(unknown.map(id => `"${id}"`))}, which ${unknown.length === 1 ? 'is' : 'are'} not in the plan. The dependency was dropped.`);
+        }
+        if (ownFamily.length > 0) {
+            report('self-dependency', [task.id], `${quote(task.title, task.id)} depended on itself, its parent or its own sub-tasks. The dependency was dropped.`);
+        }
+        if (unknown.length === 0 && ownFamily.length === 0 && new Set(task.dependsOn).size === task.dependsOn.length) return task;
+        return { ...task, dependsOn: [...new Set(task.dependsOn.filter(id => !unknown.includes(id) && !ownFamily.includes(id)))] };
+    });
+
+    tasks = tasks.map(task => {
+        let repaired = task;
+        if (!findAgent(agents, task.assignedTo)) {
+            const assignedTo = resolveAssignedAgent(agents, task.assignedTo);
+            report('unknown-agent', [task.id], `${quote(task.title, task.id)} was assigned to "${task.assignedTo}", which is not a registered agent, and was given to the ${assignedTo}.`, !!findAgent(agents, assignedTo));
+            repaired = { ...repaired, assignedTo };
+        }
+        const duration = task.estimatedDuration;
+        if (typeof duration !== 'number' || !Number.isFinite(duration) || duration <= 0) {
+            report('invalid-duration', [task.id], `${quote(task.title, task.id)} had no valid duration and was set to take 1 day.`);
+            repaired = { ...repaired, estimatedDuration: 1 };
+        }
+        return repaired;
+    });
+
+    findDependencyCycles(tasks).forEach(cycle => {
+        const titles = cycle.map(id => quote(titleOf.get(id) || '', id));
+        report('dependency-cycle', cycle, `${joinTitles(titles)} wait on each other through their dependencies, so none of them can start.`, false);
+    });
+
+    return { tasks, issues };
+};
+
+/**
+ * Asks the Master Planner to fix the issues that could not be repaired automatically.
+ */
+export const buildCorrectionRequest = (issues: PlanIssue[]): string =>
+    `Fix these problems in the plan and change nothing else:\n${issues.map(issue => `- ${issue.message}`).join('\n')}`;
@@ -0,0 +1,99 @@
+import { GoogleGenAI } from "@google/genai";
+import { AgentDefinition, ContentVariantStyle, PlanDiff, PlanTemplate, Task, UserProfile } from "../../types";
+import { ContentStream, GoalDecomposition, InstitutionDetails, InstitutionSuggestions, LLMProvider } from "../llmProvider";
+import { callWithRetry } from "./retry";
+import {
+    buildDecomposeInstruction,
+    buildDecomposePrompt,
+    buildReviseInstruction,
+    buildRevisePrompt,
+    buildReviseSchema,
+    buildExecuteInstruction,
+    buildExecutePrompt,
+    buildInstitutionDetailsPrompt,
+    buildInstitutionSuggestionsPrompt,
+    buildDecomposeSchema,
+    INSTITUTION_DETAILS_INSTRUCTION,
+    INSTITUTION_DETAILS_SCHEMA,
+    INSTITUTION_SUGGESTIONS_INSTRUCTION,
+    INSTITUTION_SUGGESTIONS_SCHEMA,
+} from "./prompts";
+
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+/**
+ * Creates a provider backed by the Google Gemini API. The model can be
+ * overridden with VITE_GEMINI_MODEL.
+ */
+export const createGeminiProvider = (): LLMProvider => {
+    const model = (import.meta.env.VITE_GEMINI_MODEL as string | undefined) || DEFAULT_GEMINI_MODEL;
+
+    // Lazy-initialize the Google GenAI client to prevent crashes if the API key is
+    // not present until the first request is actually made.
+    let ai: GoogleGenAI | null = null;
+    const getAI = (): GoogleGenAI => {
+        if (!ai) {
+            // The API key is expected to be set as an environment variable.
+            ai = new GoogleGenAI({ apiKey: import.meta.env.VITE_GEMINI_API_KEY as string });
+        }
+        return ai;
+    };
+
+    const generateJson = async <T>(systemInstruction: string, text: string, responseSchema: unknown): Promise<T> => {
+        const response = await callWithRetry(async () => {
+            return await getAI().models.generateContent({
+                model,
+                contents: { parts: [{ text }] },
+                config: {
+                    systemInstruction,
+                    responseMimeType: 'application/json',
+                    responseSchema,
+                },
+            });
+        });
+        return JSON.parse((response.text ?? '').trim()) as T;
+    };
+
+    return {
+        name: `Gemini (${model})`,
+
+        decomposeGoal: (goal: string, userProfile: UserProfile | null, agents: AgentDefinition[], template?: PlanTemplate) =>
+            generateJson<GoalDecomposition>(buildDecomposeInstruction(userProfile, agents), buildDecomposePrompt(goal, template), buildDecomposeSchema(agents)),
+
+        revisePlan: (request: string, tasks: Task[], goal: string, agents: AgentDefinition[]) =>
+            generateJson<PlanDiff>(buildReviseInstruction(agents), buildRevisePrompt(request, tasks, goal), buildReviseSchema(agents)),
+
+        executeTask: async (task: Task, agent: AgentDefinition | undefined, userProfile: UserProfile | null, projectName: string | null, style?: ContentVariantStyle, stream?: ContentStream) => {
+            const params = {
+                model,
+                contents: buildExecutePrompt(task),
+                config: {
+                    systemInstruction: buildExecuteInstruction(task, agent, userProfile, projectName, style),
+                    // Grounding with Google Search backs the agent's web-search tool.
+                    ...(agent?.tools.includes('web-search') ? { tools: [{ googleSearch: {} }] } : {}),
+                    abortSignal: stream?.signal,
+                },
+            };
+            if (!stream) {
+                const response = await callWithRetry(() => getAI().models.generateContent(params));
+                return response.text ?? '';
+            }
+
+            // Only opening the stream is retried; a stream that breaks off part-way fails the attempt.
+            const chunks = await callWithRetry(() => getAI().models.generateContentStream(params));
+            let text = '';
+            for await (const chunk of chunks) {
+                stream.signal?.throwIfAborted();
+                text += chunk.text ?? '';
+                stream.onText(text);
+            }
+            return text;
+        },
+
+        getInstitutionDetails: (institutionName: string) =>
+            generateJson<InstitutionDetails>(INSTITUTION_DETAILS_INSTRUCTION, buildInstitutionDetailsPrompt(institutionName), INSTITUTION_DETAILS_SCHEMA),
+
+        getInstitutionSuggestions: (query: string) =>
+            generateJson<InstitutionSuggestions>(INSTITUTION_SUGGESTIONS_INSTRUCTION, buildInstitutionSuggestionsPrompt(query), INSTITUTION_SUGGESTIONS_SCHEMA),
+    };
+};
@@ -0,0 +1,383 @@
+import { AgentDefinition, AgentName, ContentVariantStyle, CostCategory, PlanDiff, PlanTemplate, SocialChannel, Task, TaskStatus, UserProfile } from "../../types";
+import { ContentStream, GoalDecomposition, InstitutionDetails, InstitutionSuggestions, LLMProvider } from "../llmProvider";
+import { toDateKey } from "../calendar";
+import { CONTENT_VARIANT_STYLES } from "../../constants";
+import { countCharacters, getChannelSpec } from "../socialPosts";
+
+/**
+ * MOCK IMPLEMENTATION FOR OFFLINE USE
+ * A comprehensive mock plan to test all application features at once.
+ */
+
+const mockDecomposeGoal = (goal: string, userProfile: UserProfile | null, _agents: AgentDefinition[], template?: PlanTemplate): Promise<GoalDecomposition> => {
+    console.log("Decomposing goal (Comprehensive Offline Mock):", goal, "for", userProfile?.institution);
+    // Offline, a template is returned as it is; there is no model to adapt it.
+    if (template) {
+        return new Promise(resolve => setTimeout(() => resolve({ tasks: template.tasks as Task[] }), 1500));
+    }
+    const mockPlan: Partial<Task>[] = [
+        // --- Parent Task for Logistics ---
+        {
+            id: "secure-logistics",
+            title: "Secure Event Logistics",
+            description: "Oversee all logistical arrangements including venue, AV, and catering.",
+            assignedTo: AgentName.LOGISTICS_COORDINATOR,
+            dependsOn: [],
+            estimatedDuration: 8, // Sum of its longest sequential chain of sub-tasks
+        },
+        // --- Logistics Sub-tasks ---
+        {
+            id: "select-venue",
+            title: "Select and Book Venue",
+            description: "Research and book a suitable venue for a 3-day tech conference for 200 people.",
+            assignedTo: AgentName.LOGISTICS_COORDINATOR,
+            dependsOn: [], // No dependencies, can start immediately
+            estimatedDuration: 3,
+            estimatedCost: 50000,
+            costCategory: CostCategory.VENUE,
+            parentId: "secure-logistics",
+        },
+        {
+            id: "arrange-av",
+            title: "Arrange AV Equipment",
+            description: "Coordinate with vendors for stage, sound, and lighting.",
+            assignedTo: AgentName.LOGISTICS_COORDINATOR,
+            dependsOn: ["select-venue"], // Must happen after venue is booked
+            estimatedDuration: 2,
+            estimatedCost: 30000,
+            costCategory: CostCategory.EQUIPMENT,
+            parentId: "secure-logistics",
+        },
+        {
+            id: "arrange-catering",
+            title: "Finalize Catering",
+            description: "Get quotes and sign a contract for event catering.",
+            assignedTo: AgentName.LOGISTICS_COORDINATOR,
+            dependsOn: ["select-venue"], // Also depends on venue
+            estimatedDuration: 3,
+            estimatedCost: 80000,
+            costCategory: CostCategory.CATERING,
+            parentId: "secure-logistics",
+        },
+
+        // --- Parent Task for Sponsorship ---
+        {
+            id: "manage-sponsorship",
+            title: "Manage Sponsorship Campaign",
+            description: "Develop sponsorship packages, conduct outreach, and secure funding.",
+            assignedTo: AgentName.SPONSORSHIP_OUTREACH,
+            dependsOn: [],
+            estimatedDuration: 7,
+        },
+        // --- Sponsorship Sub-tasks ---
+        {
+            id: "develop-sponsorship-packages",
+            title: "Develop Sponsorship Tiers",
+            description: "Create tiered sponsorship packages (e.g., Platinum, Gold, Silver) with clear benefits.",
+            assignedTo: AgentName.SPONSORSHIP_OUTREACH,
+            dependsOn: [], // Can start immediately
+            estimatedDuration: 2,
+            estimatedCost: 2000,
+            costCategory: CostCategory.PRINTING,
+            parentId: "manage-sponsorship",
+        },
+        {
+            id: "draft-sponsorship-email",
+            title: "Draft Initial Sponsorship Email",
+            description: "Draft a compelling and personalized outreach email template for potential sponsors.",
+            assignedTo: AgentName.SPONSORSHIP_OUTREACH,
+            dependsOn: ["develop-sponsorship-packages"], // Depends on tiers being defined
+            estimatedDuration: 1, // This is a content generation task
+            parentId: "manage-sponsorship",
+        },
+        {
+            id: "send-sponsorship-emails",
+            title: "Send Wave 1 Sponsorship Emails",
+            description: "Send the approved email to a pre-vetted list of 20 potential sponsors.",
+            assignedTo: AgentName.SPONSORSHIP_OUTREACH,
+            dependsOn: ["draft-sponsorship-email"], // Depends on email being approved
+            estimatedDuration: 2,
+            estimatedCost: 0,
+            committedAmount: 150000,
+            parentId: "manage-sponsorship",
+        },
+
+        // --- Parent Task for Marketing ---
+        {
+            id: "execute-marketing-plan",
+            title: "Execute Marketing Plan",
+            description: "Oversee all marketing activities to promote the event and drive ticket sales.",
+            assignedTo: AgentName.MARKETING,
+            dependsOn: ["select-venue"], // Marketing needs a venue to announce
+            estimatedDuration: 6,
+        },
+        // --- Marketing Sub-tasks ---
+        {
+            id: "create-brand-identity",
+            title: "Create Event Brand Identity",
+            description: "Develop a logo, color scheme, and overall visual identity for the conference.",
+            assignedTo: AgentName.MARKETING,
+            dependsOn: [], // Can be done in parallel at the start
+            estimatedDuration: 3,
+            estimatedCost: 10000,
+            costCategory: CostCategory.MARKETING,
+            // A brand brief rather than channel posts, with a poster and social card to go with it.
+            channels: [],
+            visuals: ['poster', 'social-card'],
+        },
+        {
+            id: "announce-event-social-media",
+            title: "Create 'Save the Date' Post",
+            description: "Create an engaging social media post to announce the conference, including date and venue.",
+            assignedTo: AgentName.MARKETING,
+            dependsOn: ["select-venue", "create-brand-identity"], // Depends on both logistics and branding
+            estimatedDuration: 1, // Content generation task
+            estimatedCost: 5000,
+            costCategory: CostCategory.MARKETING,
+            parentId: "execute-marketing-plan",
+        },
+        {
+            id: "launch-event-website",
+            title: "Launch Simple Event Website",
+            description: "Build and deploy a one-page website with key event details and a sign-up form.",
+            assignedTo: AgentName.LOGISTICS_COORDINATOR, // A technical task for logistics
+            dependsOn: ["create-brand-identity"],
+            estimatedDuration: 4,
+            estimatedCost: 8000,
+            costCategory: CostCategory.MARKETING,
+            parentId: "execute-marketing-plan",
+        },
+        {
+            id: "announce-keynote-speaker",
+            title: "Announce Keynote Speaker",
+            description: "Create a social media campaign to announce the confirmed keynote speaker.",
+            assignedTo: AgentName.MARKETING,
+            dependsOn: ["launch-event-website"], // Announce after website is live
+            estimatedDuration: 1, // Content generation task
+            estimatedCost: 2000,
+            costCategory: CostCategory.MARKETING,
+            parentId: "execute-marketing-plan",
+        },
+    ];
+
+    const fullTasks = mockPlan.map(task => ({
+        ...task,
+        status: (task.dependsOn && task.dependsOn.length > 0) ? TaskStatus.PENDING : TaskStatus.IN_PROGRESS,
+        progress: 0,
+        retries: 0
+    } as Task));
+
+    // A three-day event six weeks out, so the deadline warnings have something to check.
+    const eventStart = new Date();
+    eventStart.setDate(eventStart.getDate() + 42);
+    const eventEnd = new Date(eventStart);
+    eventEnd.setDate(eventEnd.getDate() + 2);
+
+    return new Promise(resolve => {
+        setTimeout(() => {
+            resolve({ tasks: fullTasks, eventStartDate: toDateKey(eventStart), eventEndDate: toDateKey(eventEnd) });
+        }, 1500); // Simulate network delay
+    });
+};
+
+// Delay between the words of streamed mock content.
+const MOCK_STREAM_WORD_DELAY_MS = 60;
+
+/**
+ * Reveals the text a word at a time, like a model streaming its response.
+ */
+const streamMockText = (text: string, stream: ContentStream): Promise<string> => {
+    const words = text.split(/(?<=\s)/);
+    return new Promise((resolve, reject) => {
+        let count = 0;
+        const timer = setInterval(() => {
+            count++;
+            stream.onText(words.slice(0, count).join(''));
+            if (count >= words.length) {
+                clearInterval(timer);
+                resolve(text);
+            }
+        }, MOCK_STREAM_WORD_DELAY_MS);
+        stream.signal?.addEventListener('abort', () => {
+            clearInterval(timer);
+            reject(new DOMException('Generation cancelled.', 'AbortError'));
+        }, { once: true });
+    });
+};
+
+// Keeps the hashtags and paragraphs that fit in the channel's limits.
+const fitMockToChannel = (content: string, channel: SocialChannel): string => {
+    const spec = getChannelSpec(channel);
+    let hashtags = 0;
+    const paragraphs = content
+        .replace(/(^|\s)#[\p{L}\p{N}_]+/gu, hashtag => ++hashtags > spec.maxHashtags ? '' : hashtag)
+        .split('\n\n')
+        .map(paragraph => paragraph.trim())
+        .filter(Boolean);
+    let post = paragraphs[0] ?? '';
+    for (const paragraph of paragraphs.slice(1)) {
+        if (countCharacters(`${post}\n\n${paragraph}`) > spec.maxLength) break;
+        post = `${post}\n\n${paragraph}`;
+    }
+    return countCharacters(post) > spec.maxLength ? `${[...post].slice(0, spec.maxLength - 1).join('').trimEnd()}…` : post;
+};
+
+/**
+ * Imitates the variant styles: the concise variant keeps the first half of the
+ * paragraphs and the energetic one adds an upbeat closing line. Drafts personalized
+ * for a sponsor fill in its contact's name, and channel posts are cut to fit.
+ */
+const applyMockStyle = (content: string, style: ContentVariantStyle | undefined): string => {
+    if (style?.channel) {
+        return fitMockToChannel(content, style.channel);
+    }
+    if (style?.sponsor) {
+        return content.replace(/\[Sponsor Name\]/g, style.sponsor.contacts[0]?.name || style.sponsor.company);
+    }
+    const paragraphs = content.split('\n\n');
+    switch (style?.label) {
+        case CONTENT_VARIANT_STYLES[1].label:
+            return paragraphs.slice(0, Math.ceil(paragraphs.length / 2)).join('\n\n');
+        case CONTENT_VARIANT_STYLES[2].label:
+            return `${content}\n\n🎉 We can't wait to make this the best one yet!`;
+        default:
+            return content;
+    }
+};
+
+const mockExecuteTask = (task: Task, agent: AgentDefinition | undefined, userProfile: UserProfile | null, projectName: string | null, style?: ContentVariantStyle, stream?: ContentStream): Promise<string> => {
+    console.log(`Executing task (Comprehensive Offline Mock): "${task.title}" for event "${projectName}" by`, userProfile?.institution);
+    let mockContent = `Mock ${agent?.name ?? task.assignedTo} content for "${task.title}". The offline mock only has written content for the sample plan's tasks.`;
+
+    const eventName = projectName || task.title; // Fallback to task title if project name is missing
+    const institutionName = userProfile?.institution || 'Our Institution';
+    const institutionHandle = institutionName.replace(/\s+/g, '');
+    const eventHandle = (projectName || 'TheEvent').replace(/[^a-zA-Z0-9]/g, '');
+
+    switch (task.id) {
+        case "draft-sponsorship-email":
+            mockContent = `Subject: Partnership Opportunity: ${eventName}
+
+Dear [Sponsor Name],
+
+I am writing to invite you to partner with us for the upcoming ${eventName}, a premier 3-day event organized by ${institutionName} gathering 200 industry leaders and innovators.
+
+We believe a partnership would offer exceptional value and exposure for your brand. Our detailed sponsorship packages are attached for your review, outlining various tiers of benefits.
+
+We would be delighted to schedule a brief call to discuss this opportunity further.
+
+Best regards,
+
+Sponsorship Outreach Agent
+${institutionName}`;
+            break;
+        case "announce-event-social-media":
+            mockContent = `🚀 BIG NEWS! Announcing ${eventName}! 🤖
+
+Join us for 3 days of innovation, networking, and groundbreaking tech.
+📅 October 22-24, 2024
+📍 The Grand Expo Center
+
+Get ready to connect with 200 of the brightest minds in the industry. Early bird tickets drop next month! Don't miss out. #${eventHandle} #Innovation #${institutionHandle}2024 #SaveTheDate`;
+            break;
+        case "announce-keynote-speaker":
+            mockContent = `🎤 Keynote Speaker Announcement! 🎤
+
+We are thrilled to announce that the legendary Dr. Evelyn Reed, a pioneer in artificial intelligence, will be our keynote speaker at ${eventName}!
+
+Get ready for an inspiring session on the future of AI and robotics. You won't want to miss this!
+
+Learn more on our new website: ${eventHandle}Conf.com #Keynote #AI #TechEvent #${eventHandle}2024`;
+            break;
+    }
+
+    mockContent = applyMockStyle(mockContent, style);
+
+    if (stream) {
+        return streamMockText(mockContent, stream);
+    }
+
+    return new Promise(resolve => {
+        setTimeout(() => {
+            resolve(mockContent);
+        }, 1000); // Simulate network delay
+    });
+}
+
+const mockGetInstitutionDetails = (institutionName: string): Promise<InstitutionDetails> => {
+    console.log(`Getting details for institution (Offline Mock): "${institutionName}"`);
+    let details: InstitutionDetails = {
+        city: 'Mountain View',
+        state: 'California',
+        pincode: '94043'
+    };
+
+    if (institutionName.toLowerCase().includes('mit') || institutionName.toLowerCase().includes('massachusetts institute of technology')) {
+        details = {
+            city: 'Cambridge',
+            state: 'Massachusetts',
+            pincode: '02139'
+        };
+    } else if (institutionName.toLowerCase().includes('stanford')) {
+        details = {
+            city: 'Stanford',
+            state: 'California',
+            pincode: '94305'
+        };
+    }
+
+    return new Promise(resolve => {
+        setTimeout(() => {
+            resolve(details);
+        }, 800);
+    });
+};
+
+// Offline, every request becomes one new task that starts after the plan's last task.
+const mockRevisePlan = (request: string, tasks: Task[], _goal: string, agents: AgentDefinition[]): Promise<PlanDiff> => {
+    console.log("Revising plan (Offline Mock):", request);
+    const slug = request.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'new-task';
+    const lastTask = tasks.filter(t => !tasks.some(other => other.parentId === t.id)).slice(-1)[0];
+    const diff: PlanDiff = {
+        summary: `Added a task for "${request}".`,
+        added: [{
+            id: tasks.some(t => t.id === slug) ? `${slug}-${tasks.length}` : slug,
+            title: request.charAt(0).toUpperCase() + request.slice(1),
+            description: `Requested by the organizers: ${request}`,
+            assignedTo: agents[0]?.name ?? AgentName.LOGISTICS_COORDINATOR,
+            dependsOn: lastTask ? [lastTask.id] : [],
+            estimatedDuration: 2,
+        }],
+        removed: [],
+        modified: [],
+    };
+    return new Promise(resolve => setTimeout(() => resolve(diff), 1000));
+};
+
+const mockGetInstitutionSuggestions = (query: string): Promise<InstitutionSuggestions> => {
+    console.log(`Getting suggestions for (Offline Mock): "${query}"`);
+    const allMocks = [
+        "Stanford University",
+        "Stanly Community College",
+        "Massachusetts Institute of Technology",
+        "Michigan State University",
+        "University of California, Berkeley",
+        "University of Cambridge",
+        "University of Michigan",
+    ];
+    const lowercasedQuery = query.toLowerCase();
+    const filtered = allMocks.filter(name => name.toLowerCase().includes(lowercasedQuery));
+    return new Promise(resolve => setTimeout(() => resolve(filtered), 300));
+};
+
+/**
+ * Creates a provider that serves canned data without any network access.
+ */
+export const createMockProvider = (): LLMProvider => ({
+    name: 'Offline mock',
+    decomposeGoal: mockDecomposeGoal,
+    revisePlan: mockRevisePlan,
+    executeTask: mockExecuteTask,
+    getInstitutionDetails: mockGetInstitutionDetails,
+    getInstitutionSuggestions: mockGetInstitutionSuggestions,
+});
@@ -0,0 +1,152 @@
+import { AgentDefinition, ContentVariantStyle, PlanDiff, PlanTemplate, Task, UserProfile } from "../../types";
+import { ContentStream, GoalDecomposition, InstitutionDetails, InstitutionSuggestions, LLMProvider } from "../llmProvider";
+import { callWithRetry } from "./retry";
+import {
+    buildDecomposeInstruction,
+    buildDecomposePrompt,
+    buildReviseInstruction,
+    buildRevisePrompt,
+    buildReviseSchema,
+    buildExecuteInstruction,
+    buildExecutePrompt,
+    buildInstitutionDetailsPrompt,
+    buildInstitutionSuggestionsPrompt,
+    buildDecomposeSchema,
+    INSTITUTION_DETAILS_INSTRUCTION,
+    INSTITUTION_DETAILS_SCHEMA,
+    INSTITUTION_SUGGESTIONS_INSTRUCTION,
+    INSTITUTION_SUGGESTIONS_SCHEMA,
+    toJsonSchema,
+} from "./prompts";
+
+// Defaults target a local Ollama server, which exposes an OpenAI-compatible API.
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_MODEL = 'llama3.1';
+
+interface ChatCompletionResponse {
+    choices?: { message?: { content?: string | null } }[];
+}
+
+// One server-sent event of a streamed completion.
+interface ChatCompletionChunk {
+    choices?: { delta?: { content?: string | null } }[];
+}
+
+/**
+ * Creates a provider for any server implementing the OpenAI `/chat/completions`
+ * API (OpenAI itself, Ollama, llama.cpp, vLLM, LM Studio...). Configured with
+ * VITE_OPENAI_BASE_URL, VITE_OPENAI_API_KEY and VITE_OPENAI_MODEL.
+ */
+export const createOpenAICompatibleProvider = (): LLMProvider => {
+    const baseUrl = ((import.meta.env.VITE_OPENAI_BASE_URL as string | undefined) || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    const apiKey = import.meta.env.VITE_OPENAI_API_KEY as string | undefined;
+    const model = (import.meta.env.VITE_OPENAI_MODEL as string | undefined) || DEFAULT_MODEL;
+
+    const request = async (systemInstruction: string, prompt: string, options: object, signal?: AbortSignal): Promise<Response> => {
+        const response = await fetch(`${baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+                model,
+                messages: [
+                    { role: 'system', content: systemInstruction },
+                    { role: 'user', content: prompt },
+                ],
+                ...options,
+            }),
+            signal,
+        });
+        if (!response.ok) {
+            const body = await response.text();
+            throw new Error(`OpenAI-compatible request failed (${response.status}): ${body}`);
+        }
+        return response;
+    };
+
+    const complete = async (systemInstruction: string, prompt: string, responseFormat?: object): Promise<string> => {
+        return callWithRetry(async () => {
+            const response = await request(systemInstruction, prompt, responseFormat ? { response_format: responseFormat } : {});
+            const data = await response.json() as ChatCompletionResponse;
+            return data.choices?.[0]?.message?.content ?? '';
+        });
+    };
+
+    /**
+     * Reads a streamed completion, which arrives as server-sent events of the form
+     * `data: {...}` and ends with `data: [DONE]`.
+     */
+    const completeStreaming = async (systemInstruction: string, prompt: string, stream: ContentStream): Promise<string> => {
+        // Only opening the stream is retried; a stream that breaks off part-way fails the attempt.
+        const response = await callWithRetry(() => request(systemInstruction, prompt, { stream: true }, stream.signal));
+        if (!response.body) {
+            throw new Error('OpenAI-compatible server returned an empty stream.');
+        }
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        let text = '';
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() ?? '';
+            for (const line of lines) {
+                const data = line.trim().replace(/^data:\s*/, '');
+                if (!line.trim().startsWith('data:') || data === '[DONE]') continue;
+                const chunk = JSON.parse(data) as ChatCompletionChunk;
+                const delta = chunk.choices?.[0]?.delta?.content;
+                if (delta) {
+                    text += delta;
+                    stream.onText(text);
+                }
+            }
+        }
+        return text;
+    };
+
+    /**
+     * Structured output must be an object at the top level for most servers, so
+     * array schemas are wrapped in `{ items: [...] }` and unwrapped afterwards.
+     */
+    const generateJson = async <T>(name: string, systemInstruction: string, prompt: string, schema: { type: string }): Promise<T> => {
+        const isArray = schema.type.toLowerCase() === 'array';
+        const jsonSchema = isArray
+            ? { type: 'object', properties: { items: toJsonSchema(schema) }, required: ['items'] }
+            : toJsonSchema(schema);
+
+        const content = await complete(systemInstruction, prompt, {
+            type: 'json_schema',
+            json_schema: { name, schema: jsonSchema },
+        });
+        const parsed = JSON.parse(content.trim());
+        return (isArray && !Array.isArray(parsed) ? parsed.items : parsed) as T;
+    };
+
+    return {
+        name: `OpenAI-compatible (${model} @ ${baseUrl})`,
+
+        decomposeGoal: (goal: string, userProfile: UserProfile | null, agents: AgentDefinition[], template?: PlanTemplate) =>
+            generateJson<GoalDecomposition>('task_plan', buildDecomposeInstruction(userProfile, agents), buildDecomposePrompt(goal, template), buildDecomposeSchema(agents)),
+
+        revisePlan: (request: string, tasks: Task[], goal: string, agents: AgentDefinition[]) =>
+            generateJson<PlanDiff>('plan_changes', buildReviseInstruction(agents), buildRevisePrompt(request, tasks, goal), buildReviseSchema(agents)),
+
+        // Agent tools are not supported here: the generic API has no built-in web search.
+        executeTask: async (task: Task, agent: AgentDefinition | undefined, userProfile: UserProfile | null, projectName: string | null, style?: ContentVariantStyle, stream?: ContentStream) => {
+            const systemInstruction = buildExecuteInstruction(task, agent, userProfile, projectName, style);
+            return stream
+                ? completeStreaming(systemInstruction, buildExecutePrompt(task), stream)
+                : complete(systemInstruction, buildExecutePrompt(task));
+        },
+
+        getInstitutionDetails: (institutionName: string) =>
+            generateJson<InstitutionDetails>('institution_details', INSTITUTION_DETAILS_INSTRUCTION, buildInstitutionDetailsPrompt(institutionName), INSTITUTION_DETAILS_SCHEMA),
+
+        getInstitutionSuggestions: (query: string) =>
+            generateJson<InstitutionSuggestions>('institution_suggestions', INSTITUTION_SUGGESTIONS_INSTRUCTION, buildInstitutionSuggestionsPrompt(query), INSTITUTION_SUGGESTIONS_SCHEMA),
+    };
+};
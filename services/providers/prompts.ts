@@ -0,0 +1,286 @@
+import { Type } from "@google/genai";
+import { AgentDefinition, ContentVariantStyle, CostCategory, PlanTemplate, Task, TaskStatus, UserProfile } from "../../types";
+import { formatTemplateForPrompt } from "../planTemplates";
+import { AGENT_OUTPUT_FORMATS, BUDGET_CURRENCY } from "../../constants";
+
+/**
+ * Prompts and response schemas shared by every LLM provider, so that switching
+ * vendors changes the transport but never the instructions the agents receive.
+ * Schemas are written in the Gemini `Type` notation; providers that speak plain
+ * JSON Schema convert them with `toJsonSchema`.
+ */
+
+const describeAgent = (agent: AgentDefinition): string =>
+    `- "${agent.name}": ${agent.description} ${agent.generatesContent
+        ? `This agent generates content (${AGENT_OUTPUT_FORMATS[agent.outputFormat].label.toLowerCase()}) that requires user approval.`
+        : 'These tasks are considered "manual" and will be marked as complete by the user.'}`;
+
+export const buildDecomposeInstruction = (userProfile: UserProfile | null, agents: AgentDefinition[]): string => {
+    let systemInstruction = `You are the MasterPlannerAgent for an AI event orchestration platform. Your role is to decompose a high-level user goal into a detailed, structured plan of tasks.
+
+You have a team of specialized agents to delegate tasks to:
+${agents.map(describeAgent).join('\n')}
+
+Your instructions are:
+1.  Analyze the user's goal carefully.
+2.  Break it down into a logical sequence of specific, actionable tasks.
+3.  For complex tasks (e.g., "Arrange Catering"), create a main **parent task** to act as an organizational container, and then several **sub-tasks** linked to it via a 'parentId'.
+4.  Crucially, when creating parent and sub-tasks, follow these rules:
+    - Parent tasks are non-executable containers for organization. Their status is derived from their children.
+    - A parent task's 'estimatedDuration' should be a rough sum of its sequential sub-tasks' durations.
+    - **Sub-task Dependency Rule:** Sub-tasks MUST inherit all prerequisites from their parent task. Additionally, sub-tasks CAN have dependencies on other sub-tasks under the same parent to create a logical sequence.
+    - **Example:** If parent "Arrange Catering" depends on "Select Venue", then its sub-task "Get Quotes" MUST also depend on "Select Venue". "Get Quotes" could ALSO depend on a sibling sub-task like "Research Caterers".
+    - **Nesting Limit:** The task hierarchy is strictly limited to one level. A task with a 'parentId' (a sub-task) CANNOT itself be a parent to another task. Do not create nested sub-tasks or 'grandchild' tasks.
+5.  Assign each task to the most appropriate agent from the list above.
+6.  Define dependencies between tasks. A task's 'dependsOn' array should contain the 'id's of all tasks that must be completed before it can start. For example, a marketing post about the venue can only be created after the venue is booked.
+7.  Generate a unique, URL-friendly slug for each task 'id'.
+8.  Provide a realistic 'estimatedDuration' in days for each task. The duration should be a whole number greater than 0.
+9.  Provide a realistic 'estimatedCost' in ${BUDGET_CURRENCY} and a 'costCategory' for every task that is not a parent task. Use 0 for tasks that cost nothing (e.g. drafting an email). Do not put costs on parent tasks; their budget is the sum of their sub-tasks.
+10. For sponsorship tasks that secure funding, provide the expected 'committedAmount' in ${BUDGET_CURRENCY} that the sponsors are likely to commit.
+11. If the goal states when the event takes place (e.g. "from Oct 1-3"), return its first and last day as 'eventStartDate' and 'eventEndDate' in YYYY-MM-DD format. A one-day event has the same start and end date. If no year is given, assume the next such date from ${new Date().getFullYear()} onwards. Omit both fields if the goal does not mention a date. All tasks are preparation and must be finished before the event starts.
+12. You MUST return a JSON object matching the provided schema, with the plan as its 'tasks' array. Do not return markdown or any other text.`;
+
+    if (userProfile && userProfile.institution) {
+        let context = `\n\nIMPORTANT CONTEXT: The user planning this event is from "${userProfile.institution}"`;
+        if (userProfile.city && userProfile.state) {
+            context += `, located in ${userProfile.city}, ${userProfile.state}.`;
+        }
+        context += " Use this information to create a more relevant and personalized plan. For example, suggest tasks that leverage local resources, mention local sponsorship opportunities, or align with the typical activities of such an institution (e.g., student-run events for a college, professional networking for a corporation).";
+        systemInstruction += context;
+    }
+
+    return systemInstruction;
+};
+
+// With a template, the planner adapts an earlier plan instead of starting from scratch.
+export const buildDecomposePrompt = (goal: string, template?: PlanTemplate): string => template
+    ? `Adapt the following plan, saved from an earlier event ("${template.goalPrompt || template.name}"), to this goal: "${goal}"
+
+Keep the tasks, ids, dependencies, durations and agent assignments as they are wherever they still fit. Only change, add or remove tasks where the new goal differs, e.g. a different number of days, participants or sponsors. Follow all the rules above for any task you add.
+
+Plan to adapt:
+${formatTemplateForPrompt(template)}`
+    : `Decompose the following goal into a task plan: "${goal}"`;
+
+const buildTaskSchema = (agents: AgentDefinition[]) => ({
+    type: Type.OBJECT,
+    properties: {
+        id: { type: Type.STRING, description: "A unique, URL-friendly slug for the task (e.g., 'book-venue')." },
+        title: { type: Type.STRING, description: "A concise, descriptive title for the task." },
+        description: { type: Type.STRING, description: "A detailed description of what the task involves." },
+        assignedTo: {
+            type: Type.STRING,
+            description: `The agent assigned to this task. Must be one of: ${agents.map(agent => `"${agent.name}"`).join(', ')}.`
+        },
+        dependsOn: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "An array of task IDs that must be completed before this task can start. Can be an empty array."
+        },
+        estimatedDuration: {
+            type: Type.NUMBER,
+            description: "The estimated number of days this task will take to complete (must be a whole number greater than 0)."
+        },
+        parentId: {
+            type: Type.STRING,
+            description: "Optional. The ID of the parent task if this is a sub-task."
+        },
+        estimatedCost: {
+            type: Type.NUMBER,
+            description: `Optional. The estimated cost of this task in ${BUDGET_CURRENCY}. Omit for parent tasks.`
+        },
+        costCategory: {
+            type: Type.STRING,
+            enum: Object.values(CostCategory),
+            description: "Optional. The budget category the task's cost belongs to."
+        },
+        committedAmount: {
+            type: Type.NUMBER,
+            description: `Optional. For sponsorship tasks, the sponsorship income in ${BUDGET_CURRENCY} expected to be secured by this task.`
+        },
+    },
+    required: ["id", "title", "description", "assignedTo", "dependsOn", "estimatedDuration"]
+});
+
+export const buildDecomposeSchema = (agents: AgentDefinition[]) => ({
+    type: Type.OBJECT,
+    properties: {
+        eventStartDate: { type: Type.STRING, description: "Optional. The first day of the event as YYYY-MM-DD, if the goal states it." },
+        eventEndDate: { type: Type.STRING, description: "Optional. The last day of the event as YYYY-MM-DD, if the goal states it." },
+        tasks: { type: Type.ARRAY, items: buildTaskSchema(agents) },
+    },
+    required: ["tasks"]
+});
+
+export const buildReviseInstruction = (agents: AgentDefinition[]): string => `You are the MasterPlannerAgent for an AI event orchestration platform. The organizers already have a plan of tasks and ask you to change it, e.g. to add a track, react to a cancelled venue or drop an activity.
+
+You can delegate to these agents:
+${agents.map(describeAgent).join('\n')}
+
+Your instructions are:
+1.  Make only the changes the request calls for. Leave every other task out of your answer.
+2.  Return new tasks in 'added', each with a new unique, URL-friendly slug as its 'id'. New tasks may depend on existing tasks and on each other.
+3.  Return existing tasks that are no longer needed in 'removed', with a short reason. Their sub-tasks are removed with them. Avoid removing tasks that are already completed unless the request asks for it.
+4.  Return changes to existing tasks in 'modified': the task's 'taskId', only the fields that change in 'changes', and a short reason. A changed 'dependsOn' replaces the whole list.
+5.  Keep the plan's rules: the task hierarchy is one level deep, sub-tasks inherit their parent's prerequisites, durations are whole working days greater than 0, and costs are in ${BUDGET_CURRENCY} on leaf tasks only.
+6.  Summarize what you changed and why in 'summary', in one or two sentences addressed to the organizers.
+7.  You MUST return a JSON object matching the provided schema. Do not return markdown or any other text.`;
+
+export const buildRevisePrompt = (request: string, tasks: Task[], goal: string): string => {
+    const plan = tasks.map(task => ({
+        id: task.id,
+        title: task.title,
+        description: task.description,
+        assignedTo: task.assignedTo,
+        dependsOn: task.dependsOn ?? [],
+        estimatedDuration: task.estimatedDuration,
+        parentId: task.parentId,
+        estimatedCost: task.estimatedCost,
+        status: task.status === TaskStatus.COMPLETED ? 'completed' : 'open',
+    }));
+    return `The event's goal: "${goal}"
+
+The current plan:
+${JSON.stringify(plan, null, 2)}
+
+The organizers' request: "${request}"`;
+};
+
+export const buildReviseSchema = (agents: AgentDefinition[]) => {
+    const taskSchema = buildTaskSchema(agents);
+    const { id, ...changeProperties } = taskSchema.properties;
+    return {
+        type: Type.OBJECT,
+        properties: {
+            summary: { type: Type.STRING, description: "What was changed and why, in one or two sentences." },
+            added: { type: Type.ARRAY, items: taskSchema },
+            removed: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        taskId: { type: Type.STRING, description: "The id of an existing task to remove." },
+                        reason: { type: Type.STRING },
+                    },
+                    required: ["taskId"],
+                },
+            },
+            modified: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        taskId: { type: Type.STRING, description: "The id of the existing task to change." },
+                        changes: {
+                            type: Type.OBJECT,
+                            properties: changeProperties,
+                            description: "Only the fields that change.",
+                        },
+                        reason: { type: Type.STRING },
+                    },
+                    required: ["taskId", "changes"],
+                },
+            },
+        },
+        required: ["summary", "added", "removed", "modified"],
+    };
+};
+
+/**
+ * Builds the system instruction for a content generation task from the agent's
+ * registered prompt and output format.
+ * @param agent The registered agent the task is assigned to, if any.
+ * @throws If the task's agent does not generate approvable content.
+ */
+export const buildExecuteInstruction = (task: Task, agent: AgentDefinition | undefined, userProfile: UserProfile | null, projectName: string | null, style?: ContentVariantStyle): string => {
+    if (!agent?.generatesContent) {
+        throw new Error(`Task execution failed: The agent ${task.assignedTo} does not generate approvable content.`);
+    }
+
+    const systemInstruction = `You are the ${agent.name} agent. ${agent.systemPrompt || agent.description} ${AGENT_OUTPUT_FORMATS[agent.outputFormat].instruction}`;
+
+    let context = `\n\nIMPORTANT CONTEXT: You are generating content for an event named "${projectName || 'the event'}".`;
+
+    if (userProfile && userProfile.institution) {
+        context += ` This event is being organized by "${userProfile.institution}"`;
+        if (userProfile.city && userProfile.state) {
+            context += ` which is based in ${userProfile.city}, ${userProfile.state}.`;
+        }
+        context += ` Personalize the content to reflect this. Mention the institution's name, reference local culture if appropriate, and adopt a tone suitable for the institution (e.g., academic and vibrant for a college, professional and formal for a corporation).`;
+    }
+
+    if (style?.context) {
+        context += ` ${style.context}`;
+    }
+
+    // Variants after the first are asked for a different tone or length.
+    const styleInstruction = style?.instruction ? `\n\nSTYLE: ${style.instruction}` : '';
+
+    return systemInstruction + context + styleInstruction;
+};
+
+// Use custom prompt if provided, otherwise construct from task details
+export const buildExecutePrompt = (task: Task): string => {
+    const prompt = task.customPrompt
+        ? task.customPrompt
+        : `Generate content based on the following task:
+    - Task Title: "${task.title}"
+    - Task Description: "${task.description}"
+    
+    Generate only the content itself, without any additional commentary or formatting.`;
+    // Comments the organizers chose to share with the agent when asking for a new draft.
+    return task.reviewerFeedback
+        ? `${prompt}\n\nTake into account these comments from the organizers on earlier drafts:\n${task.reviewerFeedback}`
+        : prompt;
+};
+
+// Refined instruction to ensure only the city name is returned.
+export const INSTITUTION_DETAILS_INSTRUCTION = `You are an assistant that provides location information for educational or corporate institutions. Based on the provided institution name, you must return its official city name, state/province, and pincode/zip code in JSON format. The 'city' field should contain only the official city name, excluding any neighborhoods, districts, or specific localities. If you cannot find the exact information, make the best guess or state that it could not be found within the JSON fields.`;
+
+export const buildInstitutionDetailsPrompt = (institutionName: string): string =>
+    `Find location details for: "${institutionName}"`;
+
+export const INSTITUTION_DETAILS_SCHEMA = {
+    type: Type.OBJECT,
+    properties: {
+        city: {
+            type: Type.STRING,
+            // Refined description for clarity.
+            description: "The official city name where the institution is located. Exclude any neighborhoods, districts, or specific localities."
+        },
+        state: { type: Type.STRING, description: "The state, province, or region where the institution is located." },
+        pincode: { type: Type.STRING, description: "The pincode or ZIP code for the institution's address." },
+    },
+    required: ["city", "state", "pincode"]
+};
+
+export const INSTITUTION_SUGGESTIONS_INSTRUCTION = `You are a highly accurate autocomplete service for educational institutions. Given a partial name, return a JSON array of up to 5 suggestions. Give strong priority to institutions located in India. The suggestions must be the standard, official full names of universities, colleges, or major academic institutions. Do not include departments, sub-schools, or street addresses. For example, if the query is "IIT", you should suggest "Indian Institute of Technology Bombay", "Indian Institute of Technology Delhi", etc. Prioritize well-known institutions. Only return the JSON array.`;
+
+export const buildInstitutionSuggestionsPrompt = (query: string): string =>
+    `Provide autocomplete suggestions for: "${query}"`;
+
+export const INSTITUTION_SUGGESTIONS_SCHEMA = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.STRING,
+        description: "The full name of a suggested institution.",
+    },
+};
+
+/**
+ * Converts a schema written with the Gemini `Type` enum into standard JSON Schema
+ * (lowercase type names), as expected by OpenAI-compatible endpoints.
+ */
+export const toJsonSchema = (schema: unknown): unknown => {
+    if (Array.isArray(schema)) {
+        return schema.map(toJsonSchema);
+    }
+    if (schema !== null && typeof schema === 'object') {
+        const converted: Record<string, unknown> = {};
+        for (const [key, value] of Object.entries(schema)) {
+            converted[key] = key === 'type' && typeof value === 'string' ? value.toLowerCase() : toJsonSchema(value);
+        }
+        return converted;
+    }
+    return schema;
+};
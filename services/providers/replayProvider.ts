@@ -0,0 +1,172 @@
+import { AgentDefinition, ContentVariantStyle, PlanDiff, PlanTemplate, Task, UserProfile } from "../../types";
+import { ContentStream, GoalDecomposition, InstitutionDetails, InstitutionSuggestions, LLMProvider } from "../llmProvider";
+import {
+    buildDecomposeInstruction,
+    buildDecomposePrompt,
+    buildReviseInstruction,
+    buildRevisePrompt,
+    buildExecuteInstruction,
+    buildExecutePrompt,
+    buildInstitutionDetailsPrompt,
+    buildInstitutionSuggestionsPrompt,
+} from "./prompts";
+
+/**
+ * Record/replay support. Live responses are stored keyed by the exact prompt that
+ * produced them, so a replay returns the same output for the same inputs without
+ * any network access. This keeps demos and manual testing deterministic.
+ */
+
+type LLMMethod = keyof Omit<LLMProvider, 'name'>;
+
+interface LLMRecording {
+    method: LLMMethod;
+    prompt: string;
+    response: unknown;
+    recordedAt: string;
+}
+
+type LLMRecordings = Record<string, LLMRecording>;
+
+const RECORDINGS_KEY = 'festflow_llmRecordings';
+
+// Simple FNV-1a hash so that long system instructions produce short, stable keys.
+const hashString = (value: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const buildRecordingKey = (method: LLMMethod, prompt: string): string => `${method}:${hashString(prompt)}`;
+
+/**
+ * The prompt text that identifies each call. It mirrors what is actually sent to
+ * the model, so changing a prompt invalidates the recordings made with the old one.
+ */
+const promptFor = {
+    decomposeGoal: (goal: string, userProfile: UserProfile | null, agents: AgentDefinition[], template?: PlanTemplate) =>
+        `${buildDecomposeInstruction(userProfile, agents)}\n\n${buildDecomposePrompt(goal, template)}`,
+    revisePlan: (request: string, tasks: Task[], goal: string, agents: AgentDefinition[]) =>
+        `${buildReviseInstruction(agents)}\n\n${buildRevisePrompt(request, tasks, goal)}`,
+    executeTask: (task: Task, agent: AgentDefinition | undefined, userProfile: UserProfile | null, projectName: string | null, style?: ContentVariantStyle) =>
+        `${buildExecuteInstruction(task, agent, userProfile, projectName, style)}\n\n${buildExecutePrompt(task)}`,
+    getInstitutionDetails: (institutionName: string) => buildInstitutionDetailsPrompt(institutionName),
+    getInstitutionSuggestions: (query: string) => buildInstitutionSuggestionsPrompt(query),
+};
+
+const loadLocalRecordings = (): LLMRecordings => {
+    try {
+        const saved = localStorage.getItem(RECORDINGS_KEY);
+        return saved ? JSON.parse(saved) as LLMRecordings : {};
+    } catch (error) {
+        console.error("Failed to load LLM recordings from localStorage", error);
+        return {};
+    }
+};
+
+const saveRecording = (method: LLMMethod, prompt: string, response: unknown): void => {
+    const recordings = loadLocalRecordings();
+    recordings[buildRecordingKey(method, prompt)] = { method, prompt, response, recordedAt: new Date().toISOString() };
+    try {
+        localStorage.setItem(RECORDINGS_KEY, JSON.stringify(recordings));
+    } catch (error) {
+        console.error("Failed to save LLM recording to localStorage", error);
+    }
+};
+
+/**
+ * Returns all recordings made in this browser as a JSON string, suitable for
+ * saving as a fixtures file and serving via VITE_LLM_REPLAY_FIXTURES.
+ */
+export const exportLLMRecordings = (): string => JSON.stringify(loadLocalRecordings(), null, 2);
+
+export const clearLLMRecordings = (): void => {
+    localStorage.removeItem(RECORDINGS_KEY);
+};
+
+export const countLLMRecordings = (): number => Object.keys(loadLocalRecordings()).length;
+
+/**
+ * Wraps a live provider so that every successful response is also recorded.
+ */
+export const createRecordingProvider = (inner: LLMProvider): LLMProvider => {
+    const record = async <T>(method: LLMMethod, prompt: string, call: () => Promise<T>): Promise<T> => {
+        const response = await call();
+        saveRecording(method, prompt, response);
+        return response;
+    };
+
+    return {
+        name: `${inner.name} (recording)`,
+        decomposeGoal: (goal, userProfile, agents, template) =>
+            record('decomposeGoal', promptFor.decomposeGoal(goal, userProfile, agents, template), () => inner.decomposeGoal(goal, userProfile, agents, template)),
+        revisePlan: (request, tasks, goal, agents) =>
+            record('revisePlan', promptFor.revisePlan(request, tasks, goal, agents), () => inner.revisePlan(request, tasks, goal, agents)),
+        // Only generations that run to completion are recorded.
+        executeTask: (task, agent, userProfile, projectName, style, stream) =>
+            record('executeTask', promptFor.executeTask(task, agent, userProfile, projectName, style), () => inner.executeTask(task, agent, userProfile, projectName, style, stream)),
+        getInstitutionDetails: (institutionName) =>
+            record('getInstitutionDetails', promptFor.getInstitutionDetails(institutionName), () => inner.getInstitutionDetails(institutionName)),
+        getInstitutionSuggestions: (query) =>
+            record('getInstitutionSuggestions', promptFor.getInstitutionSuggestions(query), () => inner.getInstitutionSuggestions(query)),
+    };
+};
+
+/**
+ * Creates a provider that only serves recorded responses. Recordings made in this
+ * browser take precedence over the optional fixtures file at VITE_LLM_REPLAY_FIXTURES.
+ * A call without a matching recording fails rather than silently falling back to a
+ * live model.
+ */
+export const createReplayProvider = (): LLMProvider => {
+    const fixturesUrl = import.meta.env.VITE_LLM_REPLAY_FIXTURES as string | undefined;
+    let fixtures: Promise<LLMRecordings> | null = null;
+
+    const loadFixtures = (): Promise<LLMRecordings> => {
+        if (!fixtures) {
+            fixtures = fixturesUrl
+                ? fetch(fixturesUrl)
+                    .then(res => {
+                        if (!res.ok) throw new Error(`Failed to load replay fixtures from ${fixturesUrl} (${res.status})`);
+                        return res.json() as Promise<LLMRecordings>;
+                    })
+                    .catch(error => {
+                        console.error(error);
+                        return {};
+                    })
+                : Promise.resolve({});
+        }
+        return fixtures;
+    };
+
+    const replay = async <T>(method: LLMMethod, prompt: string): Promise<T> => {
+        const key = buildRecordingKey(method, prompt);
+        const recording = loadLocalRecordings()[key] ?? (await loadFixtures())[key];
+        if (!recording) {
+            throw new Error(`No recorded response for ${method} (${key}). Record one with a live provider first.`);
+        }
+        // Callers post-process results in place, so never hand out the cached fixture itself.
+        return structuredClone(recording.response) as T;
+    };
+
+    return {
+        name: 'Replay',
+        decomposeGoal: (goal, userProfile, agents, template) =>
+            replay<GoalDecomposition>('decomposeGoal', promptFor.decomposeGoal(goal, userProfile, agents, template)),
+        revisePlan: (request, tasks, goal, agents) =>
+            replay<PlanDiff>('revisePlan', promptFor.revisePlan(request, tasks, goal, agents)),
+        executeTask: async (task, agent, userProfile, projectName, style, stream?: ContentStream) => {
+            const content = await replay<string>('executeTask', promptFor.executeTask(task, agent, userProfile, projectName, style));
+            // Recordings hold the complete text, so a replayed stream arrives in one piece.
+            stream?.onText(content);
+            return content;
+        },
+        getInstitutionDetails: (institutionName) =>
+            replay<InstitutionDetails>('getInstitutionDetails', promptFor.getInstitutionDetails(institutionName)),
+        getInstitutionSuggestions: (query) =>
+            replay<InstitutionSuggestions>('getInstitutionSuggestions', promptFor.getInstitutionSuggestions(query)),
+    };
+};
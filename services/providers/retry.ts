@@ -0,0 +1,36 @@
+/**
+ * A wrapper for an LLM API call that includes a retry mechanism
+ * with exponential backoff for handling 429 rate limit errors.
+ * @param generateFn The function that makes the actual API call.
+ * @param maxRetries The maximum number of retries.
+ * @param initialDelay The initial delay between retries in milliseconds.
+ * @returns A promise that resolves with the API response.
+ */
+export const callWithRetry = async <T>(
+    generateFn: () => Promise<T>,
+    maxRetries = 3,
+    initialDelay = 1000
+): Promise<T> => {
+    let retries = 0;
+    let delay = initialDelay;
+    while (true) {
+        try {
+            return await generateFn();
+        } catch (error: any) {
+            // Neither the Gemini SDK nor our fetch-based providers expose a clean status code
+            // property on their errors. We inspect the error message string as a workaround.
+            if (retries < maxRetries && error.message && error.message.includes('429')) {
+                retries++;
+                console.warn(`Rate limit hit. Retrying in ${delay}ms... (${retries}/${maxRetries})`);
+                await new Promise(res => setTimeout(res, delay));
+                delay *= 2; // Exponential backoff
+            } else {
+                if (error.message && error.message.includes('429')) {
+                    throw new Error(`Rate limit exceeded. Please wait a minute and try again. (Failed after ${maxRetries} retries)`);
+                }
+                // Re-throw other errors immediately
+                throw error;
+            }
+        }
+    }
+};
@@ -0,0 +1,177 @@
+import { ScheduledPost, ScheduledPostStatus, SocialChannel, Task } from '../types';
+import { getChannelSpec, validatePost } from './socialPosts';
+
+/**
+ * Publishes scheduled posts through a pluggable adapter. Posts are published from
+ * the browser of an organizer who has the plan open, so a post whose time comes while
+ * nobody does goes out as soon as someone opens it.
+ */
+
+export interface OutgoingPost {
+    channel: SocialChannel;
+    text: string;
+    // ISO timestamp of when it was scheduled for.
+    publishAt: string;
+    taskTitle: string;
+    eventName: string;
+}
+
+export interface PublishReceipt {
+    // Where the post can be seen, if the adapter knows.
+    url?: string;
+}
+
+// The contract every publishing backend implements. `publish` rejects when the post was not accepted.
+export interface PublishingAdapter {
+    readonly name: string;
+    publish(post: OutgoingPost): Promise<PublishReceipt>;
+}
+
+export type PublishingAdapterKind = 'file' | 'webhook';
+
+export const PUBLISHING_ADAPTER_OPTIONS: { kind: PublishingAdapterKind; label: string; description: string }[] = [
+    { kind: 'file', label: 'Local file', description: 'Writes published posts to a log in this browser that you can download as a JSON file. Nothing is posted.' },
+    { kind: 'webhook', label: 'Webhook', description: 'POSTs each post as JSON to a URL, e.g. an automation (Zapier, Make, n8n) that posts to the network.' },
+];
+
+export interface PublishingSettings {
+    kind: PublishingAdapterKind;
+    // The webhook endpoint. Not used by the local file.
+    url: string;
+}
+
+export interface PublishResult {
+    status: Exclude<ScheduledPostStatus, 'scheduled'>;
+    adapter: string;
+    url?: string;
+    error?: string;
+}
+
+interface PublishedLogEntry extends OutgoingPost {
+    publishedAt: string;
+}
+
+const SETTINGS_KEY = 'festflow_publishingSettings';
+const PUBLISHED_LOG_KEY = 'festflow_publishedPosts';
+// The local file only keeps the most recent posts.
+const MAX_LOGGED_POSTS = 200;
+
+const isAdapterKind = (value: unknown): value is PublishingAdapterKind =>
+    PUBLISHING_ADAPTER_OPTIONS.some(option => option.kind === value);
+
+/**
+ * Resolves the publishing settings. What the user saved wins over the VITE_PUBLISH_*
+ * build-time defaults, and without either, posts go to the local file.
+ */
+export const getPublishingSettings = (): PublishingSettings => {
+    const env = import.meta.env;
+    const defaults: PublishingSettings = {
+        kind: isAdapterKind(env.VITE_PUBLISH_ADAPTER) ? env.VITE_PUBLISH_ADAPTER : 'file',
+        url: (env.VITE_PUBLISH_WEBHOOK_URL as string | undefined) || '',
+    };
+    try {
+        const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null') as Partial<PublishingSettings> | null;
+        if (!saved || typeof saved !== 'object') return defaults;
+        return {
+            kind: isAdapterKind(saved.kind) ? saved.kind : defaults.kind,
+            url: typeof saved.url === 'string' ? saved.url : defaults.url,
+        };
+    } catch {
+        return defaults;
+    }
+};
+
+export const setPublishingSettings = (settings: PublishingSettings): void => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const loadPublishedLog = (): PublishedLogEntry[] => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(PUBLISHED_LOG_KEY) || '[]');
+        return Array.isArray(saved) ? saved : [];
+    } catch (error) {
+        console.error("Failed to load the published posts from localStorage", error);
+        return [];
+    }
+};
+
+export const countPublishedLog = (): number => loadPublishedLog().length;
+
+export const exportPublishedLog = (): string => JSON.stringify(loadPublishedLog(), null, 2);
+
+export const clearPublishedLog = (): void => {
+    localStorage.removeItem(PUBLISHED_LOG_KEY);
+};
+
+const createFileAdapter = (): PublishingAdapter => ({
+    name: 'Local file',
+    publish: async (post) => {
+        const entries = [...loadPublishedLog(), { ...post, publishedAt: new Date().toISOString() }].slice(-MAX_LOGGED_POSTS);
+        try {
+            localStorage.setItem(PUBLISHED_LOG_KEY, JSON.stringify(entries));
+        } catch (error) {
+            console.error("Failed to save the published post", error);
+            throw new Error("The local file of published posts is full. Download and clear it from your profile page.");
+        }
+        return {};
+    },
+});
+
+// Answers with a JSON body containing `url` are reported as where the post can be seen.
+const createWebhookAdapter = (url: string): PublishingAdapter => ({
+    name: 'Webhook',
+    publish: async (post) => {
+        if (!url) throw new Error("No webhook URL is set. Add one in the Publishing settings on your profile page.");
+        let response: Response;
+        try {
+            response = await fetch(url, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(post),
+            });
+        } catch (error) {
+            console.error(`Failed to reach the publishing webhook at ${url}`, error);
+            throw new Error(`Could not reach the webhook at ${url}.`);
+        }
+        const body = await response.text().catch(() => '');
+        if (!response.ok) {
+            throw new Error(`The webhook responded with ${response.status}${body.trim() ? `: ${body.trim().slice(0, 200)}` : ''}.`);
+        }
+        try {
+            const receipt = JSON.parse(body);
+            return typeof receipt?.url === 'string' ? { url: receipt.url } : {};
+        } catch {
+            return {};
+        }
+    },
+});
+
+export const getPublishingAdapter = (settings: PublishingSettings = getPublishingSettings()): PublishingAdapter => {
+    switch (settings.kind) {
+        case 'webhook':
+            return createWebhookAdapter(settings.url);
+        case 'file':
+        default:
+            return createFileAdapter();
+    }
+};
+
+/**
+ * Publishes one scheduled post. Posts that were edited past their channel's limits
+ * are not sent.
+ * @returns The outcome; this never rejects.
+ */
+export const publishPost = async (task: Task, post: ScheduledPost, eventName: string): Promise<PublishResult> => {
+    const adapter = getPublishingAdapter();
+    const problems = validatePost(post.channel, post.text);
+    if (problems.length > 0) {
+        return { status: 'failed', adapter: adapter.name, error: problems.join(' ') };
+    }
+    try {
+        const receipt = await adapter.publish({ channel: post.channel, text: post.text, publishAt: post.publishAt, taskTitle: task.title, eventName });
+        return { status: 'published', adapter: adapter.name, url: receipt.url };
+    } catch (error) {
+        console.error(`Failed to publish the ${getChannelSpec(post.channel).label} post of "${task.title}"`, error);
+        return { status: 'failed', adapter: adapter.name, error: error instanceof Error ? error.message : 'The post could not be published.' };
+    }
+};
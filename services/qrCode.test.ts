@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import jsQR from 'jsqr';
+import { encodeQrCode, renderQrCodeSvg } from './qrCode';
+import { getTicketPayload } from './registration';
+
+// Draws the modules as an RGBA image with the quiet zone, as a scanner would see the ticket.
+const toImage = (modules: boolean[][], scale = 4) => {
+    const border = 4;
+    const size = (modules.length + border * 2) * scale;
+    const data = new Uint8ClampedArray(size * size * 4).fill(255);
+    for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+            const dark = modules[Math.floor(y / scale) - border]?.[Math.floor(x / scale) - border] ?? false;
+            if (dark) data.fill(0, (y * size + x) * 4, (y * size + x) * 4 + 3);
+        }
+    }
+    return { data, size };
+};
+
+const scan = (text: string) => {
+    const { data, size } = toImage(encodeQrCode(text));
+    return jsQR(data, size, size, { inversionAttempts: 'dontInvert' });
+};
+
+const hasFinderAt = (modules: boolean[][], left: number, top: number): boolean =>
+    Array.from({ length: 7 }, (_, y) => Array.from({ length: 7 }, (_, x) => {
+        const ring = Math.max(Math.abs(x - 3), Math.abs(y - 3));
+        return modules[top + y][left + x] === (ring !== 2);
+    })).flat().every(Boolean);
+
+describe('encodeQrCode', () => {
+    it('picks the smallest version that holds the text', () => {
+        expect(encodeQrCode('FESTFLOW-ABCDE').length).toBe(21);
+        expect(encodeQrCode('FESTFLOW-ABCDEF').length).toBe(25);
+        expect(encodeQrCode('x'.repeat(106)).length).toBe(41);
+    });
+
+    it('rejects text too long for a ticket', () => {
+        expect(() => encodeQrCode('x'.repeat(107))).toThrow('is too long for a ticket QR code (107 bytes).');
+    });
+
+    it('draws the finder and timing patterns', () => {
+        const modules = encodeQrCode('FESTFLOW-7KQ2MX9P');
+        const size = modules.length;
+        expect(hasFinderAt(modules, 0, 0)).toBe(true);
+        expect(hasFinderAt(modules, size - 7, 0)).toBe(true);
+        expect(hasFinderAt(modules, 0, size - 7)).toBe(true);
+        for (let i = 8; i < size - 8; i++) {
+            expect(modules[6][i]).toBe(i % 2 === 0);
+            expect(modules[i][6]).toBe(i % 2 === 0);
+        }
+    });
+
+    it('scans back as a ticket', () => {
+        const payload = getTicketPayload({ ticketCode: '7KQ2MX9P' });
+        expect(scan(payload)).toMatchObject({ data: payload, version: 2 });
+    });
+
+    it('scans back at the larger versions, whose data is split into several blocks', () => {
+        const link = 'https://festflow.example/register/3f9c2a71b8d04e5f9a6c?ticket=FESTFLOW-7KQ2MX9P';
+        expect(scan(link)).toMatchObject({ data: link, version: 5 });
+        const longest = 'x'.repeat(106);
+        expect(scan(longest)).toMatchObject({ data: longest, version: 6 });
+    });
+});
+
+describe('renderQrCodeSvg', () => {
+    it('adds a quiet zone around the symbol', () => {
+        const svg = renderQrCodeSvg('FESTFLOW-ABCD', 4);
+        expect(svg).toContain('viewBox="0 0 29 29"');
+        expect(svg).toContain('width="116"');
+        // The top left module of the finder pattern, after the four-module quiet zone.
+        expect(svg).toContain('M4,4h1v1h-1z');
+    });
+});
@@ -0,0 +1,312 @@
+/**
+ * A small QR code encoder for ticket codes, written after the ISO/IEC 18004 reference
+ * algorithm. It covers what tickets need: byte mode at error correction level M in
+ * versions 1 to 6, which holds up to 106 bytes.
+ */
+
+// Error correction codewords per block and number of blocks at level M, by version.
+const ECC_CODEWORDS_PER_BLOCK = [10, 16, 26, 18, 24, 16];
+const NUM_ERROR_CORRECTION_BLOCKS = [1, 1, 1, 2, 2, 4];
+const MAX_VERSION = ECC_CODEWORDS_PER_BLOCK.length;
+// The format bits of level M.
+const ECC_LEVEL_M = 0;
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+    (x, y) => (x + y) % 2 === 0,
+    (_x, y) => y % 2 === 0,
+    (x) => x % 3 === 0,
+    (x, y) => (x + y) % 3 === 0,
+    (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+    (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+    (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+    (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0,
+];
+
+const getBit = (value: number, index: number): boolean => ((value >>> index) & 1) !== 0;
+
+// The number of modules that hold data and error correction in a symbol of `version`.
+const getNumRawDataModules = (version: number): number => {
+    let result = (16 * version + 128) * version + 64;
+    if (version >= 2) result -= 25; // The single alignment pattern of versions 2 to 6.
+    return result;
+};
+
+const getNumDataCodewords = (version: number): number =>
+    Math.floor(getNumRawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[version - 1] * NUM_ERROR_CORRECTION_BLOCKS[version - 1];
+
+// Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1.
+const multiply = (x: number, y: number): number => {
+    let z = 0;
+    for (let i = 7; i >= 0; i--) {
+        z = (z << 1) ^ ((z >>> 7) * 0x11d);
+        z ^= ((y >>> i) & 1) * x;
+    }
+    return z;
+};
+
+const reedSolomonDivisor = (degree: number): number[] => {
+    const result = new Array<number>(degree - 1).fill(0);
+    result.push(1);
+    let root = 1;
+    for (let i = 0; i < degree; i++) {
+        for (let j = 0; j < result.length; j++) {
+            result[j] = multiply(result[j], root);
+            if (j + 1 < result.length) result[j] ^= result[j + 1];
+        }
+        root = multiply(root, 0x02);
+    }
+    return result;
+};
+
+const reedSolomonRemainder = (data: number[], divisor: number[]): number[] => {
+    const result = divisor.map(() => 0);
+    for (const byte of data) {
+        const factor = byte ^ (result.shift() as number);
+        result.push(0);
+        divisor.forEach((coefficient, i) => {
+            result[i] ^= multiply(coefficient, factor);
+        });
+    }
+    return result;
+};
+
+// Splits the data into blocks, appends each block's error correction and interleaves them.
+const addErrorCorrection = (data: number[], version: number): number[] => {
+    const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[version - 1];
+    const blockEccLength = ECC_CODEWORDS_PER_BLOCK[version - 1];
+    const rawCodewords = Math.floor(getNumRawDataModules(version) / 8);
+    const numShortBlocks = numBlocks - rawCodewords % numBlocks;
+    const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+    const divisor = reedSolomonDivisor(blockEccLength);
+
+    const blocks: number[][] = [];
+    for (let i = 0, offset = 0; i < numBlocks; i++) {
+        const block = data.slice(offset, offset + shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1));
+        offset += block.length;
+        const ecc = reedSolomonRemainder(block, divisor);
+        // Short blocks are padded so every block can be read column by column.
+        if (i < numShortBlocks) block.push(0);
+        blocks.push(block.concat(ecc));
+    }
+
+    const result: number[] = [];
+    for (let i = 0; i < blocks[0].length; i++) {
+        blocks.forEach((block, j) => {
+            if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) result.push(block[i]);
+        });
+    }
+    return result;
+};
+
+// Packs the text in byte mode, then terminates and pads it to the version's capacity.
+const encodeData = (bytes: Uint8Array, version: number): number[] => {
+    const bits: boolean[] = [];
+    const append = (value: number, length: number) => {
+        for (let i = length - 1; i >= 0; i--) bits.push(getBit(value, i));
+    };
+    append(0b0100, 4);
+    append(bytes.length, 8);
+    bytes.forEach(byte => append(byte, 8));
+
+    const capacityBits = getNumDataCodewords(version) * 8;
+    append(0, Math.min(4, capacityBits - bits.length));
+    append(0, (8 - bits.length % 8) % 8);
+    for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) append(pad, 8);
+
+    const codewords: number[] = [];
+    for (let i = 0; i < bits.length; i += 8) {
+        codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | (bit ? 1 : 0), 0));
+    }
+    return codewords;
+};
+
+class QrSymbol {
+    readonly size: number;
+    readonly modules: boolean[][];
+    private readonly isFunction: boolean[][];
+
+    constructor(readonly version: number) {
+        this.size = version * 4 + 17;
+        this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+        this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+        this.drawFunctionPatterns();
+    }
+
+    private setFunction(x: number, y: number, dark: boolean): void {
+        this.modules[y][x] = dark;
+        this.isFunction[y][x] = true;
+    }
+
+    private drawFunctionPatterns(): void {
+        for (let i = 0; i < this.size; i++) {
+            this.setFunction(6, i, i % 2 === 0);
+            this.setFunction(i, 6, i % 2 === 0);
+        }
+        this.drawFinderPattern(3, 3);
+        this.drawFinderPattern(this.size - 4, 3);
+        this.drawFinderPattern(3, this.size - 4);
+        if (this.version >= 2) this.drawAlignmentPattern(this.size - 7, this.size - 7);
+        // Reserves the format areas; the real bits are drawn once the mask is chosen.
+        this.drawFormatBits(0);
+    }
+
+    private drawFinderPattern(x: number, y: number): void {
+        for (let dy = -4; dy <= 4; dy++) {
+            for (let dx = -4; dx <= 4; dx++) {
+                const distance = Math.max(Math.abs(dx), Math.abs(dy));
+                const xx = x + dx, yy = y + dy;
+                if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+                    this.setFunction(xx, yy, distance !== 2 && distance !== 4);
+                }
+            }
+        }
+    }
+
+    private drawAlignmentPattern(x: number, y: number): void {
+        for (let dy = -2; dy <= 2; dy++) {
+            for (let dx = -2; dx <= 2; dx++) {
+                this.setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+            }
+        }
+    }
+
+    drawFormatBits(mask: number): void {
+        const data = (ECC_LEVEL_M << 3) | mask;
+        let remainder = data;
+        for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+        const bits = ((data << 10) | remainder) ^ 0x5412;
+
+        // The copy around the top left finder pattern.
+        for (let i = 0; i <= 5; i++) this.setFunction(8, i, getBit(bits, i));
+        this.setFunction(8, 7, getBit(bits, 6));
+        this.setFunction(8, 8, getBit(bits, 7));
+        this.setFunction(7, 8, getBit(bits, 8));
+        for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, getBit(bits, i));
+
+        // The copy split between the other two finder patterns.
+        for (let i = 0; i < 8; i++) this.setFunction(this.size - 1 - i, 8, getBit(bits, i));
+        for (let i = 8; i < 15; i++) this.setFunction(8, this.size - 15 + i, getBit(bits, i));
+        this.setFunction(8, this.size - 8, true);
+    }
+
+    // Places the codewords in the zigzag order, two columns at a time from the bottom right.
+    drawCodewords(codewords: number[]): void {
+        let i = 0;
+        for (let right = this.size - 1; right >= 1; right -= 2) {
+            if (right === 6) right = 5;
+            for (let vertical = 0; vertical < this.size; vertical++) {
+                for (let j = 0; j < 2; j++) {
+                    const x = right - j;
+                    const upward = ((right + 1) & 2) === 0;
+                    const y = upward ? this.size - 1 - vertical : vertical;
+                    if (!this.isFunction[y][x] && i < codewords.length * 8) {
+                        this.modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7));
+                        i++;
+                    }
+                }
+            }
+        }
+    }
+
+    // Masking twice with the same pattern undoes it.
+    applyMask(mask: number): void {
+        for (let y = 0; y < this.size; y++) {
+            for (let x = 0; x < this.size; x++) {
+                if (!this.isFunction[y][x] && MASKS[mask](x, y)) this.modules[y][x] = !this.modules[y][x];
+            }
+        }
+    }
+
+    // Scores how hard the symbol is to scan; the mask with the lowest score is used.
+    getPenaltyScore(): number {
+        const { size, modules } = this;
+        let score = 0;
+        const lines: boolean[][] = [
+            ...modules,
+            ...modules.map((_, x) => modules.map(row => row[x])),
+        ];
+        const finderLike = [true, false, true, true, true, false, true];
+
+        for (const line of lines) {
+            // Runs of five or more modules of the same colour.
+            let runLength = 1;
+            for (let i = 1; i <= size; i++) {
+                if (i < size && line[i] === line[i - 1]) {
+                    runLength++;
+                } else {
+                    if (runLength >= 5) score += runLength - 2;
+                    runLength = 1;
+                }
+            }
+            // Patterns that look like a finder, with four light modules on either side.
+            for (let i = 0; i + finderLike.length <= size; i++) {
+                if (!finderLike.every((dark, k) => line[i + k] === dark)) continue;
+                const lightBefore = line.slice(Math.max(0, i - 4), i).every(dark => !dark);
+                const lightAfter = line.slice(i + 7, i + 11).every(dark => !dark);
+                if ((i >= 4 && lightBefore) || (i + 11 <= size && lightAfter)) score += 40;
+            }
+        }
+
+        // Blocks of 2×2 modules of the same colour.
+        for (let y = 0; y < size - 1; y++) {
+            for (let x = 0; x < size - 1; x++) {
+                const color = modules[y][x];
+                if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) score += 3;
+            }
+        }
+
+        // How far the share of dark modules is from half.
+        const total = size * size;
+        const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+        score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+        return score;
+    }
+}
+
+/**
+ * Encodes text as a QR code.
+ * @returns The modules by row, `true` for dark, without the quiet zone.
+ */
+export const encodeQrCode = (text: string): boolean[][] => {
+    const bytes = new TextEncoder().encode(text);
+    let version = 1;
+    while (version <= MAX_VERSION && 12 + bytes.length * 8 > getNumDataCodewords(version) * 8) version++;
+    if (version > MAX_VERSION) {
+        throw new Error(`"${text.slice(0, 20)}…" is too long for a ticket QR code (${bytes.length} bytes).`);
+    }
+
+    const symbol = new QrSymbol(version);
+    symbol.drawCodewords(addErrorCorrection(encodeData(bytes, version), version));
+
+    let bestMask = 0;
+    let bestScore = Infinity;
+    for (let mask = 0; mask < MASKS.length; mask++) {
+        symbol.applyMask(mask);
+        symbol.drawFormatBits(mask);
+        const score = symbol.getPenaltyScore();
+        if (score < bestScore) {
+            bestMask = mask;
+            bestScore = score;
+        }
+        symbol.applyMask(mask);
+    }
+    symbol.applyMask(bestMask);
+    symbol.drawFormatBits(bestMask);
+    return symbol.modules;
+};
+
+/**
+ * Draws a QR code as an SVG document, with the four-module quiet zone scanners expect.
+ */
+export const renderQrCodeSvg = (text: string, moduleSize = 8): string => {
+    const modules = encodeQrCode(text);
+    const border = 4;
+    const size = modules.length + border * 2;
+    const path = modules
+        .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + border},${y + border}h1v1h-1z` : '')))
+        .join('');
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${size * moduleSize}" height="${size * moduleSize}" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges">
+  <rect width="${size}" height="${size}" fill="#FFFFFF"/>
+  <path d="${path}" fill="#000000"/>
+</svg>`;
+};
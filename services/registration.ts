@@ -0,0 +1,122 @@
+import { Attendee, EventDates, RegistrationPage, RegistrationStatus, TicketType, UserProfile } from '../types';
+import { formatCurrency } from './budget';
+
+/**
+ * Pure helpers for attendee registration: the public form's link, ticket types and their
+ * capacity, ticket codes, and the numbers agents plan logistics with.
+ */
+
+const REGISTRATION_PATH = '/register/';
+// Ticket codes avoid characters that are easily confused when read out, e.g. 0 and O.
+const TICKET_CODE_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+const TICKET_CODE_LENGTH = 8;
+// Encoded in front of the code in ticket QR codes, so scans can be told apart from other codes.
+const TICKET_PAYLOAD_PREFIX = 'FESTFLOW-';
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+const MAX_NAME_LENGTH = 200;
+
+export interface TicketTypeSummary {
+    ticketType: TicketType;
+    registered: number;
+    remaining: number;
+}
+
+export interface RegistrationSummary {
+    registered: number;
+    capacity: number;
+    byTicketType: TicketTypeSummary[];
+}
+
+export const getRegistrationUrl = (sessionId: string): string =>
+    `${window.location.origin}${REGISTRATION_PATH}${encodeURIComponent(sessionId)}`;
+
+/**
+ * Reads the plan a public registration link points to.
+ * @returns The session ID, or null when the path is not a registration link.
+ */
+export const parseRegistrationPath = (pathname: string): string | null => {
+    if (!pathname.startsWith(REGISTRATION_PATH)) return null;
+    const sessionId = decodeURIComponent(pathname.slice(REGISTRATION_PATH.length).replace(/\/+$/, ''));
+    return sessionId && !sessionId.includes('/') ? sessionId : null;
+};
+
+export const createTicketType = (name = '', capacity = 100): TicketType => ({
+    id: `ticket-${Date.now()}`,
+    name,
+    price: 0,
+    capacity,
+});
+
+/**
+ * The form a plan starts with: closed, with a single free ticket type and the event's
+ * details filled in from the plan.
+ */
+export const createRegistrationPage = (projectName: string | null, eventDates: EventDates | null, userProfile: UserProfile | null): RegistrationPage => ({
+    eventName: projectName ?? '',
+    description: '',
+    venue: [userProfile?.institution, userProfile?.city].filter(Boolean).join(', '),
+    eventDates,
+    isOpen: false,
+    ticketTypes: [createTicketType('General admission')],
+});
+
+export const createTicketCode = (): string => {
+    const values = crypto.getRandomValues(new Uint32Array(TICKET_CODE_LENGTH));
+    return Array.from(values, value => TICKET_CODE_ALPHABET[value % TICKET_CODE_ALPHABET.length]).join('');
+};
+
+export const getTicketPayload = (attendee: Pick<Attendee, 'ticketCode'>): string => `${TICKET_PAYLOAD_PREFIX}${attendee.ticketCode}`;
+
+export const formatTicketPrice = (ticketType: TicketType): string =>
+    ticketType.price > 0 ? formatCurrency(ticketType.price) : 'Free';
+
+export const summarizeRegistrations = ({ page, counts }: RegistrationStatus): RegistrationSummary => {
+    const byTicketType = page.ticketTypes.map(ticketType => {
+        const registered = counts[ticketType.id] ?? 0;
+        return { ticketType, registered, remaining: Math.max(0, ticketType.capacity - registered) };
+    });
+    return {
+        registered: byTicketType.reduce((sum, t) => sum + t.registered, 0),
+        capacity: page.ticketTypes.reduce((sum, t) => sum + t.capacity, 0),
+        byTicketType,
+    };
+};
+
+/**
+ * Checks a registration before it is sent. The security rules enforce the same limits.
+ * @returns What is wrong, or null when the registration can be made.
+ */
+export const validateRegistration = (status: RegistrationStatus, name: string, email: string, ticketTypeId: string): string | null => {
+    if (!status.page.isOpen) return "Registration is closed.";
+    if (!name.trim()) return "Please enter your name.";
+    if (name.trim().length > MAX_NAME_LENGTH) return "Your name is too long.";
+    if (!EMAIL_PATTERN.test(email.trim())) return "Please enter a valid email address.";
+    const ticket = summarizeRegistrations(status).byTicketType.find(t => t.ticketType.id === ticketTypeId);
+    if (!ticket) return "Please choose a ticket.";
+    if (ticket.remaining === 0) return `${ticket.ticketType.name} is sold out.`;
+    return null;
+};
+
+/**
+ * Finds attendees by name, email or ticket code. A scanned ticket, which a scanner types
+ * in with its prefix, matches its code.
+ */
+export const searchAttendees = (attendees: Attendee[], search: string): Attendee[] => {
+    const term = search.trim().toLowerCase();
+    if (!term) return attendees;
+    const code = term.toUpperCase().startsWith(TICKET_PAYLOAD_PREFIX) ? term.slice(TICKET_PAYLOAD_PREFIX.length) : term;
+    return attendees.filter(attendee =>
+        attendee.ticketCode.toLowerCase() === code
+        || attendee.name.toLowerCase().includes(term)
+        || attendee.email.includes(term));
+};
+
+/**
+ * Describes the registrations so far for agents, so that logistics such as catering
+ * and seating are planned for the people actually coming.
+ */
+export const describeRegistrations = (status: RegistrationStatus): string => {
+    const summary = summarizeRegistrations(status);
+    const ticketTypes = summary.byTicketType.map(t => `${t.ticketType.name}: ${t.registered} of ${t.ticketType.capacity}`).join('; ');
+    return `Registration is ${status.page.isOpen ? 'open' : 'closed'}: ${summary.registered} attendees have registered so far, out of ${summary.capacity} places (${ticketTypes}). Base quantities such as catering, seating, venue capacity and printed materials on these actual numbers.`;
+};
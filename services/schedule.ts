@@ -0,0 +1,299 @@
+import { EventDates, ProjectCalendar, Task, TaskStatus } from '../types';
+import { addWorkingDays, getPreparationDeadline, getWorkingDayOffset, nextWorkingDay, previousWorkingDay } from './calendar';
+
+/**
+ * Schedules a plan's tasks against the project calendar, as shown on the timeline and
+ * used wherever a task's planned dates matter: the budget, the event deadline,
+ * exports and calendar sync.
+ */
+
+const addDays = (date: Date, days: number): Date => {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result;
+};
+
+export interface GanttTask extends Task {
+    // Early start and finish: as soon as the prerequisites allow.
+    ganttStartDate: Date;
+    ganttEndDate: Date;
+    // Late start and finish: as late as possible without missing the deadline (the day
+    // before the event), or without delaying the end of the project if there is none.
+    lateStartDate: Date;
+    lateEndDate: Date;
+    // Working days the task can slip. Zero means critical; negative means it is already late.
+    totalFloat: number;
+    isCritical: boolean;
+    level: number;
+}
+
+type ScheduledTask = Omit<GanttTask, 'lateStartDate' | 'lateEndDate' | 'totalFloat' | 'isCritical'>;
+
+/**
+ * The backward pass of the critical path method. Starting from the deadline (or
+ * the project's finish when there is none), every leaf task gets the latest dates it can run without delaying any
+ * of its dependents; the difference to its early start is its total float.
+ * Parent tasks are containers, so they take the loosest dates and the smallest
+ * float of their sub-tasks, and a dependency on a parent applies to all of its sub-tasks.
+ */
+const calculateLateDates = (scheduledTasks: ScheduledTask[], calendar: ProjectCalendar, deadline: Date | null): GanttTask[] => {
+    const taskMap = new Map(scheduledTasks.map(t => [t.id, t]));
+    const childrenMap = new Map<string, ScheduledTask[]>();
+    scheduledTasks.forEach(task => {
+        if (task.parentId && taskMap.has(task.parentId)) {
+            childrenMap.set(task.parentId, [...(childrenMap.get(task.parentId) || []), task]);
+        }
+    });
+
+    const getLeafIds = (taskId: string, visited: Set<string> = new Set()): string[] => {
+        if (visited.has(taskId)) return [];
+        visited.add(taskId);
+        const children = childrenMap.get(taskId);
+        return children ? children.flatMap(child => getLeafIds(child.id, visited)) : [taskId];
+    };
+
+    const leaves = scheduledTasks.filter(task => !childrenMap.has(task.id));
+    const successors = new Map<string, string[]>(leaves.map(task => [task.id, []]));
+    leaves.forEach(task => {
+        (task.dependsOn || []).filter(depId => taskMap.has(depId)).forEach(depId => {
+            getLeafIds(depId).forEach(leafId => {
+                const leafSuccessors = successors.get(leafId);
+                if (leafSuccessors && leafId !== task.id && !leafSuccessors.includes(task.id)) leafSuccessors.push(task.id);
+            });
+        });
+    });
+
+    const projectEndDate = deadline
+        ?? (leaves.length > 0 ? new Date(Math.max(...leaves.map(t => t.ganttEndDate.getTime()))) : new Date());
+    const lateDates = new Map<string, { lateStartDate: Date; lateEndDate: Date; totalFloat: number }>();
+
+    const scheduleLate = (task: ScheduledTask) => {
+        const successorLateStarts = successors.get(task.id)!
+            .map(id => lateDates.get(id)?.lateStartDate)
+            .filter((d): d is Date => !!d);
+        const lateEndDate = successorLateStarts.length > 0
+            ? previousWorkingDay(addDays(new Date(Math.min(...successorLateStarts.map(d => d.getTime()))), -1), calendar)
+            : previousWorkingDay(projectEndDate, calendar);
+        const duration = Math.max(1, task.estimatedDuration || 1);
+        const lateStartDate = addWorkingDays(lateEndDate, -(duration - 1), calendar);
+        lateDates.set(task.id, { lateStartDate, lateEndDate, totalFloat: getWorkingDayOffset(task.ganttStartDate, lateStartDate, calendar) });
+    };
+
+    // Visit tasks after all of their dependents (a reverse topological order).
+    const remainingSuccessors = new Map(leaves.map(task => [task.id, successors.get(task.id)!.length]));
+    const predecessors = new Map<string, string[]>(leaves.map(task => [task.id, []]));
+    successors.forEach((successorIds, taskId) => successorIds.forEach(id => predecessors.get(id)!.push(taskId)));
+    const queue = leaves.filter(task => remainingSuccessors.get(task.id) === 0).map(task => task.id);
+    while (queue.length > 0) {
+        const taskId = queue.shift()!;
+        scheduleLate(taskMap.get(taskId)!);
+        predecessors.get(taskId)!.forEach(predecessorId => {
+            const remaining = remainingSuccessors.get(predecessorId)! - 1;
+            remainingSuccessors.set(predecessorId, remaining);
+            if (remaining === 0) queue.push(predecessorId);
+        });
+    }
+    // Tasks caught in a dependency cycle are scheduled against whatever dependents are known.
+    leaves.filter(task => !lateDates.has(task.id)).forEach(scheduleLate);
+
+    const rollUp = (taskId: string, visited: Set<string> = new Set()): { lateStartDate: Date; lateEndDate: Date; totalFloat: number } | undefined => {
+        if (lateDates.has(taskId)) return lateDates.get(taskId);
+        if (visited.has(taskId)) return undefined;
+        visited.add(taskId);
+        const childDates = (childrenMap.get(taskId) || [])
+            .map(child => rollUp(child.id, visited))
+            .filter((d): d is { lateStartDate: Date; lateEndDate: Date; totalFloat: number } => !!d);
+        if (childDates.length === 0) return undefined;
+        const dates = {
+            lateStartDate: new Date(Math.min(...childDates.map(d => d.lateStartDate.getTime()))),
+            lateEndDate: new Date(Math.max(...childDates.map(d => d.lateEndDate.getTime()))),
+            totalFloat: Math.min(...childDates.map(d => d.totalFloat)),
+        };
+        lateDates.set(taskId, dates);
+        return dates;
+    };
+
+    return scheduledTasks.map(task => {
+        const dates = rollUp(task.id) ?? { lateStartDate: task.ganttStartDate, lateEndDate: task.ganttEndDate, totalFloat: 0 };
+        return { ...task, ...dates, isCritical: dates.totalFloat <= 0 };
+    });
+};
+
+/**
+ * The day the timeline starts: the earliest pinned start date, or today.
+ */
+export const getProjectStartDate = (tasks: Task[]): Date => {
+    const allStartDates = tasks.map(t => new Date(t.startDate || new Date()));
+    const earliestDate = allStartDates.length > 0 ? new Date(Math.min(...allStartDates.map(d => d.getTime()))) : new Date();
+    earliestDate.setHours(0, 0, 0, 0);
+    return earliestDate;
+};
+
+/**
+ * Schedules every task against the project calendar. Tasks start on the first
+ * working day after their prerequisites end (or on their pinned start date, moved
+ * past any non-working day) and last `estimatedDuration` working days. A backward
+ * pass from the event's preparation deadline then adds late dates, total float
+ * and the critical path.
+ */
+export const calculateTaskDates = (tasks: Task[], projectStartDate: Date, calendar: ProjectCalendar, eventDates: EventDates | null = null): GanttTask[] => {
+    const taskMap = new Map<string, Task>(tasks.map(t => [t.id, t]));
+    const ganttTaskMap = new Map<string, ScheduledTask>();
+
+    const childrenMap = new Map<string, string[]>();
+    tasks.forEach(task => {
+        childrenMap.set(task.id, []);
+    });
+    tasks.forEach(task => {
+        (task.dependsOn || []).forEach(depId => {
+            if (childrenMap.has(depId)) {
+                childrenMap.get(depId)!.push(task.id);
+            }
+        });
+    });
+
+    const inDegree = new Map<string, number>();
+    tasks.forEach(task => {
+        const validDependencies = (task.dependsOn || []).filter(depId => taskMap.has(depId));
+        inDegree.set(task.id, validDependencies.length);
+    });
+
+    const queue: string[] = [];
+    tasks.forEach(task => {
+        if (task.startDate || inDegree.get(task.id) === 0) {
+            queue.push(task.id);
+        }
+    });
+
+    let processedCount = 0;
+    while (queue.length > 0) {
+        const taskId = queue.shift()!;
+
+        if (ganttTaskMap.has(taskId)) continue;
+
+        const task = taskMap.get(taskId)!;
+
+        let ganttStartDate: Date;
+        if (task.startDate) {
+            ganttStartDate = new Date(task.startDate);
+        } else if (task.dependsOn && task.dependsOn.length > 0) {
+            const parentEndDates = task.dependsOn
+                .map(depId => ganttTaskMap.get(depId)?.ganttEndDate)
+                .filter((d): d is Date => !!d);
+
+            if (parentEndDates.length > 0) {
+                const maxParentEndDate = new Date(Math.max(...parentEndDates.map(d => d.getTime())));
+                ganttStartDate = addDays(maxParentEndDate, 1);
+            } else {
+                ganttStartDate = projectStartDate;
+            }
+        } else {
+            ganttStartDate = projectStartDate;
+        }
+        ganttStartDate = nextWorkingDay(ganttStartDate, calendar);
+
+        const duration = Math.max(1, task.estimatedDuration || 1);
+        const ganttEndDate = addWorkingDays(ganttStartDate, duration - 1, calendar);
+
+        ganttTaskMap.set(taskId, { ...task, ganttStartDate, ganttEndDate, level: 0 });
+        processedCount++;
+
+        const children = childrenMap.get(taskId) || [];
+        for (const childId of children) {
+            const currentInDegree = inDegree.get(childId)!;
+            inDegree.set(childId, currentInDegree - 1);
+
+            if (inDegree.get(childId) === 0 && !taskMap.get(childId)?.startDate) {
+                queue.push(childId);
+            }
+        }
+    }
+
+    if (processedCount < tasks.length) {
+        console.warn("Circular dependency detected. Breaking cycles to render.");
+        // Identify remaining tasks (those involved in cycles)
+        const remainingTasks = tasks.filter(t => !ganttTaskMap.has(t.id));
+
+        remainingTasks.forEach(task => {
+            // For each remaining task, try to calculate a date ignoring dependencies that are not yet processed
+            // This effectively breaks the cycle by treating the cyclic dependency as non-existent for date calculation
+            let ganttStartDate = projectStartDate;
+
+            // Try to find ANY valid parent dependency to anchor to
+            if (task.dependsOn) {
+                const validDepEndDates = task.dependsOn
+                    .map(id => ganttTaskMap.get(id)?.ganttEndDate)
+                    .filter((d): d is Date => !!d);
+
+                if (validDepEndDates.length > 0) {
+                    const maxEndDate = new Date(Math.max(...validDepEndDates.map(d => d.getTime())));
+                    ganttStartDate = addDays(maxEndDate, 1);
+                }
+            }
+            ganttStartDate = nextWorkingDay(ganttStartDate, calendar);
+
+            const duration = Math.max(1, task.estimatedDuration || 1);
+            const ganttEndDate = addWorkingDays(ganttStartDate, duration - 1, calendar);
+
+            ganttTaskMap.set(task.id, { ...task, ganttStartDate, ganttEndDate, level: 0 });
+        });
+    }
+
+    // Second pass to adjust parent task dates to be containers for their children
+    const parentChildMap = new Map<string, string[]>();
+    tasks.forEach(task => {
+        if (task.parentId) {
+            if (!parentChildMap.has(task.parentId)) {
+                parentChildMap.set(task.parentId, []);
+            }
+            parentChildMap.get(task.parentId)!.push(task.id);
+        }
+    });
+
+    parentChildMap.forEach((childrenIds, parentId) => {
+        const parentGanttTask = ganttTaskMap.get(parentId);
+        if (parentGanttTask) {
+            const childrenGanttTasks = childrenIds.map(id => ganttTaskMap.get(id)).filter((t): t is ScheduledTask => !!t);
+
+            if (childrenGanttTasks.length > 0) {
+                const childStartTimes = childrenGanttTasks.map(c => c.ganttStartDate.getTime());
+                const childEndTimes = childrenGanttTasks.map(c => c.ganttEndDate.getTime());
+
+                parentGanttTask.ganttStartDate = new Date(Math.min(...childStartTimes));
+                parentGanttTask.ganttEndDate = new Date(Math.max(...childEndTimes));
+
+                // Calculate weighted progress for parent task
+                const totalProgress = childrenGanttTasks.reduce((sum, child) => {
+                    const childProgress = child.status === TaskStatus.COMPLETED ? 100 : (child.progress || 0);
+                    return sum + childProgress;
+                }, 0);
+
+                // Assign calculated progress to parent
+                parentGanttTask.progress = Math.round(totalProgress / childrenGanttTasks.length);
+            }
+        }
+    });
+
+
+    const finalGanttTasks = tasks.map(task => ganttTaskMap.get(task.id)!).filter(Boolean);
+
+    // Calculate indentation level
+    const levelMap = new Map<string, number>();
+    const calculateLevel = (taskId: string): number => {
+        if (levelMap.has(taskId)) return levelMap.get(taskId)!;
+        const task = taskMap.get(taskId);
+        if (!task || !task.parentId || !taskMap.has(task.parentId)) {
+            levelMap.set(taskId, 0);
+            return 0;
+        }
+        const level = calculateLevel(task.parentId) + 1;
+        levelMap.set(taskId, level);
+        return level;
+    };
+
+    finalGanttTasks.forEach(gt => {
+        gt.level = calculateLevel(gt.id);
+    });
+
+    return calculateLateDates(finalGanttTasks, calendar, eventDates ? getPreparationDeadline(eventDates) : null);
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { AgentName, AppState, Task, TaskStatus } from '../types';
+import { createInitialAppState } from './orchestrator';
+import { createEmptyChanges, diffAppState, hasChanges, mergeChanges, mergeRemoteState } from './sessionSync';
+import { createTask } from './testUtils';
+
+const withTasks = (state: AppState, tasks: Task[]): AppState => ({ ...state, tasks });
+
+const base = withTasks(createInitialAppState(), [createTask('a'), createTask('b')]);
+
+describe('diffAppState', () => {
+    it('finds nothing in an unchanged state', () => {
+        expect(hasChanges(diffAppState(base, base))).toBe(false);
+    });
+
+    it('lists the changed fields of modified tasks and whole added or removed ones', () => {
+        const next = withTasks(base, [{ ...base.tasks[0], title: 'Venue', startDate: '2026-03-02' }, createTask('c')]);
+        const changes = diffAppState(base, next);
+        expect(changes.tasks).toEqual(new Map([['a', new Set(['title', 'startDate'])], ['c', null], ['b', null]]));
+        expect(changes.taskOrder).toBe(true);
+    });
+
+    it('only reports newly appended log entries', () => {
+        const log = { agent: AgentName.MASTER_PLANNER, message: 'Hi', timestamp: new Date() };
+        const previous = { ...base, logs: [log] };
+        const next = { ...previous, logs: [log, { ...log, message: 'Again' }] };
+        expect(diffAppState(previous, next).logs.map(l => l.message)).toEqual(['Again']);
+    });
+});
+
+describe('mergeChanges', () => {
+    it('combines the changed fields of the same task', () => {
+        const first = { ...createEmptyChanges(), tasks: new Map([['a', new Set(['title'])]]) };
+        const second = { ...createEmptyChanges(), tasks: new Map([['a', new Set(['status'])], ['b', null]]) };
+        expect(mergeChanges(first, second).tasks).toEqual(new Map([['a', new Set(['title', 'status'])], ['b', null]]));
+    });
+
+    it('treats an item that was added or removed as changed as a whole', () => {
+        const first = { ...createEmptyChanges(), tasks: new Map([['a', null]]) };
+        const second = { ...createEmptyChanges(), tasks: new Map([['a', new Set(['title'])]]) };
+        expect(mergeChanges(first, second).tasks.get('a')).toBeNull();
+    });
+});
+
+describe('mergeRemoteState', () => {
+    it('keeps remote edits to other fields of a task edited locally', () => {
+        const local = withTasks(base, [{ ...base.tasks[0], title: 'Venue' }, base.tasks[1]]);
+        const remote = withTasks(base, [{ ...base.tasks[0], status: TaskStatus.IN_PROGRESS }, base.tasks[1]]);
+        const merged = mergeRemoteState(remote, local, diffAppState(base, local));
+        expect(merged.tasks[0]).toMatchObject({ title: 'Venue', status: TaskStatus.IN_PROGRESS });
+    });
+
+    it('removes fields that were cleared locally', () => {
+        const previous = withTasks(base, [{ ...base.tasks[0], startDate: '2026-03-02' }, base.tasks[1]]);
+        const local = withTasks(base, [{ ...previous.tasks[0], startDate: undefined }, base.tasks[1]]);
+        const merged = mergeRemoteState(previous, local, diffAppState(previous, local));
+        expect('startDate' in merged.tasks[0]).toBe(false);
+    });
+
+    it('keeps local additions and removals, and tasks removed remotely stay removed', () => {
+        const local = withTasks(base, [{ ...base.tasks[0], title: 'Venue' }, createTask('c')]);
+        const remote = withTasks(base, [base.tasks[1]]);
+        const merged = mergeRemoteState(remote, local, diffAppState(base, local));
+        expect(merged.tasks.map(t => t.id)).toEqual(['c']);
+    });
+
+    it('takes the remote state as it is without pending changes', () => {
+        const remote = withTasks(base, [createTask('z')]);
+        expect(mergeRemoteState(remote, base, createEmptyChanges())).toBe(remote);
+    });
+});
@@ -0,0 +1,215 @@
+import { ActivityLog, AppState, Approval, Task } from '../types';
+
+/**
+ * Pure helpers for keeping a shared session in sync. Instead of overwriting the
+ * whole session on every change, the app records *what* changed (which tasks,
+ * which approvals, which new log entries...) and writes only those fields. When
+ * a snapshot arrives from another organizer, changes that have not been written
+ * yet are laid back on top of it so that neither side clobbers the other.
+ */
+
+/**
+ * The tasks or approvals that changed, by id. A modified item lists its changed
+ * top-level fields, so that edits to different fields of the same item by two
+ * organizers do not clobber each other. `null` means the whole item: it was added
+ * or removed.
+ */
+export type ChangedFields = Map<string, Set<string> | null>;
+
+export interface StateChanges {
+    tasks: ChangedFields;
+    approvals: ChangedFields;
+    // Whether the order of the task list changed (e.g. after a timeline save).
+    taskOrder: boolean;
+    // Log entries appended since the last write. Logs are append-only.
+    logs: ActivityLog[];
+    agentStatus: boolean;
+    agentWork: boolean;
+    isStarted: boolean;
+    calendar: boolean;
+    eventDates: boolean;
+    team: boolean;
+    sponsors: boolean;
+    agents: boolean;
+}
+
+export const createEmptyChanges = (): StateChanges => ({
+    tasks: new Map(),
+    approvals: new Map(),
+    taskOrder: false,
+    logs: [],
+    agentStatus: false,
+    agentWork: false,
+    isStarted: false,
+    calendar: false,
+    eventDates: false,
+    team: false,
+    sponsors: false,
+    agents: false,
+});
+
+export const hasChanges = (changes: StateChanges): boolean =>
+    changes.tasks.size > 0 ||
+    changes.approvals.size > 0 ||
+    changes.taskOrder ||
+    changes.logs.length > 0 ||
+    changes.agentStatus ||
+    changes.agentWork ||
+    changes.isStarted ||
+    changes.calendar ||
+    changes.eventDates ||
+    changes.team ||
+    changes.sponsors ||
+    changes.agents;
+
+const diffFields = <T extends object>(previous: T, next: T): Set<string> => {
+    const a = previous as Record<string, unknown>;
+    const b = next as Record<string, unknown>;
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return new Set([...keys].filter(key => a[key] !== b[key]));
+};
+
+const diffById = <T extends { id: string }>(previous: T[], next: T[]): ChangedFields => {
+    const changed: ChangedFields = new Map();
+    const previousMap = new Map(previous.map(item => [item.id, item]));
+    const nextIds = new Set<string>();
+
+    next.forEach(item => {
+        nextIds.add(item.id);
+        const previousItem = previousMap.get(item.id);
+        // The orchestrator never mutates in place, so reference equality is enough.
+        if (!previousItem) changed.set(item.id, null);
+        else if (previousItem !== item) {
+            const fields = diffFields(previousItem, item);
+            if (fields.size > 0) changed.set(item.id, fields);
+        }
+    });
+    previous.forEach(item => {
+        if (!nextIds.has(item.id)) changed.set(item.id, null);
+    });
+    return changed;
+};
+
+const mergeChangedFields = (a: ChangedFields, b: ChangedFields): ChangedFields => {
+    const merged: ChangedFields = new Map(a);
+    b.forEach((fields, id) => {
+        const existing = merged.get(id);
+        if (existing === undefined) merged.set(id, fields);
+        else merged.set(id, existing && fields ? new Set([...existing, ...fields]) : null);
+    });
+    return merged;
+};
+
+const haveSameOrder = (previous: Task[], next: Task[]): boolean =>
+    previous.length === next.length && previous.every((task, index) => task.id === next[index].id);
+
+const shallowEqualRecord = (a: Record<string, unknown>, b: Record<string, unknown>): boolean => {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every(key => a[key] === b[key]);
+};
+
+/**
+ * Computes which parts of the state changed between two versions.
+ * @param previous The state before an event was applied.
+ * @param next The state after the event.
+ * @returns The changed fields, suitable for a field-level write.
+ */
+export const diffAppState = (previous: AppState, next: AppState): StateChanges => {
+    const logs = next.logs.length >= previous.logs.length && next.logs.slice(0, previous.logs.length).every((log, i) => log === previous.logs[i])
+        ? next.logs.slice(previous.logs.length)
+        : next.logs;
+
+    return {
+        tasks: previous.tasks === next.tasks ? new Map() : diffById(previous.tasks, next.tasks),
+        approvals: previous.approvals === next.approvals ? new Map() : diffById<Approval>(previous.approvals, next.approvals),
+        taskOrder: !haveSameOrder(previous.tasks, next.tasks),
+        logs,
+        agentStatus: !shallowEqualRecord(previous.agentStatus, next.agentStatus),
+        agentWork: !shallowEqualRecord(previous.agentWork, next.agentWork),
+        isStarted: previous.isStarted !== next.isStarted,
+        calendar: previous.calendar !== next.calendar,
+        eventDates: previous.eventDates !== next.eventDates,
+        team: previous.team !== next.team,
+        sponsors: previous.sponsors !== next.sponsors,
+        agents: previous.agents !== next.agents,
+    };
+};
+
+/**
+ * Combines two sets of changes, e.g. to batch several events into one write.
+ */
+export const mergeChanges = (a: StateChanges, b: StateChanges): StateChanges => ({
+    tasks: mergeChangedFields(a.tasks, b.tasks),
+    approvals: mergeChangedFields(a.approvals, b.approvals),
+    taskOrder: a.taskOrder || b.taskOrder,
+    logs: [...a.logs, ...b.logs],
+    agentStatus: a.agentStatus || b.agentStatus,
+    agentWork: a.agentWork || b.agentWork,
+    isStarted: a.isStarted || b.isStarted,
+    calendar: a.calendar || b.calendar,
+    eventDates: a.eventDates || b.eventDates,
+    team: a.team || b.team,
+    sponsors: a.sponsors || b.sponsors,
+    agents: a.agents || b.agents,
+});
+
+/**
+ * Lays the locally changed fields of an item over the remote version of it.
+ */
+const overlayFields = <T extends object>(remote: T, local: T, fields: Set<string>): T => {
+    const merged: Record<string, unknown> = { ...(remote as Record<string, unknown>) };
+    fields.forEach(field => {
+        const value = (local as Record<string, unknown>)[field];
+        if (value === undefined) delete merged[field];
+        else merged[field] = value;
+    });
+    return merged as T;
+};
+
+const overlayById = <T extends { id: string }>(remote: T[], local: T[], changed: ChangedFields, keepLocalOrder: boolean): T[] => {
+    if (changed.size === 0) return remote;
+    const localMap = new Map(local.map(item => [item.id, item]));
+    const remoteIds = new Set(remote.map(item => item.id));
+
+    // Locally changed fields win; locally removed items stay removed.
+    const merged = remote
+        .filter(item => !changed.has(item.id) || localMap.has(item.id))
+        .map(item => {
+            if (!changed.has(item.id)) return item;
+            const fields = changed.get(item.id);
+            return fields ? overlayFields(item, localMap.get(item.id)!, fields) : localMap.get(item.id)!;
+        });
+    // Items modified locally but removed remotely stay removed.
+    const added = local.filter(item => changed.get(item.id) === null && !remoteIds.has(item.id));
+    const result = [...merged, ...added];
+
+    if (!keepLocalOrder) return result;
+    const localOrder = new Map(local.map((item, index) => [item.id, index]));
+    return result.sort((a, b) => (localOrder.get(a.id) ?? Infinity) - (localOrder.get(b.id) ?? Infinity));
+};
+
+/**
+ * Applies a remote snapshot while preserving local changes that have not been
+ * written yet.
+ * @param remote The state received from the server.
+ * @param local The current local state.
+ * @param pending The local changes not yet acknowledged by the server.
+ * @returns The state to display.
+ */
+export const mergeRemoteState = (remote: AppState, local: AppState, pending: StateChanges): AppState => {
+    if (!hasChanges(pending)) return remote;
+
+    return {
+        tasks: overlayById(remote.tasks, local.tasks, pending.tasks, pending.taskOrder),
+        approvals: overlayById(remote.approvals, local.approvals, pending.approvals, false),
+        logs: [...remote.logs, ...pending.logs],
+        agentStatus: pending.agentStatus ? local.agentStatus : remote.agentStatus,
+        agentWork: pending.agentWork ? local.agentWork : remote.agentWork,
+        isStarted: pending.isStarted ? local.isStarted : remote.isStarted,
+        calendar: pending.calendar ? local.calendar : remote.calendar,
+        eventDates: pending.eventDates ? local.eventDates : remote.eventDates,
+        team: pending.team ? local.team : remote.team,
+        sponsors: pending.sponsors ? local.sponsors : remote.sponsors,
+        agents: pending.agents ? local.agents : remote.agents,
+    };
+};
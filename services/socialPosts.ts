@@ -0,0 +1,115 @@
+import { AgentDefinition, ContentVariantStyle, ScheduledPost, SocialChannel, SocialChannelSpec, Task } from '../types';
+import { SOCIAL_CHANNELS } from '../constants';
+
+/**
+ * Pure helpers for social posts: writing one post per channel, checking each against
+ * the channel's limits, and the schedule approved posts are published on.
+ */
+
+export interface ChannelPost {
+    channel: SocialChannel;
+    text: string;
+}
+
+export interface ChannelPostCheck extends ChannelPost {
+    length: number;
+    problems: string[];
+}
+
+const HASHTAG_PATTERN = /(^|\s)#[\p{L}\p{N}_]+/gu;
+
+export const getChannelSpec = (channel: SocialChannel): SocialChannelSpec =>
+    SOCIAL_CHANNELS.find(spec => spec.id === channel) ?? SOCIAL_CHANNELS[0];
+
+/**
+ * The channels a task writes posts for. Only agents that write social posts have any.
+ */
+export const getTaskChannels = (task: Task, agent: AgentDefinition | undefined): SocialChannel[] =>
+    agent?.outputFormat === 'social-post' ? (task.channels ?? SOCIAL_CHANNELS.map(spec => spec.id)) : [];
+
+// Counted in code points, so an emoji is one character. X weighs some characters
+// differently, which this does not try to match exactly.
+export const countCharacters = (text: string): number => [...text.trim()].length;
+
+export const countHashtags = (text: string): number => text.match(HASHTAG_PATTERN)?.length ?? 0;
+
+/**
+ * Checks a post against its channel's limits.
+ * @returns What is wrong with it, empty if it can be published as it is.
+ */
+export const validatePost = (channel: SocialChannel, text: string): string[] => {
+    const spec = getChannelSpec(channel);
+    const problems: string[] = [];
+    const length = countCharacters(text);
+    const hashtags = countHashtags(text);
+    if (length === 0) problems.push(`The ${spec.label} post is empty.`);
+    if (length > spec.maxLength) problems.push(`It is ${length} characters long, over ${spec.label}'s limit of ${spec.maxLength}.`);
+    if (hashtags > spec.maxHashtags) problems.push(`It has ${hashtags} hashtags; ${spec.label} posts should have at most ${spec.maxHashtags}.`);
+    return problems;
+};
+
+/**
+ * The instruction for writing a channel's post. With a `rejected` post, the agent is
+ * asked to rewrite it so that it fits.
+ */
+export const createChannelStyle = (channel: SocialChannel, rejected?: { text: string; problems: string[] }): ContentVariantStyle => {
+    const spec = getChannelSpec(channel);
+    const instruction = [
+        spec.guidance,
+        `It must be at most ${spec.maxLength} characters including hashtags and links, with no more than ${spec.maxHashtags} hashtags.`,
+        'Reply with the text of the post only.',
+        rejected && `Your previous version broke these rules: ${rejected.problems.join(' ')} Rewrite it so that it fits, keeping its message:\n\n${rejected.text}`,
+    ];
+    return { label: spec.label, instruction: instruction.filter(Boolean).join(' '), channel };
+};
+
+/**
+ * Puts the posts for each channel into one document for review, each under a heading
+ * naming its channel.
+ */
+export const combineChannelPosts = (channels: SocialChannel[], contents: string[]): string =>
+    channels.map((channel, index) => `### ${getChannelSpec(channel).label}\n\n${(contents[index] ?? '').trim()}`).join('\n\n---\n\n');
+
+/**
+ * Reads the posts back out of a document put together by `combineChannelPosts`,
+ * e.g. a task's approved content.
+ * @returns The posts in document order; empty if it is not a set of channel posts.
+ */
+export const splitChannelPosts = (content: string): ChannelPost[] =>
+    content.split(/\n\s*---\s*\n/).flatMap(section => {
+        const [heading, ...body] = section.trim().split('\n');
+        const spec = SOCIAL_CHANNELS.find(s => heading.trim() === `### ${s.label}`);
+        return spec ? [{ channel: spec.id, text: body.join('\n').trim() }] : [];
+    });
+
+export const checkChannelPosts = (content: string): ChannelPostCheck[] =>
+    splitChannelPosts(content).map(post => ({ ...post, length: countCharacters(post.text), problems: validatePost(post.channel, post.text) }));
+
+// The scheduled posts of every task whose time has come.
+export const getDuePosts = (tasks: Task[], now: Date): { task: Task; post: ScheduledPost }[] =>
+    tasks.flatMap(task => (task.posts ?? [])
+        .filter(post => post.status === 'scheduled' && new Date(post.publishAt).getTime() <= now.getTime())
+        .map(post => ({ task, post })));
+
+export const formatPublishTime = (iso: string): string =>
+    new Date(iso).toLocaleString(undefined, { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+// Converts between ISO timestamps and the local time a datetime-local input shows.
+export const toDateTimeInputValue = (iso: string): string => {
+    const date = new Date(iso);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export const fromDateTimeInputValue = (value: string): string | null => {
+    const date = new Date(value);
+    return value && !Number.isNaN(date.getTime()) ? date.toISOString() : null;
+};
+
+// Posts are suggested for 10 AM the next day unless an organizer picks a time.
+export const getDefaultPublishTime = (now: Date): string => {
+    const date = new Date(now);
+    date.setDate(date.getDate() + 1);
+    date.setHours(10, 0, 0, 0);
+    return date.toISOString();
+};
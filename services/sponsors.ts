@@ -0,0 +1,112 @@
+import { ContentVariantStyle, Sponsor, SponsorStage, Task, TaskStatus } from '../types';
+import { SPONSOR_STAGES } from '../constants';
+import { formatCurrency } from './budget';
+
+/**
+ * Pure helpers for the sponsor pipeline: the companies the organizers are asking for
+ * sponsorship, where each one stands, and the personalized outreach written to them.
+ */
+
+export interface SponsorSummary {
+    count: Record<SponsorStage, number>;
+    // Asked for from sponsors that have not committed yet.
+    inPipeline: number;
+    // Agreed by committed and paid sponsors.
+    committed: number;
+    paid: number;
+}
+
+export const summarizeSponsors = (sponsors: Sponsor[]): SponsorSummary => {
+    const summary: SponsorSummary = {
+        count: Object.fromEntries(SPONSOR_STAGES.map(stage => [stage, 0])) as Record<SponsorStage, number>,
+        inPipeline: 0,
+        committed: 0,
+        paid: 0,
+    };
+    sponsors.forEach(sponsor => {
+        const amount = sponsor.amount ?? 0;
+        summary.count[sponsor.stage]++;
+        if (sponsor.stage === SponsorStage.COMMITTED || sponsor.stage === SponsorStage.PAID) summary.committed += amount;
+        else summary.inPipeline += amount;
+        if (sponsor.stage === SponsorStage.PAID) summary.paid += amount;
+    });
+    return summary;
+};
+
+// Tier lines look like "### Platinum Tier", "**Gold Sponsor** – ₹50,000" or "Tier 2: Silver".
+const NAMED_TIER_PATTERN = /^[\s#>*\-\d.)]*\**\s*([A-Z][\w&' ]{0,30}?)\s+(?:tier|sponsor(?:ship)?|package|partner)\b/i;
+const NUMBERED_TIER_PATTERN = /^[\s#>*\-\d.)]*\**\s*tier\s*\d*\s*\**\s*[:\-–—]\s*\**\s*([A-Z][\w&' ]{0,30}?)\s*(?:\*|$|[:\-–—(,])/i;
+const GENERIC_WORDS = new Set(['the', 'our', 'a', 'each', 'every', 'all', 'sponsorship', 'sponsor', 'tier', 'package']);
+
+/**
+ * Reads the tier names out of the approved content of the plan's sponsorship tier
+ * task(s), e.g. "Develop Sponsorship Tiers", so sponsors can be put on one of them.
+ * @returns The tier names in the order they appear, without duplicates.
+ */
+export const extractSponsorTiers = (tasks: Task[]): string[] => {
+    const tiers: string[] = [];
+    tasks
+        .filter(task => task.status === TaskStatus.COMPLETED && task.approvedContent && /\btiers?\b/i.test(`${task.title} ${task.description}`))
+        .forEach(task => {
+            task.approvedContent!.split('\n').forEach(line => {
+                const match = line.match(NUMBERED_TIER_PATTERN) ?? line.match(NAMED_TIER_PATTERN);
+                const name = match?.[1].trim();
+                if (!name || GENERIC_WORDS.has(name.toLowerCase())) return;
+                if (!tiers.some(tier => tier.toLowerCase() === name.toLowerCase())) tiers.push(name);
+            });
+        });
+    return tiers;
+};
+
+/**
+ * The instruction that turns a generic outreach draft into one written to a single
+ * sponsor, addressed to its first contact.
+ */
+export const createSponsorStyle = (sponsor: Sponsor): ContentVariantStyle => {
+    const contact = sponsor.contacts[0];
+    const details = [
+        `Write this for ${sponsor.company}${contact ? `, addressed to ${contact.name}${contact.role ? ` (${contact.role})` : ''}` : ''}.`,
+        sponsor.tier && `They are being offered the ${sponsor.tier} tier${sponsor.amount ? ` at ${formatCurrency(sponsor.amount)}` : ''}.`,
+        sponsor.stage !== SponsorStage.IDENTIFIED && `They have already been contacted and are at the "${sponsor.stage}" stage, so write a follow-up rather than a first introduction.`,
+        sponsor.notes.trim() && `Notes from the organizers about them: ${sponsor.notes.trim().replace(/([^.!?])$/, '$1.')}`,
+        'Use their real names and leave no placeholders such as [Sponsor Name].',
+    ];
+    return { label: sponsor.company, instruction: details.filter(Boolean).join(' '), sponsor };
+};
+
+/**
+ * Puts the drafts for each sponsor into one document for review, each under a
+ * heading naming the sponsor and who it is addressed to.
+ */
+export const combineSponsorDrafts = (sponsors: Sponsor[], contents: string[]): string =>
+    sponsors.map((sponsor, index) => {
+        const contact = sponsor.contacts[0];
+        const recipient = contact ? ` – ${contact.name}${contact.email ? ` <${contact.email}>` : ''}` : '';
+        return `### ${sponsor.company}${recipient}\n\n${contents[index] ?? ''}`;
+    }).join('\n\n---\n\n');
+
+/**
+ * Reads each sponsor's draft back out of a document put together by
+ * `combineSponsorDrafts`, e.g. after a reviewer edited it. Sections are found by the
+ * sponsors' headings, so a draft may contain anything, horizontal rules included.
+ * @param sponsors The sponsors the document was written to.
+ * @returns Each sponsor's draft by sponsor ID. Sponsors whose heading is missing are left out.
+ */
+export const splitSponsorDrafts = (content: string, sponsors: Sponsor[]): Record<string, string> => {
+    const lines = content.split('\n');
+    const isHeading = (line: string, sponsor: Sponsor) => {
+        const heading = `### ${sponsor.company}`;
+        return line.trim() === heading || line.trim().startsWith(`${heading} – `);
+    };
+    const sections = sponsors
+        .map(sponsor => ({ sponsor, start: lines.findIndex(line => isHeading(line, sponsor)) }))
+        .filter(section => section.start >= 0)
+        .sort((a, b) => a.start - b.start);
+
+    return Object.fromEntries(sections.map(({ sponsor, start }, index) => {
+        const isLast = index + 1 === sections.length;
+        const body = lines.slice(start + 1, isLast ? lines.length : sections[index + 1].start).join('\n').trim();
+        // Drop the rule `combineSponsorDrafts` puts between sections.
+        return [sponsor.id, isLast ? body : body.replace(/(^|\n)\s*---$/, '').trim()];
+    }));
+};
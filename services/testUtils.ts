@@ -0,0 +1,19 @@
+import { AgentName, Task, TaskStatus } from '../types';
+
+/**
+ * Fixtures shared by the services' unit tests.
+ */
+
+// A pending one-day task of the Logistics Coordinator, titled after its id.
+export const createTask = (id: string, overrides: Partial<Task> = {}): Task => ({
+    id,
+    title: `Task ${id}`,
+    description: '',
+    assignedTo: AgentName.LOGISTICS_COORDINATOR,
+    dependsOn: [],
+    estimatedDuration: 1,
+    status: TaskStatus.PENDING,
+    progress: 0,
+    retries: 0,
+    ...overrides,
+});
@@ -0,0 +1,66 @@
+/**
+ * Word-level text diff used to compare content revisions. Whitespace is kept as its
+ * own token so that the diff can be rendered back into the original layout.
+ */
+
+export interface DiffSegment {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+// Above this many token comparisons the diff falls back to whole lines, which keeps
+// long documents fast at the cost of coarser highlighting.
+const MAX_WORD_DIFF_CELLS = 4_000_000;
+
+const tokenizeWords = (text: string): string[] => text.split(/(\s+)/).filter(token => token !== '');
+
+const tokenizeLines = (text: string): string[] => text.split(/(?<=\n)/);
+
+// Merges neighbouring segments of the same type so that the output renders compactly.
+const pushSegment = (segments: DiffSegment[], type: DiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+        last.text += text;
+    } else {
+        segments.push({ type, text });
+    }
+};
+
+/**
+ * Returns the segments that turn `before` into `after`, based on the longest common
+ * subsequence of their tokens.
+ */
+export const diffText = (before: string, after: string): DiffSegment[] => {
+    let a = tokenizeWords(before);
+    let b = tokenizeWords(after);
+    if (a.length * b.length > MAX_WORD_DIFF_CELLS) {
+        a = tokenizeLines(before);
+        b = tokenizeLines(after);
+    }
+
+    // lcs[i][j] is the length of the longest common subsequence of a[i..] and b[j..].
+    const lcs: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const segments: DiffSegment[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            pushSegment(segments, 'same', a[i]);
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            pushSegment(segments, 'removed', a[i++]);
+        } else {
+            pushSegment(segments, 'added', b[j++]);
+        }
+    }
+    while (i < a.length) pushSegment(segments, 'removed', a[i++]);
+    while (j < b.length) pushSegment(segments, 'added', b[j++]);
+    return segments;
+};
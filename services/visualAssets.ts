@@ -0,0 +1,219 @@
+import { AgentDefinition, EventDates, FileAttachment, Task, UserProfile, VisualAssetKind, VisualTemplate } from '../types';
+import { VISUAL_TEMPLATES } from '../constants';
+import { parseDateKey } from './calendar';
+import { getImageProvider } from './imageProvider';
+import { splitChannelPosts } from './socialPosts';
+
+/**
+ * Visual drafts for Marketing tasks: posters and social cards drawn as SVG from
+ * templates filled with the event's name, dates and venue, optionally over artwork
+ * from an image model. Plain template drawings are small enough to be kept as data
+ * URLs; with artwork they are uploaded to storage and only their links are kept.
+ */
+
+// Stores a visual's file and resolves with the URL it can be downloaded from.
+export type VisualUploader = (file: File) => Promise<string>;
+
+// What a visual asset shows.
+export interface PosterDetails {
+    eventName: string;
+    // e.g. "22–24 October 2026", or a placeholder while the dates are not set.
+    dates: string;
+    venue: string;
+    // A line from the task's content, e.g. the hook of its first post.
+    tagline: string;
+}
+
+const COLORS = {
+    background: '#111827',
+    backgroundEnd: '#312E81',
+    highlight: '#6366F1',
+    highlightLight: '#A5B4FC',
+    text: '#F9FAFB',
+    secondaryText: '#D1D5DB',
+};
+const FONT_FAMILY = "'Space Grotesk', 'Helvetica Neue', Arial, sans-serif";
+// The average width of a character relative to the font size, used to wrap lines.
+const CHARACTER_WIDTH = 0.58;
+const MAX_TAGLINE_LENGTH = 120;
+
+export const getVisualTemplate = (kind: VisualAssetKind): VisualTemplate =>
+    VISUAL_TEMPLATES.find(template => template.kind === kind) ?? VISUAL_TEMPLATES[0];
+
+/**
+ * The visuals a task designs with its content. Only agents that write social posts design any.
+ */
+export const getTaskVisuals = (task: Task, agent: AgentDefinition | undefined): VisualAssetKind[] =>
+    agent?.outputFormat === 'social-post' ? task.visuals ?? [] : [];
+
+export const formatEventDates = (eventDates: EventDates | null): string => {
+    if (!eventDates) return 'Dates to be announced';
+    return new Intl.DateTimeFormat(undefined, { day: 'numeric', month: 'long', year: 'numeric' })
+        .formatRange(parseDateKey(eventDates.startDate), parseDateKey(eventDates.endDate));
+};
+
+/**
+ * Picks a short line for the visuals out of generated content: the first sentence that
+ * is not a heading, with Markdown, links and hashtags removed.
+ */
+export const extractTagline = (content: string): string => {
+    const posts = splitChannelPosts(content);
+    const text = posts.length > 0 ? posts[0].text : content;
+    const line = text
+        .split('\n')
+        .map(l => l
+            .replace(/^\s*(#+|[-*>]|\d+\.)\s*/, '')
+            .replace(/[*_`]/g, '')
+            .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+            .replace(/https?:\/\/\S+/g, '')
+            .replace(/(^|\s)#[\p{L}\p{N}_]+/gu, '')
+            .trim())
+        .find(l => l.length > 0 && !/^(subject:|---)/i.test(l)) ?? '';
+    const sentence = line.match(/^.+?[.!?](\s|$)/)?.[0].trim() ?? line;
+    if (sentence.length <= MAX_TAGLINE_LENGTH) return sentence;
+    return `${sentence.slice(0, MAX_TAGLINE_LENGTH).replace(/\s+\S*$/, '')}…`;
+};
+
+export const getPosterDetails = (task: Task, content: string, projectName: string | null, eventDates: EventDates | null, userProfile: UserProfile | null): PosterDetails => ({
+    eventName: projectName?.trim() || task.title,
+    dates: formatEventDates(eventDates),
+    venue: [userProfile?.institution, userProfile?.city].filter(Boolean).join(', ') || 'Venue to be announced',
+    tagline: extractTagline(content),
+});
+
+const escapeXml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Breaks text into lines of at most `maxChars`, ending the last line with an ellipsis
+// when it does not fit in `maxLines`.
+const wrapText = (text: string, maxChars: number, maxLines: number): string[] => {
+    const lines: string[] = [];
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        const last = lines[lines.length - 1];
+        if (last !== undefined && `${last} ${word}`.length <= maxChars) {
+            lines[lines.length - 1] = `${last} ${word}`;
+        } else {
+            lines.push(word);
+        }
+    }
+    if (lines.length <= maxLines) return lines;
+    const kept = lines.slice(0, maxLines);
+    kept[maxLines - 1] = `${kept[maxLines - 1].replace(/[\s.,;:!?]*$/, '')}…`;
+    return kept;
+};
+
+// The largest font size up to `maxSize` at which the longest word still fits the width.
+const fitFontSize = (text: string, width: number, maxSize: number): number => {
+    const longestWord = Math.max(...text.split(/\s+/).map(word => word.length), 1);
+    return Math.min(maxSize, Math.floor(width / (longestWord * CHARACTER_WIDTH)));
+};
+
+const lineHeight = (fontSize: number): number => Math.round(fontSize * 1.15);
+
+const textBlock = (lines: string[], x: number, y: number, fontSize: number, attributes: string): string =>
+    `<text x="${x}" y="${y}" font-size="${fontSize}" ${attributes}>${lines
+        .map((line, i) => `<tspan x="${x}" dy="${i === 0 ? 0 : lineHeight(fontSize)}">${escapeXml(line)}</tspan>`)
+        .join('')}</text>`;
+
+/**
+ * Draws a visual asset as an SVG document.
+ * @param artwork A data URL of a background image, e.g. from an image model.
+ */
+export const renderVisualAsset = (kind: VisualAssetKind, details: PosterDetails, artwork?: string): string => {
+    const { width, height } = getVisualTemplate(kind);
+    const isPoster = kind === 'poster';
+    const margin = Math.round(width * (isPoster ? 0.08 : 0.06));
+    const textWidth = width - margin * 2;
+
+    const titleSize = fitFontSize(details.eventName, textWidth, isPoster ? 150 : 84);
+    const titleLines = wrapText(details.eventName, Math.floor(textWidth / (titleSize * CHARACTER_WIDTH)), isPoster ? 3 : 2);
+    const taglineSize = isPoster ? 44 : 30;
+    const taglineLines = details.tagline ? wrapText(details.tagline, Math.floor(textWidth / (taglineSize * CHARACTER_WIDTH)), isPoster ? 3 : 1) : [];
+    const detailSize = isPoster ? 48 : 30;
+
+    const venueY = height - margin;
+    const datesY = venueY - Math.round(detailSize * 1.4);
+    // Posters hang the title from the upper third; cards stack everything above the dates.
+    let titleY: number, barY: number, taglineY: number;
+    if (isPoster) {
+        titleY = Math.round(height * 0.3);
+        barY = titleY + (titleLines.length - 1) * lineHeight(titleSize) + Math.round(titleSize * 0.5);
+        taglineY = barY + Math.round(taglineSize * 2);
+    } else {
+        taglineY = datesY - Math.round(detailSize * 1.9);
+        barY = taglineY - Math.round(taglineSize * (taglineLines.length > 0 ? 1.7 : 0.6));
+        titleY = barY - Math.round(titleSize * 0.5) - (titleLines.length - 1) * lineHeight(titleSize);
+    }
+
+    const background = artwork
+        ? `<image href="${escapeXml(artwork)}" x="0" y="0" width="${width}" height="${height}" preserveAspectRatio="xMidYMid slice"/>
+  <rect width="${width}" height="${height}" fill="url(#shade)"/>`
+        : `<rect width="${width}" height="${height}" fill="url(#backdrop)"/>
+  <circle cx="${width}" cy="0" r="${Math.round(width * 0.55)}" fill="${COLORS.highlight}" opacity="0.25"/>
+  <circle cx="0" cy="${height}" r="${Math.round(width * 0.35)}" fill="${COLORS.highlightLight}" opacity="0.12"/>`;
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <defs>
+    <linearGradient id="backdrop" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0" stop-color="${COLORS.background}"/>
+      <stop offset="1" stop-color="${COLORS.backgroundEnd}"/>
+    </linearGradient>
+    <linearGradient id="shade" x1="0" y1="0" x2="0" y2="1">
+      <stop offset="0" stop-color="${COLORS.background}" stop-opacity="0.35"/>
+      <stop offset="1" stop-color="${COLORS.background}" stop-opacity="0.85"/>
+    </linearGradient>
+  </defs>
+  ${background}
+  <g font-family="${escapeXml(FONT_FAMILY)}">
+    ${textBlock(titleLines, margin, titleY, titleSize, `font-weight="700" fill="${COLORS.text}"`)}
+    <rect x="${margin}" y="${barY}" width="${Math.round(width * 0.18)}" height="${isPoster ? 14 : 8}" rx="4" fill="${COLORS.highlight}"/>
+    ${taglineLines.length > 0 ? textBlock(taglineLines, margin, taglineY, taglineSize, `fill="${COLORS.secondaryText}"`) : ''}
+    ${textBlock([details.dates], margin, datesY, detailSize, `font-weight="700" fill="${COLORS.highlightLight}"`)}
+    ${textBlock(wrapText(details.venue, Math.floor(textWidth / (detailSize * 0.8 * CHARACTER_WIDTH)), 1), margin, venueY, Math.round(detailSize * 0.8), `fill="${COLORS.text}"`)}
+  </g>
+</svg>`;
+};
+
+const slugify = (text: string): string =>
+    text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'event';
+
+export const createSvgAttachment = (kind: VisualAssetKind, svg: string, eventName: string, now: Date): FileAttachment => ({
+    id: `asset-${kind}-${now.getTime()}`,
+    name: `${slugify(eventName)}-${kind}.svg`,
+    type: 'image/svg+xml',
+    size: new TextEncoder().encode(svg).length,
+    url: `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`,
+});
+
+/**
+ * Designs the requested visuals. Without an image model or a way to upload them, or
+ * when either fails, they are drawn from the templates alone.
+ * @param upload Stores visuals drawn over artwork, which are too large for the session's
+ *     documents: Firestore allows 1 MB per document, and approvals and tasks carry their visuals.
+ */
+export const generateVisualAssets = async (kinds: VisualAssetKind[], details: PosterDetails, upload: VisualUploader | null, signal?: AbortSignal): Promise<FileAttachment[]> => {
+    const provider = getImageProvider();
+    let artwork: string | undefined;
+    if (provider && upload && kinds.length > 0) {
+        const prompt = `Background artwork for a poster of "${details.eventName}"${details.tagline ? `: ${details.tagline}` : ''}. Bold, vibrant and abstract, with space for text. Do not include any words, letters or logos.`;
+        try {
+            artwork = await provider.generateImage(prompt, signal);
+        } catch (error) {
+            console.error(`Failed to generate artwork with ${provider.name}, using the plain templates:`, error);
+        }
+    }
+    const now = new Date();
+    const drawTemplates = () => kinds.map(kind => createSvgAttachment(kind, renderVisualAsset(kind, details, undefined), details.eventName, now));
+    if (!artwork || !upload) return drawTemplates();
+
+    try {
+        return await Promise.all(kinds.map(async kind => {
+            const svg = renderVisualAsset(kind, details, artwork);
+            const asset = createSvgAttachment(kind, svg, details.eventName, now);
+            return { ...asset, url: await upload(new File([svg], asset.name, { type: asset.type })) };
+        }));
+    } catch (error) {
+        console.error("Failed to upload the visuals, using the plain templates:", error);
+        return drawTemplates();
+    }
+};
@@ -3,6 +3,8 @@ import { Timestamp } from 'firebase/firestore';
 // Fix: Define and export all necessary enums and interfaces for the application.
 // This file should only contain type definitions.
 
+// The agents that ship with the app. Tasks, approvals and logs refer to agents by
+// name, so custom agents registered in a session are plain strings.
 export enum AgentName {
     MASTER_PLANNER = 'Master Planner',
     LOGISTICS_COORDINATOR = 'Logistics Coordinator',
@@ -25,6 +27,18 @@ export enum AgentStatus {
     ERROR = 'Error',
 }
 
+export enum CostCategory {
+    VENUE = 'Venue',
+    CATERING = 'Catering',
+    EQUIPMENT = 'Equipment',
+    MARKETING = 'Marketing',
+    PRINTING = 'Printing',
+    TRAVEL = 'Travel',
+    STAFFING = 'Staffing',
+    PRIZES = 'Prizes',
+    MISCELLANEOUS = 'Miscellaneous',
+}
+
 export interface FileAttachment {
     id: string;
     name: string;
@@ -37,41 +51,382 @@ export interface Task {
     id:string;
     title: string;
     description: string;
-    assignedTo: AgentName;
+    // The name of a registered agent (see AgentDefinition).
+    assignedTo: string;
+    // The team member doing the work alongside (or instead of) the agent.
+    assigneeId?: string;
     dependsOn?: string[];
     estimatedDuration?: number;
     status: TaskStatus;
     progress: number;
     retries: number;
     approvedContent?: string;
+    // The approved draft for each sponsor, by sponsor ID, when the content was personalized.
+    // Emails to a sponsor's contacts are only ever written from their sponsor's draft.
+    sponsorDrafts?: Record<string, string>;
+    // Every AI draft, human edit and approval of the task's content, oldest first.
+    revisions?: ContentRevision[];
     customPrompt?: string;
+    // How many variants to generate, overriding the agent's default once set when regenerating.
+    variantCount?: number;
+    // Who must sign off on the task's content, overriding the agent's policy.
+    approvalPolicy?: ApprovalPolicy;
+    comments?: DiscussionComment[];
+    // Organizers' comments passed to the agent with the next regeneration.
+    reviewerFeedback?: string;
     startDate?: string;
     parentId?: string;
     attachments?: FileAttachment[];
+    // Budget fields. Amounts are in BUDGET_CURRENCY; only leaf tasks are counted in the ledger.
+    estimatedCost?: number;
+    actualCost?: number;
+    costCategory?: CostCategory;
+    // Income secured by a sponsorship task (e.g. sponsor commitments).
+    committedAmount?: number;
+    // Sponsors the task's content is written to, one personalized draft each.
+    sponsorIds?: string[];
+    // Every email the approved content was sent as, oldest first.
+    deliveries?: EmailDelivery[];
+    // The networks a social post task writes for, one post each. Unset means every
+    // channel; empty means a single post with the agent's usual variants.
+    channels?: SocialChannel[];
+    // The task's approved posts, scheduled to go out on their channels.
+    posts?: ScheduledPost[];
+    // The visual assets designed along with the task's content, e.g. a poster.
+    visuals?: VisualAssetKind[];
+    // ISO timestamp of when the task was last completed, used for the budget burn-down.
+    completedAt?: string;
+}
+
+// The outcome of sending a task's approved content to one recipient.
+export interface EmailDelivery {
+    id: string;
+    recipientName: string;
+    email: string;
+    // Set when the recipient is one of a sponsor's contacts.
+    sponsorId?: string;
+    subject: string;
+    status: 'sent' | 'failed';
+    error?: string;
+    // The mail transport it went through, e.g. "Local outbox".
+    transport: string;
+    sentBy: string;
+    // ISO timestamp.
+    sentAt: string;
+}
+
+// A social network that Marketing content is written for.
+export type SocialChannel = 'instagram' | 'x' | 'linkedin';
+
+// What a post on a channel has to fit in.
+export interface SocialChannelSpec {
+    id: SocialChannel;
+    label: string;
+    // In characters, including hashtags and links.
+    maxLength: number;
+    maxHashtags: number;
+    // How posts on the channel are usually written, passed to the agent.
+    guidance: string;
+}
+
+export type ScheduledPostStatus = 'scheduled' | 'published' | 'failed';
+
+// One channel's post from a task's approved content, set to be published at a given time.
+export interface ScheduledPost {
+    id: string;
+    channel: SocialChannel;
+    text: string;
+    // ISO timestamp.
+    publishAt: string;
+    status: ScheduledPostStatus;
+    scheduledBy: string;
+    // The publishing adapter it went out through, once it has been tried.
+    adapter?: string;
+    // ISO timestamp of when it was published.
+    publishedAt?: string;
+    // Where the published post can be seen, if the adapter reports it.
+    url?: string;
+    error?: string;
+}
+
+// A kind of visual a Marketing task can design from the event's details.
+export type VisualAssetKind = 'poster' | 'social-card';
+
+// The layout a visual asset is drawn in, in pixels.
+export interface VisualTemplate {
+    kind: VisualAssetKind;
+    label: string;
+    width: number;
+    height: number;
+    // What it is for, shown when choosing the task's visuals.
+    description: string;
+}
+
+// A message in the discussion of a task or of a draft awaiting approval.
+export interface DiscussionComment {
+    id: string;
+    // Set on replies: the comment that starts the thread.
+    replyTo?: string;
+    authorName: string;
+    // Lowercased, so that the author's own comments are never unread.
+    authorEmail: string | null;
+    body: string;
+    // Lowercased emails of the people mentioned with @.
+    mentions: string[];
+    // ISO timestamp.
+    createdAt: string;
+    // Set when the comment was made on a draft awaiting approval.
+    approvalId?: string;
+}
+
+export type RevisionKind = 'draft' | 'edit' | 'approval' | 'restore';
+
+// One version of a task's content, kept as an audit trail of who wrote and approved what.
+export interface ContentRevision {
+    id: string;
+    kind: RevisionKind;
+    // 'ai' for agent drafts; edits, approvals and restores are made by people.
+    source: 'ai' | 'human';
+    // The agent that wrote a draft, or the organizer who edited, approved or restored.
+    author: string;
+    content: string;
+    // ISO timestamp.
+    createdAt: string;
+    // The variant style of an AI draft.
+    label?: string;
+    // The revision a restore brought back.
+    restoredFrom?: string;
+}
+
+// One piece of generated content, labelled with the style it was written in.
+export interface ContentDraft {
+    label: string;
+    content: string;
+    // The draft written to each sponsor, by sponsor ID, when the content is personalized.
+    // `content` combines them into one document for review.
+    sponsorDrafts?: Record<string, string>;
+}
+
+// A tone or length a content variant is written in.
+export interface ContentVariantStyle {
+    label: string;
+    // Added to the agent's instructions; empty for the agent's usual style.
+    instruction: string;
+    // Set when the draft is personalized for one sponsor.
+    sponsor?: Sponsor;
+    // Set when the draft is a post for one social channel.
+    channel?: SocialChannel;
+    // Facts about the event the draft should rely on, e.g. how many have registered.
+    context?: string;
+}
+
+// 'all' needs every listed approver to approve; 'any' needs one of them.
+export type ApprovalRule = 'all' | 'any';
+
+// Who must sign off on content, e.g. "the faculty advisor and the treasurer".
+export interface ApprovalPolicy {
+    // Team member ids.
+    approverIds: string[];
+    rule: ApprovalRule;
+}
+
+// One required approver's sign-off or rejection.
+export interface ApproverDecision {
+    approverId: string;
+    decision: 'approved' | 'rejected';
+    comment?: string;
+    // ISO timestamp.
+    decidedAt: string;
 }
 
 export interface Approval {
     id: string;
     taskId: string;
-    agent: AgentName;
+    agent: string;
     title: string;
+    // The first variant, or the only draft when a single one was generated.
     content: string;
-    status: 'pending' | 'approved' | 'rejected';
+    // Every variant, side by side, when more than one was generated.
+    variants?: ContentDraft[];
+    // Drafts from earlier rounds that were regenerated, oldest first.
+    history?: ContentDraft[];
+    // Visual drafts designed with the content, added to the task's attachments once approved.
+    assets?: FileAttachment[];
+    // The draft written to each sponsor, by sponsor ID, when the content is personalized.
+    sponsorDrafts?: Record<string, string>;
+    // 'generating' while the agent is still streaming the draft into `content`.
+    status: 'generating' | 'pending' | 'approved' | 'rejected';
+    // The policy in force when the draft was written. Without one, the first approver's decision is final.
+    policy?: ApprovalPolicy;
+    // Decisions of the policy's approvers in this round, in the order they were made.
+    decisions?: ApproverDecision[];
+    // Moved to the task once the content is approved.
+    comments?: DiscussionComment[];
+    // Set when the draft is an organizer's edit of the task's approved result. The approved
+    // result stays in use until the edit is approved, and a rejected edit is discarded.
+    isResultEdit?: boolean;
 }
 
 export interface ActivityLog {
-    agent: AgentName;
+    agent: string;
     message: string;
     timestamp: Date;
 }
 
+export interface CalendarHoliday {
+    // Local date as YYYY-MM-DD.
+    date: string;
+    name: string;
+}
+
+// A stretch of days when no work is scheduled, e.g. exam weeks. Both ends are inclusive.
+export interface CalendarBlackout {
+    id: string;
+    name: string;
+    startDate: string;
+    endDate: string;
+}
+
+// The days on which task work can be scheduled.
+export interface ProjectCalendar {
+    // Days of the week, 0 (Sunday) to 6 (Saturday).
+    workingDays: number[];
+    holidays: CalendarHoliday[];
+    blackouts: CalendarBlackout[];
+}
+
+// The days the event itself runs, as local YYYY-MM-DD dates. Both ends are inclusive.
+// All preparation has to be finished before the first day.
+export interface EventDates {
+    startDate: string;
+    endDate: string;
+}
+
+// How an agent's generated content is shaped, e.g. an email with a subject line.
+export type AgentOutputFormat = 'text' | 'email' | 'social-post' | 'markdown';
+
+// Capabilities an agent may use while generating content. Providers that do not
+// support a tool ignore it.
+export type AgentTool = 'web-search';
+
+// An agent the Master Planner can delegate tasks to. The built-in agents are
+// registered by default and organizers can edit them or add their own.
+export interface AgentDefinition {
+    // Unique within the registry; cannot change once tasks refer to it.
+    name: string;
+    // What the agent handles. Shown on the dashboard and given to the Master Planner.
+    description: string;
+    // Key of AGENT_ICONS.
+    icon: string;
+    // A Tailwind text color from AGENT_COLORS.
+    color: string;
+    // True for agents that draft content for approval; false for manual work the user completes.
+    generatesContent: boolean;
+    systemPrompt: string;
+    outputFormat: AgentOutputFormat;
+    tools: AgentTool[];
+    // How many variants to draft side by side, up to MAX_CONTENT_VARIANTS.
+    variantCount: number;
+    // Who must sign off on the agent's content, unless a task sets its own policy.
+    approvalPolicy?: ApprovalPolicy;
+}
+
+// A person on the organizing team, e.g. a volunteer who can be assigned tasks.
+export interface TeamMember {
+    id: string;
+    name: string;
+    // Stored lowercased; used to find the signed-in user's own tasks.
+    email: string;
+    role: string;
+    // Free text, e.g. "Weekends only" or "After 5pm".
+    availability: string;
+}
+
+// Where a sponsor is in the outreach pipeline, in order.
+export enum SponsorStage {
+    IDENTIFIED = 'Identified',
+    CONTACTED = 'Contacted',
+    NEGOTIATING = 'Negotiating',
+    COMMITTED = 'Committed',
+    PAID = 'Paid',
+}
+
+export interface SponsorContact {
+    name: string;
+    email: string;
+    // e.g. "Head of Marketing".
+    role: string;
+}
+
+// A company the organizers are asking for sponsorship.
+export interface Sponsor {
+    id: string;
+    company: string;
+    // The first contact is the one outreach is addressed to.
+    contacts: SponsorContact[];
+    // One of the tiers from the plan's sponsorship tiers, e.g. "Gold". Empty until offered.
+    tier: string;
+    stage: SponsorStage;
+    // The amount asked for, or agreed once committed, in BUDGET_CURRENCY.
+    amount?: number;
+    notes: string;
+}
+
+// A kind of ticket attendees can register for, e.g. "Student pass".
+export interface TicketType {
+    id: string;
+    name: string;
+    // In BUDGET_CURRENCY; 0 for free tickets. Shown on the form, collected outside the app.
+    price: number;
+    // Registration for the ticket type closes once this many have registered.
+    capacity: number;
+    description?: string;
+}
+
+// The public registration form of a plan. Anyone with its link can read it.
+export interface RegistrationPage {
+    eventName: string;
+    description: string;
+    venue: string;
+    eventDates: EventDates | null;
+    isOpen: boolean;
+    ticketTypes: TicketType[];
+}
+
+// Someone who registered through the public form.
+export interface Attendee {
+    id: string;
+    name: string;
+    // Stored lowercased.
+    email: string;
+    ticketTypeId: string;
+    // Printed on the ticket and encoded in its QR code; checked at the door.
+    ticketCode: string;
+    // ISO timestamp.
+    registeredAt: string;
+    checkedInAt?: string;
+}
+
+// The registration page with how many have registered for each ticket type, keyed by ticket type id.
+export interface RegistrationStatus {
+    page: RegistrationPage;
+    counts: Record<string, number>;
+}
+
 export interface AppState {
     tasks: Task[];
     approvals: Approval[];
     logs: ActivityLog[];
-    agentStatus: Record<AgentName, AgentStatus>;
-    agentWork: Record<AgentName, string | null>;
+    // Keyed by agent name, including the Master Planner.
+    agentStatus: Record<string, AgentStatus>;
+    agentWork: Record<string, string | null>;
     isStarted: boolean;
+    calendar: ProjectCalendar;
+    eventDates: EventDates | null;
+    team: TeamMember[];
+    sponsors: Sponsor[];
+    // The agents available in this plan, excluding the Master Planner.
+    agents: AgentDefinition[];
 }
 
 export interface LoadedSessionState extends AppState {
@@ -79,12 +434,105 @@ export interface LoadedSessionState extends AppState {
     goalPrompt: string;
 }
 
+// The part of a task a template keeps: its place in the plan, without any progress or content.
+export type TemplateTask = Pick<Task, 'id' | 'title' | 'description' | 'assignedTo' | 'dependsOn' | 'estimatedDuration' | 'parentId' | 'startDate' | 'estimatedCost' | 'costCategory' | 'committedAmount'>;
+
+// The fields of a task the Master Planner may set when it revises a plan.
+export type PlannedTaskFields = Pick<Task, 'title' | 'description' | 'assignedTo' | 'dependsOn' | 'estimatedDuration' | 'parentId' | 'estimatedCost' | 'costCategory' | 'committedAmount'>;
+
+// A change the Master Planner proposes to an existing task.
+export interface PlanTaskModification {
+    taskId: string;
+    changes: Partial<PlannedTaskFields>;
+    reason?: string;
+}
+
+// The Master Planner's answer to a request to change the plan, reviewed before it is applied.
+export interface PlanDiff {
+    // What the planner changed and why, in a sentence or two.
+    summary: string;
+    added: (PlannedTaskFields & { id: string })[];
+    // Sub-tasks of a removed task are removed with it.
+    removed: { taskId: string; reason?: string }[];
+    modified: PlanTaskModification[];
+}
+
+// A problem found in a generated plan. Repaired issues were fixed automatically;
+// the rest need the Master Planner or an organizer to fix them.
+export type PlanIssueCode =
+    | 'empty-plan'
+    | 'missing-id'
+    | 'duplicate-id'
+    | 'missing-title'
+    | 'unknown-dependency'
+    | 'self-dependency'
+    | 'unknown-parent'
+    | 'nested-sub-task'
+    | 'unknown-agent'
+    | 'invalid-duration'
+    | 'dependency-cycle';
+
+export interface PlanIssue {
+    code: PlanIssueCode;
+    // The tasks involved, e.g. every task in a cycle.
+    taskIds: string[];
+    message: string;
+    repaired: boolean;
+}
+
+// A reusable plan, e.g. last year's fest, that new plans can start from.
+export interface PlanTemplate {
+    id: string;
+    name: string;
+    // The goal of the plan the template was saved from.
+    goalPrompt: string;
+    tasks: TemplateTask[];
+    // The event dates of the original plan. Pinned task dates move with them when a plan starts from the template.
+    eventDates: EventDates | null;
+    // Only the working weekdays carry over; holidays and blackouts belong to a particular year.
+    workingDays: number[];
+    agents: AgentDefinition[];
+    createdAt: Date;
+}
+
+
+export type SessionRole = 'owner' | 'editor' | 'approver' | 'viewer';
+
+export interface SessionMember {
+    uid: string;
+    role: SessionRole;
+    displayName: string | null;
+    email: string | null;
+    photoURL: string | null;
+    // The team member they sign off approvals as. Only the owner links it, since editors
+    // can change the roster, emails included.
+    teamMemberId?: string;
+}
+
+export interface SessionInvite {
+    // Stored lowercased so it can be matched against the signed-in user's email.
+    email: string;
+    role: Exclude<SessionRole, 'owner'>;
+    invitedBy: string;
+}
+
+// Who can access a shared session and with which role.
+export interface SessionAccess {
+    ownerId: string;
+    members: Record<string, SessionMember>;
+    // Keyed by lowercased email.
+    invites: Record<string, SessionInvite>;
+}
 
 export interface SavedSession {
     id: string;
     name: string;
     timestamp: Date;
     taskCount: number;
+    role: SessionRole;
+    ownerName: string | null;
+    // True when the user has been invited but has not opened the session yet.
+    isInvite: boolean;
 }
 
 export interface UserProfile {